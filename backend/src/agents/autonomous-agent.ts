@@ -19,9 +19,11 @@ import {
   Unsubscribe,
   LLMProviderPlugin,
   MCPServerPlugin,
+  AgentPermissions,
 } from '@mosaic/shared';
 import { EventBus, createEvent } from '../core/event-bus';
 import { logger } from '../core/logger';
+import { ToolPolicy } from '../core/tool-policy';
 import { v4 as uuid } from 'uuid';
 
 interface AutonomousAgentOptions {
@@ -32,6 +34,7 @@ interface AutonomousAgentOptions {
   mcpServers: MCPServerPlugin[];
   eventBus: EventBus;
   maxSteps?: number; // Safety limit
+  permissions?: AgentPermissions;
 }
 
 export class AutonomousAgent implements Agent {
@@ -51,6 +54,7 @@ export class AutonomousAgent implements Agent {
   private currentStep: number = 0;
   private maxSteps: number;
   private agentLogger: ReturnType<typeof logger.child>;
+  private toolPolicy: ToolPolicy;
 
   constructor(options: AutonomousAgentOptions) {
     this.id = options.id || uuid();
@@ -69,7 +73,9 @@ export class AutonomousAgent implements Agent {
       name: options.name,
       type: this.type,
       systemPrompt: this.buildSystemPrompt(),
+      permissions: options.permissions,
     };
+    this.toolPolicy = new ToolPolicy(options.permissions);
 
     this.agentLogger = logger.child({ agentId: this.id, agentName: this.name });
     this.metadata.createdAt = new Date().toISOString();
@@ -327,7 +333,7 @@ export class AutonomousAgent implements Agent {
 
     this.agentLogger.debug('Executing tool', { toolName, params });
 
-    const result = await server.invokeTool(method, params);
+    const result = await this.toolPolicy.invoke(server, method, params, { agentId: this.id });
 
     await this.eventBus.publish(
       'tool.invoked',
@@ -2,7 +2,8 @@
  * LangGraph-based Agent
  *
  * Replaces custom TaskOrientedAgent with battle-tested LangGraph orchestration.
- * Uses E2B for safe code execution and MCP servers for tools.
+ * Uses E2B for safe code execution (falling back to a local sandbox provider
+ * when the agent's permissions allow it) and MCP servers for tools.
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -16,26 +17,76 @@ import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
 
 import type { Agent, AgentStatus } from './base-agent';
-import type { Task } from '@mosaic/shared';
+import type { JSONSchema, Task } from '@mosaic/shared';
 import type { EventBus } from '../core/event-bus';
 import type { TaskManager } from '../services/task/task-manager.service';
 import type { SessionManager } from '../services/session/session-manager.service';
 import type { MemoryManager } from '../services/memory/memory-manager.service';
-import type { LLMProviderPlugin, MCPServerPlugin } from '@mosaic/shared';
-import { convertMCPToLangChainTools } from './utils/mcp-to-langchain';
+import { ContextAssembler } from '../services/memory/context-assembler';
+import {
+  CoreMemoryEdit,
+  CoreMemoryService,
+  getCoreMemoryService,
+} from '../services/memory/core-memory.service';
+import { CORE_MEMORY_TOOLS, invokeCoreMemoryTool } from '../services/memory/core-memory-tools';
+import {
+  SHARED_MEMORY_TOOLS,
+  invokeSharedMemoryTool,
+} from '../services/memory/shared-memory-tools';
+import type {
+  A2AMessage,
+  AgentCard,
+  AgentPermissions,
+  ApprovalPolicy,
+  LLMProviderPlugin,
+  MCPToolCaller,
+  MessageHandler,
+  MCPServerPlugin,
+  MemoryEntry,
+  Sandbox,
+  SandboxProviderPlugin,
+  TaskLease,
+  Unsubscribe,
+} from '@mosaic/shared';
+import {
+  convertMCPToLangChainTools,
+  createLangChainTools,
+  createResourceLangChainTools,
+} from './utils/mcp-to-langchain';
+import { hasResources, invokeResourceTool } from '../mcp/resource-tools';
+import { AgentMessageBus, BROADCAST, SEND_MESSAGE_TOOL } from '../core/agent-message-bus';
+import type { OpenAICompatibleProvider } from '../llm/openai-compatible-provider';
 import { Logger } from '../core/logger';
+import { ToolPolicy } from '../core/tool-policy';
+import type { ApprovalManager } from '../services/approval/approval-manager.service';
+
+// Input of execute_python, checked again when an operator edits the call
+const EXECUTE_PYTHON_INPUT: JSONSchema = {
+  type: 'object',
+  properties: { code: { type: 'string', minLength: 1 } },
+  required: ['code'],
+};
 
 interface LangGraphAgentOptions {
   name: string;
   llmProvider: LLMProviderPlugin;
   model?: string;
+  modelEndpoint?: string; // Base URL override for OpenAI-compatible providers
   mcpServers: MCPServerPlugin[];
   eventBus: EventBus;
   taskManager: TaskManager;
   sessionManager: SessionManager;
+  sessionId?: string; // Session LLM usage is charged to; a throwaway ID when omitted
   memoryManager: MemoryManager;
+  coreMemory?: CoreMemoryService; // Blocks the agent edits with the core_memory_* tools
   maxDepth?: number;
   useE2B?: boolean; // Enable E2B code interpreter
+  sandboxProvider?: SandboxProviderPlugin; // Local fallback when E2B is unavailable
+  capabilities?: string[]; // Advertised in the agent card for task delegation
+  messageBus?: AgentMessageBus; // A2A messaging with other agents
+  permissions?: AgentPermissions;
+  approvalManager?: ApprovalManager; // Pauses calls listed in approvalPolicy for an operator
+  approvalPolicy?: ApprovalPolicy;
 }
 
 export class LangGraphAgent implements Agent {
@@ -46,22 +97,35 @@ export class LangGraphAgent implements Agent {
 
   private llmProvider: LLMProviderPlugin;
   private model?: string;
+  private modelEndpoint?: string;
   private mcpServers: Map<string, MCPServerPlugin>;
   private eventBus: EventBus;
   private taskManager: TaskManager;
   private sessionManager: SessionManager;
   private memoryManager: MemoryManager;
+  private contextAssembler: ContextAssembler;
+  private coreMemory: CoreMemoryService;
   private maxDepth: number;
   private useE2B: boolean;
+  private sandboxProvider?: SandboxProviderPlugin;
+  private capabilities: string[];
+  private messageBus?: AgentMessageBus;
+  private permissions: AgentPermissions;
+  private toolPolicy: ToolPolicy;
+  private messageHandlers: Set<MessageHandler> = new Set();
+  private unregisterInbox?: Unsubscribe;
 
   // LangGraph components
   private agent: any;
   private checkpointer: MemorySaver;
   private e2bSandbox?: CodeInterpreter;
+  private localSandbox?: Sandbox;
 
   // Session tracking
   private sessionId: string;
+  private hasSession: boolean;
   private currentTaskId?: string;
+  private llmRunStarts: Map<string, number> = new Map();
 
   private agentLogger: Logger;
   public metadata: Record<string, any> = {};
@@ -72,15 +136,37 @@ export class LangGraphAgent implements Agent {
     this.name = options.name;
     this.llmProvider = options.llmProvider;
     this.model = options.model;
+    this.modelEndpoint = options.modelEndpoint;
     this.mcpServers = new Map(options.mcpServers.map(s => [s.name, s]));
     this.eventBus = options.eventBus;
     this.taskManager = options.taskManager;
     this.sessionManager = options.sessionManager;
     this.memoryManager = options.memoryManager;
+    this.coreMemory = options.coreMemory || getCoreMemoryService();
+    this.contextAssembler = new ContextAssembler(this.memoryManager, this.taskManager, {
+      coreMemory: (agentId) => this.coreMemory.getBlocks(agentId),
+      reader: (agentId) =>
+        this.memoryManager.readerFor(
+          agentId,
+          this.hasSession ? this.sessionId : undefined,
+          this.permissions
+        ),
+    });
     this.maxDepth = options.maxDepth || 3;
     this.useE2B = options.useE2B ?? false;
+    this.sandboxProvider = options.sandboxProvider;
+    this.capabilities = options.capabilities || [];
+    this.messageBus = options.messageBus;
+    this.permissions = options.permissions || {};
+    this.toolPolicy = new ToolPolicy(
+      this.permissions,
+      this.sessionManager,
+      options.approvalManager,
+      options.approvalPolicy
+    );
 
-    this.sessionId = uuidv4();
+    this.sessionId = options.sessionId || uuidv4();
+    this.hasSession = !!options.sessionId;
     this.checkpointer = new MemorySaver();
     this.agentLogger = new Logger({ agent: this.name });
 
@@ -92,6 +178,9 @@ export class LangGraphAgent implements Agent {
       model: options.model,
       mcpServerNames: options.mcpServers.map(s => s.name),
       useE2B: this.useE2B,
+      capabilities: this.capabilities,
+      permissions: this.permissions,
+      approvalPolicy: options.approvalPolicy,
     };
 
     this.metadata = {
@@ -111,18 +200,42 @@ export class LangGraphAgent implements Agent {
     });
 
     // Initialize E2B sandbox if enabled
-    if (this.useE2B) {
+    if (this.useE2B && !this.toolPolicy.checkCodeExecution(true)) {
       try {
         this.agentLogger.info('Creating E2B sandbox...');
         this.e2bSandbox = await CodeInterpreter.create();
         this.agentLogger.info('E2B sandbox created', { sandboxId: this.e2bSandbox.sandboxId });
       } catch (error: any) {
-        this.agentLogger.warn('Failed to create E2B sandbox, continuing without it', {
+        this.agentLogger.warn('Failed to create E2B sandbox', { error: error.message });
+      }
+    }
+
+    // Fall back to the local sandbox when E2B is disabled or unavailable
+    if (!this.e2bSandbox && this.sandboxProvider && !this.toolPolicy.checkCodeExecution(false)) {
+      try {
+        this.localSandbox = await this.sandboxProvider.createSandbox({
+          metadata: { agentId: this.id, language: 'python' },
+        });
+        this.agentLogger.info('Using local sandbox for code execution', {
+          provider: this.sandboxProvider.name,
+          sandboxId: this.localSandbox.id,
+        });
+      } catch (error: any) {
+        this.agentLogger.warn('Failed to create local sandbox, continuing without it', {
           error: error.message,
         });
       }
     }
 
+    // Receive A2A messages from other agents
+    if (this.messageBus) {
+      this.unregisterInbox = this.messageBus.register(
+        this.id,
+        (message) => this.handleIncomingMessage(message),
+        this.permissions.agentCommunication
+      );
+    }
+
     // Build tools from MCP servers
     const tools = this.buildTools();
 
@@ -149,13 +262,19 @@ export class LangGraphAgent implements Agent {
     const model = this.getModel();
 
     const callbacks = [{
-      handleLLMStart: async (...args: any[]) => {
+      handleLLMStart: async (_llm: unknown, _prompts: string[], runId: string) => {
+        this.llmRunStarts.set(runId, Date.now());
         this.agentLogger.info('LLM call started', { model });
       },
-      handleLLMEnd: async (...args: any[]) => {
+      handleLLMEnd: async (output: any, runId: string) => {
         this.agentLogger.info('LLM call completed');
+        await this.recordUsage(model, output, runId);
+      },
+      handleLLMNewToken: async (token: string, _idx: unknown, runId: string) => {
+        await this.publishToken(token, runId);
       },
-      handleLLMError: async (error: Error) => {
+      handleLLMError: async (error: Error, runId: string) => {
+        this.llmRunStarts.delete(runId);
         this.agentLogger.error('LLM call failed', { error: error.message });
       },
       handleToolStart: async (tool: any, input: string) => {
@@ -179,6 +298,7 @@ export class LangGraphAgent implements Agent {
         model,
         temperature: 0.7,
         apiKey: process.env.ANTHROPIC_API_KEY,
+        streaming: true,
         callbacks,
         verbose: true,
       });
@@ -187,6 +307,24 @@ export class LangGraphAgent implements Agent {
         model,
         temperature: 0.7,
         apiKey: process.env.OPENAI_API_KEY,
+        streaming: true,
+        callbacks,
+        verbose: true,
+      });
+    } else if (this.llmProvider.name === 'openai-compatible-provider') {
+      const provider = this.llmProvider as OpenAICompatibleProvider;
+      if (!model) {
+        throw new Error('No model specified and LOCAL_LLM_MODEL is not set');
+      }
+
+      return new ChatOpenAI({
+        model,
+        temperature: 0.7,
+        apiKey: provider.apiKey,
+        configuration: {
+          baseURL: this.modelEndpoint || provider.baseURL,
+        },
+        streaming: true,
         callbacks,
         verbose: true,
       });
@@ -195,6 +333,91 @@ export class LangGraphAgent implements Agent {
     throw new Error(`Unsupported LLM provider: ${this.llmProvider.name}`);
   }
 
+  /**
+   * Charge a finished LLM run's token usage to the session and current task
+   */
+  private async recordUsage(model: string, output: any, runId: string): Promise<void> {
+    const startedAt = this.llmRunStarts.get(runId);
+    this.llmRunStarts.delete(runId);
+
+    const usage = this.extractUsage(output);
+    if (!usage || !this.hasSession) return;
+
+    try {
+      await this.sessionManager.recordLLMUsage(
+        this.sessionId,
+        this.id,
+        {
+          provider: this.llmProvider.name,
+          model,
+          usage,
+          duration: startedAt ? Date.now() - startedAt : undefined,
+        },
+        this.currentTaskId
+      );
+    } catch (error: any) {
+      this.agentLogger.warn('Failed to record LLM usage', { error: error.message });
+    }
+  }
+
+  /**
+   * Token counts from an LLMResult
+   * Chat models report usage_metadata on the message; older integrations
+   * only fill llmOutput (tokenUsage for OpenAI, usage for Anthropic).
+   */
+  private extractUsage(output: any): { promptTokens: number; completionTokens: number } | undefined {
+    const metadata = output?.generations?.[0]?.[0]?.message?.usage_metadata;
+    if (metadata) {
+      return {
+        promptTokens: metadata.input_tokens || 0,
+        completionTokens: metadata.output_tokens || 0,
+      };
+    }
+
+    const tokenUsage = output?.llmOutput?.tokenUsage;
+    if (tokenUsage) {
+      return {
+        promptTokens: tokenUsage.promptTokens || 0,
+        completionTokens: tokenUsage.completionTokens || 0,
+      };
+    }
+
+    const usage = output?.llmOutput?.usage;
+    if (usage) {
+      return {
+        promptTokens: usage.input_tokens || 0,
+        completionTokens: usage.output_tokens || 0,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Publish a streamed token so clients can render partial output
+   * Tool-call chunks arrive as empty tokens and are skipped.
+   */
+  private async publishToken(token: string, runId: string): Promise<void> {
+    if (!token) return;
+
+    try {
+      await this.eventBus.publish('agent.token', {
+        id: uuidv4(),
+        type: 'agent.token',
+        source: this.id,
+        timestamp: new Date().toISOString(),
+        data: {
+          agentId: this.id,
+          taskId: this.currentTaskId,
+          runId,
+          token,
+        },
+      });
+    } catch (error: any) {
+      this.agentLogger.warn('Failed to publish token', { error: error.message });
+    }
+  }
+
   /**
    * Build LangChain tools from MCP servers and E2B
    */
@@ -202,9 +425,54 @@ export class LangGraphAgent implements Agent {
     const tools: DynamicStructuredTool[] = [];
 
     // Convert MCP servers to LangChain tools
-    const mcpTools = convertMCPToLangChainTools(Array.from(this.mcpServers.values()));
+    const mcpTools = convertMCPToLangChainTools(
+      Array.from(this.mcpServers.values()),
+      (server, toolName, input) =>
+        this.toolPolicy.invoke(server, toolName, input, this.toolCaller())
+    );
     tools.push(...mcpTools);
 
+    // Resources of the MCP servers, read through the same policy
+    const servers = Array.from(this.mcpServers.values());
+    if (hasResources(servers)) {
+      tools.push(
+        ...createResourceLangChainTools((toolName, input) =>
+          invokeResourceTool(servers, toolName, input, {
+            read: (server, uri) => this.toolPolicy.readResource(server, uri, this.toolCaller()),
+            visible: (server, uri) => !this.toolPolicy.checkResource(server.name, uri),
+          })
+        )
+      );
+    }
+
+    // Core memory blocks the agent maintains itself
+    tools.push(
+      ...createLangChainTools(CORE_MEMORY_TOOLS, (toolName, input) =>
+        invokeCoreMemoryTool(this.coreMemory, this.id, toolName, input, {
+          permissions: this.permissions,
+          onEdit: (edit) => this.recordCoreMemoryEdit(toolName, input, edit),
+        })
+      )
+    );
+
+    // Learnings published for other agents
+    tools.push(
+      ...createLangChainTools(SHARED_MEMORY_TOOLS, (toolName, input) =>
+        invokeSharedMemoryTool(
+          this.memoryManager,
+          {
+            agentId: this.id,
+            sessionId: this.sessionId,
+            taskId: this.currentTaskId,
+            permissions: this.permissions,
+          },
+          toolName,
+          input,
+          (memory) => this.recordMemoryShare(toolName, input, memory)
+        )
+      )
+    );
+
     // Add E2B code interpreter if available
     if (this.e2bSandbox) {
       const e2bTool: DynamicStructuredTool = new DynamicStructuredTool({
@@ -213,9 +481,20 @@ export class LangGraphAgent implements Agent {
         schema: z.object({
           code: z.string().describe('Python code to execute'),
         }) as z.ZodObject<any>,
-        func: async ({ code }: { code: string }) => {
+        func: async (input: { code: string }) => {
+          const denied = this.toolPolicy.checkCodeExecution(true);
+          if (denied) return `Permission denied: ${denied}`;
+
+          const approval = await this.toolPolicy.authorize(
+            'execute_python',
+            input,
+            this.toolCaller(),
+            EXECUTE_PYTHON_INPUT
+          );
+          if (approval.error) return approval.error;
+
           try {
-            const execution = await this.e2bSandbox!.notebook.execCell(code);
+            const execution = await this.e2bSandbox!.notebook.execCell(approval.params.code);
 
             // Combine all output types
             const output = [
@@ -232,6 +511,80 @@ export class LangGraphAgent implements Agent {
       });
 
       tools.push(e2bTool);
+    } else if (this.localSandbox) {
+      const sandboxTool: DynamicStructuredTool = new DynamicStructuredTool({
+        name: 'execute_python',
+        description: 'Execute Python code in a secure sandbox. Use for data analysis, calculations, file processing, or any Python task. Returns the output.',
+        schema: z.object({
+          code: z.string().describe('Python code to execute'),
+        }) as z.ZodObject<any>,
+        func: async (input: { code: string }) => {
+          const denied = this.toolPolicy.checkCodeExecution(false);
+          if (denied) return `Permission denied: ${denied}`;
+
+          const approval = await this.toolPolicy.authorize(
+            'execute_python',
+            input,
+            this.toolCaller(),
+            EXECUTE_PYTHON_INPUT
+          );
+          if (approval.error) return approval.error;
+
+          try {
+            const result = await this.localSandbox!.execute(approval.params.code);
+
+            const output = [
+              result.stdout,
+              result.stderr ? `Stderr: ${result.stderr}` : null,
+              result.error ? `Error: ${result.error}` : null,
+              result.exitCode !== 0 ? `Exit code: ${result.exitCode}` : null,
+            ].filter(Boolean).join('\n');
+
+            return output || 'Code executed successfully (no output)';
+          } catch (error: any) {
+            return `Error executing code: ${error.message}`;
+          }
+        },
+      });
+
+      tools.push(sandboxTool);
+    }
+
+    // Add agent-to-agent messaging if enabled
+    if (this.messageBus && this.permissions.agentCommunication?.enabled !== false) {
+      const messageTool: DynamicStructuredTool = new DynamicStructuredTool({
+        name: SEND_MESSAGE_TOOL.name,
+        description: SEND_MESSAGE_TOOL.description,
+        schema: z.object({
+          to: z.string().describe('Target agent ID or "broadcast"'),
+          type: z.enum(['query', 'task', 'notification']).describe('Kind of message'),
+          content: z.string().describe('Message content, question, or task description'),
+          waitForResponse: z.boolean().optional().describe('Wait for the reply (direct messages only)'),
+        }) as z.ZodObject<any>,
+        func: async ({ to, type, content, waitForResponse }: {
+          to: string;
+          type: 'query' | 'task' | 'notification';
+          content: string;
+          waitForResponse?: boolean;
+        }) => {
+          try {
+            const outgoing = { from: this.id, to, type, payload: { content } };
+            const shouldWait = to !== BROADCAST && (waitForResponse ?? type === 'query');
+
+            if (shouldWait) {
+              const response = await this.messageBus!.request(outgoing);
+              return JSON.stringify(response.payload);
+            }
+
+            const sent = await this.messageBus!.send(outgoing);
+            return `Message ${sent.id} sent to ${to}`;
+          } catch (error: any) {
+            return `Error sending message: ${error.message}`;
+          }
+        },
+      });
+
+      tools.push(messageTool);
     }
 
     return tools;
@@ -250,6 +603,11 @@ export class LangGraphAgent implements Agent {
       return process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5-20250929';
     }
 
+    // Empty when unset; createLLM refuses to start without a model
+    if (this.llmProvider.name === 'openai-compatible-provider') {
+      return (this.llmProvider as OpenAICompatibleProvider).defaultModel || '';
+    }
+
     return process.env.OPENAI_MODEL || 'gpt-4';
   }
 
@@ -339,6 +697,7 @@ export class LangGraphAgent implements Agent {
    */
   async executeTask(task: Task): Promise<void> {
     this.currentTaskId = task.id;
+    const stopHeartbeat = this.startLeaseHeartbeat(task);
     this.agentLogger.info('Executing task with LangGraph', {
       taskId: task.id,
       title: task.title,
@@ -351,10 +710,13 @@ export class LangGraphAgent implements Agent {
         status: 'in_progress',
       });
 
-      // Prepare input messages
+      // Prepare input messages, with what the agent remembers about the task
+      const memory = await this.recallMemories(task);
       const input = {
         messages: [
-          new SystemMessage(`You are ${this.name}, an AI assistant. Execute the following task.`),
+          new SystemMessage(
+            `You are ${this.name}, an AI assistant. Execute the following task.${memory}`
+          ),
           new HumanMessage(task.description),
         ],
       };
@@ -418,7 +780,164 @@ export class LangGraphAgent implements Agent {
 
       await this.stop();
       throw error;
+    } finally {
+      stopHeartbeat();
+      this.currentTaskId = undefined;
+    }
+  }
+
+  /**
+   * Memory section for the task's system prompt; the injected memories are
+   * recorded in the session so recall can be audited
+   */
+  private async recallMemories(task: Task): Promise<string> {
+    try {
+      const context = await this.contextAssembler.assemble(this.id, task);
+      if (!context.text) return '';
+
+      if (this.hasSession) {
+        await this.sessionManager.recordAction(
+          this.sessionId,
+          this.id,
+          'memory_recall',
+          `Recalled ${context.memoryIds.length} memories`,
+          {
+            metadata: {
+              memoryIds: context.memoryIds,
+              coreMemory: context.coreMemoryLabels,
+              taskIds: context.taskIds,
+              estimatedTokens: context.estimatedTokens,
+              omitted: context.omitted,
+            },
+          },
+          task.id
+        );
+      }
+      return context.text;
+    } catch (error: any) {
+      this.agentLogger.warn('Could not assemble memory context', {
+        taskId: task.id,
+        error: error.message,
+      });
+      return '';
+    }
+  }
+
+  /**
+   * Write a core memory edit to the session history
+   */
+  private async recordCoreMemoryEdit(
+    tool: string,
+    params: any,
+    edit: CoreMemoryEdit
+  ): Promise<void> {
+    if (!this.hasSession) return;
+
+    try {
+      await this.sessionManager.recordAction(
+        this.sessionId,
+        this.id,
+        'core_memory_edit',
+        `Edited core memory block "${edit.label}"`,
+        {
+          tool,
+          params,
+          result: { chars: edit.after.length, limit: edit.block.limit },
+          metadata: { label: edit.label, before: edit.before, after: edit.after },
+        },
+        this.currentTaskId
+      );
+    } catch (error: any) {
+      this.agentLogger.warn('Could not record core memory edit', { error: error.message });
+    }
+  }
+
+  /**
+   * Write a shared memory to the session history
+   */
+  private async recordMemoryShare(tool: string, params: any, memory: MemoryEntry): Promise<void> {
+    if (!this.hasSession) return;
+
+    try {
+      await this.sessionManager.recordAction(
+        this.sessionId,
+        this.id,
+        'memory_share',
+        `Shared "${memory.title}" with ${memory.scope} scope`,
+        {
+          tool,
+          params,
+          result: { memoryId: memory.id },
+          metadata: { memoryId: memory.id, title: memory.title, scope: memory.scope },
+        },
+        this.currentTaskId
+      );
+    } catch (error: any) {
+      this.agentLogger.warn('Could not record shared memory', { error: error.message });
+    }
+  }
+
+  /**
+   * Keep the task lease alive while executing a delegated task
+   * Returns a function that stops the heartbeat.
+   */
+  private startLeaseHeartbeat(task: Task): () => void {
+    const lease = task.metadata?.lease as TaskLease | undefined;
+    if (!lease || lease.agentId !== this.id) {
+      return () => {};
     }
+
+    const timer = setInterval(() => {
+      try {
+        this.taskManager.heartbeatTask(task.id, this.id);
+      } catch (error: any) {
+        this.agentLogger.warn('Lease heartbeat failed', { taskId: task.id, error: error.message });
+      }
+    }, Math.max(1000, Math.floor(lease.durationMs / 3)));
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Advertise capabilities (A2A Agent Card)
+   * Each MCP server counts as a capability, plus any explicitly configured ones.
+   */
+  getCapabilities(): AgentCard {
+    const serverCapabilities = Array.from(this.mcpServers.values()).map((server) => ({
+      name: server.name,
+      description: server.metadata?.description || `Tools from ${server.name}`,
+      inputSchema: { type: 'object' },
+    }));
+
+    const codeExecution = this.e2bSandbox || this.localSandbox
+      ? [{
+          name: 'code-execution',
+          description: 'Execute Python code in a sandbox',
+          inputSchema: { type: 'object' },
+        }]
+      : [];
+
+    const declared = this.capabilities.map((name) => ({
+      name,
+      description: name,
+      inputSchema: { type: 'object' },
+    }));
+
+    return {
+      name: this.name,
+      description: `${this.type} using ${this.llmProvider.name}`,
+      version: '1.0.0',
+      capabilities: [...serverCapabilities, ...codeExecution, ...declared],
+      metadata: { agentId: this.id, model: this.getModel() },
+    };
+  }
+
+  /**
+   * Update the explicitly configured capabilities
+   */
+  setCapabilities(capabilities: string[]): void {
+    this.capabilities = capabilities;
+    this.config.capabilities = capabilities;
   }
 
   /**
@@ -435,21 +954,145 @@ export class LangGraphAgent implements Agent {
       llm: {
         provider: this.llmProvider.name,
         model: this.getModel(),
+        endpoint: this.modelEndpoint,
       },
       mcpServers: Array.from(this.mcpServers.keys()),
       useE2B: this.useE2B,
       e2bSandboxId: this.e2bSandbox?.sandboxId,
+      localSandboxId: this.localSandbox?.id,
       metadata: this.metadata,
       config: this.config,
     };
   }
 
+  /**
+   * Send an A2A message from this agent
+   */
+  async sendMessage(message: A2AMessage): Promise<void> {
+    if (!this.messageBus) {
+      throw new Error('Agent messaging is not configured');
+    }
+
+    await this.messageBus.send({
+      from: this.id,
+      to: message.to,
+      type: message.type,
+      payload: message.payload,
+      metadata: message.metadata,
+    });
+  }
+
+  /**
+   * Observe A2A messages received by this agent
+   */
+  onMessage(handler: MessageHandler): Unsubscribe {
+    this.messageHandlers.add(handler);
+    return () => {
+      this.messageHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Update permissions (also applied to tools and A2A messaging)
+   */
+  setPermissions(permissions: AgentPermissions): void {
+    this.permissions = permissions;
+    this.config.permissions = permissions;
+    this.toolPolicy.setPermissions(permissions);
+    this.messageBus?.setPermissions(this.id, permissions.agentCommunication);
+  }
+
+  /**
+   * Update the tools that wait for operator approval
+   */
+  setApprovalPolicy(policy: ApprovalPolicy | undefined): void {
+    this.config.approvalPolicy = policy;
+    this.toolPolicy.setApprovalPolicy(policy);
+  }
+
+  /**
+   * Identity passed along with tool calls for permissions, approvals and auditing
+   */
+  private toolCaller(): MCPToolCaller {
+    return {
+      agentId: this.id,
+      sessionId: this.hasSession ? this.sessionId : undefined,
+      taskId: this.currentTaskId,
+    };
+  }
+
+  /**
+   * Handle an incoming A2A message
+   * Returned values become the response payload for requests.
+   */
+  private async handleIncomingMessage(message: A2AMessage): Promise<unknown> {
+    this.agentLogger.info('Received agent message', {
+      from: message.from,
+      type: message.type,
+      messageId: message.id,
+    });
+
+    this.messageHandlers.forEach((handler) => {
+      Promise.resolve(handler(message)).catch((error: any) => {
+        this.agentLogger.warn('Message handler failed', { error: error.message });
+      });
+    });
+
+    const content = typeof message.payload?.content === 'string'
+      ? message.payload.content
+      : JSON.stringify(message.payload);
+
+    switch (message.type) {
+      case 'task': {
+        // Queue the work for this agent's task loop
+        const task = await this.taskManager.createTask({
+          title: message.payload?.title || content.substring(0, 80),
+          description: content,
+          createdBy: message.from,
+          assignedTo: this.id,
+          metadata: { a2aMessageId: message.id },
+        });
+        return { taskId: task.id, status: task.status };
+      }
+
+      case 'query': {
+        if (!this.agent) {
+          throw new Error(`Agent ${this.name} is not initialized`);
+        }
+
+        // The agent answers with its standing knowledge, as it does for tasks
+        const memory = this.contextAssembler.assembleCore(this.id).text;
+        const result = await this.agent.invoke(
+          {
+            messages: [
+              new SystemMessage(`You are ${this.name}. Another agent (${message.from}) is asking you a question. Answer concisely.${memory}`),
+              new HumanMessage(content),
+            ],
+          },
+          { configurable: { thread_id: `a2a-${message.from}-${this.id}` } }
+        );
+
+        const lastMessage = result.messages[result.messages.length - 1];
+        return {
+          answer: typeof lastMessage.content === 'string'
+            ? lastMessage.content
+            : JSON.stringify(lastMessage.content),
+        };
+      }
+
+      default:
+        return { received: true };
+    }
+  }
+
   /**
    * Cleanup resources
    */
   async cleanup(): Promise<void> {
     this.agentLogger.info('Cleaning up agent resources');
 
+    this.unregisterInbox?.();
+
     // Close E2B sandbox if exists
     if (this.e2bSandbox) {
       try {
@@ -459,6 +1102,16 @@ export class LangGraphAgent implements Agent {
         this.agentLogger.warn('Failed to close E2B sandbox', { error: error.message });
       }
     }
+
+    // Destroy local sandbox if exists
+    if (this.localSandbox && this.sandboxProvider) {
+      try {
+        await this.sandboxProvider.destroySandbox(this.localSandbox.id);
+        this.agentLogger.info('Local sandbox destroyed');
+      } catch (error: any) {
+        this.agentLogger.warn('Failed to destroy local sandbox', { error: error.message });
+      }
+    }
   }
 
   // Implement other Agent interface methods as needed
@@ -16,10 +16,15 @@ import {
   A2AMessage,
   MessageHandler,
   Unsubscribe,
+  AgentPermissions,
+  ApprovalPolicy,
   LLMProviderPlugin,
   MCPServerPlugin,
+  MCPToolResult,
   TaskDecomposition,
   Task,
+  CompletionRequest,
+  CompletionResponse,
 } from '@mosaic/shared';
 import { EventBus } from '../core/event-bus';
 import { logger } from '../core/logger';
@@ -27,7 +32,18 @@ import { v4 as uuid, v4 as uuidv4 } from 'uuid';
 import { SessionManager } from '../services/session/session-manager.service';
 import { getMemoryManager } from '../services/memory/memory-manager.service';
 import { MemoryManagerService } from '../services/memory/memory-manager.service';
+import { ContextAssembler } from '../services/memory/context-assembler';
 import { TaskManager } from '@/services/task/task-manager.service';
+import { ToolPolicy } from '../core/tool-policy';
+import { ApprovalManager } from '../services/approval/approval-manager.service';
+import { TaskScheduler } from '../services/task/task-scheduler';
+import { AgentMessageBus, BROADCAST, SEND_MESSAGE_TOOL } from '../core/agent-message-bus';
+import {
+  hasResources,
+  invokeResourceTool,
+  isResourceTool,
+  RESOURCE_TOOLS,
+} from '../mcp/resource-tools';
 
 interface TaskOrientedAgentOptions {
   id?: string;
@@ -40,6 +56,11 @@ interface TaskOrientedAgentOptions {
   sessionManager: SessionManager;
   sessionId: string;
   maxDepth?: number; // Maximum task decomposition depth
+  maxConcurrentSubTasks?: number; // Independent sub-tasks executed in parallel
+  messageBus?: AgentMessageBus; // A2A messaging with other agents
+  permissions?: AgentPermissions;
+  approvalManager?: ApprovalManager; // Pauses calls listed in approvalPolicy for an operator
+  approvalPolicy?: ApprovalPolicy;
 }
 
 export class TaskOrientedAgent implements Agent {
@@ -58,10 +79,16 @@ export class TaskOrientedAgent implements Agent {
   private taskManager: TaskManager;
   private sessionManager: SessionManager;
   private memoryManager: MemoryManagerService;
+  private contextAssembler: ContextAssembler;
+  private recalledMemories: Map<string, string> = new Map(); // Task ID -> last recorded recall
   private sessionId: string;
   private messageHandlers: Set<MessageHandler> = new Set();
   private agentLogger: ReturnType<typeof logger.child>;
   private maxDepth: number;
+  private scheduler: TaskScheduler;
+  private messageBus?: AgentMessageBus;
+  private unregisterInbox?: Unsubscribe;
+  private toolPolicy: ToolPolicy;
 
   constructor(options: TaskOrientedAgentOptions) {
     this.id = options.id || uuid();
@@ -72,7 +99,19 @@ export class TaskOrientedAgent implements Agent {
     this.sessionManager = options.sessionManager;
     this.memoryManager = getMemoryManager();
     this.sessionId = options.sessionId;
+    this.contextAssembler = new ContextAssembler(this.memoryManager, this.taskManager, {
+      reader: (agentId) =>
+        this.memoryManager.readerFor(agentId, this.sessionId, this.config.permissions),
+    });
     this.maxDepth = options.maxDepth || 3;
+    this.messageBus = options.messageBus;
+    this.scheduler = new TaskScheduler(this.taskManager, {
+      concurrency:
+        options.maxConcurrentSubTasks ??
+        (process.env.MAX_CONCURRENT_SUBTASKS
+          ? parseInt(process.env.MAX_CONCURRENT_SUBTASKS)
+          : undefined),
+    });
 
     // Register MCP servers
     options.mcpServers.forEach((server) => {
@@ -83,7 +122,15 @@ export class TaskOrientedAgent implements Agent {
       name: options.name,
       type: this.type,
       systemPrompt: this.buildSystemPrompt(),
+      permissions: options.permissions,
+      approvalPolicy: options.approvalPolicy,
     };
+    this.toolPolicy = new ToolPolicy(
+      options.permissions,
+      this.sessionManager,
+      options.approvalManager,
+      options.approvalPolicy
+    );
 
     this.agentLogger = logger.child({ agentId: this.id, agentName: this.name });
     this.metadata.createdAt = new Date().toISOString();
@@ -96,6 +143,19 @@ export class TaskOrientedAgent implements Agent {
     }
 
     this.status = 'running';
+
+    // Deliver A2A messages to registered handlers
+    if (this.messageBus) {
+      this.unregisterInbox = this.messageBus.register(
+        this.id,
+        (message) => {
+          this.messageHandlers.forEach((handler) => handler(message));
+          return { received: true };
+        },
+        this.config.permissions?.agentCommunication
+      );
+    }
+
     this.agentLogger.info('Agent starting', {
       task: this.metadata.rootTask || 'No task assigned - waiting for instructions'
     });
@@ -154,6 +214,7 @@ export class TaskOrientedAgent implements Agent {
 
   async stop(): Promise<void> {
     this.status = 'stopped';
+    this.unregisterInbox?.();
     this.agentLogger.info('Agent stopped');
 
     await this.eventBus.publish('agent.stopped', {
@@ -345,7 +406,7 @@ IMPORTANT: This task has already been decomposed from a parent task. You should
     }
 
     // Use LLM to decide
-    const response = await this.llmProvider.complete({
+    const response = await this.complete(task.id, {
       model: process.env.OPENAI_MODEL || 'gpt-4',
       messages: [
         {
@@ -466,7 +527,8 @@ Should this task be decomposed into sub-tasks, or executed directly?`,
       incompleteCount: incompleteSubTasks.length
     });
 
-    for (const subTask of incompleteSubTasks) {
+    // Completed sub-tasks are passed along so they satisfy dependencies
+    await this.executeSubTasks(task, subTasks, depth, async (subTask) => {
       this.agentLogger.info('Resuming sub-task', {
         subTaskId: subTask.id,
         title: subTask.title,
@@ -484,9 +546,7 @@ Should this task be decomposed into sub-tasks, or executed directly?`,
         },
         task.id
       );
-
-      await this.workOnTask(subTask.id, depth + 1);
-    }
+    });
   }
 
   /**
@@ -496,7 +556,7 @@ Should this task be decomposed into sub-tasks, or executed directly?`,
     this.agentLogger.info('Asking LLM to decompose task', { task: task.title });
 
     // Use LLM to create decomposition plan
-    const response = await this.llmProvider.complete({
+    const response = await this.complete(task.id, {
       model: process.env.OPENAI_MODEL || 'gpt-4',
       messages: [
         {
@@ -514,10 +574,14 @@ Respond ONLY with valid JSON in this exact format:
       "title": "Sub-task title",
       "description": "What needs to be accomplished",
       "priority": "high|medium|low",
-      "estimatedSteps": 5
+      "estimatedSteps": 5,
+      "dependencies": ["Title of a sub-task that must finish first"]
     }
   ]
-}`,
+}
+
+Use "dependencies" only when a sub-task needs another sub-task's output. Sub-tasks without
+dependencies run in parallel, so keep the dependency list minimal.`,
         },
         {
           role: 'user',
@@ -585,13 +649,48 @@ Break this down into actionable sub-tasks.`,
       depth: depth + 1,
     });
 
-    // Execute sub-tasks sequentially
-    for (const subTask of subTasks) {
+    await this.executeSubTasks(task, subTasks, depth, async (subTask) => {
       this.agentLogger.debug('Starting work on sub-task', {
         subTaskId: subTask.id,
         title: subTask.title,
       });
+    });
+  }
+
+  /**
+   * Execute sub-tasks in dependency order, running independent ones in parallel
+   * Throws if any sub-task failed or was blocked so the parent is marked failed.
+   */
+  private async executeSubTasks(
+    task: Task,
+    subTasks: Task[],
+    depth: number,
+    beforeStart: (subTask: Task) => Promise<void>
+  ): Promise<void> {
+    const result = await this.scheduler.run(subTasks, async (subTask) => {
+      await beforeStart(subTask);
       await this.workOnTask(subTask.id, depth + 1);
+    });
+
+    if (result.failed.length > 0 || result.blocked.length > 0) {
+      await this.sessionManager.recordAction(
+        this.sessionId,
+        this.id,
+        'agent_message',
+        `Sub-tasks of "${task.title}" did not all succeed: ${result.failed.length} failed, ${result.blocked.length} blocked`,
+        {
+          metadata: {
+            taskId: task.id,
+            failed: result.failed,
+            blocked: result.blocked,
+          },
+        },
+        task.id
+      );
+
+      throw new Error(
+        `${result.failed.length} sub-task(s) failed and ${result.blocked.length} were blocked`
+      );
     }
   }
 
@@ -612,6 +711,25 @@ Break this down into actionable sub-tasks.`,
       });
     });
 
+    // Resources are reached through meta-tools without a server prefix
+    if (hasResources(Array.from(this.mcpServers.values()))) {
+      RESOURCE_TOOLS.forEach((tool) => {
+        tools.push({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.inputSchema,
+        });
+      });
+    }
+
+    if (this.canMessageAgents()) {
+      tools.push({
+        name: SEND_MESSAGE_TOOL.name,
+        description: SEND_MESSAGE_TOOL.description,
+        parameters: SEND_MESSAGE_TOOL.inputSchema,
+      });
+    }
+
     const maxSteps = 100;
     let currentStep = 0;
 
@@ -660,6 +778,7 @@ Break this down into actionable sub-tasks.`,
           content: `[Step ${currentStep}] COMPLETE\nReasoning: ${action.reasoning}\nAction: ${action.action}`
         });
         this.agentLogger.info('Task execution complete', { taskId: task.id });
+        this.recalledMemories.delete(task.id);
         return;
       }
 
@@ -739,9 +858,51 @@ Break this down into actionable sub-tasks.`,
       }
     }
 
+    this.recalledMemories.delete(task.id);
     throw new Error(`Task execution exceeded maximum steps (${maxSteps})`);
   }
 
+  /**
+   * Memory section for a step's system prompt. Memories are recalled on every
+   * step, since they change as the agent works; a recall is recorded in the
+   * session when it differs from the last one for the task.
+   */
+  private async recallMemories(task: Task, step: number): Promise<string> {
+    try {
+      const context = await this.contextAssembler.assemble(this.id, task);
+      if (!context.text) return '';
+
+      const key = [...context.memoryIds, ...context.coreMemoryLabels, ...context.taskIds].join();
+      if (this.recalledMemories.get(task.id) !== key) {
+        this.recalledMemories.set(task.id, key);
+        await this.sessionManager.recordAction(
+          this.sessionId,
+          this.id,
+          'memory_recall',
+          `Recalled ${context.memoryIds.length} memories`,
+          {
+            metadata: {
+              memoryIds: context.memoryIds,
+              coreMemory: context.coreMemoryLabels,
+              taskIds: context.taskIds,
+              estimatedTokens: context.estimatedTokens,
+              omitted: context.omitted,
+              step,
+            },
+          },
+          task.id
+        );
+      }
+      return context.text;
+    } catch (error: any) {
+      this.agentLogger.warn('Could not assemble memory context', {
+        taskId: task.id,
+        error: error.message,
+      });
+      return '';
+    }
+  }
+
   /**
    * Plan next action using LLM with conversation history
    */
@@ -767,6 +928,7 @@ Break this down into actionable sub-tasks.`,
     const contextInfo = parentTask
       ? `\n\nCONTEXT: This is a sub-task of "${parentTask.title}". Focus on completing YOUR specific part.`
       : '';
+    const memory = await this.recallMemories(task, step);
 
     const systemPrompt = `You are executing a task. Your goal is to COMPLETE it, not just take random actions.
 
@@ -813,7 +975,7 @@ RESPONSE FORMAT (JSON only):
   "params": { "all": "required parameters" }
 }
 
-Mark complete: true when you've achieved the task objective.`;
+Mark complete: true when you've achieved the task objective.${memory}`;
 
     // Build messages array with full conversation history
     const messages = [
@@ -829,7 +991,7 @@ What's your next action to COMPLETE this task? Respond with JSON only.`,
       },
     ];
 
-    const response = await this.llmProvider.complete({
+    const response = await this.complete(task.id, {
       model: process.env.OPENAI_MODEL || 'gpt-4',
       messages,
       temperature: 0.7,
@@ -868,6 +1030,37 @@ What's your next action to COMPLETE this task? Respond with JSON only.`,
     }
   }
 
+  /**
+   * Call the LLM and record the call's token usage against the task
+   */
+  private async complete(taskId: string, request: CompletionRequest): Promise<CompletionResponse> {
+    const startTime = Date.now();
+    const response = await this.llmProvider.complete(request);
+
+    if (response.usage) {
+      try {
+        await this.sessionManager.recordLLMUsage(
+          this.sessionId,
+          this.id,
+          {
+            provider: this.llmProvider.name,
+            model: request.model,
+            usage: response.usage,
+            duration: Date.now() - startTime,
+          },
+          taskId
+        );
+      } catch (error) {
+        // Accounting must never fail the task itself
+        this.agentLogger.warn('Failed to record LLM usage', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return response;
+  }
+
   /**
    * Execute a tool
    */
@@ -878,8 +1071,9 @@ What's your next action to COMPLETE this task? Respond with JSON only.`,
   ): Promise<any> {
     const [serverName, method] = toolName.split('.');
     const server = this.mcpServers.get(serverName);
+    const isMessageTool = toolName === SEND_MESSAGE_TOOL.name && this.canMessageAgents();
 
-    if (!server) {
+    if (!server && !isResourceTool(toolName) && !isMessageTool) {
       throw new Error(`MCP server ${serverName} not found`);
     }
 
@@ -897,7 +1091,21 @@ What's your next action to COMPLETE this task? Respond with JSON only.`,
     const actionId = action2.id;
 
     try {
-      const result = await server.invokeTool(method, params);
+      const caller = { agentId: this.id, sessionId: this.sessionId, taskId };
+      const result = server
+        ? await this.toolPolicy.invoke(server, method, params, caller)
+        : isMessageTool
+          ? await this.messageAgent(params)
+          : await invokeResourceTool(Array.from(this.mcpServers.values()), toolName, params, {
+            read: (resourceServer, uri) => this.toolPolicy.readResource(resourceServer, uri, caller),
+            visible: (resourceServer, uri) =>
+              !this.toolPolicy.checkResource(resourceServer.name, uri),
+          });
+
+      if (result.metadata?.permissionDenied || result.metadata?.approvalDenied) {
+        await this.sessionManager.completeAction(actionId, 'failed', result);
+        return result;
+      }
 
       // Log screenshot data if present (for debugging)
       if (result.data?.screenshot) {
@@ -921,6 +1129,44 @@ What's your next action to COMPLETE this task? Respond with JSON only.`,
     }
   }
 
+  /**
+   * Whether the agent gets the send_message_to_agent tool
+   */
+  private canMessageAgents(): boolean {
+    return !!this.messageBus && this.config.permissions?.agentCommunication?.enabled !== false;
+  }
+
+  /**
+   * Run send_message_to_agent; queries wait for the reply unless told otherwise
+   */
+  private async messageAgent(params: {
+    to?: string;
+    type?: 'query' | 'task' | 'notification';
+    content?: string;
+    waitForResponse?: boolean;
+  }): Promise<MCPToolResult> {
+    const { to, type = 'notification', content, waitForResponse } = params || {};
+    if (!to || content === undefined) {
+      return { success: false, error: 'to and content are required' };
+    }
+    if (!['query', 'task', 'notification'].includes(type)) {
+      return { success: false, error: 'type must be one of query, task, notification' };
+    }
+
+    try {
+      const outgoing = { from: this.id, to, type, payload: { content } };
+      if (to !== BROADCAST && (waitForResponse ?? type === 'query')) {
+        const response = await this.messageBus!.request(outgoing);
+        return { success: true, data: { from: response.from, reply: response.payload } };
+      }
+
+      const sent = await this.messageBus!.send(outgoing);
+      return { success: true, data: { messageId: sent.id, to } };
+    } catch (error: any) {
+      return { success: false, error: `Error sending message: ${error.message}` };
+    }
+  }
+
   private buildSystemPrompt(): string {
     return `You are an autonomous AI agent. Your PRIMARY JOB is to EXECUTE and COMPLETE tasks, not just plan them.
 
@@ -960,7 +1206,17 @@ Remember: You are an EXECUTOR with agency. Take action, use tools meaningfully,
 
   // Agent interface methods
   async sendMessage(message: A2AMessage): Promise<void> {
-    this.agentLogger.debug('Received message', { message });
+    if (!this.messageBus) {
+      throw new Error('Agent messaging is not configured');
+    }
+
+    await this.messageBus.send({
+      from: this.id,
+      to: message.to,
+      type: message.type,
+      payload: message.payload,
+      metadata: message.metadata,
+    });
   }
 
   async executeTask(_: any): Promise<any> {
@@ -985,11 +1241,13 @@ Remember: You are an EXECUTOR with agency. Take action, use tools meaningfully,
 
   /**
    * Save a plan to memory
+   * Memory helpers take the task explicitly: sibling sub-tasks run in parallel,
+   * so currentTaskId may belong to another sub-task.
    */
-  async savePlan(title: string, content: string, taskId?: string): Promise<void> {
+  async savePlan(taskId: string, title: string, content: string): Promise<void> {
     await this.memoryManager.savePlan(this.id, this.sessionId, title, content, {
       importance: 'high',
-      relatedTaskId: taskId || this.currentTaskId,
+      relatedTaskId: taskId,
     });
     this.agentLogger.debug('Saved plan to memory', { title });
   }
@@ -997,10 +1255,10 @@ Remember: You are an EXECUTOR with agency. Take action, use tools meaningfully,
   /**
    * Save a thought/reasoning to memory
    */
-  async saveThought(title: string, content: string, taskId?: string): Promise<void> {
+  async saveThought(taskId: string, title: string, content: string): Promise<void> {
     await this.memoryManager.saveThought(this.id, this.sessionId, title, content, {
       importance: 'medium',
-      relatedTaskId: taskId || this.currentTaskId,
+      relatedTaskId: taskId,
     });
     this.agentLogger.debug('Saved thought to memory', { title });
   }
@@ -1019,10 +1277,10 @@ Remember: You are an EXECUTOR with agency. Take action, use tools meaningfully,
   /**
    * Save context information to memory
    */
-  async saveContext(title: string, content: string, taskId?: string, expiresAt?: Date): Promise<void> {
+  async saveContext(taskId: string, title: string, content: string, expiresAt?: Date): Promise<void> {
     await this.memoryManager.saveContext(this.id, this.sessionId, title, content, {
       importance: 'medium',
-      relatedTaskId: taskId || this.currentTaskId,
+      relatedTaskId: taskId,
       expiresAt,
     });
     this.agentLogger.debug('Saved context to memory', { title });
@@ -1031,9 +1289,9 @@ Remember: You are an EXECUTOR with agency. Take action, use tools meaningfully,
   /**
    * Save a checkpoint (state snapshot) to memory
    */
-  async saveCheckpoint(title: string, stateData: Record<string, unknown>): Promise<void> {
+  async saveCheckpoint(taskId: string, title: string, stateData: Record<string, unknown>): Promise<void> {
     await this.memoryManager.saveCheckpoint(this.id, this.sessionId, title, JSON.stringify(stateData, null, 2), {
-      relatedTaskId: this.currentTaskId,
+      relatedTaskId: taskId,
       metadata: { timestamp: new Date().toISOString() },
     });
     this.agentLogger.info('Saved checkpoint to memory', { title });
@@ -1042,10 +1300,10 @@ Remember: You are an EXECUTOR with agency. Take action, use tools meaningfully,
   /**
    * Save an observation to memory
    */
-  async saveObservation(title: string, content: string, tags?: string[]): Promise<void> {
+  async saveObservation(taskId: string, title: string, content: string, tags?: string[]): Promise<void> {
     await this.memoryManager.saveObservation(this.id, this.sessionId, title, content, {
       importance: 'low',
-      relatedTaskId: this.currentTaskId,
+      relatedTaskId: taskId,
       tags,
     });
     this.agentLogger.debug('Saved observation to memory', { title });
@@ -0,0 +1,287 @@
+/**
+ * JSON Schema to Zod conversion for MCP tool arguments
+ *
+ * LangChain validates tool calls against a Zod schema and derives the
+ * parameter docs the LLM sees from it, so the conversion keeps as much of
+ * the tool's JSON Schema as Zod can express: types (and type arrays), enum
+ * and const, string length, pattern and format, numeric bounds, array items
+ * and tuples, object properties, required and additionalProperties,
+ * oneOf/anyOf/allOf, nullable, default, description, and local $refs
+ * (#/definitions/..., #/$defs/..., including recursive ones). Keywords it
+ * can't express are dropped, which only makes validation more lenient.
+ */
+import { z } from 'zod';
+
+type Schema = Record<string, any> | boolean | undefined;
+
+const STRING_FORMATS: Record<string, (type: z.ZodString) => z.ZodString> = {
+  email: (type) => type.email(),
+  uri: (type) => type.url(),
+  url: (type) => type.url(),
+  uuid: (type) => type.uuid(),
+  'date-time': (type) => type.datetime({ offset: true }),
+  date: (type) => type.date(),
+  time: (type) => type.time(),
+  ipv4: (type) => type.ip({ version: 'v4' }),
+  ipv6: (type) => type.ip({ version: 'v6' }),
+};
+
+/**
+ * Follow a local JSON pointer ("#/$defs/node") from the root schema
+ */
+function resolvePointer(root: Schema, ref: string): Schema {
+  if (!ref.startsWith('#')) return undefined;
+
+  let target: any = root;
+  for (const part of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = target?.[key];
+  }
+  return target;
+}
+
+function literal(value: unknown): z.ZodTypeAny {
+  if (value === null) return z.null();
+  if (typeof value === 'object') {
+    // Object and array constants are compared structurally
+    return z.any().refine((input) => JSON.stringify(input) === JSON.stringify(value), {
+      message: `Expected ${JSON.stringify(value)}`,
+    });
+  }
+  return z.literal(value as z.Primitive);
+}
+
+function union(types: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (types.length === 0) return z.never();
+  if (types.length === 1) return types[0];
+  return z.union(types as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+class Converter {
+  private refs = new Map<string, z.ZodTypeAny>();
+
+  constructor(private root: Schema) {}
+
+  convert(schema: Schema): z.ZodTypeAny {
+    if (schema === undefined || schema === true) return z.any();
+    if (schema === false) return z.never();
+
+    let type = this.base(schema);
+
+    if (schema.nullable === true) {
+      type = type.nullable();
+    }
+    if (schema.default !== undefined) {
+      type = type.default(schema.default);
+    }
+    if (typeof schema.description === 'string') {
+      type = type.describe(schema.description);
+    }
+
+    return type;
+  }
+
+  private base(schema: Record<string, any>): z.ZodTypeAny {
+    if (typeof schema.$ref === 'string') {
+      return this.ref(schema.$ref);
+    }
+    if ('const' in schema) {
+      return literal(schema.const);
+    }
+    if (Array.isArray(schema.enum)) {
+      return this.enumOf(schema.enum);
+    }
+    if (Array.isArray(schema.allOf)) {
+      return this.allOf(schema);
+    }
+
+    const variants = schema.oneOf ?? schema.anyOf;
+    if (Array.isArray(variants) && schema.type === undefined) {
+      return union(variants.map((variant: Schema) => this.convert(variant)));
+    }
+
+    if (Array.isArray(schema.type)) {
+      return union(schema.type.map((type: string) => this.typed(type, schema)));
+    }
+    if (typeof schema.type === 'string') {
+      return this.typed(schema.type, schema);
+    }
+
+    // Untyped schemas are still objects or arrays when their keywords say so
+    if (schema.properties || schema.additionalProperties !== undefined) {
+      return this.typed('object', schema);
+    }
+    if (schema.items || schema.prefixItems) {
+      return this.typed('array', schema);
+    }
+    return z.any();
+  }
+
+  private typed(type: string, schema: Record<string, any>): z.ZodTypeAny {
+    switch (type) {
+      case 'string':
+        return this.string(schema);
+      case 'number':
+      case 'integer':
+        return this.number(schema, type === 'integer');
+      case 'boolean':
+        return z.boolean();
+      case 'null':
+        return z.null();
+      case 'array':
+        return this.array(schema);
+      case 'object':
+        return this.object(schema);
+      default:
+        return z.any();
+    }
+  }
+
+  private string(schema: Record<string, any>): z.ZodTypeAny {
+    let type = z.string();
+
+    if (typeof schema.minLength === 'number') type = type.min(schema.minLength);
+    if (typeof schema.maxLength === 'number') type = type.max(schema.maxLength);
+    if (typeof schema.pattern === 'string') {
+      try {
+        type = type.regex(new RegExp(schema.pattern, 'u'));
+      } catch {
+        // Patterns in another regex dialect are left unchecked
+      }
+    }
+
+    const format = STRING_FORMATS[schema.format];
+    return format ? format(type) : type;
+  }
+
+  private number(schema: Record<string, any>, integer: boolean): z.ZodTypeAny {
+    let type = z.number();
+
+    if (integer) type = type.int();
+
+    // Draft 4 marks bounds exclusive with booleans, later drafts give the bound itself
+    if (typeof schema.minimum === 'number') {
+      type = schema.exclusiveMinimum === true ? type.gt(schema.minimum) : type.gte(schema.minimum);
+    }
+    if (typeof schema.maximum === 'number') {
+      type = schema.exclusiveMaximum === true ? type.lt(schema.maximum) : type.lte(schema.maximum);
+    }
+    if (typeof schema.exclusiveMinimum === 'number') type = type.gt(schema.exclusiveMinimum);
+    if (typeof schema.exclusiveMaximum === 'number') type = type.lt(schema.exclusiveMaximum);
+    if (typeof schema.multipleOf === 'number') type = type.multipleOf(schema.multipleOf);
+
+    return type;
+  }
+
+  private array(schema: Record<string, any>): z.ZodTypeAny {
+    // Tuples: "prefixItems" (2020-12) or an "items" array (draft 7)
+    const prefix = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined);
+    if (Array.isArray(prefix) && prefix.length > 0) {
+      const rest = Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+      const tuple = z.tuple(
+        prefix.map((item: Schema) => this.convert(item)) as [z.ZodTypeAny, ...z.ZodTypeAny[]]
+      );
+      return rest === false ? tuple : tuple.rest(this.convert(rest));
+    }
+
+    let type = z.array(this.convert(schema.items));
+    if (typeof schema.minItems === 'number') type = type.min(schema.minItems);
+    if (typeof schema.maxItems === 'number') type = type.max(schema.maxItems);
+
+    if (schema.uniqueItems === true) {
+      return type.refine(
+        (items) => new Set(items.map((item) => JSON.stringify(item))).size === items.length,
+        { message: 'Items must be unique' }
+      );
+    }
+    return type;
+  }
+
+  private object(schema: Record<string, any>): z.ZodTypeAny {
+    const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+    const shape: Record<string, z.ZodTypeAny> = {};
+
+    for (const [key, property] of Object.entries<Schema>(schema.properties ?? {})) {
+      const type = this.convert(property);
+      // A default already makes the property optional
+      shape[key] =
+        required.has(key) || (typeof property === 'object' && property.default !== undefined)
+          ? type
+          : type.optional();
+    }
+
+    const object = z.object(shape);
+    if (schema.additionalProperties === false) return object.strict();
+    if (typeof schema.additionalProperties === 'object') {
+      return object.catchall(this.convert(schema.additionalProperties));
+    }
+    return object.passthrough();
+  }
+
+  private enumOf(values: unknown[]): z.ZodTypeAny {
+    if (values.length > 0 && values.every((value) => typeof value === 'string')) {
+      return z.enum(values as [string, ...string[]]);
+    }
+    return union(values.map(literal));
+  }
+
+  /**
+   * Objects are merged into one object (so the result is still an object
+   * schema); anything else becomes an intersection
+   */
+  private allOf(schema: Record<string, any>): z.ZodTypeAny {
+    const { allOf, ...rest } = schema;
+    const members: Schema[] = [...allOf];
+    if (rest.type || rest.properties) {
+      members.push(rest);
+    }
+
+    const types = members.map((member) => this.convert(member));
+    if (types.every((type) => type instanceof z.ZodObject)) {
+      return (types as z.AnyZodObject[]).reduce((merged, type) => merged.merge(type));
+    }
+    return types.reduce((merged, type) => z.intersection(merged, type));
+  }
+
+  private ref(ref: string): z.ZodTypeAny {
+    const cached = this.refs.get(ref);
+    if (cached) return cached;
+
+    const target = resolvePointer(this.root, ref);
+    if (target === undefined) return z.any();
+
+    // References back to this definition while it converts go through z.lazy
+    const definition: { type?: z.ZodTypeAny } = {};
+    this.refs.set(
+      ref,
+      z.lazy(() => definition.type!)
+    );
+    definition.type = this.convert(target);
+    this.refs.set(ref, definition.type);
+
+    return definition.type;
+  }
+}
+
+/**
+ * Convert a JSON Schema to the equivalent Zod schema
+ */
+export function jsonSchemaToZod(schema: Schema): z.ZodTypeAny {
+  return new Converter(schema).convert(schema);
+}
+
+/**
+ * Convert a tool's input schema; tools take an object, so anything that
+ * doesn't convert to one accepts any object
+ */
+export function toolInputSchemaToZod(schema: Schema): z.AnyZodObject {
+  if (!schema || typeof schema !== 'object') {
+    return z.object({}).passthrough();
+  }
+
+  const type = new Converter(schema).convert({
+    ...schema,
+    type: schema.type ?? 'object',
+  });
+  return type instanceof z.ZodObject ? type : z.object({}).passthrough();
+}
@@ -4,74 +4,60 @@
 
 import { DynamicStructuredTool } from '@langchain/core/tools';
 import { z } from 'zod';
-import type { MCPServerPlugin } from '@mosaic/shared';
+import type { MCPServerPlugin, MCPToolDefinition, MCPToolResult } from '@mosaic/shared';
+import { RESOURCE_TOOLS } from '../../mcp/resource-tools';
+import { toolInputSchemaToZod } from './json-schema-to-zod';
 
 /**
- * Convert JSON Schema to Zod schema for LangChain tool validation
+ * Performs the actual invocation, e.g. through a permission policy
  */
-function jsonSchemaToZod(schema: any): z.ZodObject<any> {
-  if (!schema || !schema.properties) {
-    return z.object({}) as z.ZodObject<any>;
-  }
-
-  const shape: Record<string, any> = {};
-
-  for (const [key, value] of Object.entries(schema.properties)) {
-    const prop = value as any;
-
-    let zodType: any;
-
-    switch (prop.type) {
-      case 'string':
-        zodType = z.string();
-        if (prop.description) {
-          zodType = zodType.describe(prop.description);
-        }
-        break;
-      case 'number':
-        zodType = z.number();
-        if (prop.description) {
-          zodType = zodType.describe(prop.description);
-        }
-        break;
-      case 'boolean':
-        zodType = z.boolean();
-        if (prop.description) {
-          zodType = zodType.describe(prop.description);
-        }
-        break;
-      case 'object':
-        zodType = z.object({});
-        if (prop.description) {
-          zodType = zodType.describe(prop.description);
-        }
-        break;
-      case 'array':
-        zodType = z.array(z.any());
-        if (prop.description) {
-          zodType = zodType.describe(prop.description);
-        }
-        break;
-      default:
-        zodType = z.any();
-    }
+export type MCPToolInvoker = (
+  server: MCPServerPlugin,
+  toolName: string,
+  input: any
+) => Promise<MCPToolResult>;
 
-    // Handle optional fields
-    if (!schema.required || !schema.required.includes(key)) {
-      zodType = zodType.optional();
-    }
+/**
+ * Arguments that failed validation; the tool reports them instead of running
+ */
+class InvalidToolInput {
+  constructor(public error: z.ZodError) {}
+}
 
-    shape[key] = zodType;
-  }
+/**
+ * Tool input schema whose validation failures reach the tool function as
+ * InvalidToolInput, rather than LangChain throwing before it runs. The LLM
+ * still sees the full schema (`.catch` is transparent to JSON Schema output).
+ */
+function toolSchema(inputSchema: any): z.ZodObject<any> {
+  return toolInputSchemaToZod(inputSchema).catch(
+    ({ error }: { error: z.ZodError }) => new InvalidToolInput(error) as any
+  ) as unknown as z.ZodObject<any>;
+}
 
-  return z.object(shape) as z.ZodObject<any>;
+/**
+ * Validation failure as a tool result the agent can correct its call from
+ */
+function invalidInputResult(toolName: string, error: z.ZodError): string {
+  const result: MCPToolResult = {
+    success: false,
+    error: `Invalid arguments for ${toolName}`,
+    data: {
+      issues: error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+      })),
+    },
+  };
+  return JSON.stringify(result, null, 2);
 }
 
 /**
  * Convert MCP servers to LangChain DynamicStructuredTools
  */
 export function convertMCPToLangChainTools(
-  mcpServers: MCPServerPlugin[]
+  mcpServers: MCPServerPlugin[],
+  invoke: MCPToolInvoker = (server, toolName, input) => server.invokeTool(toolName, input)
 ): DynamicStructuredTool[] {
   const tools: DynamicStructuredTool[] = [];
 
@@ -83,7 +69,7 @@ export function convertMCPToLangChainTools(
       const toolName = `${server.name}_${tool.name}`;
 
       // Convert JSON Schema to Zod
-      const schema = jsonSchemaToZod(tool.inputSchema);
+      const schema = toolSchema(tool.inputSchema);
 
       // Create LangChain tool
       const langchainTool = new DynamicStructuredTool({
@@ -91,8 +77,12 @@ export function convertMCPToLangChainTools(
         description: tool.description || `Tool from ${server.name}`,
         schema,
         func: async (input: any) => {
+          if (input instanceof InvalidToolInput) {
+            return invalidInputResult(toolName, input.error);
+          }
+
           try {
-            const result = await server.invokeTool(tool.name, input);
+            const result = await invoke(server, tool.name, input);
 
             // Return string or JSON string for LangChain
             if (typeof result === 'string') {
@@ -112,3 +102,47 @@ export function convertMCPToLangChainTools(
 
   return tools;
 }
+
+/**
+ * LangChain tools for tool definitions served by the agent itself rather
+ * than an MCP server; `invoke` runs them
+ */
+export function createLangChainTools(
+  definitions: MCPToolDefinition[],
+  invoke: (toolName: string, input: any) => Promise<MCPToolResult>
+): DynamicStructuredTool[] {
+  const tools: DynamicStructuredTool[] = [];
+
+  for (const tool of definitions) {
+    const langchainTool: DynamicStructuredTool = new DynamicStructuredTool({
+      name: tool.name,
+      description: tool.description,
+      schema: toolSchema(tool.inputSchema),
+      func: async (input: any) => {
+        if (input instanceof InvalidToolInput) {
+          return invalidInputResult(tool.name, input.error);
+        }
+
+        try {
+          return JSON.stringify(await invoke(tool.name, input), null, 2);
+        } catch (error: any) {
+          return `Error executing ${tool.name}: ${error.message}`;
+        }
+      },
+    });
+
+    tools.push(langchainTool);
+  }
+
+  return tools;
+}
+
+/**
+ * The list_resources/read_resource meta-tools; `invoke` runs them over the
+ * agent's servers (see invokeResourceTool)
+ */
+export function createResourceLangChainTools(
+  invoke: (toolName: string, input: any) => Promise<MCPToolResult>
+): DynamicStructuredTool[] {
+  return createLangChainTools(RESOURCE_TOOLS, invoke);
+}
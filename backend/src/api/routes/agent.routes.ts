@@ -6,37 +6,90 @@ import { Router } from 'express';
 import { LangGraphAgent } from '../../agents/langgraph-agent';
 import { TaskManager } from '../../services/task/task-manager.service';
 import { SessionManager } from '../../services/session/session-manager.service';
-import { LLMProviderPlugin, MCPServerPlugin } from '@mosaic/shared';
-import { getMemoryManager } from '../../services/memory/memory-manager.service';
+import {
+  LLMProviderPlugin,
+  MCPServerPlugin,
+  MemorySearchMode,
+  SandboxProviderPlugin,
+} from '@mosaic/shared';
+import {
+  getMemoryManager,
+  MEMORY_SEARCH_MODES,
+} from '../../services/memory/memory-manager.service';
+import { coreMemoryError } from '../../services/memory/core-memory.service';
 import { EventBus } from '../../core/event-bus';
 import { getDatabase } from '../../persistence/database';
 import { AgentRepository } from '../../persistence/repositories/agent.repository';
 import { PluginRegistry } from '../../core/plugin-registry';
 import { AgentFileService } from '../../services/agent-file.service';
+import { TaskDispatcher } from '../../services/task/task-dispatcher';
+import { AgentMessageBus, OPERATOR } from '../../core/agent-message-bus';
+import { ApprovalManager } from '../../services/approval/approval-manager.service';
+import {
+  OpenAICompatibleProvider,
+  OPENAI_COMPATIBLE_ENDPOINT_TYPES,
+  normalizeBaseURL,
+} from '../../llm/openai-compatible-provider';
+
+/**
+ * Reason an approval policy from a request body is invalid, if any
+ */
+function validateApprovalPolicy(policy: any): string | undefined {
+  if (typeof policy !== 'object' || Array.isArray(policy)) {
+    return 'approvalPolicy must be an object';
+  }
+  if (!Array.isArray(policy.tools) || policy.tools.some((t: unknown) => typeof t !== 'string')) {
+    return 'approvalPolicy.tools must be an array of tool names';
+  }
+  if (
+    policy.timeoutMs !== undefined &&
+    (typeof policy.timeoutMs !== 'number' || policy.timeoutMs <= 0)
+  ) {
+    return 'approvalPolicy.timeoutMs must be a positive number';
+  }
+  if (policy.defaultAction !== undefined && !['approve', 'deny'].includes(policy.defaultAction)) {
+    return 'approvalPolicy.defaultAction must be "approve" or "deny"';
+  }
+  return undefined;
+}
 
 export function createAgentRoutes(
   taskManager: TaskManager,
   sessionManager: SessionManager,
   pluginRegistry: PluginRegistry,
-  mcpServers: MCPServerPlugin[]
+  mcpServers: MCPServerPlugin[],
+  taskDispatcher: TaskDispatcher,
+  messageBus: AgentMessageBus,
+  approvalManager: ApprovalManager,
+  activeAgents: Map<string, LangGraphAgent> = new Map() // Loaded agents, keyed by ID
 ) {
   const router = Router();
 
-  // Store active agents
-  const activeAgents = new Map<string, LangGraphAgent>();
-
   // Initialize agent repository
   const db = getDatabase();
   const agentRepo = new AgentRepository(db.getDb());
 
+  // Helper function to (un)list an agent in the delegation marketplace
+  const syncDelegation = (agent: LangGraphAgent): void => {
+    if (agent.config.acceptDelegation) {
+      taskDispatcher.registerAgent(agent);
+    } else {
+      taskDispatcher.unregisterAgent(agent.id);
+    }
+  };
+
+  // Helper function to get the sandbox provider used as E2B fallback
+  const getSandboxProvider = (): SandboxProviderPlugin | undefined => {
+    const providers = pluginRegistry.getByType('sandbox') as SandboxProviderPlugin[];
+    return providers[0];
+  };
+
   // Helper function to get LLM provider from registry by name or from llm_config
-  const getLLMProvider = (input?: string | { model_endpoint_type?: string; model?: string }): LLMProviderPlugin => {
+  const getLLMProvider = async (
+    input?: string | { model_endpoint_type?: string; model?: string; model_endpoint?: string }
+  ): Promise<LLMProviderPlugin> => {
     const providers = pluginRegistry.getByType('llm-provider') as LLMProviderPlugin[];
 
-    if (!providers || providers.length === 0) {
-      throw new Error('No LLM providers available');
-    }
-
     let providerName: string | undefined;
 
     // Handle string input (legacy provider name)
@@ -51,6 +104,8 @@ export function createAgentRoutes(
         providerName = 'openai-provider';
       } else if (endpointType === 'anthropic') {
         providerName = 'anthropic-provider';
+      } else if (endpointType && OPENAI_COMPATIBLE_ENDPOINT_TYPES.includes(endpointType)) {
+        providerName = 'openai-compatible-provider';
       }
       // Fallback: try to infer from model name
       if (!providerName && input.model) {
@@ -62,6 +117,27 @@ export function createAgentRoutes(
       }
     }
 
+    // A local .af agent carries its endpoint; serve it without LOCAL_LLM_BASE_URL/OLLAMA_HOST.
+    // The provider belongs to that agent alone and is not registered, so the endpoint
+    // an imported file names never becomes the server-wide local provider.
+    if (
+      providerName === 'openai-compatible-provider' &&
+      typeof input === 'object' &&
+      input.model_endpoint &&
+      !providers.some((p) => p.name === providerName)
+    ) {
+      const provider = new OpenAICompatibleProvider({
+        baseURL: input.model_endpoint,
+        defaultModel: input.model,
+      });
+      await provider.initialize(pluginRegistry.createContext(provider.name));
+      return provider;
+    }
+
+    if (!providers || providers.length === 0) {
+      throw new Error('No LLM providers available');
+    }
+
     // If provider name specified, find it
     if (providerName) {
       const provider = providers.find(p => p.name === providerName);
@@ -75,6 +151,26 @@ export function createAgentRoutes(
     return providers[0];
   };
 
+  // Helper function to map a provider name to its .af model_endpoint_type
+  const getEndpointType = (providerName?: string): string => {
+    if (providerName === 'anthropic-provider') return 'anthropic';
+    if (providerName === 'openai-compatible-provider') return 'openai-compatible';
+    return 'openai';
+  };
+
+  // Helper function to get the per-agent base URL for OpenAI-compatible endpoints
+  const getModelEndpoint = (llmConfig?: {
+    model_endpoint_type?: string;
+    model_endpoint?: string;
+  }): string | undefined => {
+    const endpointType = llmConfig?.model_endpoint_type;
+    return endpointType &&
+      OPENAI_COMPATIBLE_ENDPOINT_TYPES.includes(endpointType) &&
+      llmConfig?.model_endpoint
+      ? normalizeBaseURL(llmConfig.model_endpoint)
+      : undefined;
+  };
+
   // Restore agents from database on startup
   const restoreAgents = async () => {
     try {
@@ -107,21 +203,30 @@ export function createAgentRoutes(
         }
 
         // Get the LLM provider from llm_config (.af format)
-        const llmProvider = getLLMProvider(savedAgent.llm_config);
+        const llmProvider = await getLLMProvider(savedAgent.llm_config);
         const memoryManager = getMemoryManager();
 
         const agent = new LangGraphAgent({
           name: savedAgent.name,
           llmProvider,
           model: savedAgent.llm_config.model,
+          modelEndpoint: getModelEndpoint(savedAgent.llm_config),
           mcpServers: restoredMcpServers,
           eventBus: (taskManager as unknown as TaskManagerWithEventBus).eventBus,
           taskManager,
           sessionManager,
+          sessionId: mosaicMeta.sessionId,
           memoryManager,
           maxDepth: 3,
           useE2B: mosaicMeta?.config?.useE2B ?? false,
+          sandboxProvider: getSandboxProvider(),
+          capabilities: mosaicMeta?.config?.capabilities,
+          messageBus,
+          permissions: mosaicMeta?.config?.permissions,
+          approvalManager,
+          approvalPolicy: mosaicMeta?.config?.approvalPolicy,
         });
+        agent.config.acceptDelegation = mosaicMeta?.config?.acceptDelegation ?? false;
 
         // Override the generated ID with saved ID
         agent.id = savedAgent.id;
@@ -132,6 +237,7 @@ export function createAgentRoutes(
         // Restore status (but don't auto-start)
         agent.status = 'idle'; // Always restore as idle for safety
         activeAgents.set(agent.id, agent);
+        syncDelegation(agent);
       }
 
       console.log(`Restored ${savedAgents.length} agents from database`);
@@ -190,10 +296,11 @@ export function createAgentRoutes(
             ...runtimeConfig,
             llm_config: agentRecord?.llm_config || {
               model: runtimeConfig.llm?.model || 'unknown',
-              model_endpoint_type: runtimeConfig.llm?.provider === 'anthropic-provider' ? 'anthropic' : 'openai',
+              model_endpoint_type: getEndpointType(runtimeConfig.llm?.provider),
             },
           },
           metadata: agent.metadata,
+          metrics: sessionManager.getAgentUsage(agent.id),
         };
       });
 
@@ -218,6 +325,10 @@ export function createAgentRoutes(
         llmProvider: llmProviderName,
         model,
         useE2B,
+        capabilities,
+        acceptDelegation,
+        permissions,
+        approvalPolicy,
         llm_config: providedLlmConfig
       } = req.body;
 
@@ -228,6 +339,14 @@ export function createAgentRoutes(
         });
       }
 
+      const approvalPolicyError = approvalPolicy ? validateApprovalPolicy(approvalPolicy) : undefined;
+      if (approvalPolicyError) {
+        return res.status(400).json({
+          success: false,
+          error: approvalPolicyError,
+        });
+      }
+
       // Build llm_config in .af format
       // Accept either new llm_config format or legacy llmProvider/model
       let llmConfig: any;
@@ -235,19 +354,26 @@ export function createAgentRoutes(
         llmConfig = providedLlmConfig;
       } else {
         // Legacy format: build llm_config from provider and model
+        const endpointType = getEndpointType(llmProviderName);
+        const compatibleProvider =
+          endpointType === 'openai-compatible'
+            ? ((await getLLMProvider(llmProviderName)) as OpenAICompatibleProvider)
+            : undefined;
         llmConfig = {
-          model: model || 'gpt-4',
-          model_endpoint_type: llmProviderName === 'anthropic-provider' ? 'anthropic' : 'openai',
-          model_endpoint: llmProviderName === 'anthropic-provider'
-            ? 'https://api.anthropic.com/v1'
-            : 'https://api.openai.com/v1',
+          model: model || compatibleProvider?.defaultModel || 'gpt-4',
+          model_endpoint_type: endpointType,
+          model_endpoint: compatibleProvider
+            ? compatibleProvider.baseURL
+            : endpointType === 'anthropic'
+              ? 'https://api.anthropic.com/v1'
+              : 'https://api.openai.com/v1',
           context_window: 128000,
           temperature: 0.7,
         };
       }
 
       // Get the LLM provider from llm_config
-      const llmProvider = getLLMProvider(llmConfig);
+      const llmProvider = await getLLMProvider(llmConfig);
 
       // Use existing session or create new one
       let session;
@@ -283,14 +409,23 @@ export function createAgentRoutes(
         name,
         llmProvider,
         model: llmConfig.model,
+        modelEndpoint: getModelEndpoint(llmConfig),
         mcpServers: selectedMcpServers,
         eventBus: (taskManager as unknown as TaskManagerWithEventBus).eventBus,
         taskManager,
         sessionManager,
+        sessionId: session.id,
         memoryManager,
         maxDepth: maxDepth || 3,
         useE2B: useE2B ?? false,
+        sandboxProvider: getSandboxProvider(),
+        capabilities: Array.isArray(capabilities) ? capabilities : undefined,
+        messageBus,
+        permissions,
+        approvalManager,
+        approvalPolicy: approvalPolicy || undefined,
       });
+      agent.config.acceptDelegation = acceptDelegation ?? false;
 
       // Initialize the LangGraph agent
       await agent.initialize();
@@ -331,6 +466,7 @@ export function createAgentRoutes(
       });
 
       activeAgents.set(agent.id, agent);
+      syncDelegation(agent);
 
       res.json({
         success: true,
@@ -349,6 +485,45 @@ export function createAgentRoutes(
     }
   });
 
+  /**
+   * GET /api/agents/delegation
+   * List agent cards of agents accepting delegated tasks
+   */
+  router.get('/delegation', async (_req, res) => {
+    try {
+      res.json({ success: true, data: taskDispatcher.listAgents() });
+    } catch (error: unknown) {
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  /**
+   * GET /api/agents/:id/card
+   * Get the agent's capability card (A2A Agent Card)
+   */
+  router.get('/:id/card', async (req, res) => {
+    try {
+      const agent = activeAgents.get(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...agent.getCapabilities(),
+          acceptDelegation: taskDispatcher.isRegistered(agent.id),
+        },
+      });
+    } catch (error: unknown) {
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
   /**
    * GET /api/agents/:id
    * Get agent details
@@ -374,6 +549,7 @@ export function createAgentRoutes(
           rootTask: agent.metadata.rootTask,
           createdAt: agent.metadata.createdAt,
           config: agent.getConfiguration(),
+          metrics: sessionManager.getAgentUsage(agent.id),
         },
       });
     } catch (error: unknown) {
@@ -642,6 +818,14 @@ export function createAgentRoutes(
 
       const { core_memory, llm_config, tool_exec_environment_variables } = req.body;
 
+      const invalidCoreMemory = core_memory !== undefined && coreMemoryError(core_memory);
+      if (invalidCoreMemory) {
+        return res.status(400).json({
+          success: false,
+          error: invalidCoreMemory,
+        });
+      }
+
       // Build update object with only provided fields
       const updates: any = {};
 
@@ -695,7 +879,9 @@ export function createAgentRoutes(
       }
 
       // Remove from memory and database
+      await agent.cleanup();
       activeAgents.delete(req.params.id);
+      taskDispatcher.unregisterAgent(req.params.id);
       agentRepo.delete(req.params.id);
 
       res.json({
@@ -754,7 +940,34 @@ export function createAgentRoutes(
         });
       }
 
-      const { mcpServerNames, maxDepth, rootTask } = req.body;
+      const {
+        mcpServerNames,
+        maxDepth,
+        rootTask,
+        capabilities,
+        acceptDelegation,
+        permissions,
+        approvalPolicy,
+      } = req.body;
+
+      if (
+        permissions !== undefined &&
+        (typeof permissions !== 'object' || permissions === null || Array.isArray(permissions))
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: 'permissions must be an object',
+        });
+      }
+
+      // null clears the approval policy
+      const approvalPolicyError = approvalPolicy ? validateApprovalPolicy(approvalPolicy) : undefined;
+      if (approvalPolicyError) {
+        return res.status(400).json({
+          success: false,
+          error: approvalPolicyError,
+        });
+      }
 
       // Update MCP servers if provided
       if (mcpServerNames && Array.isArray(mcpServerNames)) {
@@ -787,6 +1000,27 @@ export function createAgentRoutes(
         agent.metadata.rootTask = rootTask;
       }
 
+      // Update advertised capabilities if provided
+      if (capabilities && Array.isArray(capabilities)) {
+        agent.setCapabilities(capabilities);
+      }
+
+      // Opt in or out of delegated tasks
+      if (acceptDelegation !== undefined) {
+        agent.config.acceptDelegation = !!acceptDelegation;
+        syncDelegation(agent);
+      }
+
+      // Replace tool and messaging permissions
+      if (permissions !== undefined) {
+        agent.setPermissions(permissions);
+      }
+
+      // Replace the tools that wait for operator approval
+      if (approvalPolicy !== undefined) {
+        agent.setApprovalPolicy(approvalPolicy || undefined);
+      }
+
       // Update Mosaic metadata in existing agent record
       agentRepo.updateMosaicMetadata(agent.id, {
         status: agent.status,
@@ -1109,7 +1343,7 @@ export function createAgentRoutes(
 
   /**
    * GET /api/agents/:id/memory/search
-   * Search agent memories
+   * Search agent memories (mode: hybrid, semantic or keyword)
    */
   router.get('/:id/memory/search', async (req, res) => {
     try {
@@ -1122,7 +1356,7 @@ export function createAgentRoutes(
         });
       }
 
-      const { q, limit } = req.query;
+      const { q, limit, mode } = req.query;
       
       if (!q || typeof q !== 'string') {
         return res.status(400).json({
@@ -1131,11 +1365,19 @@ export function createAgentRoutes(
         });
       }
 
+      if (mode !== undefined && !MEMORY_SEARCH_MODES.includes(mode as MemorySearchMode)) {
+        return res.status(400).json({
+          success: false,
+          error: `mode must be one of: ${MEMORY_SEARCH_MODES.join(', ')}`,
+        });
+      }
+
       const memoryManager = getMemoryManager();
       const memories = await memoryManager.searchMemories(
         agent.id,
         q,
-        limit ? parseInt(limit as string, 10) : undefined
+        limit ? parseInt(limit as string, 10) : undefined,
+        mode as MemorySearchMode | undefined
       );
 
       res.json({
@@ -1420,6 +1662,53 @@ export function createAgentRoutes(
 
   const agentFileService = new AgentFileService();
 
+  /**
+   * POST /api/agents/:id/a2a
+   * Deliver an A2A message to an agent, optionally waiting for its response
+   * Messages sent through the API always come from the operator ('user'), which
+   * agents accept regardless of their allowedAgents; agents use their tools.
+   */
+  router.post('/:id/a2a', async (req, res) => {
+    try {
+      const agent = activeAgents.get(req.params.id);
+
+      if (!agent) {
+        return res.status(404).json({
+          success: false,
+          error: 'Agent not found',
+        });
+      }
+
+      const { type = 'notification', content, payload, waitForResponse, timeoutMs } = req.body;
+
+      if (!['task', 'query', 'notification'].includes(type)) {
+        return res.status(400).json({
+          success: false,
+          error: 'type must be one of task, query, notification',
+        });
+      }
+
+      if (content === undefined && payload === undefined) {
+        return res.status(400).json({
+          success: false,
+          error: 'content or payload is required',
+        });
+      }
+
+      const outgoing = { from: OPERATOR, to: agent.id, type, payload: payload ?? { content } };
+
+      if (waitForResponse) {
+        const response = await messageBus.request(outgoing, timeoutMs);
+        return res.json({ success: true, data: response });
+      }
+
+      const sent = await messageBus.send(outgoing);
+      res.json({ success: true, data: sent });
+    } catch (error: unknown) {
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
   /**
    * GET /api/agents/:id/export
    * Export an agent to Agent File (.af) format (JSON response)
@@ -1578,7 +1867,7 @@ export function createAgentRoutes(
       const mosaicMetadata = importedAgent.metadata_?.mosaic as any;
 
       // Get the LLM provider from llm_config (.af format)
-      const llmProvider = getLLMProvider(importedAgent.llm_config!);
+      const llmProvider = await getLLMProvider(importedAgent.llm_config!);
       const memoryManager = getMemoryManager();
 
       // Filter MCP servers if specified in config
@@ -1598,14 +1887,24 @@ export function createAgentRoutes(
         name: importedAgent.name!,
         llmProvider,
         model: importedAgent.llm_config!.model,
+        modelEndpoint: getModelEndpoint(importedAgent.llm_config),
         mcpServers: selectedMcpServers,
         eventBus: (taskManager as unknown as TaskManagerWithEventBus).eventBus,
         taskManager,
         sessionManager,
+        // Imported agents may reference a session from another instance
+        sessionId: mosaicMetadata?.sessionId && sessionManager.getSession(mosaicMetadata.sessionId)?.id,
         memoryManager,
         maxDepth: 3,
         useE2B: mosaicMetadata?.config?.useE2B ?? false,
+        sandboxProvider: getSandboxProvider(),
+        capabilities: mosaicMetadata?.config?.capabilities,
+        messageBus,
+        permissions: mosaicMetadata?.config?.permissions,
+        approvalManager,
+        approvalPolicy: mosaicMetadata?.config?.approvalPolicy,
       });
+      agent.config.acceptDelegation = mosaicMetadata?.config?.acceptDelegation ?? false;
 
       // Override the generated ID with imported ID
       agent.id = importedAgent.id!;
@@ -1616,6 +1915,7 @@ export function createAgentRoutes(
       // Set status to idle
       agent.status = 'idle';
       activeAgents.set(agent.id, agent);
+      syncDelegation(agent);
 
       res.json({
         success: true,
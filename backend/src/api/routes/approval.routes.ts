@@ -0,0 +1,127 @@
+/**
+ * Approval API Routes
+ * Operators list and resolve tool calls waiting for human approval
+ */
+
+import { Router } from 'express';
+import { ApprovalDecision, ApprovalStatus } from '@mosaic/shared';
+import { ApprovalManager } from '../../services/approval/approval-manager.service';
+
+const DECISIONS: ApprovalDecision[] = ['approve', 'deny', 'edit'];
+const STATUSES: ApprovalStatus[] = ['pending', 'approved', 'denied', 'expired'];
+
+export function createApprovalRoutes(approvalManager: ApprovalManager) {
+  const router = Router();
+
+  /**
+   * GET /api/approvals
+   * List approval requests (?status=pending&agentId=...&limit=50)
+   */
+  router.get('/', async (req, res) => {
+    try {
+      const { status, agentId, limit } = req.query;
+
+      if (status && !STATUSES.includes(status as ApprovalStatus)) {
+        return res.status(400).json({
+          success: false,
+          error: `status must be one of: ${STATUSES.join(', ')}`,
+        });
+      }
+
+      const approvals = approvalManager.listApprovals({
+        status: status as ApprovalStatus | undefined,
+        agentId: agentId as string | undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+
+      res.json({ success: true, data: approvals });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/approvals/:id
+   * Get a single approval request
+   */
+  router.get('/:id', async (req, res) => {
+    try {
+      const approval = approvalManager.getApproval(req.params.id);
+
+      if (!approval) {
+        return res.status(404).json({
+          success: false,
+          error: 'Approval request not found',
+        });
+      }
+
+      res.json({ success: true, data: approval });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * POST /api/approvals/:id
+   * Resolve a pending request: { decision: 'approve' | 'deny' | 'edit', params?, reason?, resolvedBy? }
+   * An 'edit' approves the call with the given params instead of the requested ones.
+   */
+  router.post('/:id', async (req, res) => {
+    try {
+      const { decision, params, reason, resolvedBy } = req.body;
+
+      if (!DECISIONS.includes(decision)) {
+        return res.status(400).json({
+          success: false,
+          error: `decision must be one of: ${DECISIONS.join(', ')}`,
+        });
+      }
+
+      if (
+        decision === 'edit' &&
+        (typeof params !== 'object' || params === null || Array.isArray(params))
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: 'params must be an object when decision is edit',
+        });
+      }
+
+      const approval = approvalManager.getApproval(req.params.id);
+
+      if (!approval) {
+        return res.status(404).json({
+          success: false,
+          error: 'Approval request not found',
+        });
+      }
+
+      if (approval.status !== 'pending') {
+        return res.status(409).json({
+          success: false,
+          error: `Approval request is already ${approval.status}`,
+        });
+      }
+
+      const invalid = decision === 'edit' && approvalManager.validateParams(approval.id, params);
+      if (invalid) {
+        return res.status(400).json({
+          success: false,
+          error: `Edited params are invalid: ${invalid}`,
+        });
+      }
+
+      const resolved = await approvalManager.resolve(approval.id, decision, {
+        params,
+        reason,
+        resolvedBy,
+      });
+
+      res.json({ success: true, data: resolved });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,46 @@
+/**
+ * Event Log API Routes
+ * Replay of sequenced events for clients catching up after a disconnect
+ */
+
+import { Router } from 'express';
+import { EventBus } from '../../core/event-bus';
+
+export function createEventRoutes(eventBus: EventBus) {
+  const router = Router();
+
+  /**
+   * GET /api/events
+   * Events logged after a sequence number
+   * Query: since (seq, default 0), channels (comma-separated globs), limit
+   */
+  router.get('/', async (req, res) => {
+    try {
+      const eventLog = eventBus.getEventLog();
+
+      if (!eventLog) {
+        return res.status(404).json({
+          success: false,
+          error: 'Event log not enabled',
+        });
+      }
+
+      const { since, channels, limit } = req.query;
+
+      const events = eventLog.replayFrom(since ? parseInt(since as string) : 0, {
+        channels: channels ? (channels as string).split(',') : undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: events,
+        latestSeq: eventLog.getLatestSeq(),
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  return router;
+}
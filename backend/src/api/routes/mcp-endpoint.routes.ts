@@ -0,0 +1,72 @@
+/**
+ * MCP Endpoint
+ * Serves the Mosaic MCP server over streamable HTTP (stateless: every
+ * request gets its own server and transport)
+ */
+
+import { Router } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { MosaicMCPServer } from '../../mcp/mosaic-server';
+import { logger } from '../../core/logger';
+
+const endpointLogger = logger.child({ service: 'mcp-endpoint' });
+
+/**
+ * `token` (MOSAIC_MCP_TOKEN) is required as a bearer token when set
+ */
+export function createMCPEndpoint(mosaicServer: MosaicMCPServer, token?: string) {
+  const router = Router();
+
+  router.use((req, res, next) => {
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      return res.status(401).json({
+        jsonrpc: '2.0',
+        error: { code: -32001, message: 'Unauthorized' },
+        id: null,
+      });
+    }
+    next();
+  });
+
+  /**
+   * POST /mcp
+   * JSON-RPC requests from MCP clients
+   */
+  router.post('/', async (req, res) => {
+    const server = mosaicServer.createServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error: any) {
+      endpointLogger.error('MCP request failed', { error: error.message });
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Internal server error' },
+          id: null,
+        });
+      }
+    }
+  });
+
+  // Without sessions there is no server-to-client stream to open or close
+  router.all('/', (req, res) => {
+    res
+      .status(405)
+      .set('Allow', 'POST')
+      .json({
+        jsonrpc: '2.0',
+        error: { code: -32000, message: 'Method not allowed' },
+        id: null,
+      });
+  });
+
+  return router;
+}
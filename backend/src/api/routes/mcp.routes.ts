@@ -0,0 +1,158 @@
+/**
+ * MCP Server API Routes
+ * List MCP servers and their prompts, and connect or disconnect external
+ * ones at runtime
+ */
+
+import { Router } from 'express';
+import { MCPServerPlugin } from '@mosaic/shared';
+import { PluginRegistry } from '../../core/plugin-registry';
+import { ExternalMCPServer } from '../../mcp/external-server';
+import {
+  RuntimeRegistrationPolicy,
+  checkRuntimeRegistration,
+  normalizeExternalServerConfig,
+  validateExternalServerConfig,
+} from '../../mcp/external-server-config';
+import { listPromptTemplates } from '../../mcp/prompt-templates';
+
+function describeServer(server: MCPServerPlugin) {
+  const external = server instanceof ExternalMCPServer;
+  const config = external ? server.getConfig() : undefined;
+
+  return {
+    name: server.name,
+    version: server.version,
+    description: server.metadata?.description || '',
+    external,
+    transport: config?.transport,
+    connected: external ? server.isConnected() : true,
+    tools: server.getTools().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+    })),
+    resources: server.getResources?.().length ?? 0,
+    prompts: server.getPrompts?.().map((prompt) => prompt.name) ?? [],
+  };
+}
+
+/**
+ * `mcpServers` is the list agents pick their servers from; servers added
+ * here are appended to it, so they are available to agents created afterwards.
+ * `registration` decides which servers may be added.
+ */
+export function createMCPRoutes(
+  pluginRegistry: PluginRegistry,
+  mcpServers: MCPServerPlugin[],
+  registration: RuntimeRegistrationPolicy
+) {
+  const router = Router();
+
+  /**
+   * GET /api/mcp/servers
+   * List built-in and external MCP servers
+   */
+  router.get('/servers', async (req, res) => {
+    try {
+      res.json({ success: true, data: mcpServers.map(describeServer) });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/mcp/prompts
+   * Prompts that can be used as task templates (see POST /api/tasks)
+   */
+  router.get('/prompts', async (req, res) => {
+    try {
+      res.json({ success: true, data: listPromptTemplates(mcpServers) });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * POST /api/mcp/servers
+   * Connect an external MCP server, if the registration policy allows it
+   * Body: { name, transport?, command?, args?, env?, cwd?, url?, headers?, timeoutMs? }
+   */
+  router.post('/servers', async (req, res) => {
+    try {
+      const body = req.body || {};
+      const config = normalizeExternalServerConfig(body.name, body, false);
+
+      const validationError = validateExternalServerConfig(config);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError,
+        });
+      }
+
+      const refusal = checkRuntimeRegistration(config, registration);
+      if (refusal) {
+        return res.status(403).json({
+          success: false,
+          error: refusal,
+        });
+      }
+
+      if (pluginRegistry.get(config.name) || mcpServers.some((s) => s.name === config.name)) {
+        return res.status(409).json({
+          success: false,
+          error: `A plugin named ${config.name} is already registered`,
+        });
+      }
+
+      const server = new ExternalMCPServer(config);
+      try {
+        await pluginRegistry.register(server);
+      } catch (error: any) {
+        await server.shutdown().catch(() => undefined);
+        return res.status(502).json({
+          success: false,
+          error: `Failed to connect to ${config.name}: ${error.message}`,
+        });
+      }
+
+      mcpServers.push(server);
+      res.status(201).json({ success: true, data: describeServer(server) });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * DELETE /api/mcp/servers/:name
+   * Disconnect an external MCP server
+   */
+  router.delete('/servers/:name', async (req, res) => {
+    try {
+      const index = mcpServers.findIndex((s) => s.name === req.params.name);
+
+      if (index === -1) {
+        return res.status(404).json({
+          success: false,
+          error: 'MCP server not found',
+        });
+      }
+
+      if (!(mcpServers[index] instanceof ExternalMCPServer)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Built-in MCP servers cannot be removed',
+        });
+      }
+
+      mcpServers.splice(index, 1);
+      await pluginRegistry.unregister(req.params.name);
+
+      res.json({ success: true, data: { message: 'MCP server disconnected' } });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  return router;
+}
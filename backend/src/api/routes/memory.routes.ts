@@ -4,10 +4,24 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { MemoryManager } from '../../services/memory/memory-manager.service';
-import { CreateMemoryRequest, UpdateMemoryRequest, MemoryQuery } from '@mosaic/shared';
+import {
+  MemoryManager,
+  MEMORY_SCOPES,
+  MEMORY_SEARCH_MODES,
+} from '../../services/memory/memory-manager.service';
+import type { MemoryConsolidator } from '../../services/memory/memory-consolidator';
+import {
+  CreateMemoryRequest,
+  UpdateMemoryRequest,
+  MemoryQuery,
+  MemoryScope,
+  MemorySearchMode,
+} from '@mosaic/shared';
 
-export function createMemoryRoutes(memoryManager: MemoryManager): Router {
+export function createMemoryRoutes(
+  memoryManager: MemoryManager,
+  consolidator?: MemoryConsolidator
+): Router {
   const router = Router();
 
   /**
@@ -38,7 +52,10 @@ export function createMemoryRoutes(memoryManager: MemoryManager): Router {
 
   /**
    * GET /api/agents/:agentId/memory/search
-   * Search agent memories
+   * Search agent memories. With `search`, results are ranked by keyword
+   * overlap and embedding similarity (mode=hybrid, the default), by
+   * similarity alone (mode=semantic), or filtered by substring (mode=keyword).
+   * With visible=true, entries other agents shared with the agent are included.
    */
   router.get('/agents/:agentId/memory/search', async (req: Request, res: Response) => {
     try {
@@ -48,20 +65,42 @@ export function createMemoryRoutes(memoryManager: MemoryManager): Router {
         importance,
         tags,
         search,
+        mode,
         relatedTaskId,
         sessionId,
+        includeArchived,
+        scope,
+        visible,
         limit,
         offset,
       } = req.query;
 
+      if (mode !== undefined && !MEMORY_SEARCH_MODES.includes(mode as MemorySearchMode)) {
+        return res.status(400).json({
+          success: false,
+          error: `mode must be one of: ${MEMORY_SEARCH_MODES.join(', ')}`,
+        });
+      }
+
+      if (scope !== undefined && !MEMORY_SCOPES.includes(scope as MemoryScope)) {
+        return res.status(400).json({
+          success: false,
+          error: `scope must be one of: ${MEMORY_SCOPES.join(', ')}`,
+        });
+      }
+
       const query: MemoryQuery = {
-        agentId,
+        agentId: visible === 'true' ? undefined : agentId,
+        visibleTo: visible === 'true' ? memoryManager.readerFor(agentId) : undefined,
         sessionId: sessionId as string | undefined,
         type: type as any,
         importance: importance as any,
         tags: tags ? (tags as string).split(',') : undefined,
         search: search as string | undefined,
+        searchMode: mode as MemorySearchMode | undefined,
         relatedTaskId: relatedTaskId as string | undefined,
+        includeArchived: includeArchived === 'true',
+        scope: scope as MemoryScope | undefined,
         limit: limit ? parseInt(limit as string) : undefined,
         offset: offset ? parseInt(offset as string) : undefined,
       };
@@ -127,6 +166,13 @@ export function createMemoryRoutes(memoryManager: MemoryManager): Router {
 
       const request: CreateMemoryRequest = req.body;
 
+      if (request.scope !== undefined && !MEMORY_SCOPES.includes(request.scope)) {
+        return res.status(400).json({
+          success: false,
+          error: `scope must be one of: ${MEMORY_SCOPES.join(', ')}`,
+        });
+      }
+
       const memory = await memoryManager.createMemory(
         agentId,
         sessionId as string,
@@ -216,5 +262,55 @@ export function createMemoryRoutes(memoryManager: MemoryManager): Router {
     }
   });
 
+  /**
+   * POST /api/memory/consolidate
+   * Decay importance and summarize old observations and thoughts into
+   * learnings. Body: { agentId?, dryRun? }; a dry run only reports the
+   * changes it would make.
+   */
+  router.post('/memory/consolidate', async (req: Request, res: Response) => {
+    if (!consolidator) {
+      return res.status(503).json({
+        success: false,
+        error: 'Memory consolidation is not available',
+      });
+    }
+
+    const { agentId, dryRun } = req.body || {};
+    if (agentId !== undefined && typeof agentId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'agentId must be a string',
+      });
+    }
+    if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        error: 'dryRun must be a boolean',
+      });
+    }
+
+    if (!dryRun && consolidator.isRunning()) {
+      return res.status(409).json({
+        success: false,
+        error: 'A consolidation is already running',
+      });
+    }
+
+    try {
+      const result = await consolidator.consolidate({ agentId, dryRun });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  });
+
   return router;
 }
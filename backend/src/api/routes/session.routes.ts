@@ -110,6 +110,27 @@ export function createSessionRoutes(sessionManager: SessionManager) {
     }
   });
 
+  /**
+   * GET /api/sessions/:id/costs
+   * LLM token usage and estimated spend, by agent, task, and model
+   */
+  router.get('/:id/costs', async (req, res) => {
+    try {
+      if (!sessionManager.getSession(req.params.id)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+      }
+
+      const costs = sessionManager.getCosts(req.params.id);
+
+      res.json({ success: true, data: costs });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   /**
    * GET /api/sessions/:id/export
    * Export entire session
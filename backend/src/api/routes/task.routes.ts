@@ -4,9 +4,14 @@
  */
 
 import { Router } from 'express';
+import { MCPServerPlugin } from '@mosaic/shared';
 import { TaskManager } from '../../services/task/task-manager.service';
+import { renderPromptTemplate, validatePromptTemplate } from '../../mcp/prompt-templates';
 
-export function createTaskRoutes(taskManager: TaskManager) {
+/**
+ * `mcpServers` provide the prompts tasks can be created from
+ */
+export function createTaskRoutes(taskManager: TaskManager, mcpServers: MCPServerPlugin[] = []) {
   const router = Router();
 
   /**
@@ -35,19 +40,40 @@ export function createTaskRoutes(taskManager: TaskManager) {
   /**
    * POST /api/tasks
    * Create a new task
+   * Body: { title, description, createdBy, priority?, parentTaskId?, assignedTo?, tags?,
+   *         metadata?, template?: { server, prompt, arguments? } }
+   * With a template, the rendered MCP prompt is the description (and the title
+   * when none is given); a description given as well is appended to it.
    */
   router.post('/', async (req, res) => {
     try {
-      const {
-        title,
-        description,
-        priority,
-        parentTaskId,
-        createdBy,
-        assignedTo,
-        tags,
-        metadata,
-      } = req.body;
+      const { priority, parentTaskId, createdBy, assignedTo, tags, template } = req.body;
+      let { title, description, metadata } = req.body;
+
+      if (template) {
+        const templateError = validatePromptTemplate(mcpServers, template);
+        if (templateError) {
+          return res.status(400).json({
+            success: false,
+            error: templateError,
+          });
+        }
+
+        let rendered;
+        try {
+          rendered = await renderPromptTemplate(mcpServers, template);
+        } catch (error: any) {
+          return res.status(502).json({
+            success: false,
+            error: `Failed to render prompt ${template.prompt}: ${error.message}`,
+          });
+        }
+        title = title || rendered.title;
+        description = description
+          ? `${rendered.description}\n\n${description}`
+          : rendered.description;
+        metadata = { ...metadata, template };
+      }
 
       if (!title || !description || !createdBy) {
         return res.status(400).json({
@@ -99,6 +125,26 @@ export function createTaskRoutes(taskManager: TaskManager) {
     }
   });
 
+  /**
+   * GET /api/tasks/claimable
+   * Open, unassigned tasks an agent with the given capabilities could claim
+   */
+  router.get('/claimable', async (req, res) => {
+    try {
+      const { capabilities } = req.query;
+
+      const tasks = taskManager.queryTasks({
+        status: 'open',
+        unassigned: true,
+        capabilities: capabilities !== undefined ? (capabilities as string).split(',').filter(Boolean) : undefined,
+      });
+
+      res.json({ success: true, data: tasks });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
   /**
    * GET /api/tasks/:id
    * Get task details
@@ -211,6 +257,66 @@ export function createTaskRoutes(taskManager: TaskManager) {
     }
   });
 
+  /**
+   * POST /api/tasks/:id/claim
+   * Claim an open task with a time-limited lease
+   */
+  router.post('/:id/claim', async (req, res) => {
+    try {
+      const { agentId, leaseMs } = req.body;
+
+      if (!agentId) {
+        return res.status(400).json({ success: false, error: 'agentId is required' });
+      }
+
+      const task = await taskManager.claimTask({ taskId: req.params.id, agentId, leaseMs });
+      res.json({ success: true, data: task });
+    } catch (error: any) {
+      const status = error.message.includes('not found') ? 404 : 409;
+      res.status(status).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * POST /api/tasks/:id/heartbeat
+   * Extend the lease on a claimed task
+   */
+  router.post('/:id/heartbeat', async (req, res) => {
+    try {
+      const { agentId } = req.body;
+
+      if (!agentId) {
+        return res.status(400).json({ success: false, error: 'agentId is required' });
+      }
+
+      const lease = taskManager.heartbeatTask(req.params.id, agentId);
+      res.json({ success: true, data: lease });
+    } catch (error: any) {
+      const status = error.message.includes('not found') ? 404 : 409;
+      res.status(status).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * POST /api/tasks/:id/release
+   * Give a claimed task back to the open pool
+   */
+  router.post('/:id/release', async (req, res) => {
+    try {
+      const { agentId, reason } = req.body;
+
+      if (!agentId) {
+        return res.status(400).json({ success: false, error: 'agentId is required' });
+      }
+
+      const task = await taskManager.releaseTask(req.params.id, agentId, reason);
+      res.json({ success: true, data: task });
+    } catch (error: any) {
+      const status = error.message.includes('not found') ? 404 : 409;
+      res.status(status).json({ success: false, error: error.message });
+    }
+  });
+
   /**
    * DELETE /api/tasks/:id
    * Delete a task (only if not active)
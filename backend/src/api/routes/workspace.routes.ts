@@ -0,0 +1,213 @@
+/**
+ * Workspace API Routes
+ * File history, diffs, restores and locks for the shared agent workspace
+ */
+
+import { Router } from 'express';
+import { FilesystemMCPServer } from '../../mcp/filesystem-server';
+import { OPERATOR_ID, WorkspaceHistory } from '../../services/workspace/workspace-history.service';
+import { FileLockManager } from '../../services/workspace/file-lock-manager';
+
+export function createWorkspaceRoutes(
+  workspaceHistory: WorkspaceHistory,
+  fileLocks: FileLockManager,
+  workspace?: FilesystemMCPServer
+) {
+  const router = Router();
+
+  /**
+   * GET /api/workspace/history
+   * List file versions, newest first (?path=notes.md&agentId=...&limit=50)
+   */
+  router.get('/history', async (req, res) => {
+    try {
+      const { path, agentId, limit } = req.query;
+
+      const versions = workspaceHistory.getHistory({
+        path: path as string | undefined,
+        agentId: agentId as string | undefined,
+        limit: limit ? parseInt(limit as string) : 100,
+      });
+
+      res.json({ success: true, data: versions });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/workspace/versions/:id
+   * Get a single version
+   */
+  router.get('/versions/:id', async (req, res) => {
+    try {
+      const version = workspaceHistory.getVersion(req.params.id);
+
+      if (!version) {
+        return res.status(404).json({
+          success: false,
+          error: 'Version not found',
+        });
+      }
+
+      res.json({ success: true, data: version });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/workspace/versions/:id/content
+   * File content after (default) or before the change (?side=before)
+   */
+  router.get('/versions/:id/content', async (req, res) => {
+    try {
+      const version = workspaceHistory.getVersion(req.params.id);
+
+      if (!version) {
+        return res.status(404).json({
+          success: false,
+          error: 'Version not found',
+        });
+      }
+
+      const hash = req.query.side === 'before' ? version.beforeHash : version.afterHash;
+      if (!hash) {
+        return res.status(404).json({
+          success: false,
+          error: `No ${req.query.side === 'before' ? 'previous' : 'stored'} content for this version`,
+        });
+      }
+
+      const content = await workspaceHistory.readContent(hash);
+      const binary = content.includes(0);
+
+      res.json({
+        success: true,
+        data: {
+          path: version.path,
+          hash,
+          encoding: binary ? 'base64' : 'utf-8',
+          content: content.toString(binary ? 'base64' : 'utf-8'),
+        },
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/workspace/versions/:id/diff
+   * Unified diff of the change, or against another version (?against=<versionId>)
+   */
+  router.get('/versions/:id/diff', async (req, res) => {
+    try {
+      const against = req.query.against as string | undefined;
+
+      for (const id of [req.params.id, against]) {
+        if (id && !workspaceHistory.getVersion(id)) {
+          return res.status(404).json({
+            success: false,
+            error: `Version ${id} not found`,
+          });
+        }
+      }
+
+      const diff = await workspaceHistory.diff(req.params.id, against);
+      res.json({ success: true, data: diff });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * POST /api/workspace/versions/:id/restore
+   * Restore the file to this version; recorded as a new version by the operator.
+   * A restoredBy name in the body is kept as metadata, not as the author.
+   */
+  router.post('/versions/:id/restore', async (req, res) => {
+    try {
+      const version = workspaceHistory.getVersion(req.params.id);
+
+      if (!version) {
+        return res.status(404).json({
+          success: false,
+          error: 'Version not found',
+        });
+      }
+
+      if (!version.afterHash && !version.beforeHash) {
+        return res.status(400).json({
+          success: false,
+          error: 'Version has no stored content to restore',
+        });
+      }
+
+      if (!workspace) {
+        return res.status(503).json({
+          success: false,
+          error: 'Workspace is not available',
+        });
+      }
+
+      const restoredBy = req.body?.restoredBy;
+      const result = await workspace.restoreVersion(
+        version.id,
+        { agentId: OPERATOR_ID },
+        typeof restoredBy === 'string' && restoredBy ? { restoredBy } : undefined
+      );
+
+      if (!result.success) {
+        return res.status(result.data?.locked ? 409 : 500).json(result);
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * GET /api/workspace/locks
+   * Files currently locked by agents (?agentId=...)
+   */
+  router.get('/locks', async (req, res) => {
+    try {
+      const locks = fileLocks.listLocks(req.query.agentId as string | undefined);
+      res.json({ success: true, data: locks });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  /**
+   * DELETE /api/workspace/locks?path=notes.md
+   * Break a lock, whichever agent holds it
+   */
+  router.delete('/locks', async (req, res) => {
+    try {
+      const path = req.query.path;
+
+      if (typeof path !== 'string' || !path) {
+        return res.status(400).json({
+          success: false,
+          error: 'path is required',
+        });
+      }
+
+      const lock = await fileLocks.breakLock(path);
+      if (!lock) {
+        return res.status(404).json({
+          success: false,
+          error: 'Lock not found',
+        });
+      }
+
+      res.json({ success: true, data: lock });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  return router;
+}
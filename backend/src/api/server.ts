@@ -11,13 +11,57 @@ import { TaskManager } from '../services/task/task-manager.service';
 import { SessionManager } from '../services/session/session-manager.service';
 import { MemoryManager } from '../services/memory/memory-manager.service';
 import { PluginRegistry } from '../core/plugin-registry';
+import { TaskDispatcher } from '../services/task/task-dispatcher';
+import { AgentMessageBus } from '../core/agent-message-bus';
+import { ApprovalManager } from '../services/approval/approval-manager.service';
+import { WorkspaceHistory } from '../services/workspace/workspace-history.service';
+import { FileLockManager } from '../services/workspace/file-lock-manager';
+import type { MemoryConsolidator } from '../services/memory/memory-consolidator';
 import { MCPServerPlugin } from '@mosaic/shared';
 import { createAgentRoutes } from './routes/agent.routes';
 import { createTaskRoutes } from './routes/task.routes';
 import { createSessionRoutes } from './routes/session.routes';
 import { createMemoryRoutes } from './routes/memory.routes';
+import { createEventRoutes } from './routes/event.routes';
+import { createApprovalRoutes } from './routes/approval.routes';
+import { createWorkspaceRoutes } from './routes/workspace.routes';
+import { createMCPRoutes } from './routes/mcp.routes';
+import { createMCPEndpoint } from './routes/mcp-endpoint.routes';
+import { runtimeRegistrationFromEnv } from '../mcp/external-server-config';
+import { MosaicMCPServer } from '../mcp/mosaic-server';
+import { FilesystemMCPServer } from '../mcp/filesystem-server';
+import type { LangGraphAgent } from '../agents/langgraph-agent';
 import { logger } from '../core/logger';
 
+/**
+ * EventBus channels forwarded to WebSocket clients, keyed by channel
+ */
+const FORWARDED_EVENTS: Record<string, string> = {
+  'task.created': 'task:created',
+  'task.updated': 'task:updated',
+  'task.claimed': 'task:claimed',
+  'task.released': 'task:released',
+  'agent.started': 'agent:started',
+  'agent.stopped': 'agent:stopped',
+  'agent.progress': 'agent:progress',
+  'agent.error': 'agent:error',
+  'agent.completed': 'agent:completed',
+  'action.recorded': 'action:recorded',
+  'action.completed': 'action:completed',
+  'llm.usage': 'llm:usage',
+  'screenshot.captured': 'screenshot:captured',
+  'approval.requested': 'approval:requested',
+  'approval.resolved': 'approval:resolved',
+  'file.locked': 'file:locked',
+  'file.unlocked': 'file:unlocked',
+};
+
+/**
+ * Socket.IO rooms receiving streamed tokens for an agent or task
+ */
+const agentRoom = (agentId: string) => `agent:${agentId}`;
+const taskRoom = (taskId: string) => `task:${taskId}`;
+
 export interface ServerConfig {
   port?: number;
   cors?: {
@@ -35,6 +79,14 @@ export class APIServer {
   private memoryManager: MemoryManager;
   private pluginRegistry: PluginRegistry;
   private mcpServers: MCPServerPlugin[];
+  private taskDispatcher: TaskDispatcher;
+  private messageBus: AgentMessageBus;
+  private approvalManager: ApprovalManager;
+  private workspaceHistory: WorkspaceHistory;
+  private fileLocks: FileLockManager;
+  private memoryConsolidator?: MemoryConsolidator;
+  // Agents loaded by the agent routes, shared with the MCP endpoint
+  private activeAgents = new Map<string, LangGraphAgent>();
   private config: ServerConfig;
 
   constructor(
@@ -44,6 +96,12 @@ export class APIServer {
     memoryManager: MemoryManager,
     pluginRegistry: PluginRegistry,
     mcpServers: MCPServerPlugin[],
+    taskDispatcher: TaskDispatcher,
+    messageBus: AgentMessageBus,
+    approvalManager: ApprovalManager,
+    workspaceHistory: WorkspaceHistory,
+    fileLocks: FileLockManager,
+    memoryConsolidator: MemoryConsolidator | undefined,
     config: ServerConfig = {}
   ) {
     this.eventBus = eventBus;
@@ -52,7 +110,13 @@ export class APIServer {
     this.memoryManager = memoryManager;
     this.pluginRegistry = pluginRegistry;
     this.mcpServers = mcpServers;
+    this.taskDispatcher = taskDispatcher;
+    this.messageBus = messageBus;
+    this.approvalManager = approvalManager;
+    this.workspaceHistory = workspaceHistory;
+    this.fileLocks = fileLocks;
     this.config = config;
+    this.memoryConsolidator = memoryConsolidator;
 
     // Initialize Express
     this.app = express();
@@ -108,11 +172,38 @@ export class APIServer {
       this.taskManager,
       this.sessionManager,
       this.pluginRegistry,
-      this.mcpServers
+      this.mcpServers,
+      this.taskDispatcher,
+      this.messageBus,
+      this.approvalManager,
+      this.activeAgents
     ));
-    this.app.use('/api/tasks', createTaskRoutes(this.taskManager));
+    this.app.use('/api/tasks', createTaskRoutes(this.taskManager, this.mcpServers));
     this.app.use('/api/sessions', createSessionRoutes(this.sessionManager));
-    this.app.use('/api', createMemoryRoutes(this.memoryManager));
+    this.app.use('/api/events', createEventRoutes(this.eventBus));
+    this.app.use('/api/approvals', createApprovalRoutes(this.approvalManager));
+    const workspace = this.mcpServers.find(
+      (server): server is FilesystemMCPServer => server instanceof FilesystemMCPServer
+    );
+    this.app.use(
+      '/api/workspace',
+      createWorkspaceRoutes(this.workspaceHistory, this.fileLocks, workspace)
+    );
+    this.app.use(
+      '/api/mcp',
+      createMCPRoutes(this.pluginRegistry, this.mcpServers, runtimeRegistrationFromEnv())
+    );
+
+    // Mosaic itself as an MCP server, for IDE assistants and other MCP clients
+    const mosaicMCPServer = new MosaicMCPServer({
+      taskManager: this.taskManager,
+      sessionManager: this.sessionManager,
+      memoryManager: this.memoryManager,
+      agents: this.activeAgents,
+      workspace,
+    });
+    this.app.use('/mcp', createMCPEndpoint(mosaicMCPServer, process.env.MOSAIC_MCP_TOKEN));
+    this.app.use('/api', createMemoryRoutes(this.memoryManager, this.memoryConsolidator));
 
     // 404 handler
     this.app.use((req, res) => {
@@ -140,6 +231,13 @@ export class APIServer {
   }
 
   private setupWebSocket() {
+    // Tokens are high-volume, so they only go to sockets that asked for that agent or task
+    this.eventBus.subscribe('agent.token', (event) => {
+      const { agentId, taskId } = event.data;
+      const rooms = [agentRoom(agentId), ...(taskId ? [taskRoom(taskId)] : [])];
+      this.io.to(rooms).emit('agent:token', event.data);
+    });
+
     this.io.on('connection', (socket) => {
       logger.info('Client connected', { socketId: socket.id });
 
@@ -150,71 +248,55 @@ export class APIServer {
       });
 
       // Subscribe to all events and forward to clients
-      const unsubscribers: Array<() => void> = [];
-
-      // Task events
-      unsubscribers.push(
-        this.eventBus.subscribe('task.created', (event) => {
-          socket.emit('task:created', event.data);
-        })
-      );
-
-      unsubscribers.push(
-        this.eventBus.subscribe('task.updated', (event) => {
-          socket.emit('task:updated', event.data);
-        })
-      );
-
-      // Agent events
-      unsubscribers.push(
-        this.eventBus.subscribe('agent.started', (event) => {
-          socket.emit('agent:started', event.data);
-        })
-      );
-
-      unsubscribers.push(
-        this.eventBus.subscribe('agent.stopped', (event) => {
-          socket.emit('agent:stopped', event.data);
+      // The event's log sequence number and source are sent as a second argument
+      const unsubscribers = Object.entries(FORWARDED_EVENTS).map(([channel, socketEvent]) =>
+        this.eventBus.subscribe(channel, (event) => {
+          socket.emit(socketEvent, event.data, { seq: event.seq, source: event.source });
         })
       );
 
-      unsubscribers.push(
-        this.eventBus.subscribe('agent.progress', (event) => {
-          socket.emit('agent:progress', event.data);
-        })
-      );
+      // Reconnecting clients ask for everything after the last seq they saw
+      socket.on('events:replay', (request: { since?: number; limit?: number } = {}) => {
+        const eventLog = this.eventBus.getEventLog();
+        if (!eventLog) {
+          socket.emit('events:replayed', { error: 'Event log not enabled' });
+          return;
+        }
 
-      unsubscribers.push(
-        this.eventBus.subscribe('agent.error', (event) => {
-          socket.emit('agent:error', event.data);
-        })
-      );
+        try {
+          const missed = eventLog.replayFrom(request.since ?? 0, {
+            channels: Object.keys(FORWARDED_EVENTS),
+            limit: request.limit,
+          });
 
-      unsubscribers.push(
-        this.eventBus.subscribe('agent.completed', (event) => {
-          socket.emit('agent:completed', event.data);
-        })
-      );
+          missed.forEach(({ channel, event }) => {
+            socket.emit(FORWARDED_EVENTS[channel], event.data, {
+              seq: event.seq,
+              source: event.source,
+              replayed: true,
+            });
+          });
 
-      // Action events
-      unsubscribers.push(
-        this.eventBus.subscribe('action.recorded', (event) => {
-          socket.emit('action:recorded', event.data);
-        })
-      );
+          socket.emit('events:replayed', {
+            count: missed.length,
+            latestSeq: eventLog.getLatestSeq(),
+          });
+        } catch (error: any) {
+          logger.error('Event replay failed', { socketId: socket.id, error: error.message });
+          socket.emit('events:replayed', { error: error.message });
+        }
+      });
 
-      unsubscribers.push(
-        this.eventBus.subscribe('action.completed', (event) => {
-          socket.emit('action:completed', event.data);
-        })
-      );
+      // Opt in to streamed tokens for an agent and/or task
+      socket.on('agent:subscribe', (request: { agentId?: string; taskId?: string } = {}) => {
+        if (request.agentId) socket.join(agentRoom(request.agentId));
+        if (request.taskId) socket.join(taskRoom(request.taskId));
+      });
 
-      // Screenshot events
-      unsubscribers.push(
-        this.eventBus.subscribe('screenshot.captured', (event) => {
-          socket.emit('screenshot:captured', event.data);
-        })
-      );
+      socket.on('agent:unsubscribe', (request: { agentId?: string; taskId?: string } = {}) => {
+        if (request.agentId) socket.leave(agentRoom(request.agentId));
+        if (request.taskId) socket.leave(taskRoom(request.taskId));
+      });
 
       // Cleanup on disconnect
       socket.on('disconnect', () => {
@@ -0,0 +1,326 @@
+/**
+ * Agent Message Bus - A2A delivery between agents over the EventBus
+ *
+ * Agents register an inbox and exchange A2AMessages either directly
+ * (`to: <agentId>`) or to every registered agent (`to: 'broadcast'`).
+ * Requests are correlated with their responses via metadata.correlationId
+ * and time out if no response arrives.
+ */
+import { A2AMessage, AgentPermissions, MCPToolDefinition, Unsubscribe } from '@mosaic/shared';
+import { EventBus } from './event-bus';
+import { logger } from './logger';
+import { v4 as uuidv4 } from 'uuid';
+
+export const BROADCAST = 'broadcast';
+
+/**
+ * Sender of messages posted through the API; the operator is not a peer,
+ * so allowedAgents and enabled don't apply to it or to replies to it
+ */
+export const OPERATOR = 'user';
+
+/**
+ * Tool agents use to message each other through the bus
+ */
+export const SEND_MESSAGE_TOOL: MCPToolDefinition = {
+  name: 'send_message_to_agent',
+  description:
+    'Send a message to another agent by ID, or to all agents with "broadcast". Use type "query" to ask a question and wait for the answer, "task" to hand over work, or "notification" to share information.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      to: { type: 'string', description: 'Target agent ID or "broadcast"' },
+      type: {
+        type: 'string',
+        enum: ['query', 'task', 'notification'],
+        description: 'Kind of message',
+      },
+      content: { type: 'string', description: 'Message content, question, or task description' },
+      waitForResponse: {
+        type: 'boolean',
+        description: 'Wait for the reply (direct messages only)',
+      },
+    },
+    required: ['to', 'type', 'content'],
+  },
+};
+
+/**
+ * Handles an incoming message; the return value of a handler for a
+ * message expecting a response is sent back as the response payload.
+ */
+export type InboxHandler = (message: A2AMessage) => unknown | Promise<unknown>;
+
+export type OutgoingMessage = Pick<A2AMessage, 'from' | 'to' | 'type' | 'payload'> & {
+  metadata?: Record<string, any>;
+};
+
+interface PendingRequest {
+  resolve: (message: A2AMessage) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface Inbox {
+  handler: InboxHandler;
+  unsubscribers: Unsubscribe[];
+}
+
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+export class AgentMessageBus {
+  private eventBus: EventBus;
+  private inboxes: Map<string, Inbox> = new Map();
+  private permissions: Map<string, AgentPermissions['agentCommunication']> = new Map();
+  private pending: Map<string, PendingRequest> = new Map();
+  private busLogger = logger.child({ service: 'agent-message-bus' });
+
+  constructor(eventBus: EventBus) {
+    this.eventBus = eventBus;
+  }
+
+  static channelFor(agentId: string): string {
+    return `agent.message.${agentId}`;
+  }
+
+  /**
+   * Start receiving direct and broadcast messages for an agent
+   */
+  register(
+    agentId: string,
+    handler: InboxHandler,
+    permissions?: AgentPermissions['agentCommunication']
+  ): Unsubscribe {
+    this.unregister(agentId);
+    this.setPermissions(agentId, permissions);
+
+    const deliver = (message: A2AMessage) => this.deliver(agentId, message);
+    const unsubscribers = [
+      this.eventBus.subscribe(AgentMessageBus.channelFor(agentId), (event) => deliver(event.data)),
+      this.eventBus.subscribe(AgentMessageBus.channelFor(BROADCAST), (event) => deliver(event.data)),
+    ];
+
+    this.inboxes.set(agentId, { handler, unsubscribers });
+    this.busLogger.info('Agent inbox registered', { agentId });
+
+    return () => this.unregister(agentId);
+  }
+
+  unregister(agentId: string): void {
+    const inbox = this.inboxes.get(agentId);
+    if (!inbox) return;
+
+    inbox.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.inboxes.delete(agentId);
+    this.busLogger.info('Agent inbox unregistered', { agentId });
+  }
+
+  /**
+   * Update which agents an agent may exchange messages with
+   */
+  setPermissions(agentId: string, permissions?: AgentPermissions['agentCommunication']): void {
+    if (permissions) {
+      this.permissions.set(agentId, permissions);
+    } else {
+      this.permissions.delete(agentId);
+    }
+  }
+
+  /**
+   * IDs of agents with a registered inbox
+   */
+  listAgents(): string[] {
+    return Array.from(this.inboxes.keys());
+  }
+
+  /**
+   * Send a message without waiting for a response
+   */
+  async send(outgoing: OutgoingMessage): Promise<A2AMessage> {
+    this.assertCanMessage(outgoing.from, outgoing.to);
+
+    const message: A2AMessage = {
+      id: uuidv4(),
+      from: outgoing.from,
+      to: outgoing.to,
+      type: outgoing.type,
+      payload: outgoing.payload,
+      timestamp: new Date().toISOString(),
+      metadata: outgoing.metadata,
+    };
+
+    await this.eventBus.publish(AgentMessageBus.channelFor(outgoing.to), {
+      id: uuidv4(),
+      type: 'agent.message',
+      source: outgoing.from,
+      timestamp: message.timestamp,
+      data: message,
+    });
+
+    this.busLogger.debug('Message sent', {
+      id: message.id,
+      from: message.from,
+      to: message.to,
+      type: message.type,
+    });
+
+    return message;
+  }
+
+  /**
+   * Send a direct message and wait for the correlated response
+   * Rejects on timeout or when the recipient answers with an 'error' message.
+   */
+  async request(
+    outgoing: OutgoingMessage,
+    timeoutMs: number = DEFAULT_REQUEST_TIMEOUT
+  ): Promise<A2AMessage> {
+    if (outgoing.to === BROADCAST) {
+      throw new Error('Requests must be addressed to a single agent');
+    }
+
+    const correlationId = uuidv4();
+
+    // Senders without an inbox (e.g. API callers) still need to receive the response
+    const unsubscribe = this.inboxes.has(outgoing.from)
+      ? undefined
+      : this.eventBus.subscribe(AgentMessageBus.channelFor(outgoing.from), (event) =>
+          this.deliver(outgoing.from, event.data)
+        );
+
+    const response = new Promise<A2AMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(correlationId);
+        reject(new Error(`No response from ${outgoing.to} within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.pending.set(correlationId, { resolve, reject, timer });
+    });
+
+    try {
+      await this.send({
+        ...outgoing,
+        metadata: { ...outgoing.metadata, correlationId, expectsResponse: true },
+      });
+    } catch (error) {
+      const pending = this.pending.get(correlationId);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pending.delete(correlationId);
+      }
+      unsubscribe?.();
+      throw error;
+    }
+
+    try {
+      return await response;
+    } finally {
+      unsubscribe?.();
+    }
+  }
+
+  /**
+   * Reject pending requests and drop all inboxes
+   */
+  shutdown(): void {
+    this.pending.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Agent message bus shut down'));
+    });
+    this.pending.clear();
+
+    Array.from(this.inboxes.keys()).forEach((agentId) => this.unregister(agentId));
+  }
+
+  private async deliver(agentId: string, message: A2AMessage): Promise<void> {
+    // Don't echo broadcasts back to the sender
+    if (message.from === agentId) return;
+
+    const correlationId = message.metadata?.correlationId as string | undefined;
+
+    // Responses to our own requests bypass the inbox handler
+    if ((message.type === 'response' || message.type === 'error') && correlationId) {
+      const pending = this.pending.get(correlationId);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pending.delete(correlationId);
+
+        if (message.type === 'error') {
+          pending.reject(new Error(String(message.payload?.error ?? message.payload)));
+        } else {
+          pending.resolve(message);
+        }
+      }
+      return;
+    }
+
+    if (!this.isAllowed(agentId, message.from)) {
+      this.busLogger.warn('Dropped message from agent not in allowedAgents', {
+        agentId,
+        from: message.from,
+      });
+      return;
+    }
+
+    const inbox = this.inboxes.get(agentId);
+    if (!inbox) return;
+
+    try {
+      const result = await inbox.handler(message);
+
+      if (message.metadata?.expectsResponse) {
+        await this.send({
+          from: agentId,
+          to: message.from,
+          type: 'response',
+          payload: result,
+          metadata: { correlationId },
+        });
+      }
+    } catch (error: any) {
+      this.busLogger.error('Inbox handler failed', {
+        agentId,
+        messageId: message.id,
+        error: error.message,
+      });
+
+      if (message.metadata?.expectsResponse) {
+        await this.send({
+          from: agentId,
+          to: message.from,
+          type: 'error',
+          payload: { error: error.message },
+          metadata: { correlationId },
+        });
+      }
+    }
+  }
+
+  private assertCanMessage(from: string, to: string): void {
+    if (to === OPERATOR) return;
+
+    const permissions = this.permissions.get(from);
+
+    if (permissions?.enabled === false) {
+      throw new Error(`Agent ${from} is not permitted to communicate with other agents`);
+    }
+
+    if (!this.isAllowed(from, to)) {
+      throw new Error(`Agent ${from} is not permitted to message ${to}`);
+    }
+  }
+
+  /**
+   * No allowedAgents list means any peer is allowed
+   */
+  private isAllowed(agentId: string, peerId: string): boolean {
+    if (peerId === OPERATOR) return true;
+
+    const permissions = this.permissions.get(agentId);
+    if (!permissions) return true;
+    if (permissions.enabled === false) return false;
+    if (!permissions.allowedAgents) return true;
+
+    return permissions.allowedAgents.includes(peerId) || permissions.allowedAgents.includes('*');
+  }
+}
@@ -1,31 +1,52 @@
 /**
- * Event Bus - Redis-based pub/sub for system-wide events
+ * Event Bus - Pub/sub for system-wide events over a pluggable transport
+ * (Redis for multi-process deployments, in-memory for single-node installs)
  */
 import { EventBus as IEventBus, SystemEvent, EventHandler, Unsubscribe } from '@mosaic/shared';
-import { createClient, RedisClientType } from 'redis';
 import { logger } from './logger';
 import { v4 as uuid } from 'uuid';
+import {
+  EventTransport,
+  EventTransportType,
+  RedisEventTransport,
+  createEventTransport,
+} from './event-transport';
+import { EventLog } from './event-log';
 
 export class EventBus implements IEventBus {
-  private publishClient: RedisClientType;
-  private subscribeClient: RedisClientType;
+  private transport: EventTransport;
+  private eventLog?: EventLog;
   private handlers: Map<string, Set<EventHandler>> = new Map();
   private patternHandlers: Map<string, Set<EventHandler>> = new Map();
   private connected: boolean = false;
 
-  constructor(redisUrl: string) {
-    this.publishClient = createClient({ url: redisUrl });
-    this.subscribeClient = createClient({ url: redisUrl });
+  /**
+   * @param transport Transport instance, or a Redis URL for the Redis transport
+   */
+  constructor(transport: EventTransport | string, eventLog?: EventLog) {
+    this.transport =
+      typeof transport === 'string' ? new RedisEventTransport(transport) : transport;
+    this.eventLog = eventLog;
+  }
+
+  /**
+   * Durable log backing replay, if configured
+   */
+  getEventLog(): EventLog | undefined {
+    return this.eventLog;
+  }
+
+  get transportType(): EventTransportType {
+    return this.transport.type;
   }
 
   async connect(): Promise<void> {
     if (this.connected) return;
 
     try {
-      await this.publishClient.connect();
-      await this.subscribeClient.connect();
+      await this.transport.connect();
       this.connected = true;
-      logger.info('Event bus connected');
+      logger.info('Event bus connected', { transport: this.transport.type });
     } catch (error) {
       logger.error('Failed to connect to event bus', { error });
       throw error;
@@ -38,8 +59,13 @@ export class EventBus implements IEventBus {
     }
 
     try {
+      // Sequence before publishing so subscribers see the same seq as replays
+      if (this.eventLog?.shouldLog(channel)) {
+        event.seq = this.eventLog.append(channel, event);
+      }
+
       const message = JSON.stringify(event);
-      await this.publishClient.publish(channel, message);
+      await this.transport.publish(channel, message);
       logger.debug('Event published', { channel, eventType: event.type });
     } catch (error) {
       logger.error('Failed to publish event', { channel, error });
@@ -51,9 +77,9 @@ export class EventBus implements IEventBus {
     if (!this.handlers.has(channel)) {
       this.handlers.set(channel, new Set());
 
-      // Subscribe to Redis channel
-      this.subscribeClient.subscribe(channel, (message) => {
-        this.handleMessage(channel, message);
+      // Subscribe to transport channel
+      this.transport.subscribe(channel, (message) => {
+        this.dispatch(this.handlers.get(channel), channel, message);
       });
     }
 
@@ -65,7 +91,7 @@ export class EventBus implements IEventBus {
       if (handlers) {
         handlers.delete(handler);
         if (handlers.size === 0) {
-          this.subscribeClient.unsubscribe(channel);
+          this.transport.unsubscribe(channel);
           this.handlers.delete(channel);
         }
       }
@@ -76,9 +102,9 @@ export class EventBus implements IEventBus {
     if (!this.patternHandlers.has(pattern)) {
       this.patternHandlers.set(pattern, new Set());
 
-      // Subscribe to Redis pattern
-      this.subscribeClient.pSubscribe(pattern, (message, channel) => {
-        this.handleMessage(channel, message);
+      // Subscribe to transport pattern
+      this.transport.pSubscribe(pattern, (message, channel) => {
+        this.dispatch(this.patternHandlers.get(pattern), channel, message);
       });
     }
 
@@ -90,30 +116,25 @@ export class EventBus implements IEventBus {
       if (handlers) {
         handlers.delete(handler);
         if (handlers.size === 0) {
-          this.subscribeClient.pUnsubscribe(pattern);
+          this.transport.pUnsubscribe(pattern);
           this.patternHandlers.delete(pattern);
         }
       }
     };
   }
 
-  private handleMessage(channel: string, message: string): void {
+  /**
+   * Deliver a message to the handlers registered for one channel or pattern
+   * The transport only invokes a pattern listener for channels matching it.
+   */
+  private dispatch(handlers: Set<EventHandler> | undefined, channel: string, message: string): void {
+    if (!handlers || handlers.size === 0) return;
+
     try {
       const event: SystemEvent = JSON.parse(message);
 
-      // Call direct subscribers
-      const handlers = this.handlers.get(channel);
-      if (handlers) {
-        handlers.forEach((handler) => {
-          this.safeExecuteHandler(handler, event);
-        });
-      }
-
-      // Call pattern subscribers
-      this.patternHandlers.forEach((handlers) => {
-        handlers.forEach((handler) => {
-          this.safeExecuteHandler(handler, event);
-        });
+      handlers.forEach((handler) => {
+        this.safeExecuteHandler(handler, event);
       });
     } catch (error) {
       logger.error('Failed to handle event', { channel, error });
@@ -137,8 +158,7 @@ export class EventBus implements IEventBus {
     if (!this.connected) return;
 
     try {
-      await this.publishClient.quit();
-      await this.subscribeClient.quit();
+      await this.transport.disconnect();
       this.connected = false;
       logger.info('Event bus disconnected');
     } catch (error) {
@@ -157,3 +177,12 @@ export function createEvent(type: string, source: string, data: any): SystemEven
     timestamp: new Date().toISOString(),
   };
 }
+
+/**
+ * Create an event bus for the configured transport
+ */
+export function createEventBus(
+  options: { transport?: EventTransportType; redisUrl?: string; eventLog?: EventLog } = {}
+): EventBus {
+  return new EventBus(createEventTransport(options.transport, options.redisUrl), options.eventLog);
+}
@@ -0,0 +1,108 @@
+/**
+ * Event Log - Durable, sequenced record of published events
+ *
+ * The EventBus appends every event on a logged channel before publishing it,
+ * stamping it with a monotonically increasing sequence number. Clients that
+ * reconnect call replayFrom(lastSeenSeq) to catch up on what they missed.
+ */
+import { EventLogRepository, LoggedEvent } from '../persistence/repositories/event-log.repository';
+import { globToRegExp } from './event-transport';
+import { logger } from './logger';
+
+export interface EventLogOptions {
+  /** Channel globs to record */
+  include?: string[];
+  /** Channel globs never recorded (high-volume or request/response traffic) */
+  exclude?: string[];
+  /** Number of most recent events to keep */
+  retention?: number;
+}
+
+export interface ReplayOptions {
+  /** Only replay channels matching one of these globs */
+  channels?: string[];
+  limit?: number;
+}
+
+const DEFAULT_INCLUDE = ['task.*', 'action.*', 'agent.*', 'session.*'];
+const DEFAULT_EXCLUDE = ['agent.message.*', 'agent.token'];
+const DEFAULT_RETENTION = 10000;
+const DEFAULT_REPLAY_LIMIT = 1000;
+const PRUNE_EVERY = 500;
+
+export class EventLog {
+  private repo: EventLogRepository;
+  private include: RegExp[];
+  private exclude: RegExp[];
+  private retention: number;
+  private appendsSincePrune = 0;
+  private logLogger = logger.child({ service: 'event-log' });
+
+  constructor(repo: EventLogRepository, options: EventLogOptions = {}) {
+    this.repo = repo;
+    this.include = (options.include || DEFAULT_INCLUDE).map(globToRegExp);
+    this.exclude = (options.exclude || DEFAULT_EXCLUDE).map(globToRegExp);
+    this.retention = options.retention ?? DEFAULT_RETENTION;
+  }
+
+  shouldLog(channel: string): boolean {
+    return (
+      this.include.some((regex) => regex.test(channel)) &&
+      !this.exclude.some((regex) => regex.test(channel))
+    );
+  }
+
+  /**
+   * Record an event and return its sequence number
+   */
+  append(channel: string, event: LoggedEvent['event']): number {
+    const seq = this.repo.append(channel, event);
+
+    if (++this.appendsSincePrune >= PRUNE_EVERY) {
+      this.appendsSincePrune = 0;
+      this.prune(seq);
+    }
+
+    return seq;
+  }
+
+  /**
+   * Events logged after `seq`, oldest first
+   */
+  replayFrom(seq: number, options: ReplayOptions = {}): LoggedEvent[] {
+    const limit = options.limit ?? DEFAULT_REPLAY_LIMIT;
+    const channels = options.channels?.map(globToRegExp);
+    const results: LoggedEvent[] = [];
+    let cursor = seq;
+
+    while (results.length < limit) {
+      const batch = this.repo.findAfter(cursor, limit);
+      if (batch.length === 0) break;
+
+      for (const logged of batch) {
+        if (!channels || channels.some((regex) => regex.test(logged.channel))) {
+          results.push(logged);
+          if (results.length >= limit) break;
+        }
+      }
+
+      cursor = batch[batch.length - 1].event.seq!;
+    }
+
+    return results;
+  }
+
+  getLatestSeq(): number {
+    return this.repo.getLatestSeq();
+  }
+
+  private prune(latestSeq: number): void {
+    const cutoff = latestSeq - this.retention;
+    if (cutoff <= 0) return;
+
+    const deleted = this.repo.deleteUpTo(cutoff);
+    if (deleted > 0) {
+      this.logLogger.debug('Pruned event log', { deleted, cutoff });
+    }
+  }
+}
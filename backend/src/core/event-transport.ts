@@ -0,0 +1,174 @@
+/**
+ * Event Transports - Pluggable pub/sub backends for the EventBus
+ *
+ * Redis is used for multi-process deployments; the in-memory transport keeps
+ * everything inside this process so single-node installs, integration tests
+ * and local development need no external service.
+ */
+import { createClient, RedisClientType } from 'redis';
+
+export type EventTransportType = 'redis' | 'memory';
+
+export type TransportListener = (message: string, channel: string) => void;
+
+export interface EventTransport {
+  readonly type: EventTransportType;
+
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+
+  publish(channel: string, message: string): Promise<void>;
+
+  /** Register the single listener for a channel */
+  subscribe(channel: string, listener: TransportListener): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+
+  /** Register the single listener for a glob pattern */
+  pSubscribe(pattern: string, listener: TransportListener): Promise<void>;
+  pUnsubscribe(pattern: string): Promise<void>;
+}
+
+export class RedisEventTransport implements EventTransport {
+  readonly type = 'redis' as const;
+
+  private publishClient: RedisClientType;
+  private subscribeClient: RedisClientType;
+
+  constructor(redisUrl: string) {
+    this.publishClient = createClient({ url: redisUrl });
+    this.subscribeClient = createClient({ url: redisUrl });
+  }
+
+  async connect(): Promise<void> {
+    await this.publishClient.connect();
+    await this.subscribeClient.connect();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.publishClient.quit();
+    await this.subscribeClient.quit();
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.publishClient.publish(channel, message);
+  }
+
+  async subscribe(channel: string, listener: TransportListener): Promise<void> {
+    await this.subscribeClient.subscribe(channel, (message) => listener(message, channel));
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    await this.subscribeClient.unsubscribe(channel);
+  }
+
+  async pSubscribe(pattern: string, listener: TransportListener): Promise<void> {
+    await this.subscribeClient.pSubscribe(pattern, (message, channel) => listener(message, channel));
+  }
+
+  async pUnsubscribe(pattern: string): Promise<void> {
+    await this.subscribeClient.pUnsubscribe(pattern);
+  }
+}
+
+export class InMemoryEventTransport implements EventTransport {
+  readonly type = 'memory' as const;
+
+  private channels: Map<string, TransportListener> = new Map();
+  private patterns: Map<string, { regex: RegExp; listener: TransportListener }> = new Map();
+
+  async connect(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async disconnect(): Promise<void> {
+    this.channels.clear();
+    this.patterns.clear();
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    // Deliver asynchronously, like Redis, so publishers never run handlers inline
+    setImmediate(() => {
+      this.channels.get(channel)?.(message, channel);
+
+      this.patterns.forEach(({ regex, listener }) => {
+        if (regex.test(channel)) {
+          listener(message, channel);
+        }
+      });
+    });
+  }
+
+  async subscribe(channel: string, listener: TransportListener): Promise<void> {
+    this.channels.set(channel, listener);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    this.channels.delete(channel);
+  }
+
+  async pSubscribe(pattern: string, listener: TransportListener): Promise<void> {
+    this.patterns.set(pattern, { regex: globToRegExp(pattern), listener });
+  }
+
+  async pUnsubscribe(pattern: string): Promise<void> {
+    this.patterns.delete(pattern);
+  }
+}
+
+/**
+ * Convert a Redis PSUBSCRIBE glob to a RegExp
+ * Supports `*`, `?`, `[...]` / `[^...]` character classes and `\` escapes.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+
+      let body = pattern.slice(i + 1, end);
+      const negated = body.startsWith('^');
+      if (negated) body = body.slice(1);
+
+      source += `[${negated ? '^' : ''}${body.replace(/[\]\\]/g, '\\$&')}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, 's');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+}
+
+/**
+ * Create the transport selected by configuration
+ */
+export function createEventTransport(
+  type: EventTransportType = 'redis',
+  redisUrl: string = 'redis://localhost:6379'
+): EventTransport {
+  switch (type) {
+    case 'memory':
+      return new InMemoryEventTransport();
+    case 'redis':
+      return new RedisEventTransport(redisUrl);
+    default:
+      throw new Error(`Unknown event bus transport: ${type}`);
+  }
+}
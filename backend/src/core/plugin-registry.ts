@@ -28,13 +28,7 @@ export class PluginRegistry implements IPluginRegistry {
       type: plugin.type,
     });
 
-    // Create plugin context
-    const context: PluginContext = {
-      config: this.loadPluginConfig(plugin.name),
-      logger: logger.child({ plugin: plugin.name }),
-      eventBus: this.eventBus,
-      plugins: this,
-    };
+    const context = this.createContext(plugin.name);
 
     try {
       // Initialize plugin
@@ -85,6 +79,18 @@ export class PluginRegistry implements IPluginRegistry {
     return this.getAll().filter((plugin) => plugin.type === type);
   }
 
+  /**
+   * Context for a plugin; also used for plugin instances kept out of the registry
+   */
+  createContext(name: string): PluginContext {
+    return {
+      config: this.loadPluginConfig(name),
+      logger: logger.child({ plugin: name }),
+      eventBus: this.eventBus,
+      plugins: this,
+    };
+  }
+
   private loadPluginConfig(name: string): Record<string, any> {
     // In a real implementation, load from config files or environment
     // For now, return empty config
@@ -0,0 +1,410 @@
+/**
+ * Tool Policy - Enforces AgentPermissions on MCP tool invocations
+ *
+ * Sits between an agent and MCPServerPlugin.invokeTool. Filesystem tools
+ * are checked against read/write/delete and allowedPaths, browser tools
+ * against enabled and allowedDomains, and memory tools against read/write.
+ * Clicks, scripts and history navigation can leave the allowed domains
+ * without a url param, so browser calls are also checked against the page
+ * their session is on, before and after they run.
+ * An unset permission allows the operation, so agents created without
+ * permissions keep working. Code execution in the local sandbox is the
+ * exception: it runs on the host, so it needs codeExecution.enabled. Denied calls never reach the server; they are
+ * recorded as agent_error actions and returned as failed results.
+ *
+ * Calls listed in the agent's approval policy additionally wait for an
+ * operator decision through the ApprovalManager before they run.
+ *
+ * Resource reads are checked as reads of the server they belong to; a
+ * workspace file resource is checked like read_file of its path.
+ *
+ * Browser pages only download files into the workspace when the agent may
+ * write to its downloads directory.
+ */
+import * as path from 'path';
+import {
+  AgentPermissions,
+  ApprovalPolicy,
+  JSONSchema,
+  MCPServerPlugin,
+  MCPToolCaller,
+  MCPToolResult,
+} from '@mosaic/shared';
+import { SessionManager } from '../services/session/session-manager.service';
+import { ApprovalManager, requiresApproval } from '../services/approval/approval-manager.service';
+import { workspaceResourcePath } from '../mcp/filesystem-server';
+import { BrowserToolCaller, DOWNLOADS_PATH } from '../mcp/browser-server';
+import { readResource } from '../mcp/resource-tools';
+import { logger } from './logger';
+
+type Operation = 'read' | 'write' | 'delete';
+
+// Params that name workspace paths across filesystem tools
+const PATH_PARAMS = ['path', 'source', 'destination', 'from', 'to'];
+
+// Browser tools that leave or close the current page rather than act on it
+const PAGE_INDEPENDENT_TOOLS = ['navigate_to', 'open_tab', 'close_tab', 'close_session'];
+
+/**
+ * Browser server that reports the page a session is on
+ */
+interface PageUrlSource {
+  getPageUrl(sessionId: string): string | undefined;
+}
+
+function hasPageUrls(server: MCPServerPlugin): server is MCPServerPlugin & PageUrlSource {
+  return typeof (server as Partial<PageUrlSource>).getPageUrl === 'function';
+}
+
+/**
+ * Classify a tool by name, so tools added to a server later are covered
+ */
+function operationOf(toolName: string): Operation {
+  if (/^(delete|remove|rm)(_|$)/.test(toolName)) return 'delete';
+  if (/^(read|list|get|search|find|stat|exists|recall)(_|$)/.test(toolName)) return 'read';
+  return 'write';
+}
+
+/**
+ * Operations a filesystem tool performs; a move also deletes its source
+ */
+function filesystemOperationsOf(toolName: string): Operation[] {
+  if (/^(move|rename)(_|$)/.test(toolName)) return ['write', 'delete'];
+  return [operationOf(toolName)];
+}
+
+/**
+ * Normalize a workspace-relative path; undefined when it escapes the workspace
+ */
+function normalizePath(value: string): string | undefined {
+  const normalized = path.posix.normalize(value.replace(/\\/g, '/')).replace(/\/+$/, '');
+  if (normalized === '..' || normalized.startsWith('../')) return undefined;
+  return normalized === '.' ? '' : normalized.replace(/^\.\//, '');
+}
+
+function isPathAllowed(value: string, allowedPaths: string[]): boolean {
+  const target = normalizePath(value);
+  if (target === undefined) return false;
+
+  return allowedPaths.some((allowed) => {
+    if (allowed === '*') return true;
+    const prefix = normalizePath(allowed);
+    if (prefix === undefined) return false;
+    return prefix === '' || target === prefix || target.startsWith(`${prefix}/`);
+  });
+}
+
+function isDomainAllowed(url: string, allowedDomains: string[]): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  return allowedDomains.some((domain) => {
+    const allowed = domain.toLowerCase().replace(/^\*\./, '');
+    return allowed === '*' || hostname === allowed || hostname.endsWith(`.${allowed}`);
+  });
+}
+
+export class ToolPolicy {
+  private permissions: AgentPermissions;
+  private sessionManager?: SessionManager;
+  private approvalManager?: ApprovalManager;
+  private approvalPolicy?: ApprovalPolicy;
+  private policyLogger = logger.child({ service: 'tool-policy' });
+
+  constructor(
+    permissions: AgentPermissions = {},
+    sessionManager?: SessionManager,
+    approvalManager?: ApprovalManager,
+    approvalPolicy?: ApprovalPolicy
+  ) {
+    this.permissions = permissions;
+    this.sessionManager = sessionManager;
+    this.approvalManager = approvalManager;
+    this.approvalPolicy = approvalPolicy;
+  }
+
+  setPermissions(permissions: AgentPermissions): void {
+    this.permissions = permissions;
+  }
+
+  setApprovalPolicy(policy: ApprovalPolicy | undefined): void {
+    this.approvalPolicy = policy;
+  }
+
+  /**
+   * Reason the call is denied, or undefined when it is allowed
+   */
+  check(serverName: string, toolName: string, params: any): string | undefined {
+    switch (serverName) {
+      case 'filesystem':
+        return this.checkFilesystem(toolName, params || {});
+      case 'browser':
+        return this.checkBrowser(toolName, params || {});
+      case 'memory':
+        return this.checkMemory(toolName);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Reason execute_python is denied, or undefined when it is allowed
+   * E2B sandboxes are hosted; the local sandbox must be granted explicitly.
+   */
+  checkCodeExecution(hosted: boolean): string | undefined {
+    const enabled = this.permissions.codeExecution?.enabled;
+    if (enabled === false || (!hosted && enabled !== true)) {
+      return 'code execution is not allowed';
+    }
+    return undefined;
+  }
+
+  /**
+   * Invoke a tool on behalf of the caller if its permissions allow it
+   */
+  async invoke(
+    server: MCPServerPlugin,
+    toolName: string,
+    params: any,
+    caller: MCPToolCaller
+  ): Promise<MCPToolResult> {
+    const tool = `${server.name}.${toolName}`;
+    const reason =
+      this.check(server.name, toolName, params) ||
+      (PAGE_INDEPENDENT_TOOLS.includes(toolName)
+        ? undefined
+        : this.checkBrowserPage(server, params?.sessionId));
+    if (reason) {
+      return this.deny(tool, params, caller, reason);
+    }
+
+    const inputSchema = server.getTools().find((t) => t.name === toolName)?.inputSchema;
+    const approval = await this.authorize(tool, params, caller, inputSchema);
+    if (approval.error) {
+      return { success: false, error: approval.error, metadata: { approvalDenied: true } };
+    }
+
+    // Edited params must still satisfy the agent's permissions
+    if (approval.params !== params) {
+      const editedReason = this.check(server.name, toolName, approval.params);
+      if (editedReason) {
+        return this.deny(tool, approval.params, caller, editedReason);
+      }
+    }
+
+    const result = await server.invokeTool(
+      toolName,
+      approval.params,
+      this.callerFor(server, caller)
+    );
+
+    // Withhold results of calls that ended up on a page outside the allowed domains
+    const leftReason = result.success
+      ? this.checkBrowserPage(server, result.data?.sessionId ?? approval.params?.sessionId)
+      : undefined;
+    if (leftReason) {
+      return this.deny(tool, approval.params, caller, leftReason);
+    }
+
+    return result;
+  }
+
+  /**
+   * Reason reading the resource is denied, or undefined when it is allowed
+   */
+  checkResource(serverName: string, uri: string): string | undefined {
+    if (serverName === 'filesystem') {
+      // Any other URI is treated as outside the workspace
+      const filePath = workspaceResourcePath(uri);
+      return this.check(serverName, 'read_file', { path: filePath ?? '..' });
+    }
+    return this.check(serverName, 'read_resource', { uri });
+  }
+
+  /**
+   * Read a resource on behalf of the caller; approvals use "<server>.read_resource"
+   */
+  async readResource(
+    server: MCPServerPlugin,
+    uri: string,
+    caller: MCPToolCaller
+  ): Promise<MCPToolResult> {
+    const tool = `${server.name}.read_resource`;
+    const reason = this.checkResource(server.name, uri);
+    if (reason) {
+      return this.deny(tool, { uri }, caller, reason);
+    }
+
+    const approval = await this.authorize(tool, { uri }, caller);
+    if (approval.error) {
+      return { success: false, error: approval.error, metadata: { approvalDenied: true } };
+    }
+
+    const approvedUri = approval.params?.uri ?? uri;
+    if (approvedUri !== uri) {
+      const editedReason = this.checkResource(server.name, approvedUri);
+      if (editedReason) {
+        return this.deny(tool, approval.params, caller, editedReason);
+      }
+    }
+
+    return readResource(server, approvedUri);
+  }
+
+  /**
+   * Wait for operator approval when the tool is in the approval policy.
+   * Resolves with the params to run with, or an error when the call must not run.
+   */
+  async authorize(
+    tool: string,
+    params: any,
+    caller: MCPToolCaller,
+    inputSchema?: JSONSchema
+  ): Promise<{ params: any; error?: string }> {
+    if (!this.approvalManager || !requiresApproval(this.approvalPolicy, tool)) {
+      return { params };
+    }
+
+    const outcome = await this.approvalManager.requestApproval(
+      { ...caller, tool, params, inputSchema },
+      this.approvalPolicy!
+    );
+    if (outcome.approved) {
+      return { params: outcome.params ?? params };
+    }
+
+    const { request } = outcome;
+    const error =
+      request.status === 'expired'
+        ? `Approval for ${tool} timed out`
+        : `Operator denied ${tool}${request.reason ? `: ${request.reason}` : ''}`;
+    this.policyLogger.warn('Tool invocation not approved', {
+      agentId: caller.agentId,
+      tool,
+      status: request.status,
+    });
+    await this.recordDenial(tool, params, caller, error);
+
+    return { params, error };
+  }
+
+  private async deny(
+    tool: string,
+    params: any,
+    caller: MCPToolCaller,
+    reason: string
+  ): Promise<MCPToolResult> {
+    const error = `Permission denied: ${reason}`;
+    this.policyLogger.warn('Tool invocation denied', { agentId: caller.agentId, tool, reason });
+    await this.recordDenial(tool, params, caller, error);
+
+    return { success: false, error, metadata: { permissionDenied: true } };
+  }
+
+  /**
+   * Tell the browser server whether the agent's pages may download files
+   */
+  private callerFor(server: MCPServerPlugin, caller: MCPToolCaller): BrowserToolCaller {
+    if (server.name !== 'browser') return caller;
+
+    const allowDownloads = !this.checkFilesystem('write_file', { path: DOWNLOADS_PATH });
+    return { ...caller, allowDownloads };
+  }
+
+  private checkFilesystem(toolName: string, params: Record<string, unknown>): string | undefined {
+    const filesystem = this.permissions.filesystem;
+    if (!filesystem) return undefined;
+
+    const operation = filesystemOperationsOf(toolName).find((op) => filesystem[op] === false);
+    if (operation) {
+      return `filesystem ${operation} access is not allowed`;
+    }
+
+    if (filesystem.allowedPaths) {
+      const paths = PATH_PARAMS.map((key) => params[key]).filter(
+        (value): value is string => typeof value === 'string'
+      );
+      // Tools without a path (e.g. list_files) act on the workspace root
+      if (paths.length === 0) paths.push('');
+
+      const denied = paths.find((p) => !isPathAllowed(p, filesystem.allowedPaths!));
+      if (denied !== undefined) {
+        return `path "${denied || '/'}" is outside the allowed paths`;
+      }
+    }
+
+    return undefined;
+  }
+
+  private checkBrowser(toolName: string, params: Record<string, unknown>): string | undefined {
+    const browser = this.permissions.browser;
+    if (!browser) return undefined;
+
+    if (browser.enabled === false) {
+      return 'browser access is not allowed';
+    }
+
+    // Other browser tools act on the session's page, checked in invoke()
+    if (browser.allowedDomains && typeof params.url === 'string') {
+      if (!isDomainAllowed(params.url, browser.allowedDomains)) {
+        return `${params.url} is not in the allowed domains`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reason the browser session's current page is off limits, or undefined
+   */
+  private checkBrowserPage(server: MCPServerPlugin, sessionId: unknown): string | undefined {
+    const allowedDomains = this.permissions.browser?.allowedDomains;
+    if (server.name !== 'browser' || !allowedDomains || typeof sessionId !== 'string') {
+      return undefined;
+    }
+    if (!hasPageUrls(server)) return undefined;
+
+    const url = server.getPageUrl(sessionId);
+    if (!url || url === 'about:blank' || isDomainAllowed(url, allowedDomains)) return undefined;
+    return `page ${url} is not in the allowed domains`;
+  }
+
+  private checkMemory(toolName: string): string | undefined {
+    const memory = this.permissions.memory;
+    if (!memory) return undefined;
+
+    const operation = operationOf(toolName) === 'read' ? 'read' : 'write';
+    if (memory[operation] === false) {
+      return `memory ${operation} access is not allowed`;
+    }
+
+    return undefined;
+  }
+
+  private async recordDenial(
+    tool: string,
+    params: any,
+    caller: MCPToolCaller,
+    message: string
+  ): Promise<void> {
+    if (!this.sessionManager || !caller.sessionId) return;
+
+    try {
+      const action = await this.sessionManager.recordAction(
+        caller.sessionId,
+        caller.agentId,
+        'agent_error',
+        `Blocked ${tool}`,
+        { tool, params, error: { message } },
+        caller.taskId
+      );
+      await this.sessionManager.completeAction(action.id, 'failed', undefined, { message });
+    } catch (error: any) {
+      this.policyLogger.warn('Failed to record denied tool invocation', { error: error.message });
+    }
+  }
+}
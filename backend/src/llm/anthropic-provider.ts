@@ -5,6 +5,7 @@ import { BaseLLMProvider } from './base-provider';
 import {
   CompletionRequest,
   CompletionResponse,
+  CompletionChunk,
   ModelInfo,
   LLMFeature,
   PluginContext,
@@ -103,6 +104,76 @@ export class AnthropicProvider extends BaseLLMProvider {
     }
   }
 
+  /**
+   * Stream a completion as it is generated
+   * Text arrives as content deltas; tool_use blocks are assembled from their
+   * partial JSON and emitted once, together with the finish reason.
+   */
+  async *streamComplete(request: CompletionRequest): AsyncGenerator<CompletionChunk> {
+    if (!this.client) {
+      throw new Error('Anthropic client not initialized');
+    }
+
+    const { system, messages } = this.convertMessages(request.messages);
+    const tools = request.tools?.map((tool: any) => ({
+      name: tool.function.name,
+      description: tool.function.description || '',
+      input_schema: tool.function.parameters || { type: 'object', properties: {} },
+    }));
+
+    // Tool calls keyed by content block index
+    const toolCalls: Map<number, { id: string; name: string; arguments: string }> = new Map();
+
+    try {
+      const stream = await this.client.messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens || 4096,
+        temperature: request.temperature,
+        top_p: request.topP,
+        system: system || undefined,
+        messages: messages as any,
+        tools: tools && tools.length > 0 ? tools : undefined,
+        stop_sequences: request.stop,
+        stream: true,
+      });
+
+      for await (const event of stream) {
+        if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+          toolCalls.set(event.index, {
+            id: event.content_block.id,
+            name: event.content_block.name,
+            arguments: '',
+          });
+        } else if (event.type === 'content_block_delta') {
+          if (event.delta.type === 'text_delta') {
+            yield { delta: { role: 'assistant', content: event.delta.text } };
+          } else if (event.delta.type === 'input_json_delta') {
+            const call = toolCalls.get(event.index);
+            if (call) call.arguments += event.delta.partial_json;
+          }
+        } else if (event.type === 'message_delta' && event.delta.stop_reason) {
+          yield {
+            delta:
+              toolCalls.size > 0
+                ? {
+                    role: 'assistant',
+                    toolCalls: Array.from(toolCalls.values()).map((call) => ({
+                      id: call.id,
+                      type: 'function' as const,
+                      function: { name: call.name, arguments: call.arguments || '{}' },
+                    })),
+                  }
+                : {},
+            finishReason: this.mapStopReason(event.delta.stop_reason),
+          };
+        }
+      }
+    } catch (error) {
+      this.context?.logger.error('Anthropic streaming completion failed', { error });
+      throw error;
+    }
+  }
+
   async getModels(): Promise<ModelInfo[]> {
     return [
       {
@@ -162,6 +233,17 @@ export class AnthropicProvider extends BaseLLMProvider {
     return visionModels.some(m => model.includes(m));
   }
 
+  private mapStopReason(stopReason: string): CompletionChunk['finishReason'] {
+    switch (stopReason) {
+      case 'tool_use':
+        return 'tool_calls';
+      case 'max_tokens':
+        return 'length';
+      default:
+        return 'stop';
+    }
+  }
+
   /**
    * Convert OpenAI-style messages to Anthropic format
    * Anthropic requires system messages to be separate from the messages array
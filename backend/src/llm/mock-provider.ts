@@ -0,0 +1,271 @@
+/**
+ * Mock LLM Provider - Deterministic, scripted responses for tests
+ *
+ * Replays responses from a fixture instead of calling a model. Each scripted
+ * response may match on prompt content, a regex, or the call's step index;
+ * responses without matchers are served in order. Prompts no response matches
+ * are recorded so fixtures can be extended from real runs.
+ */
+import fs from 'fs';
+import { BaseLLMProvider } from './base-provider';
+import {
+  CompletionRequest,
+  CompletionResponse,
+  CompletionChunk,
+  LLMMessage,
+  ModelInfo,
+  LLMFeature,
+  ToolCall,
+  TokenUsage,
+} from '@mosaic/shared';
+
+export interface MockLLMResponse {
+  /** Every listed substring must appear somewhere in the prompt */
+  contains?: string | string[];
+  /** Regular expression (source) tested against the prompt */
+  pattern?: string;
+  /** 1-based index of the completion call this response answers */
+  step?: number;
+
+  /** Assistant text; `json` is serialized into the content instead when set */
+  content?: string;
+  json?: unknown;
+  toolCalls?: Array<{
+    id?: string;
+    name: string;
+    arguments: Record<string, unknown> | string;
+  }>;
+  /** Stream the content in exactly these pieces (defaults to word by word) */
+  chunks?: string[];
+  finishReason?: CompletionResponse['finishReason'];
+  usage?: TokenUsage;
+
+  /** Keep serving this response instead of consuming it on first use */
+  repeat?: boolean;
+}
+
+export interface MockLLMFixture {
+  name?: string;
+  responses: MockLLMResponse[];
+  /** Served when nothing matches; without it unmatched prompts throw */
+  fallback?: MockLLMResponse;
+}
+
+export interface MockLLMCall {
+  step: number;
+  request: CompletionRequest;
+  /** Index into fixture.responses, 'fallback', or null when unmatched */
+  matched: number | 'fallback' | null;
+}
+
+export interface MockProviderOptions {
+  fixture?: MockLLMFixture;
+  /** JSON fixture file, used when `fixture` isn't given */
+  fixturePath?: string;
+  /** Append unmatched prompts to this file as JSON lines */
+  recordPath?: string;
+}
+
+export class MockLLMProvider extends BaseLLMProvider {
+  name = 'mock-provider';
+  version = '1.0.0';
+  metadata = {
+    author: 'Project Mosaic',
+    description: 'Deterministic mock LLM provider replaying scripted fixtures',
+    license: 'MIT',
+  };
+
+  private fixture: MockLLMFixture;
+  private recordPath?: string;
+  private consumed: Set<number> = new Set();
+  private calls: MockLLMCall[] = [];
+  private unexpected: MockLLMCall[] = [];
+
+  constructor(options: MockProviderOptions = {}) {
+    super();
+
+    const fixturePath = options.fixturePath || process.env.MOCK_LLM_FIXTURE;
+    if (options.fixture) {
+      this.fixture = options.fixture;
+    } else if (fixturePath) {
+      this.fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+    } else {
+      throw new Error('MockLLMProvider requires a fixture or fixturePath');
+    }
+
+    this.recordPath = options.recordPath || process.env.MOCK_LLM_RECORD;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = this.next(request);
+    const toolCalls = this.toToolCalls(response);
+    const content = this.contentOf(response);
+
+    return {
+      id: `mock-${this.calls.length}`,
+      message: {
+        role: 'assistant',
+        content,
+        toolCalls,
+      },
+      usage: response.usage || {
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+      },
+      finishReason: response.finishReason || (toolCalls ? 'tool_calls' : 'stop'),
+    };
+  }
+
+  async *streamComplete(request: CompletionRequest): AsyncGenerator<CompletionChunk> {
+    const response = this.next(request);
+    const toolCalls = this.toToolCalls(response);
+    const content = this.contentOf(response);
+    const chunks = response.chunks || content.match(/\S+\s*|\s+/g) || [];
+
+    for (const chunk of chunks) {
+      yield { delta: { role: 'assistant', content: chunk } };
+    }
+
+    yield {
+      delta: toolCalls ? { role: 'assistant', toolCalls } : {},
+      finishReason: response.finishReason || (toolCalls ? 'tool_calls' : 'stop'),
+    };
+  }
+
+  async getModels(): Promise<ModelInfo[]> {
+    return [
+      {
+        id: 'mock-model',
+        name: this.fixture.name ? `Mock (${this.fixture.name})` : 'Mock',
+        contextWindow: 128000,
+        supportsVision: false,
+        supportsFunctionCalling: true,
+      },
+    ];
+  }
+
+  supportsFeature(feature: LLMFeature): boolean {
+    const supportedFeatures: LLMFeature[] = ['streaming', 'function-calling', 'json-mode'];
+    return supportedFeatures.includes(feature);
+  }
+
+  /**
+   * Every completion request received, in order
+   */
+  getCalls(): MockLLMCall[] {
+    return [...this.calls];
+  }
+
+  /**
+   * Requests no scripted response matched
+   */
+  getUnexpectedPrompts(): MockLLMCall[] {
+    return [...this.unexpected];
+  }
+
+  /**
+   * Scripted responses that were never served
+   */
+  getPendingResponses(): MockLLMResponse[] {
+    return this.fixture.responses.filter((r, i) => !r.repeat && !this.consumed.has(i));
+  }
+
+  reset(): void {
+    this.consumed.clear();
+    this.calls = [];
+    this.unexpected = [];
+  }
+
+  /**
+   * Pick the first unconsumed response whose matchers all accept the request
+   */
+  private next(request: CompletionRequest): MockLLMResponse {
+    const step = this.calls.length + 1;
+    const prompt = this.promptText(request.messages);
+
+    const index = this.fixture.responses.findIndex(
+      (response, i) => !this.consumed.has(i) && this.matches(response, prompt, step)
+    );
+
+    if (index !== -1) {
+      const response = this.fixture.responses[index];
+      if (!response.repeat) this.consumed.add(index);
+      this.calls.push({ step, request, matched: index });
+      return response;
+    }
+
+    const call: MockLLMCall = {
+      step,
+      request,
+      matched: this.fixture.fallback ? 'fallback' : null,
+    };
+    this.calls.push(call);
+    this.recordUnexpected(call);
+
+    if (this.fixture.fallback) {
+      return this.fixture.fallback;
+    }
+
+    const lastMessage = request.messages[request.messages.length - 1];
+    throw new Error(
+      `Mock LLM has no response for step ${step}: "${(lastMessage?.content || '').slice(0, 200)}"`
+    );
+  }
+
+  private matches(response: MockLLMResponse, prompt: string, step: number): boolean {
+    if (response.step !== undefined && response.step !== step) return false;
+
+    if (response.contains !== undefined) {
+      const needles = Array.isArray(response.contains) ? response.contains : [response.contains];
+      if (!needles.every((needle) => prompt.includes(needle))) return false;
+    }
+
+    if (response.pattern !== undefined && !new RegExp(response.pattern).test(prompt)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private recordUnexpected(call: MockLLMCall): void {
+    this.unexpected.push(call);
+    this.context?.logger.warn('Mock LLM received an unexpected prompt', { step: call.step });
+
+    if (this.recordPath) {
+      fs.appendFileSync(
+        this.recordPath,
+        JSON.stringify({ step: call.step, messages: call.request.messages }) + '\n'
+      );
+    }
+  }
+
+  private promptText(messages: LLMMessage[]): string {
+    return messages
+      .map((m) => (typeof m.content === 'string' ? m.content : JSON.stringify(m.content ?? '')))
+      .join('\n');
+  }
+
+  private contentOf(response: MockLLMResponse): string {
+    if (response.json !== undefined) {
+      return JSON.stringify(response.json);
+    }
+    return response.content ?? '';
+  }
+
+  private toToolCalls(response: MockLLMResponse): ToolCall[] | undefined {
+    if (!response.toolCalls || response.toolCalls.length === 0) {
+      return undefined;
+    }
+
+    return response.toolCalls.map((call, i) => ({
+      id: call.id || `call_${this.calls.length}_${i}`,
+      type: 'function' as const,
+      function: {
+        name: call.name,
+        arguments:
+          typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments),
+      },
+    }));
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ *
+ * Talks to any server exposing the OpenAI chat completions API - Ollama,
+ * vLLM, llama.cpp server, LM Studio - so agents can run fully offline.
+ * Models are discovered from the server's /models endpoint unless a
+ * static list is configured.
+ */
+import { OpenAIProvider } from './openai-provider';
+import { ModelInfo, LLMFeature, PluginContext } from '@mosaic/shared';
+import OpenAI from 'openai';
+
+export interface OpenAICompatibleProviderOptions {
+  /** Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  baseURL?: string;
+  /** Most local servers ignore the key, but the client requires one */
+  apiKey?: string;
+  /** Model used when an agent doesn't specify one */
+  defaultModel?: string;
+  /** Static model list; skips discovery when set */
+  models?: string[];
+  /** Context window reported for discovered models */
+  contextWindow?: number;
+  /** How long discovered models are cached */
+  modelsCacheMs?: number;
+}
+
+/**
+ * `.af` llm_config.model_endpoint_type values served by this provider
+ */
+export const OPENAI_COMPATIBLE_ENDPOINT_TYPES = [
+  'openai-compatible',
+  'ollama',
+  'vllm',
+  'llamacpp',
+  'lmstudio',
+  'local',
+];
+
+/**
+ * Base URL of the OpenAI-compatible API for a server address
+ * Letta-style endpoints name only the server (http://localhost:11434), so a
+ * bare host gets /v1; URLs with a path are kept as they are.
+ */
+export function normalizeBaseURL(endpoint: string): string {
+  const trimmed = endpoint.trim().replace(/\/+$/, '');
+  try {
+    return new URL(trimmed).pathname === '/' ? `${trimmed}/v1` : trimmed;
+  } catch {
+    return trimmed;
+  }
+}
+
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  name = 'openai-compatible-provider';
+  version = '1.0.0';
+  metadata = {
+    author: 'Project Mosaic',
+    description: 'OpenAI-compatible local LLM provider (Ollama, vLLM, llama.cpp)',
+    homepage: 'https://platform.openai.com/docs/api-reference/chat',
+    license: 'MIT',
+  };
+
+  readonly baseURL: string;
+  readonly apiKey: string;
+  readonly defaultModel?: string;
+  private staticModels?: string[];
+  private contextWindow: number;
+  private modelsCacheMs: number;
+  private cachedModels?: { models: ModelInfo[]; fetchedAt: number };
+
+  constructor(options: OpenAICompatibleProviderOptions = {}) {
+    super();
+
+    const ollamaHost = process.env.OLLAMA_HOST?.replace(/\/+$/, '');
+    const baseURL =
+      options.baseURL ||
+      process.env.LOCAL_LLM_BASE_URL ||
+      (ollamaHost ? `${ollamaHost}/v1` : undefined);
+
+    if (!baseURL) {
+      throw new Error('LOCAL_LLM_BASE_URL (or OLLAMA_HOST) is required for the OpenAI-compatible provider');
+    }
+
+    this.baseURL = normalizeBaseURL(baseURL);
+    this.apiKey = options.apiKey || process.env.LOCAL_LLM_API_KEY || 'not-needed';
+    this.defaultModel =
+      options.defaultModel || process.env.LOCAL_LLM_MODEL || process.env.OLLAMA_MODEL;
+    this.staticModels =
+      options.models ||
+      process.env.LOCAL_LLM_MODELS?.split(',')
+        .map((m) => m.trim())
+        .filter(Boolean);
+    this.contextWindow =
+      options.contextWindow || parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '8192');
+    this.modelsCacheMs = options.modelsCacheMs ?? 60000;
+  }
+
+  async initialize(context: PluginContext): Promise<void> {
+    this.context = context;
+    this.client = new OpenAI({ apiKey: this.apiKey, baseURL: this.baseURL });
+    context.logger.info('OpenAI-compatible provider initialized', { baseURL: this.baseURL });
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client?.models.list();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getModels(): Promise<ModelInfo[]> {
+    if (this.staticModels && this.staticModels.length > 0) {
+      return this.staticModels.map((id) => this.toModelInfo(id));
+    }
+
+    if (this.cachedModels && Date.now() - this.cachedModels.fetchedAt < this.modelsCacheMs) {
+      return this.cachedModels.models;
+    }
+
+    try {
+      if (!this.client) {
+        throw new Error('OpenAI-compatible client not initialized');
+      }
+
+      const page = await this.client.models.list();
+      const models = page.data.map((model) => this.toModelInfo(model.id));
+      this.cachedModels = { models, fetchedAt: Date.now() };
+      return models;
+    } catch (error: any) {
+      // Keep the configured default selectable while the server is unreachable
+      this.context?.logger.warn('Model discovery failed', {
+        baseURL: this.baseURL,
+        error: error.message,
+      });
+      return this.defaultModel ? [this.toModelInfo(this.defaultModel)] : [];
+    }
+  }
+
+  supportsFeature(feature: LLMFeature): boolean {
+    // Vision depends on the served model, so it isn't advertised
+    const supportedFeatures: LLMFeature[] = ['streaming', 'function-calling', 'json-mode'];
+    return supportedFeatures.includes(feature);
+  }
+
+  modelSupportsVision(_model: string): boolean {
+    return false;
+  }
+
+  /**
+   * Ollama, vLLM and llama.cpp all accept response_format json_object
+   */
+  protected modelSupportsJsonMode(_model: string): boolean {
+    return true;
+  }
+
+  private toModelInfo(id: string): ModelInfo {
+    return {
+      id,
+      name: id,
+      contextWindow: this.contextWindow,
+      supportsVision: false,
+      supportsFunctionCalling: true,
+    };
+  }
+}
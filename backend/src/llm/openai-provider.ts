@@ -5,6 +5,7 @@ import { BaseLLMProvider } from './base-provider';
 import {
   CompletionRequest,
   CompletionResponse,
+  CompletionChunk,
   ModelInfo,
   LLMFeature,
   PluginContext,
@@ -21,7 +22,7 @@ export class OpenAIProvider extends BaseLLMProvider {
     license: 'MIT',
   };
 
-  private client?: OpenAI;
+  protected client?: OpenAI;
 
   async initialize(context: PluginContext): Promise<void> {
     await super.initialize(context);
@@ -95,6 +96,76 @@ export class OpenAIProvider extends BaseLLMProvider {
     }
   }
 
+  /**
+   * Stream a completion as it is generated
+   * Text arrives as content deltas; tool calls are assembled from their
+   * fragments and emitted once, together with the finish reason.
+   */
+  async *streamComplete(request: CompletionRequest): AsyncGenerator<CompletionChunk> {
+    if (!this.client) {
+      throw new Error('OpenAI client not initialized');
+    }
+
+    const supportsJsonMode = this.modelSupportsJsonMode(request.model);
+    const toolCalls: Map<number, { id: string; name: string; arguments: string }> = new Map();
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: request.model,
+        messages: request.messages as any, // Type compatibility
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: request.topP,
+        frequency_penalty: request.frequencyPenalty,
+        presence_penalty: request.presencePenalty,
+        stop: request.stop,
+        tools: request.tools as any,
+        response_format:
+          request.responseFormat === 'json' && supportsJsonMode
+            ? { type: 'json_object' }
+            : undefined,
+        stream: true,
+      });
+
+      for await (const chunk of stream) {
+        const choice = chunk.choices[0];
+        if (!choice) continue;
+
+        if (choice.delta?.content) {
+          yield { delta: { role: 'assistant', content: choice.delta.content } };
+        }
+
+        for (const tc of choice.delta?.tool_calls || []) {
+          const call = toolCalls.get(tc.index) || { id: '', name: '', arguments: '' };
+          call.id = tc.id || call.id;
+          call.name += tc.function?.name || '';
+          call.arguments += tc.function?.arguments || '';
+          toolCalls.set(tc.index, call);
+        }
+
+        if (choice.finish_reason) {
+          yield {
+            delta:
+              toolCalls.size > 0
+                ? {
+                    role: 'assistant',
+                    toolCalls: Array.from(toolCalls.values()).map((call) => ({
+                      id: call.id,
+                      type: 'function' as const,
+                      function: { name: call.name, arguments: call.arguments },
+                    })),
+                  }
+                : {},
+            finishReason: choice.finish_reason as any,
+          };
+        }
+      }
+    } catch (error) {
+      this.context?.logger.error('OpenAI streaming completion failed', { error });
+      throw error;
+    }
+  }
+
   async getModels(): Promise<ModelInfo[]> {
     return [
       {
@@ -158,7 +229,7 @@ export class OpenAIProvider extends BaseLLMProvider {
    * Base gpt-4 and older versions do NOT support JSON mode
    * See: https://platform.openai.com/docs/guides/text-generation/json-mode
    */
-  private modelSupportsJsonMode(model: string): boolean {
+  protected modelSupportsJsonMode(model: string): boolean {
     // Models that definitely support JSON mode
     const jsonModeModels = [
       'gpt-4-turbo',
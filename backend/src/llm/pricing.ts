@@ -0,0 +1,92 @@
+/**
+ * LLM Pricing
+ *
+ * Per-model token prices used to estimate the USD cost of provider calls.
+ * Models are matched by the longest known prefix, so dated snapshots
+ * (e.g. claude-sonnet-4-20250514) resolve to their family's price. Unknown
+ * and locally served models are treated as free.
+ */
+import { TokenUsage } from '@mosaic/shared';
+import { logger } from '../core/logger';
+
+export interface ModelPrice {
+  /** USD per million prompt tokens */
+  input: number;
+  /** USD per million completion tokens */
+  output: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  // OpenAI
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4-vision': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o1-mini': { input: 1.1, output: 4.4 },
+  o1: { input: 15, output: 60 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+
+  // Anthropic
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+};
+
+let prices: Record<string, ModelPrice> | undefined;
+
+/**
+ * Built-in prices merged with the LLM_PRICES override, e.g.
+ * LLM_PRICES='{"my-finetune": {"input": 3, "output": 12}}'
+ */
+function getPrices(): Record<string, ModelPrice> {
+  if (!prices) {
+    prices = { ...DEFAULT_PRICES };
+
+    if (process.env.LLM_PRICES) {
+      try {
+        Object.assign(prices, JSON.parse(process.env.LLM_PRICES));
+      } catch (error: any) {
+        logger.warn('Ignoring invalid LLM_PRICES', { error: error.message });
+      }
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * Price for a model, or undefined when it isn't billed
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const table = getPrices();
+  if (table[model]) return table[model];
+
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * Estimated USD cost of a call
+ */
+export function estimateCost(
+  model: string,
+  usage: Pick<TokenUsage, 'promptTokens' | 'completionTokens'>
+): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
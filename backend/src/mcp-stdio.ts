@@ -0,0 +1,57 @@
+/**
+ * MCP stdio Entry Point
+ *
+ * For MCP clients that launch servers as a command (e.g. IDE assistants):
+ *
+ *   npm run mcp --workspace=backend
+ *
+ * Relays JSON-RPC between stdin/stdout and the /mcp endpoint of a running
+ * Mosaic server (MOSAIC_URL, default http://localhost:3001), so the client
+ * works with the same agents and tasks as the dashboard. stdout carries the
+ * protocol, so diagnostics go to stderr.
+ */
+
+import dotenv from 'dotenv';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { isJSONRPCRequest, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+dotenv.config({ quiet: true });
+
+async function main() {
+  const baseUrl = process.env.MOSAIC_URL || `http://localhost:${process.env.PORT || '3001'}`;
+  const endpoint = new URL('/mcp', baseUrl);
+  const token = process.env.MOSAIC_MCP_TOKEN;
+
+  const stdio = new StdioServerTransport();
+  const http = new StreamableHTTPClientTransport(endpoint, {
+    requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined,
+  });
+
+  // A request the server never saw still needs an answer, or the client waits forever
+  const relay = (message: JSONRPCMessage) =>
+    http.send(message).catch((error: Error) => {
+      console.error(`Failed to reach Mosaic at ${endpoint.href}: ${error.message}`);
+      if (isJSONRPCRequest(message)) {
+        void stdio.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: -32603, message: `Mosaic is unreachable: ${error.message}` },
+        });
+      }
+    });
+
+  stdio.onmessage = relay;
+  http.onmessage = (message) => void stdio.send(message);
+  http.onerror = (error) => console.error('Mosaic MCP connection error:', error.message);
+  stdio.onclose = () => void http.close().finally(() => process.exit(0));
+
+  await http.start();
+  await stdio.start();
+  console.error(`Relaying MCP over stdio to ${endpoint.href}`);
+}
+
+main().catch((error) => {
+  console.error('Failed to start MCP stdio bridge:', error);
+  process.exit(1);
+});
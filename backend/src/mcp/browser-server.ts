@@ -1,24 +1,140 @@
 /**
  * Browser MCP Server - Provides web browsing capabilities with screenshot streaming
+ *
+ * Each session is a browser with one or more tabs; tools act on the active
+ * tab, and pages the site opens (target="_blank", window.open) become tabs
+ * too. Elements are targeted by CSS selector or by a ref from the snapshot
+ * tool's accessibility tree. Files the pages download are saved to the
+ * "downloads" directory of the workspace, up to a size limit, and only for
+ * callers ToolPolicy found allowed to write there (allowDownloads).
  */
 import {
   MCPServerPlugin,
   PluginContext,
   MCPToolDefinition,
   MCPToolResult,
+  MCPToolCaller,
 } from '@mosaic/shared';
-import puppeteer, { Browser, Page } from 'puppeteer';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import puppeteer, { Browser, CDPSession, Page, SerializedAXNode } from 'puppeteer';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  formatAccessibilityTree,
+  isInteractiveRole,
+  REF_ATTRIBUTE,
+  refSelector,
+} from './browser-snapshot';
+
+interface BrowserTab {
+  id: string;
+  page: Page;
+  nextRef: number; // Refs are never reused within a tab
+}
+
+interface BrowserDownload {
+  id: string; // Chrome's download GUID
+  url: string;
+  filename: string;
+  path?: string; // Workspace-relative, once completed
+  state: 'in_progress' | 'completed' | 'canceled';
+  receivedBytes: number;
+  totalBytes: number;
+  startedAt: Date;
+  completedAt?: Date;
+  reported: boolean; // Returned by wait_for_download already
+  error?: string; // Why it was canceled, when Mosaic canceled it
+}
 
 interface BrowserSession {
   id: string;
   browser: Browser;
-  page: Page;
+  page: Page; // Page of the active tab
+  tabs: Map<string, BrowserTab>;
+  activeTabId: string;
+  downloads: BrowserDownload[];
+  cdp?: CDPSession; // Browser-level session that controls downloads
+  downloadsAllowed?: boolean; // Unset until the download behavior is first applied
   agentId?: string;
   createdAt: Date;
   lastActivityAt: Date;
 }
 
+interface FormField {
+  selector?: string;
+  ref?: string;
+  value: string | boolean | string[];
+}
+
+// Longest snapshot text returned
+const MAX_SNAPSHOT_CHARS = 50000;
+
+// Workspace directory downloads are saved to
+export const DOWNLOADS_PATH = 'downloads';
+
+// Largest file a page may download
+const DEFAULT_MAX_DOWNLOAD_BYTES =
+  parseInt(process.env.BROWSER_MAX_DOWNLOAD_BYTES || '') || 50 * 1024 * 1024;
+
+/**
+ * Caller of a browser tool; ToolPolicy sets allowDownloads when the agent may
+ * write to the downloads directory. Pages can't download without it.
+ */
+export interface BrowserToolCaller extends MCPToolCaller {
+  allowDownloads?: boolean;
+}
+
+// Elements given refs per snapshot, so huge pages stay responsive
+const MAX_SNAPSHOT_REFS = 500;
+
+/**
+ * Select options of a <select> by value or label. Runs in the page, so it
+ * must not reference anything outside itself.
+ */
+function selectOptions(el: any, values: string[]): string[] {
+  if (el.tagName !== 'SELECT') {
+    throw new Error('Element is not a <select>');
+  }
+  if (values.length > 1 && !el.multiple) {
+    throw new Error('Element does not allow selecting several options');
+  }
+
+  const options: any[] = Array.from(el.options);
+  const chosen = values.map(
+    (value) =>
+      options.find((option) => option.value === value) ||
+      options.find((option) => option.label.trim() === value || option.text.trim() === value)
+  );
+  const missing = values.filter((_, index) => !chosen[index]);
+  if (missing.length > 0) {
+    throw new Error(`No option matching: ${missing.join(', ')}`);
+  }
+
+  for (const option of options) {
+    option.selected = chosen.includes(option);
+  }
+  el.dispatchEvent(new (globalThis as any).Event('input', { bubbles: true }));
+  el.dispatchEvent(new (globalThis as any).Event('change', { bubbles: true }));
+
+  return chosen.map((option) => option.value);
+}
+
+const SESSION_PARAM = {
+  type: 'string',
+  description: 'Browser session ID',
+};
+
+const TARGET_PARAMS = {
+  selector: {
+    type: 'string',
+    description: 'CSS selector of the element',
+  },
+  ref: {
+    type: 'string',
+    description: 'Element ref from snapshot (e.g. "e12"); use instead of selector',
+  },
+};
+
 export class BrowserMCPServer implements MCPServerPlugin {
   name = 'browser';
   version = '1.0.0';
@@ -34,6 +150,16 @@ export class BrowserMCPServer implements MCPServerPlugin {
   private context?: PluginContext;
   private maxSessions = 5;
   private sessionTimeout = 30 * 60 * 1000; // 30 minutes
+  private cleanupTimer?: NodeJS.Timeout;
+  private workspaceRoot: string;
+  private downloadDir: string;
+  private maxDownloadBytes: number;
+
+  constructor(workspaceRoot?: string, maxDownloadBytes: number = DEFAULT_MAX_DOWNLOAD_BYTES) {
+    this.workspaceRoot = path.resolve(workspaceRoot || path.join(process.cwd(), 'workspace'));
+    this.downloadDir = path.join(this.workspaceRoot, DOWNLOADS_PATH);
+    this.maxDownloadBytes = maxDownloadBytes;
+  }
 
   async initialize(context: PluginContext): Promise<void> {
     this.context = context;
@@ -46,9 +172,18 @@ export class BrowserMCPServer implements MCPServerPlugin {
     });
   }
 
+  /**
+   * URL of the session's active tab, or undefined for unknown sessions
+   */
+  getPageUrl(sessionId: string): string | undefined {
+    return this.sessions.get(sessionId)?.page.url();
+  }
+
   async shutdown(): Promise<void> {
     this.context?.logger.info('Browser MCP server shutting down');
 
+    if (this.cleanupTimer) clearInterval(this.cleanupTimer);
+
     // Close all browser sessions
     for (const [sessionId, session] of this.sessions) {
       try {
@@ -106,7 +241,7 @@ export class BrowserMCPServer implements MCPServerPlugin {
       },
       {
         name: 'click_element',
-        description: 'Click an element on the page by CSS selector',
+        description: 'Click an element on the page by CSS selector or snapshot ref',
         inputSchema: {
           type: 'object',
           properties: {
@@ -118,17 +253,18 @@ export class BrowserMCPServer implements MCPServerPlugin {
               type: 'string',
               description: 'CSS selector of the element to click',
             },
+            ref: TARGET_PARAMS.ref,
             waitAfter: {
               type: 'number',
               description: 'Optional: Milliseconds to wait after click (default: 500)',
             },
           },
-          required: ['sessionId', 'selector'],
+          required: ['sessionId'],
         },
       },
       {
         name: 'type_text',
-        description: 'Type text into an input field by CSS selector',
+        description: 'Type text into an input field by CSS selector or snapshot ref',
         inputSchema: {
           type: 'object',
           properties: {
@@ -140,6 +276,7 @@ export class BrowserMCPServer implements MCPServerPlugin {
               type: 'string',
               description: 'CSS selector of the input element',
             },
+            ref: TARGET_PARAMS.ref,
             text: {
               type: 'string',
               description: 'Text to type',
@@ -149,7 +286,7 @@ export class BrowserMCPServer implements MCPServerPlugin {
               description: 'Clear existing text first (default: true)',
             },
           },
-          required: ['sessionId', 'selector', 'text'],
+          required: ['sessionId', 'text'],
         },
       },
       {
@@ -166,6 +303,7 @@ export class BrowserMCPServer implements MCPServerPlugin {
               type: 'string',
               description: 'Optional: CSS selector to extract content from specific element',
             },
+            ref: TARGET_PARAMS.ref,
           },
           required: ['sessionId'],
         },
@@ -206,6 +344,214 @@ export class BrowserMCPServer implements MCPServerPlugin {
           required: ['sessionId'],
         },
       },
+      {
+        name: 'snapshot',
+        description:
+          'Get the accessibility tree of the page: roles, names and states of its content, with a ref for each interactive element that click_element, type_text, select_option, fill_form and scroll accept. Refs stay valid until the page navigates.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: SESSION_PARAM,
+            interestingOnly: {
+              type: 'boolean',
+              description:
+                'Skip nodes without meaning to users, like layout containers (default: true)',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'select_option',
+        description: 'Select options of a <select> element by value or visible label',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: SESSION_PARAM,
+            ...TARGET_PARAMS,
+            values: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Values or labels to select (several for multi-selects)',
+            },
+          },
+          required: ['sessionId', 'values'],
+        },
+      },
+      {
+        name: 'fill_form',
+        description:
+          'Fill several form fields at once: text inputs and textareas get the text, selects the option, checkboxes and radios true/false. Optionally click a submit button afterwards.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: SESSION_PARAM,
+            fields: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  ...TARGET_PARAMS,
+                  value: {
+                    anyOf: [
+                      { type: 'string' },
+                      { type: 'boolean' },
+                      { type: 'array', items: { type: 'string' } },
+                    ],
+                    description: 'Text, option value/label(s), or checked state',
+                  },
+                },
+                required: ['value'],
+              },
+            },
+            submit: {
+              type: 'object',
+              properties: TARGET_PARAMS,
+              description: 'Optional: Button to click when done, by selector or ref',
+            },
+          },
+          required: ['sessionId', 'fields'],
+        },
+      },
+      {
+        name: 'scroll',
+        description: 'Scroll the page, or scroll an element into view',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: SESSION_PARAM,
+            ...TARGET_PARAMS,
+            direction: {
+              type: 'string',
+              enum: ['up', 'down', 'left', 'right', 'top', 'bottom'],
+              description: 'Ignored when an element is given (default: down)',
+            },
+            amount: {
+              type: 'number',
+              description: 'Optional: Pixels to scroll (default: most of the viewport)',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'go_back',
+        description: 'Go back to the previous page in the active tab',
+        inputSchema: {
+          type: 'object',
+          properties: { sessionId: SESSION_PARAM },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'go_forward',
+        description: 'Go forward to the next page in the active tab',
+        inputSchema: {
+          type: 'object',
+          properties: { sessionId: SESSION_PARAM },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'wait_for_selector',
+        description: 'Wait until an element appears (or disappears) on the page',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: SESSION_PARAM,
+            ...TARGET_PARAMS,
+            state: {
+              type: 'string',
+              enum: ['visible', 'hidden', 'attached'],
+              description: 'State to wait for (default: visible)',
+            },
+            timeout: {
+              type: 'number',
+              description: 'Optional: Milliseconds to wait at most (default: 10000)',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'open_tab',
+        description: 'Open a new tab, optionally at a URL, and make it the active tab',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: SESSION_PARAM,
+            url: {
+              type: 'string',
+              description: 'Optional: URL to open',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'switch_tab',
+        description: 'Make another tab the active tab',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: SESSION_PARAM,
+            tabId: {
+              type: 'string',
+              description: 'Tab ID from list_tabs',
+            },
+          },
+          required: ['sessionId', 'tabId'],
+        },
+      },
+      {
+        name: 'close_tab',
+        description: 'Close a tab (default: the active tab); the last tab stays open',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: SESSION_PARAM,
+            tabId: {
+              type: 'string',
+              description: 'Optional: Tab ID to close',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'list_tabs',
+        description: 'List the tabs of a session, including ones the site opened',
+        inputSchema: {
+          type: 'object',
+          properties: { sessionId: SESSION_PARAM },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'wait_for_download',
+        description:
+          'Wait for a download to finish and return its workspace path. Each download is returned once; call after the click that starts it.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: SESSION_PARAM,
+            timeout: {
+              type: 'number',
+              description: 'Optional: Milliseconds to wait at most (default: 30000)',
+            },
+          },
+          required: ['sessionId'],
+        },
+      },
+      {
+        name: 'list_downloads',
+        description: 'List the downloads of a session with their workspace paths',
+        inputSchema: {
+          type: 'object',
+          properties: { sessionId: SESSION_PARAM },
+          required: ['sessionId'],
+        },
+      },
       {
         name: 'close_session',
         description: 'Close a browser session',
@@ -223,30 +569,46 @@ export class BrowserMCPServer implements MCPServerPlugin {
     ];
   }
 
-  async invokeTool(name: string, params: any): Promise<MCPToolResult> {
+  async invokeTool(name: string, params: any, caller?: BrowserToolCaller): Promise<MCPToolResult> {
     try {
-      this.context?.logger.debug('Invoking browser tool', { name, params });
+      this.context?.logger.debug('Invoking browser tool', {
+        name,
+        params,
+        agentId: caller?.agentId,
+      });
+
+      params = params || {};
+      const selector = this.selectorOf(params);
+
+      // Sessions can be shared, so downloads follow whoever is acting on the page
+      const allowDownloads = caller?.allowDownloads === true;
+      const existing = this.sessions.get(params.sessionId);
+      if (existing) {
+        await this.setDownloadsAllowed(existing, allowDownloads);
+      }
 
       switch (name) {
         case 'navigate_to':
-          return await this.navigateTo(params.url, params.sessionId, params.waitFor);
+          return await this.navigateTo(
+            params.url,
+            params.sessionId,
+            params.waitFor,
+            allowDownloads
+          );
 
         case 'capture_screenshot':
           return await this.captureScreenshot(params.sessionId, params.fullPage);
 
         case 'click_element':
-          return await this.clickElement(params.sessionId, params.selector, params.waitAfter);
+          if (!selector) return this.missingTarget();
+          return await this.clickElement(params.sessionId, selector, params.waitAfter);
 
         case 'type_text':
-          return await this.typeText(
-            params.sessionId,
-            params.selector,
-            params.text,
-            params.clearFirst
-          );
+          if (!selector) return this.missingTarget();
+          return await this.typeText(params.sessionId, selector, params.text, params.clearFirst);
 
         case 'get_page_content':
-          return await this.getPageContent(params.sessionId, params.selector);
+          return await this.getPageContent(params.sessionId, selector);
 
         case 'evaluate_js':
           return await this.evaluateJS(params.sessionId, params.script);
@@ -254,6 +616,55 @@ export class BrowserMCPServer implements MCPServerPlugin {
         case 'find_interactive_elements':
           return await this.findInteractiveElements(params.sessionId, params.elementType);
 
+        case 'snapshot':
+          return await this.snapshot(params.sessionId, params.interestingOnly !== false);
+
+        case 'select_option':
+          if (!selector) return this.missingTarget();
+          return await this.selectOption(params.sessionId, selector, params.values);
+
+        case 'fill_form':
+          if (!Array.isArray(params.fields) || params.fields.length === 0) {
+            return { success: false, error: 'fields must be a non-empty array' };
+          }
+          return await this.fillForm(params.sessionId, params.fields, params.submit);
+
+        case 'scroll':
+          return await this.scroll(params.sessionId, selector, params.direction, params.amount);
+
+        case 'go_back':
+          return await this.goBackOrForward(params.sessionId, 'back');
+
+        case 'go_forward':
+          return await this.goBackOrForward(params.sessionId, 'forward');
+
+        case 'wait_for_selector':
+          if (!selector) return this.missingTarget();
+          return await this.waitForSelector(
+            params.sessionId,
+            selector,
+            params.state,
+            params.timeout
+          );
+
+        case 'open_tab':
+          return await this.openTab(params.sessionId, params.url);
+
+        case 'switch_tab':
+          return await this.switchTab(params.sessionId, params.tabId);
+
+        case 'close_tab':
+          return await this.closeTab(params.sessionId, params.tabId);
+
+        case 'list_tabs':
+          return await this.listTabs(params.sessionId);
+
+        case 'wait_for_download':
+          return await this.waitForDownload(params.sessionId, params.timeout);
+
+        case 'list_downloads':
+          return this.listDownloads(params.sessionId);
+
         case 'close_session':
           return await this.closeSession(params.sessionId);
 
@@ -275,7 +686,8 @@ export class BrowserMCPServer implements MCPServerPlugin {
   private async navigateTo(
     url: string,
     sessionId?: string,
-    waitFor: number = 1000
+    waitFor: number = 1000,
+    allowDownloads = false
   ): Promise<MCPToolResult> {
     let session: BrowserSession;
 
@@ -283,7 +695,7 @@ export class BrowserMCPServer implements MCPServerPlugin {
     if (sessionId && this.sessions.has(sessionId)) {
       session = this.sessions.get(sessionId)!;
     } else {
-      session = await this.createSession();
+      session = await this.createSession(allowDownloads);
     }
 
     // Navigate to URL
@@ -303,6 +715,7 @@ export class BrowserMCPServer implements MCPServerPlugin {
       success: true,
       data: {
         sessionId: session.id,
+        tabId: session.activeTabId,
         url,
         title: await session.page.title(),
         screenshot: screenshotResult.data,
@@ -784,7 +1197,7 @@ export class BrowserMCPServer implements MCPServerPlugin {
     };
   }
 
-  private async closeSession(sessionId: string): Promise<MCPToolResult> {
+  private async snapshot(sessionId: string, interestingOnly: boolean): Promise<MCPToolResult> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       return {
@@ -793,52 +1206,803 @@ export class BrowserMCPServer implements MCPServerPlugin {
       };
     }
 
-    await session.browser.close();
-    this.sessions.delete(sessionId);
+    const tab = session.tabs.get(session.activeTabId)!;
+    const root = await session.page.accessibility.snapshot({ interestingOnly });
+
+    // Interactive nodes get refs, stored on their elements so the next
+    // snapshot of the same page hands out the same ones
+    const refs = new Map<SerializedAXNode, string>();
+    const interactive: SerializedAXNode[] = [];
+    const collect = (node: SerializedAXNode) => {
+      if (interactive.length >= MAX_SNAPSHOT_REFS) return;
+      if (isInteractiveRole(node.role)) interactive.push(node);
+      node.children?.forEach(collect);
+    };
+    if (root) collect(root);
 
-    this.context?.logger.info('Browser session closed', { sessionId });
+    for (const node of interactive) {
+      const handle = await node.elementHandle();
+      if (!handle) continue;
+
+      try {
+        const candidate = `e${tab.nextRef}`;
+        const ref = await handle.evaluate(
+          (el: any, attribute: string, next: string) => {
+            if (!el.getAttribute(attribute)) el.setAttribute(attribute, next);
+            return el.getAttribute(attribute) as string;
+          },
+          REF_ATTRIBUTE,
+          candidate
+        );
+        if (ref === candidate) tab.nextRef++;
+        refs.set(node, ref);
+      } finally {
+        await handle.dispose();
+      }
+    }
+
+    let snapshot = root ? formatAccessibilityTree(root, refs) : '';
+    const truncated = snapshot.length > MAX_SNAPSHOT_CHARS;
+    if (truncated) {
+      snapshot = snapshot.slice(0, MAX_SNAPSHOT_CHARS);
+    }
+
+    session.lastActivityAt = new Date();
 
     return {
       success: true,
       data: {
-        sessionId,
-        message: 'Session closed successfully',
+        snapshot,
+        refCount: refs.size,
+        truncated,
+        url: session.page.url(),
+        title: await session.page.title(),
       },
     };
   }
 
-  private async createSession(): Promise<BrowserSession> {
-    // Check max sessions limit
-    if (this.sessions.size >= this.maxSessions) {
-      // Close oldest session
-      const oldestSession = Array.from(this.sessions.values()).sort(
-        (a, b) => a.lastActivityAt.getTime() - b.lastActivityAt.getTime()
-      )[0];
-
-      await this.closeSession(oldestSession.id);
+  private async selectOption(
+    sessionId: string,
+    selector: string,
+    values: string[]
+  ): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+    if (!Array.isArray(values) || values.length === 0) {
+      return { success: false, error: 'values must be a non-empty array' };
     }
 
-    // Launch new browser instance
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-gpu',
-      ],
-    });
+    try {
+      await session.page.waitForSelector(selector, { timeout: 5000 });
+      const selected = await session.page.$eval(selector, selectOptions, values.map(String));
 
-    const page = await browser.newPage();
-    await page.setViewport({ width: 1280, height: 720 });
+      session.lastActivityAt = new Date();
 
-    const session: BrowserSession = {
-      id: uuidv4(),
-      browser,
-      page,
-      createdAt: new Date(),
-      lastActivityAt: new Date(),
-    };
+      // Auto-capture screenshot after interaction
+      const screenshotResult = await this.captureScreenshot(sessionId, false);
+
+      return {
+        success: true,
+        data: {
+          selector,
+          selected,
+          screenshot: screenshotResult.data,
+          message: 'Option selected successfully',
+        },
+      };
+    } catch (error: any) {
+      session.lastActivityAt = new Date();
+
+      this.context?.logger.error('Failed to select option', {
+        sessionId,
+        selector,
+        error: error.message,
+      });
+
+      return {
+        success: false,
+        error: `Failed to select option in "${selector}": ${error.message}`,
+      };
+    }
+  }
+
+  private async fillForm(
+    sessionId: string,
+    fields: FormField[],
+    submit?: { selector?: string; ref?: string }
+  ): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    const filled: Array<{ selector: string; kind: string }> = [];
+
+    for (const [index, field] of fields.entries()) {
+      const selector = this.selectorOf(field || {});
+      if (!selector) {
+        return {
+          success: false,
+          error: `Field ${index} needs a selector or ref`,
+          data: { filled },
+        };
+      }
+
+      try {
+        await session.page.waitForSelector(selector, { timeout: 5000 });
+        const kind = await session.page.$eval(selector, (el: any) =>
+          el.tagName === 'SELECT' ? 'select' : String(el.type || el.tagName).toLowerCase()
+        );
+
+        if (kind === 'select') {
+          const values = Array.isArray(field.value) ? field.value : [String(field.value)];
+          await session.page.$eval(selector, selectOptions, values.map(String));
+        } else if (kind === 'checkbox' || kind === 'radio') {
+          const checked = field.value === true || field.value === 'true';
+          const current = await session.page.$eval(selector, (el: any) => Boolean(el.checked));
+          if (current !== checked) {
+            if (kind === 'radio' && !checked) {
+              throw new Error('A radio button is unchecked by checking another one');
+            }
+            await session.page.click(selector);
+          }
+        } else {
+          // Clear through the DOM, which also works for multi-line textareas
+          await session.page.$eval(selector, (el: any) => {
+            el.value = '';
+            el.dispatchEvent(new (globalThis as any).Event('input', { bubbles: true }));
+          });
+          await session.page.type(selector, String(field.value));
+        }
+
+        filled.push({ selector, kind });
+      } catch (error: any) {
+        session.lastActivityAt = new Date();
+
+        this.context?.logger.error('Failed to fill form field', {
+          sessionId,
+          selector,
+          error: error.message,
+        });
+
+        return {
+          success: false,
+          error: `Failed to fill "${selector}": ${error.message}`,
+          data: { filled },
+        };
+      }
+    }
+
+    if (submit) {
+      const selector = this.selectorOf(submit);
+      if (!selector) {
+        return { success: false, error: 'submit needs a selector or ref', data: { filled } };
+      }
+
+      const result = await this.clickElement(sessionId, selector);
+      if (!result.success) {
+        return { ...result, data: { ...result.data, filled } };
+      }
+    }
+
+    session.lastActivityAt = new Date();
+
+    // Auto-capture screenshot after interaction
+    const screenshotResult = await this.captureScreenshot(sessionId, false);
+
+    return {
+      success: true,
+      data: {
+        filled,
+        submitted: Boolean(submit),
+        url: session.page.url(),
+        screenshot: screenshotResult.data,
+        message: `Filled ${filled.length} field(s)`,
+      },
+    };
+  }
+
+  private async scroll(
+    sessionId: string,
+    selector?: string,
+    direction: string = 'down',
+    amount?: number
+  ): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    if (selector) {
+      await session.page.waitForSelector(selector, { timeout: 5000 });
+      await session.page.$eval(selector, (el: any) =>
+        el.scrollIntoView({ block: 'center', inline: 'center' })
+      );
+    } else {
+      await session.page.evaluate(
+        (direction: string, amount: number | undefined) => {
+          const window = (globalThis as any).window;
+          const document = (globalThis as any).document;
+          const dy = amount ?? window.innerHeight * 0.8;
+          const dx = amount ?? window.innerWidth * 0.8;
+
+          switch (direction) {
+            case 'up':
+              return window.scrollBy(0, -dy);
+            case 'left':
+              return window.scrollBy(-dx, 0);
+            case 'right':
+              return window.scrollBy(dx, 0);
+            case 'top':
+              return window.scrollTo(window.scrollX, 0);
+            case 'bottom':
+              return window.scrollTo(window.scrollX, document.documentElement.scrollHeight);
+            default:
+              return window.scrollBy(0, dy);
+          }
+        },
+        direction,
+        amount
+      );
+    }
+
+    const position = await session.page.evaluate(() => {
+      const window = (globalThis as any).window;
+      return { x: window.scrollX as number, y: window.scrollY as number };
+    });
+
+    session.lastActivityAt = new Date();
+
+    // Auto-capture screenshot after interaction
+    const screenshotResult = await this.captureScreenshot(sessionId, false);
+
+    return {
+      success: true,
+      data: {
+        position,
+        screenshot: screenshotResult.data,
+        message: selector ? 'Scrolled element into view' : `Scrolled ${direction}`,
+      },
+    };
+  }
+
+  private async goBackOrForward(
+    sessionId: string,
+    direction: 'back' | 'forward'
+  ): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    const previousUrl = session.page.url();
+    const options = { waitUntil: 'domcontentloaded' as const, timeout: 60000 };
+    const response =
+      direction === 'back'
+        ? await session.page.goBack(options)
+        : await session.page.goForward(options);
+
+    session.lastActivityAt = new Date();
+
+    // Same-document history entries (hash changes) navigate without a response
+    if (!response && session.page.url() === previousUrl) {
+      return {
+        success: false,
+        error: `No page to go ${direction} to`,
+      };
+    }
+
+    const screenshotResult = await this.captureScreenshot(sessionId, false);
+
+    return {
+      success: true,
+      data: {
+        url: session.page.url(),
+        title: await session.page.title(),
+        screenshot: screenshotResult.data,
+      },
+    };
+  }
+
+  private async waitForSelector(
+    sessionId: string,
+    selector: string,
+    state: string = 'visible',
+    timeout: number = 10000
+  ): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    const start = Date.now();
+
+    try {
+      await session.page.waitForSelector(selector, {
+        timeout,
+        visible: state === 'visible',
+        hidden: state === 'hidden',
+      });
+    } catch (error: any) {
+      session.lastActivityAt = new Date();
+
+      return {
+        success: false,
+        error: `"${selector}" was not ${state} after ${timeout}ms: ${error.message}`,
+        data: { url: session.page.url() },
+      };
+    }
+
+    session.lastActivityAt = new Date();
+
+    const screenshotResult = await this.captureScreenshot(sessionId, false);
+
+    return {
+      success: true,
+      data: {
+        selector,
+        state,
+        waitedMs: Date.now() - start,
+        screenshot: screenshotResult.data,
+      },
+    };
+  }
+
+  private async openTab(sessionId: string, url?: string): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    const tab = await this.registerTab(session, await session.browser.newPage());
+    this.activateTab(session, tab);
+
+    if (url) {
+      await tab.page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+    }
+
+    session.lastActivityAt = new Date();
+
+    const screenshotResult = await this.captureScreenshot(sessionId, false);
+
+    return {
+      success: true,
+      data: {
+        tabId: tab.id,
+        url: tab.page.url(),
+        title: await tab.page.title(),
+        screenshot: screenshotResult.data,
+      },
+    };
+  }
+
+  private async switchTab(sessionId: string, tabId: string): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    const tab = session.tabs.get(tabId);
+    if (!tab) {
+      return {
+        success: false,
+        error: `Unknown tab ID: ${tabId}; call list_tabs for valid IDs`,
+      };
+    }
+
+    this.activateTab(session, tab);
+    await tab.page.bringToFront();
+
+    session.lastActivityAt = new Date();
+
+    const screenshotResult = await this.captureScreenshot(sessionId, false);
+
+    return {
+      success: true,
+      data: {
+        tabId,
+        url: tab.page.url(),
+        title: await tab.page.title(),
+        screenshot: screenshotResult.data,
+      },
+    };
+  }
+
+  private async closeTab(sessionId: string, tabId?: string): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    const id = tabId || session.activeTabId;
+    const tab = session.tabs.get(id);
+    if (!tab) {
+      return {
+        success: false,
+        error: `Unknown tab ID: ${id}; call list_tabs for valid IDs`,
+      };
+    }
+    if (session.tabs.size === 1) {
+      return {
+        success: false,
+        error: 'Cannot close the last tab; use close_session instead',
+      };
+    }
+
+    this.removeTab(session, id);
+    await tab.page.close();
+
+    session.lastActivityAt = new Date();
+
+    return {
+      success: true,
+      data: {
+        tabId: id,
+        activeTabId: session.activeTabId,
+        message: 'Tab closed successfully',
+      },
+    };
+  }
+
+  private async listTabs(sessionId: string): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    const tabs = await Promise.all(
+      Array.from(session.tabs.values()).map(async (tab) => ({
+        tabId: tab.id,
+        url: tab.page.url(),
+        title: await tab.page.title(),
+        active: tab.id === session.activeTabId,
+      }))
+    );
+
+    session.lastActivityAt = new Date();
+
+    return {
+      success: true,
+      data: { tabs, count: tabs.length },
+    };
+  }
+
+  private async waitForDownload(
+    sessionId: string,
+    timeout: number = 30000
+  ): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    const deadline = Date.now() + timeout;
+    let download = session.downloads.find((d) => !d.reported && d.state !== 'in_progress');
+
+    while (!download && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      download = session.downloads.find((d) => !d.reported && d.state !== 'in_progress');
+    }
+
+    session.lastActivityAt = new Date();
+
+    if (!download) {
+      const pending = session.downloads.filter((d) => d.state === 'in_progress').length;
+      return {
+        success: false,
+        error: pending
+          ? `${pending} download(s) still in progress after ${timeout}ms`
+          : `No download started within ${timeout}ms`,
+      };
+    }
+
+    download.reported = true;
+
+    if (download.state === 'canceled') {
+      return {
+        success: false,
+        error: download.error || `Download of ${download.url} was canceled`,
+      };
+    }
+
+    return {
+      success: true,
+      data: this.describeDownload(download),
+    };
+  }
+
+  private listDownloads(sessionId: string): MCPToolResult {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        downloads: session.downloads.map((download) => this.describeDownload(download)),
+        count: session.downloads.length,
+      },
+    };
+  }
+
+  private describeDownload(download: BrowserDownload) {
+    return {
+      filename: download.filename,
+      path: download.path,
+      url: download.url,
+      state: download.state,
+      size: download.receivedBytes,
+      startedAt: download.startedAt.toISOString(),
+      completedAt: download.completedAt?.toISOString(),
+    };
+  }
+
+  /**
+   * Selector for a tool's target; a ref takes precedence
+   */
+  private selectorOf(params: { selector?: unknown; ref?: unknown }): string | undefined {
+    if (typeof params.ref === 'string' && params.ref) return refSelector(params.ref);
+    if (typeof params.selector === 'string' && params.selector) return params.selector;
+    return undefined;
+  }
+
+  private missingTarget(): MCPToolResult {
+    return {
+      success: false,
+      error: 'Either selector or ref is required',
+    };
+  }
+
+  /**
+   * Track a page as a tab of the session (once, as both the opener and the
+   * targetcreated listener register new pages)
+   */
+  private async registerTab(session: BrowserSession, page: Page): Promise<BrowserTab> {
+    for (const tab of session.tabs.values()) {
+      if (tab.page === page) return tab;
+    }
+
+    const tab: BrowserTab = { id: uuidv4(), page, nextRef: 1 };
+    session.tabs.set(tab.id, tab);
+
+    // Tabs the site closes (window.close) disappear from the session
+    page.on('close', () => this.removeTab(session, tab.id));
+
+    await page.setViewport({ width: 1280, height: 720 });
+
+    return tab;
+  }
+
+  private activateTab(session: BrowserSession, tab: BrowserTab): void {
+    session.activeTabId = tab.id;
+    session.page = tab.page;
+  }
+
+  private removeTab(session: BrowserSession, tabId: string): void {
+    if (!session.tabs.delete(tabId)) return;
+
+    // The most recently opened remaining tab takes over
+    if (session.activeTabId === tabId) {
+      const next = Array.from(session.tabs.values()).pop();
+      if (next) this.activateTab(session, next);
+    }
+  }
+
+  /**
+   * Save the session's downloads to the workspace. Chrome names files by
+   * download GUID; they get their real (sanitized, unique) name on completion.
+   * Downloads past maxDownloadBytes are canceled and their partial file removed.
+   */
+  private async captureDownloads(session: BrowserSession, allowed: boolean): Promise<void> {
+    const cdp = await session.browser.target().createCDPSession();
+    session.cdp = cdp;
+    await this.setDownloadsAllowed(session, allowed);
+
+    cdp.on('Browser.downloadWillBegin', (event) => {
+      session.downloads.push({
+        id: event.guid,
+        url: event.url,
+        filename: event.suggestedFilename,
+        state: 'in_progress',
+        receivedBytes: 0,
+        totalBytes: 0,
+        startedAt: new Date(),
+        reported: false,
+        error: session.downloadsAllowed
+          ? undefined
+          : `Download of ${event.url} was blocked: no write access to ${DOWNLOADS_PATH}/`,
+      });
+    });
+
+    cdp.on('Browser.downloadProgress', (event) => {
+      const download = session.downloads.find((d) => d.id === event.guid);
+      if (!download || download.state !== 'in_progress') return;
+
+      download.receivedBytes = event.receivedBytes;
+      download.totalBytes = event.totalBytes;
+
+      if (event.state === 'canceled') {
+        download.state = 'canceled';
+      } else if (Math.max(event.receivedBytes, event.totalBytes) > this.maxDownloadBytes) {
+        download.state = 'canceled';
+        download.error = `Download of ${download.url} exceeds the ${this.maxDownloadBytes} byte limit`;
+        this.cancelDownload(cdp, download).catch((error) => {
+          this.context?.logger.warn('Failed to cancel oversized download', {
+            url: download.url,
+            error: error.message,
+          });
+        });
+      } else if (event.state === 'completed') {
+        this.finishDownload(download).catch((error) => {
+          download.state = 'canceled';
+          this.context?.logger.error('Failed to save download', {
+            url: download.url,
+            error: error.message,
+          });
+        });
+      }
+    });
+  }
+
+  /**
+   * Let the session's pages download into the workspace, or make them fail
+   */
+  private async setDownloadsAllowed(session: BrowserSession, allowed: boolean): Promise<void> {
+    if (!session.cdp || session.downloadsAllowed === allowed) return;
+
+    if (allowed) {
+      await fs.mkdir(this.downloadDir, { recursive: true });
+    }
+    await session.cdp.send('Browser.setDownloadBehavior', {
+      behavior: allowed ? 'allowAndName' : 'deny',
+      downloadPath: allowed ? this.downloadDir : undefined,
+      eventsEnabled: true,
+    });
+    session.downloadsAllowed = allowed;
+  }
+
+  private async cancelDownload(cdp: CDPSession, download: BrowserDownload): Promise<void> {
+    await cdp.send('Browser.cancelDownload', { guid: download.id });
+    await fs.rm(path.join(this.downloadDir, download.id), { force: true });
+  }
+
+  private async finishDownload(download: BrowserDownload): Promise<void> {
+    const name = path.basename(download.filename).replace(/[^\w.\- ]/g, '_') || 'download';
+    const ext = path.extname(name);
+    const stem = name.slice(0, name.length - ext.length);
+
+    let target = path.join(this.downloadDir, name);
+    for (let n = 1; await this.exists(target); n++) {
+      target = path.join(this.downloadDir, `${stem} (${n})${ext}`);
+    }
+
+    await fs.rename(path.join(this.downloadDir, download.id), target);
+
+    download.filename = path.basename(target);
+    download.path = path.relative(this.workspaceRoot, target).split(path.sep).join('/');
+    download.completedAt = new Date();
+    download.state = 'completed';
+
+    this.context?.logger.info('Download saved', { url: download.url, path: download.path });
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async closeSession(sessionId: string): Promise<MCPToolResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        error: 'Invalid session ID',
+      };
+    }
+
+    await session.browser.close();
+    this.sessions.delete(sessionId);
+
+    this.context?.logger.info('Browser session closed', { sessionId });
+
+    return {
+      success: true,
+      data: {
+        sessionId,
+        message: 'Session closed successfully',
+      },
+    };
+  }
+
+  private async createSession(allowDownloads: boolean): Promise<BrowserSession> {
+    // Check max sessions limit
+    if (this.sessions.size >= this.maxSessions) {
+      // Close oldest session
+      const oldestSession = Array.from(this.sessions.values()).sort(
+        (a, b) => a.lastActivityAt.getTime() - b.lastActivityAt.getTime()
+      )[0];
+
+      await this.closeSession(oldestSession.id);
+    }
+
+    // Launch new browser instance
+    const browser = await puppeteer.launch({
+      headless: true,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-gpu',
+      ],
+    });
+
+    // The browser starts with a blank page; it becomes the first tab
+    const [page = await browser.newPage()] = await browser.pages();
+
+    const session: BrowserSession = {
+      id: uuidv4(),
+      browser,
+      page,
+      tabs: new Map(),
+      activeTabId: '',
+      downloads: [],
+      createdAt: new Date(),
+      lastActivityAt: new Date(),
+    };
+    session.activeTabId = (await this.registerTab(session, page)).id;
+
+    // Pages opened by the site become tabs, but don't take focus
+    browser.on('targetcreated', async (target) => {
+      if (target.type() !== 'page') return;
+      try {
+        const opened = await target.page();
+        if (opened) await this.registerTab(session, opened);
+      } catch (error: any) {
+        this.context?.logger.warn('Failed to track new tab', { error: error.message });
+      }
+    });
+
+    await this.captureDownloads(session, allowDownloads);
 
     this.sessions.set(session.id, session);
 
@@ -852,7 +2016,7 @@ export class BrowserMCPServer implements MCPServerPlugin {
 
   private startSessionCleanup(): void {
     // Check for stale sessions every 5 minutes
-    setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       const now = Date.now();
       const staleSessionIds: string[] = [];
 
@@ -874,6 +2038,7 @@ export class BrowserMCPServer implements MCPServerPlugin {
         });
       }
     }, 5 * 60 * 1000); // 5 minutes
+    this.cleanupTimer.unref();
   }
 
   /**
@@ -0,0 +1,108 @@
+/**
+ * Browser Snapshot - Accessibility tree as compact text for agents
+ *
+ * An outline of roles and names is a fraction of the size of the HTML and
+ * says what a user would see. Interactive nodes carry a ref ("e12") that
+ * the browser tools accept instead of a CSS selector; the ref is stored on
+ * the element, so it stays the same across snapshots until the page
+ * navigates away.
+ */
+import type { SerializedAXNode } from 'puppeteer';
+
+// Attribute holding an element's ref
+export const REF_ATTRIBUTE = 'data-mosaic-ref';
+
+// Roles an agent can act on, so they get refs
+const INTERACTIVE_ROLES = new Set([
+  'button',
+  'link',
+  'textbox',
+  'searchbox',
+  'checkbox',
+  'radio',
+  'combobox',
+  'listbox',
+  'option',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'tab',
+  'switch',
+  'slider',
+  'spinbutton',
+  'treeitem',
+]);
+
+// Longest name or value shown for a node
+const MAX_TEXT = 100;
+
+export function isInteractiveRole(role: string): boolean {
+  return INTERACTIVE_ROLES.has(role);
+}
+
+/**
+ * CSS selector for a ref
+ */
+export function refSelector(ref: string): string {
+  return `[${REF_ATTRIBUTE}="${ref.replace(/["\\]/g, '\\$&')}"]`;
+}
+
+function quote(text: string): string {
+  const clipped = text.length > MAX_TEXT ? `${text.slice(0, MAX_TEXT)}...` : text;
+  return JSON.stringify(clipped.replace(/\s+/g, ' ').trim());
+}
+
+// Tri-state attributes read "checked", "checked=false" or "checked=mixed"
+function state(name: string, value: boolean | 'mixed'): string {
+  return value === true ? name : `${name}=${value}`;
+}
+
+function attributes(node: SerializedAXNode, ref?: string): string[] {
+  const attrs: string[] = [];
+
+  if (ref) attrs.push(`ref=${ref}`);
+  if (node.level !== undefined) attrs.push(`level=${node.level}`);
+  if (node.checked !== undefined) attrs.push(state('checked', node.checked));
+  if (node.pressed !== undefined) attrs.push(state('pressed', node.pressed));
+  if (node.selected) attrs.push('selected');
+  if (node.expanded !== undefined) attrs.push(`expanded=${node.expanded}`);
+  if (node.disabled) attrs.push('disabled');
+  if (node.required) attrs.push('required');
+  if (node.readonly) attrs.push('readonly');
+  if (node.focused) attrs.push('focused');
+  if (node.value !== undefined && node.value !== '') {
+    attrs.push(`value=${quote(String(node.value))}`);
+  }
+  if (node.url) attrs.push(`url=${node.url}`);
+
+  return attrs;
+}
+
+/**
+ * Render the tree as an indented list, one node per line:
+ *
+ *   - heading "Sign in" [level=1]
+ *   - textbox "Email" [ref=e1] [required]
+ *   - button "Continue" [ref=e2]
+ */
+export function formatAccessibilityTree(
+  root: SerializedAXNode,
+  refs: Map<SerializedAXNode, string> = new Map()
+): string {
+  const lines: string[] = [];
+
+  const visit = (node: SerializedAXNode, depth: number) => {
+    const name = node.name ? ` ${quote(node.name)}` : '';
+    const attrs = attributes(node, refs.get(node))
+      .map((attr) => ` [${attr}]`)
+      .join('');
+    lines.push(`${'  '.repeat(depth)}- ${node.role}${name}${attrs}`);
+
+    for (const child of node.children ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+
+  visit(root, 0);
+  return lines.join('\n');
+}
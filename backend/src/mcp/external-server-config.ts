@@ -0,0 +1,194 @@
+/**
+ * External MCP Server Configuration
+ *
+ * Servers are listed in a JSON file (MCP_SERVERS_CONFIG, default
+ * mcp-servers.json in the working directory) in the format most MCP clients
+ * use:
+ *
+ *   { "mcpServers": {
+ *       "github": { "command": "npx", "args": ["-y", "@modelcontextprotocol/server-github"],
+ *                   "env": { "GITHUB_TOKEN": "${GITHUB_TOKEN}" } },
+ *       "docs": { "url": "https://docs.example.com/mcp" } } }
+ *
+ * The transport is inferred from `command` (stdio) or `url` (http) unless
+ * given. "${VAR}" in args, env, url and headers is replaced from the
+ * environment so secrets stay out of the file. Entries with "disabled": true
+ * are skipped.
+ *
+ * The file is how stdio servers are added. POST /api/mcp/servers is off
+ * unless MCP_RUNTIME_REGISTRATION=true, and even then only connects http
+ * servers or stdio commands listed in MCP_RUNTIME_COMMANDS.
+ */
+import { ExternalMCPServerConfig } from '@mosaic/shared';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../core/logger';
+
+const configLogger = logger.child({ service: 'mcp-config' });
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every((v) => typeof v === 'string');
+
+/**
+ * Problem with a server configuration, or undefined when it is valid
+ */
+export function validateExternalServerConfig(config: any): string | undefined {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return 'Server configuration must be an object';
+  }
+
+  // Tools are addressed as "<server>.<tool>", so names can't contain dots
+  if (typeof config.name !== 'string' || !/^[A-Za-z0-9_-]+$/.test(config.name)) {
+    return 'name must contain only letters, digits, "-" and "_"';
+  }
+
+  if (config.transport === 'stdio') {
+    if (typeof config.command !== 'string' || !config.command) {
+      return 'command is required for stdio servers';
+    }
+    if (
+      config.args !== undefined &&
+      (!Array.isArray(config.args) || !config.args.every((a: unknown) => typeof a === 'string'))
+    ) {
+      return 'args must be an array of strings';
+    }
+    if (config.env !== undefined && !isStringRecord(config.env)) {
+      return 'env must map names to string values';
+    }
+    if (config.cwd !== undefined && typeof config.cwd !== 'string') {
+      return 'cwd must be a string';
+    }
+  } else if (config.transport === 'http') {
+    let url: URL;
+    try {
+      url = new URL(config.url);
+    } catch {
+      return 'url must be a valid URL for http servers';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'url must use http or https';
+    }
+    if (config.headers !== undefined && !isStringRecord(config.headers)) {
+      return 'headers must map names to string values';
+    }
+  } else {
+    return 'transport must be "stdio" or "http"';
+  }
+
+  if (
+    config.timeoutMs !== undefined &&
+    (typeof config.timeoutMs !== 'number' || config.timeoutMs <= 0)
+  ) {
+    return 'timeoutMs must be a positive number';
+  }
+
+  return undefined;
+}
+
+/**
+ * Fill in the transport and expand "${VAR}" references
+ * Configs from API requests are not expanded, so callers can't read the environment.
+ */
+export function normalizeExternalServerConfig(
+  name: string,
+  entry: Record<string, any>,
+  expandEnv = true
+): ExternalMCPServerConfig {
+  const expand = (value: string) =>
+    expandEnv
+      ? value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, key) => process.env[key] ?? '')
+      : value;
+  const expandRecord = (record?: Record<string, string>) =>
+    record &&
+    Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? expand(value) : value,
+      ])
+    );
+
+  return {
+    ...entry,
+    name,
+    transport: entry.transport || (entry.url ? 'http' : 'stdio'),
+    args: Array.isArray(entry.args)
+      ? entry.args.map((arg: unknown) => (typeof arg === 'string' ? expand(arg) : arg))
+      : entry.args,
+    env: expandRecord(entry.env),
+    url: typeof entry.url === 'string' ? expand(entry.url) : entry.url,
+    headers: expandRecord(entry.headers),
+  };
+}
+
+/**
+ * Servers POST /api/mcp/servers may connect
+ */
+export interface RuntimeRegistrationPolicy {
+  enabled: boolean;
+  allowedCommands: string[]; // stdio commands; http servers are always allowed
+}
+
+export function runtimeRegistrationFromEnv(): RuntimeRegistrationPolicy {
+  return {
+    enabled: process.env.MCP_RUNTIME_REGISTRATION === 'true',
+    allowedCommands: (process.env.MCP_RUNTIME_COMMANDS || '')
+      .split(',')
+      .map((command) => command.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Reason a server can't be connected at runtime, or undefined when it can
+ */
+export function checkRuntimeRegistration(
+  config: ExternalMCPServerConfig,
+  policy: RuntimeRegistrationPolicy
+): string | undefined {
+  if (!policy.enabled) {
+    return 'Runtime MCP server registration is disabled; add servers to MCP_SERVERS_CONFIG';
+  }
+  if (config.transport === 'stdio' && !policy.allowedCommands.includes(config.command!)) {
+    return `Command ${config.command} is not allowed at runtime; add it to MCP_RUNTIME_COMMANDS or MCP_SERVERS_CONFIG`;
+  }
+  return undefined;
+}
+
+/**
+ * Read the configured servers; invalid entries are logged and skipped
+ */
+export function loadExternalServerConfigs(
+  file = process.env.MCP_SERVERS_CONFIG || 'mcp-servers.json'
+): ExternalMCPServerConfig[] {
+  const configPath = path.resolve(file);
+  if (!fs.existsSync(configPath)) {
+    if (process.env.MCP_SERVERS_CONFIG) {
+      configLogger.warn('MCP servers config not found', { path: configPath });
+    }
+    return [];
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  const entries = parsed?.mcpServers;
+  if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+    throw new Error(`${configPath} must contain an "mcpServers" object`);
+  }
+
+  const configs: ExternalMCPServerConfig[] = [];
+  for (const [name, entry] of Object.entries(entries)) {
+    if (typeof entry !== 'object' || entry === null || (entry as any).disabled) continue;
+
+    const config = normalizeExternalServerConfig(name, entry as Record<string, any>);
+    const error = validateExternalServerConfig(config);
+    if (error) {
+      configLogger.warn('Skipping invalid MCP server config', { name, error });
+      continue;
+    }
+    configs.push(config);
+  }
+
+  return configs;
+}
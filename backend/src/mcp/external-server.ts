@@ -0,0 +1,339 @@
+/**
+ * External MCP Server - Mounts a Model Context Protocol server as a plugin
+ *
+ * Speaks MCP (JSON-RPC over stdio or streamable HTTP) to a server running
+ * outside Mosaic and maps it onto MCPServerPlugin: tools/list and
+ * tools/call become getTools/invokeTool, resources/* getResources and
+ * readResource, prompts/* getPrompts and getPrompt. Lists are fetched when
+ * the plugin initializes and refreshed when the server announces a change,
+ * since the plugin interface reads them synchronously.
+ */
+import {
+  ExternalMCPServerConfig,
+  MCPPromptDefinition,
+  MCPPromptResult,
+  MCPResourceContent,
+  MCPResourceDefinition,
+  MCPServerPlugin,
+  MCPToolCaller,
+  MCPToolDefinition,
+  MCPToolResult,
+  PluginContext,
+} from '@mosaic/shared';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+// Content blocks of a tools/call or prompts/get result
+type ContentBlock = {
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  resource?: { uri: string; text?: string; blob?: string; mimeType?: string };
+};
+
+/**
+ * Text of the text blocks, joined by newlines
+ */
+function textOf(content: ContentBlock[]): string {
+  return content
+    .filter((block) => block.type === 'text' && typeof block.text === 'string')
+    .map((block) => block.text)
+    .join('\n');
+}
+
+export class ExternalMCPServer implements MCPServerPlugin {
+  name: string;
+  version = '0.0.0'; // Replaced by the version the server reports
+  type = 'mcp-server' as const;
+
+  metadata = {
+    author: 'External',
+    description: '',
+    license: 'Unknown',
+  };
+
+  private config: ExternalMCPServerConfig;
+  private client?: Client;
+  private context?: PluginContext;
+  private tools: MCPToolDefinition[] = [];
+  private resources: MCPResourceDefinition[] = [];
+  private prompts: MCPPromptDefinition[] = [];
+
+  constructor(config: ExternalMCPServerConfig) {
+    this.config = config;
+    this.name = config.name;
+    this.metadata.description = `External MCP server (${config.transport}: ${
+      config.transport === 'http' ? config.url : config.command
+    })`;
+  }
+
+  async initialize(context: PluginContext): Promise<void> {
+    this.context = context;
+
+    const client = new Client({ name: 'mosaic', version: '2.0.0' });
+    client.onerror = (error) => {
+      context.logger.warn('External MCP server error', { server: this.name, error: error.message });
+    };
+    client.onclose = () => {
+      if (this.client !== client) return; // Closed by shutdown()
+      this.client = undefined;
+      context.logger.warn('External MCP server disconnected unexpectedly', { server: this.name });
+    };
+
+    await client.connect(this.createTransport(), { timeout: this.timeout });
+    this.client = client;
+
+    const serverVersion = client.getServerVersion();
+    if (serverVersion) {
+      this.version = serverVersion.version;
+    }
+
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => this.refresh('tools'));
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+      this.refresh('resources')
+    );
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+      this.refresh('prompts')
+    );
+
+    await Promise.all([this.refresh('tools'), this.refresh('resources'), this.refresh('prompts')]);
+
+    context.logger.info('External MCP server connected', {
+      server: this.name,
+      transport: this.config.transport,
+      version: this.version,
+      tools: this.tools.length,
+      resources: this.resources.length,
+      prompts: this.prompts.length,
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    const client = this.client;
+    this.client = undefined;
+    await client?.close();
+    this.context?.logger.info('External MCP server disconnected', { server: this.name });
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.client) return false;
+
+    try {
+      await this.client.ping({ timeout: this.timeout });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getConfig(): ExternalMCPServerConfig {
+    return this.config;
+  }
+
+  isConnected(): boolean {
+    return !!this.client;
+  }
+
+  getTools(): MCPToolDefinition[] {
+    return this.tools;
+  }
+
+  getResources(): MCPResourceDefinition[] {
+    return this.resources;
+  }
+
+  getPrompts(): MCPPromptDefinition[] {
+    return this.prompts;
+  }
+
+  /**
+   * Call a tool. Text content becomes `data` (structured content when the
+   * server provides it); a tool error becomes `error`.
+   */
+  async invokeTool(name: string, params: any, _caller?: MCPToolCaller): Promise<MCPToolResult> {
+    try {
+      const result = await this.requireClient().callTool(
+        { name, arguments: params || {} },
+        undefined,
+        { timeout: this.timeout }
+      );
+
+      const content = (result.content || []) as ContentBlock[];
+      const text = textOf(content);
+      const other = content.filter((block) => block.type !== 'text');
+
+      if (result.isError) {
+        return { success: false, error: text || `Tool ${name} failed` };
+      }
+
+      return {
+        success: true,
+        data: result.structuredContent ?? (other.length > 0 ? { text, content: other } : text),
+        metadata: { server: this.name },
+      };
+    } catch (error: any) {
+      this.context?.logger.error('External tool call failed', {
+        server: this.name,
+        name,
+        error: error.message,
+      });
+      return { success: false, error: error.message };
+    }
+  }
+
+  async readResource(uri: string): Promise<MCPResourceContent> {
+    const result = await this.requireClient().readResource({ uri }, { timeout: this.timeout });
+    const [first] = result.contents;
+    if (!first) {
+      throw new Error(`Resource ${uri} has no content`);
+    }
+
+    return {
+      uri: first.uri,
+      mimeType: first.mimeType || 'text/plain',
+      content: 'blob' in first ? Buffer.from(first.blob, 'base64') : first.text,
+    };
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    const result = await this.requireClient().getPrompt(
+      { name, arguments: args },
+      { timeout: this.timeout }
+    );
+
+    return {
+      description: result.description,
+      messages: result.messages.map((message) => {
+        const block = message.content as ContentBlock;
+        return {
+          role: message.role,
+          content:
+            block.type === 'text'
+              ? block.text || ''
+              : block.type === 'resource'
+                ? block.resource?.text || `[resource ${block.resource?.uri}]`
+                : `[${block.type}]`,
+        };
+      }),
+    };
+  }
+
+  private get timeout(): number {
+    return this.config.timeoutMs || DEFAULT_TIMEOUT_MS;
+  }
+
+  private createTransport(): Transport {
+    if (this.config.transport === 'http') {
+      return new StreamableHTTPClientTransport(new URL(this.config.url!), {
+        requestInit: { headers: this.config.headers },
+      });
+    }
+
+    const transport = new StdioClientTransport({
+      command: this.config.command!,
+      args: this.config.args,
+      env: this.config.env,
+      cwd: this.config.cwd,
+      stderr: 'pipe',
+    });
+
+    // Surface the server's own logging instead of mixing it into ours
+    transport.stderr?.on('data', (chunk: Buffer) => {
+      this.context?.logger.debug('External MCP server stderr', {
+        server: this.name,
+        output: chunk.toString().trim(),
+      });
+    });
+
+    return transport;
+  }
+
+  /**
+   * Re-fetch one of the lists, following pagination. Servers that don't
+   * declare the capability simply have an empty list.
+   */
+  private async refresh(kind: 'tools' | 'resources' | 'prompts'): Promise<void> {
+    const client = this.client;
+    if (!client || !client.getServerCapabilities()?.[kind]) return;
+
+    try {
+      if (kind === 'tools') {
+        const tools: MCPToolDefinition[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await client.listTools({ cursor }, { timeout: this.timeout });
+          for (const tool of page.tools) {
+            tools.push({
+              name: tool.name,
+              description: tool.description || tool.title || tool.name,
+              inputSchema: tool.inputSchema as MCPToolDefinition['inputSchema'],
+              ...(tool.outputSchema && {
+                outputSchema: tool.outputSchema as MCPToolDefinition['inputSchema'],
+              }),
+            });
+          }
+          cursor = page.nextCursor;
+        } while (cursor);
+        this.tools = tools;
+      } else if (kind === 'resources') {
+        const resources: MCPResourceDefinition[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await client.listResources({ cursor }, { timeout: this.timeout });
+          for (const resource of page.resources) {
+            resources.push({
+              uri: resource.uri,
+              name: resource.name,
+              description: resource.description || '',
+              mimeType: resource.mimeType || 'text/plain',
+            });
+          }
+          cursor = page.nextCursor;
+        } while (cursor);
+        this.resources = resources;
+      } else {
+        const prompts: MCPPromptDefinition[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await client.listPrompts({ cursor }, { timeout: this.timeout });
+          for (const prompt of page.prompts) {
+            prompts.push({
+              name: prompt.name,
+              description: prompt.description || '',
+              arguments: prompt.arguments?.map((arg) => ({
+                name: arg.name,
+                description: arg.description || '',
+                required: !!arg.required,
+              })),
+            });
+          }
+          cursor = page.nextCursor;
+        } while (cursor);
+        this.prompts = prompts;
+      }
+    } catch (error: any) {
+      this.context?.logger.warn('Failed to list from external MCP server', {
+        server: this.name,
+        kind,
+        error: error.message,
+      });
+    }
+  }
+
+  private requireClient(): Client {
+    if (!this.client) {
+      throw new Error(`MCP server ${this.name} is not connected`);
+    }
+    return this.client;
+  }
+}
@@ -1,18 +1,186 @@
 /**
  * Filesystem MCP Server - Provides file operations to agents
+ *
+ * All paths are relative to the workspace root. Reads, writes and search
+ * results are capped (see FilesystemLimits) so a single call cannot flood
+ * an agent's context or fill the disk; large text files can be read in line
+ * ranges and binary files are exchanged as base64.
+ *
+ * When a WorkspaceHistory is attached, every write, edit, delete, move and
+ * copy of a file is recorded with the previous content and the caller.
+ *
+ * Concurrent agents coordinate in two ways: a FileLockManager lets an agent
+ * hold a file for a while (other agents' changes to it are refused), and
+ * write_file/edit_file accept the SHA-256 the caller last read so a change
+ * made in between is reported as a conflict instead of being overwritten.
+ *
+ * Workspace files are also exposed as MCP resources with workspace:/// URIs.
+ * The listing is cached, relisted after every change made through the server
+ * and periodically for files changed by other means.
  */
 import {
   MCPServerPlugin,
   PluginContext,
   MCPToolDefinition,
   MCPToolResult,
+  MCPToolCaller,
+  MCPResourceContent,
+  MCPResourceDefinition,
 } from '@mosaic/shared';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as readline from 'readline';
+import type { FileChange, WorkspaceHistory } from '../services/workspace/workspace-history.service';
+import type { FileLockManager } from '../services/workspace/file-lock-manager';
+
+export interface FilesystemLimits {
+  maxReadBytes: number; // Largest content returned by read_file
+  maxWriteBytes: number; // Largest file write_file and edit_file will produce
+  maxListEntries: number; // Entries returned by list_files
+  maxSearchResults: number; // Files or matching lines returned by search_files
+}
+
+const DEFAULT_LIMITS: FilesystemLimits = {
+  maxReadBytes: parseInt(process.env.FS_MAX_READ_BYTES || '') || 1024 * 1024,
+  maxWriteBytes: parseInt(process.env.FS_MAX_WRITE_BYTES || '') || 10 * 1024 * 1024,
+  maxListEntries: 1000,
+  maxSearchResults: 200,
+};
+
+type Encoding = 'utf-8' | 'base64';
+
+/**
+ * A single change applied by edit_file: either replace text or replace a line range
+ */
+interface FileEdit {
+  oldText?: string;
+  newText: string;
+  replaceAll?: boolean;
+  startLine?: number;
+  endLine?: number;
+}
+
+interface ListedEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  modifiedAt: string;
+}
+
+// Longest line excerpt returned by search_files
+const MAX_MATCH_TEXT = 200;
+
+const RESOURCE_SCHEME = 'workspace:///';
+
+// How often the resource listing is rebuilt to pick up changes made outside the server
+const RESOURCE_REFRESH_MS = 30000;
+
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.ts': 'text/x-typescript',
+  '.py': 'text/x-python',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+};
+
+/**
+ * Resource URI of a workspace-relative path
+ */
+export function workspaceResourceUri(relativePath: string): string {
+  return RESOURCE_SCHEME + relativePath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Workspace-relative path of a resource URI, undefined for other URIs
+ */
+export function workspaceResourcePath(uri: string): string | undefined {
+  if (!uri.startsWith(RESOURCE_SCHEME)) return undefined;
+
+  try {
+    return uri.slice(RESOURCE_SCHEME.length).split('/').map(decodeURIComponent).join('/');
+  } catch {
+    return undefined; // Malformed escape
+  }
+}
+
+/**
+ * Heuristic used by git and friends: a NUL byte in the first 8KB means binary
+ */
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Convert a glob ("**\/*.md", "src/*.{ts,tsx}", "notes?.txt") to an anchored RegExp
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" anything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = glob.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+      } else {
+        const options = glob.slice(i + 1, close).split(',');
+        source += `(?:${options.map((o) => o.replace(/[.+^$()|[\]\\]/g, '\\$&')).join('|')})`;
+        i = close;
+      }
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Count of lines as an editor shows them (a trailing newline does not start a new line)
+ */
+function lineCount(lines: string[]): number {
+  return lines.length > 0 && lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+}
 
 export class FilesystemMCPServer implements MCPServerPlugin {
   name = 'filesystem';
-  version = '1.0.0';
+  version = '1.1.0';
   type: 'mcp-server' = 'mcp-server';
 
   metadata = {
@@ -22,10 +190,20 @@ export class FilesystemMCPServer implements MCPServerPlugin {
   };
 
   private workspaceRoot: string;
+  private limits: FilesystemLimits;
+  private history?: WorkspaceHistory;
+  private locks?: FileLockManager;
   private context?: PluginContext;
+  // Tail of the queued writes per file, so a hash check and its write can't interleave
+  private pendingWrites: Map<string, Promise<unknown>> = new Map();
+  private resources: MCPResourceDefinition[] = [];
+  private resourceRefresh?: Promise<void>;
+  private resourcesStale = false; // Changed while a refresh was already walking
+  private resourceTimer?: NodeJS.Timeout;
 
-  constructor(workspaceRoot?: string) {
-    this.workspaceRoot = workspaceRoot || path.join(process.cwd(), 'workspace');
+  constructor(workspaceRoot?: string, limits: Partial<FilesystemLimits> = {}) {
+    this.workspaceRoot = path.resolve(workspaceRoot || path.join(process.cwd(), 'workspace'));
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
   }
 
   async initialize(context: PluginContext): Promise<void> {
@@ -34,20 +212,133 @@ export class FilesystemMCPServer implements MCPServerPlugin {
     // Ensure workspace directory exists
     await fs.mkdir(this.workspaceRoot, { recursive: true });
 
+    await this.refreshResources();
+    this.resourceTimer = setInterval(() => this.refreshResources(), RESOURCE_REFRESH_MS);
+    this.resourceTimer.unref();
+
     context.logger.info('Filesystem MCP server initialized', {
       workspace: this.workspaceRoot,
     });
   }
 
+  getWorkspaceRoot(): string {
+    return this.workspaceRoot;
+  }
+
+  /**
+   * Record file changes from now on
+   */
+  setHistory(history: WorkspaceHistory): void {
+    this.history = history;
+  }
+
+  /**
+   * Enable the lock tools and refuse changes to files other agents hold
+   */
+  setLocks(locks: FileLockManager): void {
+    this.locks = locks;
+  }
+
+  /**
+   * Restore a file to a history version, queued behind other changes to the
+   * file and refused while another agent holds its lock
+   */
+  async restoreVersion(
+    versionId: string,
+    caller?: MCPToolCaller,
+    metadata?: Record<string, unknown>
+  ): Promise<MCPToolResult> {
+    const history = this.history;
+    const version = history?.getVersion(versionId);
+    if (!history || !version) {
+      return { success: false, error: `Version ${versionId} not found` };
+    }
+
+    return this.exclusive(version.path, async () => {
+      const locked = this.checkLock(this.resolveWorkspacePath(version.path), caller);
+      if (locked) return locked;
+
+      const restored = await history.restore(versionId, caller, metadata);
+      return { success: true, data: restored };
+    });
+  }
+
   async shutdown(): Promise<void> {
+    if (this.resourceTimer) {
+      clearInterval(this.resourceTimer);
+      this.resourceTimer = undefined;
+    }
+    this.locks?.clear();
     this.context?.logger.info('Filesystem MCP server shutting down');
   }
 
+  /**
+   * Files in the workspace, capped like list_files, as of the last refresh
+   */
+  getResources(): MCPResourceDefinition[] {
+    return this.resources;
+  }
+
+  /**
+   * Relist the workspace files served as resources. Calls made while a
+   * refresh is walking the workspace run one more refresh after it.
+   */
+  refreshResources(): Promise<void> {
+    if (this.resourceRefresh) {
+      this.resourcesStale = true;
+      return this.resourceRefresh;
+    }
+
+    this.resourcesStale = false;
+    this.resourceRefresh = this.listResourceFiles()
+      .then((resources) => {
+        this.resources = resources;
+      })
+      .catch((error) => {
+        this.context?.logger.warn('Failed to list workspace resources', { error: error.message });
+      })
+      .finally(() => {
+        this.resourceRefresh = undefined;
+        if (this.resourcesStale) this.refreshResources();
+      });
+    return this.resourceRefresh;
+  }
+
+  /**
+   * Whole file as a resource; text up to maxReadBytes, binary as a Buffer
+   */
+  async readResource(uri: string): Promise<MCPResourceContent> {
+    const filePath = workspaceResourcePath(uri);
+    if (filePath === undefined) {
+      throw new Error(`Not a workspace resource: ${uri}`);
+    }
+
+    const fullPath = this.resolveWorkspacePath(filePath);
+    const stats = await fs.stat(fullPath);
+    if (!stats.isFile()) {
+      throw new Error(`${filePath} is not a file`);
+    }
+    if (stats.size > this.limits.maxReadBytes) {
+      throw new Error(
+        `${filePath} is ${stats.size} bytes, more than the ${this.limits.maxReadBytes} byte read limit; use read_file with a line range`
+      );
+    }
+
+    const buffer = await fs.readFile(fullPath);
+    const binary = isBinary(buffer);
+    const mimeType =
+      MIME_TYPES[path.extname(filePath).toLowerCase()] ||
+      (binary ? 'application/octet-stream' : 'text/plain');
+
+    return { uri, mimeType, content: binary ? buffer : buffer.toString('utf-8') };
+  }
+
   getTools(): MCPToolDefinition[] {
     return [
       {
         name: 'read_file',
-        description: 'Read the contents of a file',
+        description:
+          'Read a file. Large text files can be read in line ranges; use encoding "base64" for binary files.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -55,6 +346,19 @@ export class FilesystemMCPServer implements MCPServerPlugin {
               type: 'string',
               description: 'Path to the file relative to workspace',
             },
+            startLine: {
+              type: 'number',
+              description: 'First line to read (1-based, inclusive)',
+            },
+            endLine: {
+              type: 'number',
+              description: 'Last line to read (inclusive)',
+            },
+            encoding: {
+              type: 'string',
+              enum: ['utf-8', 'base64'],
+              description: 'Content encoding (default utf-8)',
+            },
           },
           required: ['path'],
         },
@@ -73,13 +377,59 @@ export class FilesystemMCPServer implements MCPServerPlugin {
               type: 'string',
               description: 'Content to write to the file',
             },
+            encoding: {
+              type: 'string',
+              enum: ['utf-8', 'base64'],
+              description: 'Encoding of content; use base64 for binary files (default utf-8)',
+            },
+            expectedHash: {
+              type: 'string',
+              description:
+                'SHA-256 of the file as last read (from read_file or stat), or "" if it should not exist yet. The write is refused with the current content if the file has changed since.',
+            },
           },
           required: ['path', 'content'],
         },
       },
+      {
+        name: 'edit_file',
+        description:
+          'Apply edits to a text file. Each edit either replaces oldText (which must match exactly once unless replaceAll is set) or replaces lines startLine..endLine. Edits apply in order; the file is only written if all of them succeed.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to the file relative to workspace',
+            },
+            edits: {
+              type: 'array',
+              description:
+                'List of { oldText, newText, replaceAll? } or { startLine, endLine, newText } edits',
+              items: {
+                type: 'object',
+                properties: {
+                  oldText: { type: 'string' },
+                  newText: { type: 'string' },
+                  replaceAll: { type: 'boolean' },
+                  startLine: { type: 'number' },
+                  endLine: { type: 'number' },
+                },
+                required: ['newText'],
+              },
+            },
+            expectedHash: {
+              type: 'string',
+              description:
+                'SHA-256 of the file as last read; the edit is refused with the current content if the file has changed since',
+            },
+          },
+          required: ['path', 'edits'],
+        },
+      },
       {
         name: 'list_files',
-        description: 'List files in a directory',
+        description: 'List files in a directory, optionally recursively',
         inputSchema: {
           type: 'object',
           properties: {
@@ -87,7 +437,108 @@ export class FilesystemMCPServer implements MCPServerPlugin {
               type: 'string',
               description: 'Path to the directory (empty for root)',
             },
+            recursive: {
+              type: 'boolean',
+              description: 'Include subdirectories (default false)',
+            },
+            maxDepth: {
+              type: 'number',
+              description: 'Directory levels to descend when recursive (default 10)',
+            },
+          },
+        },
+      },
+      {
+        name: 'search_files',
+        description:
+          'Find files by glob pattern (e.g. "**/*.md") and/or search their contents for text or a regular expression',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Directory to search (empty for root)',
+            },
+            pattern: {
+              type: 'string',
+              description:
+                'Glob matched against paths relative to the search directory; a pattern without "/" matches file names at any depth',
+            },
+            query: {
+              type: 'string',
+              description: 'Text to search for inside files',
+            },
+            regex: {
+              type: 'boolean',
+              description: 'Treat query as a regular expression (default false)',
+            },
+            caseSensitive: {
+              type: 'boolean',
+              description: 'Match case (default false)',
+            },
+            maxResults: {
+              type: 'number',
+              description: 'Maximum files or matching lines to return',
+            },
+          },
+        },
+      },
+      {
+        name: 'move_file',
+        description: 'Move or rename a file or directory',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'string',
+              description: 'Path to move',
+            },
+            destination: {
+              type: 'string',
+              description: 'New path',
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'Replace an existing destination (default false)',
+            },
+          },
+          required: ['source', 'destination'],
+        },
+      },
+      {
+        name: 'copy_file',
+        description: 'Copy a file or directory',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'string',
+              description: 'Path to copy',
+            },
+            destination: {
+              type: 'string',
+              description: 'Path of the copy',
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'Replace an existing destination (default false)',
+            },
+          },
+          required: ['source', 'destination'],
+        },
+      },
+      {
+        name: 'stat',
+        description: 'Get type, size, timestamps and line count of a file or directory',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path relative to workspace',
+            },
           },
+          required: ['path'],
         },
       },
       {
@@ -104,6 +555,47 @@ export class FilesystemMCPServer implements MCPServerPlugin {
           required: ['path'],
         },
       },
+      {
+        name: 'acquire_lock',
+        description:
+          "Lock a file so other agents can't change it until you release it or the lock expires. Acquire it again to extend your lock.",
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to the file relative to workspace',
+            },
+            ttlSeconds: {
+              type: 'number',
+              description: 'Seconds until the lock expires (default 60, at most 600)',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'release_lock',
+        description: 'Release a lock you hold on a file',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to the file relative to workspace',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'list_locks',
+        description: 'List files currently locked and which agent holds each lock',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
       {
         name: 'create_directory',
         description: 'Create a new directory',
@@ -121,56 +613,87 @@ export class FilesystemMCPServer implements MCPServerPlugin {
     ];
   }
 
-  async invokeTool(name: string, params: any): Promise<MCPToolResult> {
+  async invokeTool(name: string, params: any, caller?: MCPToolCaller): Promise<MCPToolResult> {
     try {
-      this.context?.logger.debug('Invoking filesystem tool', { name, params });
+      this.context?.logger.debug('Invoking filesystem tool', {
+        name,
+        params,
+        agentId: caller?.agentId,
+      });
+
+      params = params || {};
+      let missing: MCPToolResult | undefined;
 
       switch (name) {
         case 'read_file':
-          if (!params.path) {
-            return {
-              success: false,
-              error: 'Missing required parameter: path',
-            };
-          }
-          return await this.readFile(params.path);
+          if ((missing = this.requireParams(params, 'path'))) return missing;
+          return await this.readFile(params.path, params);
 
         case 'write_file':
-          if (!params.path) {
-            return {
-              success: false,
-              error: 'Missing required parameter: path',
-            };
-          }
+          if ((missing = this.requireParams(params, 'path'))) return missing;
           if (params.content === undefined || params.content === null) {
             return {
               success: false,
               error: 'Missing required parameter: content',
             };
           }
-          return await this.writeFile(params.path, params.content);
+          return await this.exclusive(params.path, () =>
+            this.writeFile(
+              params.path,
+              params.content,
+              params.encoding,
+              params.expectedHash,
+              caller
+            )
+          );
+
+        case 'edit_file':
+          if ((missing = this.requireParams(params, 'path', 'edits'))) return missing;
+          return await this.exclusive(params.path, () =>
+            this.editFile(params.path, params.edits, params.expectedHash, caller)
+          );
 
         case 'list_files':
-          return await this.listFiles(params.path || '');
+          return await this.listFiles(params.path || '', params);
+
+        case 'search_files':
+          return await this.searchFiles(params.path || '', params);
+
+        case 'move_file':
+          if ((missing = this.requireParams(params, 'source', 'destination'))) return missing;
+          return await this.exclusive([params.source, params.destination], () =>
+            this.moveFile(params.source, params.destination, !!params.overwrite, caller)
+          );
+
+        case 'copy_file':
+          if ((missing = this.requireParams(params, 'source', 'destination'))) return missing;
+          return await this.exclusive([params.source, params.destination], () =>
+            this.copyFile(params.source, params.destination, !!params.overwrite, caller)
+          );
+
+        case 'stat':
+          if ((missing = this.requireParams(params, 'path'))) return missing;
+          return await this.stat(params.path);
 
         case 'delete_file':
-          if (!params.path) {
-            return {
-              success: false,
-              error: 'Missing required parameter: path',
-            };
-          }
-          return await this.deleteFile(params.path);
+          if ((missing = this.requireParams(params, 'path'))) return missing;
+          return await this.exclusive(params.path, () => this.deleteFile(params.path, caller));
 
         case 'create_directory':
-          if (!params.path) {
-            return {
-              success: false,
-              error: 'Missing required parameter: path',
-            };
-          }
+          if ((missing = this.requireParams(params, 'path'))) return missing;
           return await this.createDirectory(params.path);
 
+        case 'acquire_lock':
+          if ((missing = this.requireParams(params, 'path'))) return missing;
+          return await this.acquireLock(params.path, params.ttlSeconds, caller);
+
+        case 'release_lock':
+          if ((missing = this.requireParams(params, 'path'))) return missing;
+          return await this.releaseLock(params.path, caller);
+
+        case 'list_locks':
+          return this.listLocks();
+
         default:
           return {
             success: false,
@@ -186,75 +709,569 @@ export class FilesystemMCPServer implements MCPServerPlugin {
     }
   }
 
-  private async readFile(filePath: string): Promise<MCPToolResult> {
+  private async readFile(
+    filePath: string,
+    options: { startLine?: number; endLine?: number; encoding?: Encoding }
+  ): Promise<MCPToolResult> {
     const fullPath = this.resolveWorkspacePath(filePath);
-    const content = await fs.readFile(fullPath, 'utf-8');
+    const stats = await fs.stat(fullPath);
 
-    return {
-      success: true,
-      data: {
-        path: filePath,
-        content,
-        size: content.length,
-      },
-    };
-  }
+    if (stats.isDirectory()) {
+      return { success: false, error: `${filePath} is a directory` };
+    }
 
-  private async writeFile(filePath: string, content: string): Promise<MCPToolResult> {
-    const fullPath = this.resolveWorkspacePath(filePath);
+    if (options.encoding === 'base64') {
+      if (stats.size > this.limits.maxReadBytes) {
+        return {
+          success: false,
+          error: `File is ${stats.size} bytes; binary reads are limited to ${this.limits.maxReadBytes} bytes`,
+        };
+      }
 
-    // Ensure parent directory exists
-    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      const buffer = await fs.readFile(fullPath);
+      return {
+        success: true,
+        data: {
+          path: filePath,
+          encoding: 'base64',
+          content: buffer.toString('base64'),
+          size: stats.size,
+          hash: sha256(buffer),
+        },
+      };
+    }
+
+    if (options.startLine !== undefined || options.endLine !== undefined) {
+      return this.readLines(filePath, fullPath, stats.size, options.startLine, options.endLine);
+    }
+
+    // Read at most maxReadBytes, even when the file is larger
+    const handle = await fs.open(fullPath, 'r');
+    let buffer: Buffer;
+    try {
+      buffer = Buffer.alloc(Math.min(stats.size, this.limits.maxReadBytes));
+      await handle.read(buffer, 0, buffer.length, 0);
+    } finally {
+      await handle.close();
+    }
+
+    if (isBinary(buffer)) {
+      return {
+        success: false,
+        error: `${filePath} looks like a binary file; read it with encoding "base64"`,
+      };
+    }
 
-    await fs.writeFile(fullPath, content, 'utf-8');
+    const truncated = stats.size > buffer.length;
+    let content = buffer.toString('utf-8');
+    if (truncated) {
+      // Don't end on a partial line (or a split multi-byte character)
+      const lastNewline = content.lastIndexOf('\n');
+      if (lastNewline > 0) content = content.slice(0, lastNewline + 1);
+    }
 
     return {
       success: true,
       data: {
         path: filePath,
-        size: content.length,
-        message: 'File written successfully',
+        content,
+        size: stats.size,
+        hash: truncated ? await this.hashFile(fullPath) : sha256(buffer),
+        truncated,
+        ...(truncated && {
+          message: `File is larger than ${this.limits.maxReadBytes} bytes; use startLine/endLine to read the rest`,
+        }),
       },
     };
   }
 
-  private async listFiles(dirPath: string): Promise<MCPToolResult> {
-    const fullPath = this.resolveWorkspacePath(dirPath);
-    const entries = await fs.readdir(fullPath, { withFileTypes: true });
-
-    const files = await Promise.all(
-      entries.map(async (entry) => {
-        const entryPath = path.join(fullPath, entry.name);
-        const stats = await fs.stat(entryPath);
-
-        return {
-          name: entry.name,
-          path: path.join(dirPath, entry.name),
-          type: entry.isDirectory() ? 'directory' : 'file',
-          size: stats.size,
-          modifiedAt: stats.mtime.toISOString(),
-        };
-      })
+  /**
+   * Stream a line range so large files are never held in memory
+   */
+  private async readLines(
+    filePath: string,
+    fullPath: string,
+    size: number,
+    startLine = 1,
+    endLine = Infinity
+  ): Promise<MCPToolResult> {
+    if (startLine < 1 || endLine < startLine) {
+      return {
+        success: false,
+        error: 'startLine must be at least 1 and endLine must not be before startLine',
+      };
+    }
+
+    const lines: string[] = [];
+    let bytes = 0;
+    let totalLines = 0;
+    let truncated = false;
+
+    const reader = readline.createInterface({
+      input: createReadStream(fullPath, { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of reader) {
+      totalLines++;
+      if (totalLines < startLine || totalLines > endLine || truncated) continue;
+
+      bytes += Buffer.byteLength(line) + 1;
+      if (bytes > this.limits.maxReadBytes) {
+        truncated = true;
+        continue;
+      }
+      lines.push(line);
+    }
+
+    return {
+      success: true,
+      data: {
+        path: filePath,
+        content: lines.join('\n'),
+        startLine,
+        endLine: lines.length > 0 ? startLine + lines.length - 1 : startLine - 1,
+        totalLines,
+        size,
+        hash: await this.hashFile(fullPath),
+        truncated,
+      },
+    };
+  }
+
+  private async writeFile(
+    filePath: string,
+    content: string,
+    encoding: Encoding = 'utf-8',
+    expectedHash: string | undefined,
+    caller?: MCPToolCaller
+  ): Promise<MCPToolResult> {
+    if (encoding === 'base64' && !/^[A-Za-z0-9+/=\s]*$/.test(content)) {
+      return { success: false, error: 'content is not valid base64' };
+    }
+
+    const buffer = Buffer.from(content, encoding === 'base64' ? 'base64' : 'utf-8');
+    if (buffer.length > this.limits.maxWriteBytes) {
+      return {
+        success: false,
+        error: `Content is ${buffer.length} bytes; writes are limited to ${this.limits.maxWriteBytes} bytes`,
+      };
+    }
+
+    const fullPath = this.resolveWorkspacePath(filePath);
+    const locked = this.checkLock(fullPath, caller);
+    if (locked) return locked;
+
+    if (typeof expectedHash === 'string') {
+      const conflict = await this.checkHash(filePath, fullPath, expectedHash);
+      if (conflict) return conflict;
+    }
+
+    const before = await this.snapshot(fullPath);
+
+    // Ensure parent directory exists
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+    await fs.writeFile(fullPath, buffer);
+
+    const versionId = await this.recordChange({
+      path: this.relativePath(fullPath),
+      operation: 'write',
+      before,
+      after: buffer,
+      caller,
+    });
+
+    return {
+      success: true,
+      data: {
+        path: filePath,
+        size: buffer.length,
+        encoding,
+        hash: sha256(buffer),
+        versionId,
+        message: 'File written successfully',
+      },
+    };
+  }
+
+  private async editFile(
+    filePath: string,
+    edits: FileEdit[],
+    expectedHash: string | undefined,
+    caller?: MCPToolCaller
+  ): Promise<MCPToolResult> {
+    if (!Array.isArray(edits) || edits.length === 0) {
+      return { success: false, error: 'edits must be a non-empty array' };
+    }
+
+    const fullPath = this.resolveWorkspacePath(filePath);
+    const locked = this.checkLock(fullPath, caller);
+    if (locked) return locked;
+
+    if (typeof expectedHash === 'string') {
+      const conflict = await this.checkHash(filePath, fullPath, expectedHash);
+      if (conflict) return conflict;
+    }
+
+    const stats = await fs.stat(fullPath);
+    if (stats.size > this.limits.maxWriteBytes) {
+      return {
+        success: false,
+        error: `File is ${stats.size} bytes; edits are limited to files up to ${this.limits.maxWriteBytes} bytes`,
+      };
+    }
+
+    const buffer = await fs.readFile(fullPath);
+    if (isBinary(buffer)) {
+      return { success: false, error: `${filePath} looks like a binary file and cannot be edited` };
+    }
+
+    let content = buffer.toString('utf-8');
+    let replacements = 0;
+
+    for (const [index, edit] of edits.entries()) {
+      const label = `Edit ${index + 1}`;
+
+      if (typeof edit?.newText !== 'string') {
+        return { success: false, error: `${label}: newText must be a string` };
+      }
+
+      if (typeof edit.oldText === 'string') {
+        if (edit.oldText === '') {
+          return { success: false, error: `${label}: oldText must not be empty` };
+        }
+
+        const occurrences = content.split(edit.oldText).length - 1;
+        if (occurrences === 0) {
+          return { success: false, error: `${label}: oldText not found in ${filePath}` };
+        }
+        if (occurrences > 1 && !edit.replaceAll) {
+          return {
+            success: false,
+            error: `${label}: oldText matches ${occurrences} times; include more context or set replaceAll`,
+          };
+        }
+
+        content = content.split(edit.oldText).join(edit.newText);
+        replacements += occurrences;
+      } else if (typeof edit.startLine === 'number') {
+        const lines = content.split('\n');
+        const total = lineCount(lines);
+        const endLine = edit.endLine ?? edit.startLine;
+
+        if (edit.startLine < 1 || endLine < edit.startLine || endLine > total) {
+          return {
+            success: false,
+            error: `${label}: line range ${edit.startLine}-${endLine} is outside the file (${total} lines)`,
+          };
+        }
+
+        const replacement = edit.newText === '' ? [] : edit.newText.replace(/\n$/, '').split('\n');
+        lines.splice(edit.startLine - 1, endLine - edit.startLine + 1, ...replacement);
+        content = lines.join('\n');
+        replacements += 1;
+      } else {
+        return { success: false, error: `${label}: provide either oldText or startLine` };
+      }
+    }
+
+    const size = Buffer.byteLength(content);
+    if (size > this.limits.maxWriteBytes) {
+      return {
+        success: false,
+        error: `Edited file would be ${size} bytes; writes are limited to ${this.limits.maxWriteBytes} bytes`,
+      };
+    }
+
+    const after = Buffer.from(content, 'utf-8');
+    await fs.writeFile(fullPath, after);
+
+    const versionId = await this.recordChange({
+      path: this.relativePath(fullPath),
+      operation: 'edit',
+      before: buffer,
+      after,
+      caller,
+    });
+
+    return {
+      success: true,
+      data: {
+        path: filePath,
+        editsApplied: edits.length,
+        replacements,
+        size,
+        hash: sha256(after),
+        versionId,
+        lines: lineCount(content.split('\n')),
+        message: 'File edited successfully',
+      },
+    };
+  }
+
+  private async listFiles(
+    dirPath: string,
+    options: { recursive?: boolean; maxDepth?: number }
+  ): Promise<MCPToolResult> {
+    const maxDepth = options.recursive ? (options.maxDepth ?? 10) : 1;
+    const { entries, truncated } = await this.walk(dirPath, maxDepth, this.limits.maxListEntries);
+
+    return {
+      success: true,
+      data: {
+        path: dirPath,
+        files: entries,
+        count: entries.length,
+        truncated,
+      },
+    };
+  }
+
+  private async searchFiles(
+    dirPath: string,
+    options: {
+      pattern?: string;
+      query?: string;
+      regex?: boolean;
+      caseSensitive?: boolean;
+      maxResults?: number;
+    }
+  ): Promise<MCPToolResult> {
+    const { pattern, query } = options;
+    if (!pattern && !query) {
+      return { success: false, error: 'Provide a pattern, a query, or both' };
+    }
+
+    let matcher: RegExp | undefined;
+    if (query) {
+      const flags = options.caseSensitive ? '' : 'i';
+      try {
+        matcher = options.regex
+          ? new RegExp(query, flags)
+          : new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags);
+      } catch (error: any) {
+        return { success: false, error: `Invalid regular expression: ${error.message}` };
+      }
+    }
+
+    const glob = pattern ? globToRegExp(pattern) : undefined;
+    const matchBasename = !!pattern && !pattern.includes('/');
+    const maxResults = Math.min(
+      options.maxResults || this.limits.maxSearchResults,
+      this.limits.maxSearchResults
+    );
+
+    // Search everything below the directory, but never more than a bounded number of entries
+    const { entries, truncated: walkTruncated } = await this.walk(
+      dirPath,
+      Infinity,
+      this.limits.maxListEntries * 10
     );
 
+    const files: string[] = [];
+    const matches: Array<{ path: string; line: number; text: string }> = [];
+    let skipped = 0;
+    let truncated = walkTruncated;
+
+    for (const entry of entries) {
+      if (entry.type !== 'file') continue;
+
+      if (glob) {
+        const relative = path.relative(dirPath, entry.path).split(path.sep).join('/');
+        const candidate = matchBasename ? entry.name : relative;
+        if (!glob.test(candidate)) continue;
+      }
+
+      if (!matcher) {
+        if (files.length >= maxResults) {
+          truncated = true;
+          break;
+        }
+        files.push(entry.path);
+        continue;
+      }
+
+      // Only grep text files small enough to read
+      if (entry.size > this.limits.maxReadBytes) {
+        skipped++;
+        continue;
+      }
+      const buffer = await fs.readFile(this.resolveWorkspacePath(entry.path));
+      if (isBinary(buffer)) continue;
+
+      let found = false;
+      const lines = buffer.toString('utf-8').split('\n');
+      for (const [index, line] of lines.entries()) {
+        if (!matcher.test(line)) continue;
+
+        if (matches.length >= maxResults) {
+          truncated = true;
+          break;
+        }
+        found = true;
+        matches.push({
+          path: entry.path,
+          line: index + 1,
+          text: line.trim().slice(0, MAX_MATCH_TEXT),
+        });
+      }
+
+      if (found) files.push(entry.path);
+      if (truncated) break;
+    }
+
     return {
       success: true,
       data: {
         path: dirPath,
+        pattern,
+        query,
         files,
-        count: files.length,
+        ...(matcher && { matches }),
+        count: matcher ? matches.length : files.length,
+        truncated,
+        ...(skipped > 0 && { skippedLargeFiles: skipped }),
       },
     };
   }
 
-  private async deleteFile(filePath: string): Promise<MCPToolResult> {
+  private async moveFile(
+    source: string,
+    destination: string,
+    overwrite: boolean,
+    caller?: MCPToolCaller
+  ): Promise<MCPToolResult> {
+    const sourcePath = this.resolveWorkspacePath(source);
+    const destinationPath = this.resolveWorkspacePath(destination);
+
+    const locked = this.checkLock(sourcePath, caller) || this.checkLock(destinationPath, caller);
+    if (locked) return locked;
+
+    const conflict = await this.checkDestination(destination, destinationPath, overwrite);
+    if (conflict) return conflict;
+
+    const [content, before] = await Promise.all([
+      this.snapshot(sourcePath),
+      this.snapshot(destinationPath),
+    ]);
+
+    await fs.mkdir(path.dirname(destinationPath), { recursive: true });
+    await fs.rename(sourcePath, destinationPath);
+
+    // Directories are moved without history; their files keep their old entries
+    const versionId =
+      content &&
+      (await this.recordChange({
+        path: this.relativePath(destinationPath),
+        previousPath: this.relativePath(sourcePath),
+        operation: 'move',
+        before,
+        after: content,
+        caller,
+      }));
+
+    return {
+      success: true,
+      data: {
+        source,
+        destination,
+        versionId: versionId || undefined,
+        message: 'Moved successfully',
+      },
+    };
+  }
+
+  private async copyFile(
+    source: string,
+    destination: string,
+    overwrite: boolean,
+    caller?: MCPToolCaller
+  ): Promise<MCPToolResult> {
+    const sourcePath = this.resolveWorkspacePath(source);
+    const destinationPath = this.resolveWorkspacePath(destination);
+
+    const locked = this.checkLock(destinationPath, caller);
+    if (locked) return locked;
+
+    const conflict = await this.checkDestination(destination, destinationPath, overwrite);
+    if (conflict) return conflict;
+
+    const stats = await fs.stat(sourcePath);
+    const before = await this.snapshot(destinationPath);
+    await fs.mkdir(path.dirname(destinationPath), { recursive: true });
+    await fs.cp(sourcePath, destinationPath, { recursive: true, force: overwrite });
+
+    const versionId = stats.isFile()
+      ? await this.recordChange({
+          path: this.relativePath(destinationPath),
+          previousPath: this.relativePath(sourcePath),
+          operation: 'copy',
+          before,
+          after: await this.snapshot(destinationPath),
+          caller,
+        })
+      : undefined;
+
+    return {
+      success: true,
+      data: {
+        source,
+        destination,
+        type: stats.isDirectory() ? 'directory' : 'file',
+        versionId,
+        message: 'Copied successfully',
+      },
+    };
+  }
+
+  private async stat(filePath: string): Promise<MCPToolResult> {
     const fullPath = this.resolveWorkspacePath(filePath);
+    const stats = await fs.stat(fullPath);
+
+    const data: Record<string, unknown> = {
+      path: filePath,
+      type: stats.isDirectory() ? 'directory' : 'file',
+      size: stats.size,
+      createdAt: stats.birthtime.toISOString(),
+      modifiedAt: stats.mtime.toISOString(),
+    };
+
+    if (stats.isFile() && stats.size > this.limits.maxReadBytes) {
+      data.hash = await this.hashFile(fullPath);
+    } else if (stats.isFile()) {
+      const buffer = await fs.readFile(fullPath);
+      data.binary = isBinary(buffer);
+      data.hash = sha256(buffer);
+      if (!data.binary) {
+        data.lines = lineCount(buffer.toString('utf-8').split('\n'));
+      }
+    }
+
+    return { success: true, data };
+  }
+
+  private async deleteFile(filePath: string, caller?: MCPToolCaller): Promise<MCPToolResult> {
+    const fullPath = this.resolveWorkspacePath(filePath);
+    const locked = this.checkLock(fullPath, caller);
+    if (locked) return locked;
+
+    const before = await this.snapshot(fullPath);
     await fs.unlink(fullPath);
 
+    const versionId = await this.recordChange({
+      path: this.relativePath(fullPath),
+      operation: 'delete',
+      before,
+      after: null,
+      caller,
+    });
+
     return {
       success: true,
       data: {
         path: filePath,
+        versionId,
         message: 'File deleted successfully',
       },
     };
@@ -273,6 +1290,333 @@ export class FilesystemMCPServer implements MCPServerPlugin {
     };
   }
 
+  private async acquireLock(
+    filePath: string,
+    ttlSeconds: number | undefined,
+    caller?: MCPToolCaller
+  ): Promise<MCPToolResult> {
+    if (!this.locks) return { success: false, error: 'File locking is not enabled' };
+    if (!caller) return { success: false, error: 'Only agents can hold file locks' };
+
+    const lockPath = this.relativePath(this.resolveWorkspacePath(filePath));
+    const result = await this.locks.acquire(
+      lockPath,
+      caller,
+      typeof ttlSeconds === 'number' ? ttlSeconds * 1000 : undefined
+    );
+
+    if (!result.acquired) {
+      return {
+        success: false,
+        error: `${filePath} is locked by agent ${result.heldBy.agentId} until ${result.heldBy.expiresAt.toISOString()}`,
+        data: { locked: true, lock: result.heldBy },
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        path: filePath,
+        lock: result.lock,
+        message: `Locked until ${result.lock.expiresAt.toISOString()}`,
+      },
+    };
+  }
+
+  private async releaseLock(filePath: string, caller?: MCPToolCaller): Promise<MCPToolResult> {
+    if (!this.locks) return { success: false, error: 'File locking is not enabled' };
+
+    const lockPath = this.relativePath(this.resolveWorkspacePath(filePath));
+    const released = caller ? await this.locks.release(lockPath, caller.agentId) : false;
+
+    if (!released) {
+      return { success: false, error: `You do not hold a lock on ${filePath}` };
+    }
+
+    return {
+      success: true,
+      data: { path: filePath, message: 'Lock released' },
+    };
+  }
+
+  private listLocks(): MCPToolResult {
+    const locks = this.locks?.listLocks() || [];
+    return {
+      success: true,
+      data: { locks, count: locks.length },
+    };
+  }
+
+  /**
+   * Refuse a change to a file another agent holds the lock on
+   */
+  private checkLock(fullPath: string, caller?: MCPToolCaller): MCPToolResult | undefined {
+    const relative = this.relativePath(fullPath);
+    const lock = this.locks?.heldByOther(relative, caller?.agentId);
+    if (!lock) return undefined;
+
+    return {
+      success: false,
+      error: `${relative} is locked by agent ${lock.agentId} until ${lock.expiresAt.toISOString()}`,
+      data: { locked: true, lock },
+    };
+  }
+
+  /**
+   * Conflict result when the file no longer has the content the caller expects
+   * ("" meaning it should not exist), including what it holds now
+   */
+  private async checkHash(
+    filePath: string,
+    fullPath: string,
+    expectedHash: string
+  ): Promise<MCPToolResult | undefined> {
+    const currentHash = await this.hashFile(fullPath);
+    if ((currentHash || '') === expectedHash) return undefined;
+
+    const data: Record<string, unknown> = {
+      conflict: true,
+      path: filePath,
+      expectedHash,
+      currentHash,
+      exists: currentHash !== null,
+    };
+
+    if (currentHash !== null) {
+      const stats = await fs.stat(fullPath);
+      if (stats.size <= this.limits.maxReadBytes) {
+        const buffer = await fs.readFile(fullPath);
+        data.encoding = isBinary(buffer) ? 'base64' : 'utf-8';
+        data.content = buffer.toString(isBinary(buffer) ? 'base64' : 'utf-8');
+      } else {
+        data.message = 'File is too large to return; read it again with startLine/endLine';
+      }
+    }
+
+    return {
+      success: false,
+      error:
+        currentHash === null
+          ? `Conflict: ${filePath} no longer exists`
+          : expectedHash === ''
+            ? `Conflict: ${filePath} already exists`
+            : `Conflict: ${filePath} has changed since it was read`,
+      data,
+    };
+  }
+
+  /**
+   * SHA-256 of a file, streamed; null when it doesn't exist or isn't a file
+   */
+  private async hashFile(fullPath: string): Promise<string | null> {
+    try {
+      const stats = await fs.stat(fullPath);
+      if (!stats.isFile()) return null;
+    } catch {
+      return null;
+    }
+
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(fullPath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Run changes to the same file one at a time. Multi-path changes (move, copy) queue
+   * on every path, taken in sorted order so two opposite moves cannot wait on each other.
+   */
+  private async exclusive<T>(filePaths: string | string[], fn: () => Promise<T>): Promise<T> {
+    const paths = Array.isArray(filePaths) ? filePaths : [filePaths];
+    const keys = Array.from(new Set(paths.map((p) => this.resolveWorkspacePath(p)))).sort();
+    try {
+      return await this.runExclusive(keys, fn);
+    } finally {
+      // Every change goes through here, so the resource listing follows it
+      this.refreshResources();
+    }
+  }
+
+  private async runExclusive<T>(keys: string[], fn: () => Promise<T>): Promise<T> {
+    if (keys.length === 0) return fn();
+
+    const [key, ...rest] = keys;
+    const previous = this.pendingWrites.get(key) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => this.runExclusive(rest, fn));
+    this.pendingWrites.set(key, run);
+
+    try {
+      return await run;
+    } finally {
+      if (this.pendingWrites.get(key) === run) this.pendingWrites.delete(key);
+    }
+  }
+
+  /**
+   * Breadth-first listing down to maxDepth levels, stopping after limit entries
+   */
+  private async walk(
+    dirPath: string,
+    maxDepth: number,
+    limit: number
+  ): Promise<{ entries: ListedEntry[]; truncated: boolean }> {
+    const entries: ListedEntry[] = [];
+    const queue: Array<{ dir: string; depth: number }> = [{ dir: dirPath, depth: 1 }];
+
+    while (queue.length > 0) {
+      const { dir, depth } = queue.shift()!;
+      const children = await fs.readdir(this.resolveWorkspacePath(dir), { withFileTypes: true });
+      children.sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const child of children) {
+        if (entries.length >= limit) {
+          return { entries, truncated: true };
+        }
+
+        const childPath = path.join(dir, child.name);
+        let stats;
+        try {
+          stats = await fs.stat(this.resolveWorkspacePath(childPath));
+        } catch {
+          continue; // Broken symlink or removed while listing
+        }
+        const isDirectory = stats.isDirectory();
+
+        entries.push({
+          name: child.name,
+          path: childPath,
+          type: isDirectory ? 'directory' : 'file',
+          size: stats.size,
+          modifiedAt: stats.mtime.toISOString(),
+        });
+
+        // Don't follow symlinked directories, they may loop
+        if (isDirectory && !child.isSymbolicLink() && depth < maxDepth) {
+          queue.push({ dir: childPath, depth: depth + 1 });
+        }
+      }
+    }
+
+    return { entries, truncated: false };
+  }
+
+  /**
+   * Files (not directories) up to 10 levels deep, stopping at maxListEntries
+   */
+  private async listResourceFiles(): Promise<MCPResourceDefinition[]> {
+    const resources: MCPResourceDefinition[] = [];
+    const queue: Array<{ dir: string; depth: number }> = [{ dir: '', depth: 1 }];
+
+    while (queue.length > 0 && resources.length < this.limits.maxListEntries) {
+      const { dir, depth } = queue.shift()!;
+      let children;
+      try {
+        children = await fs.readdir(path.join(this.workspaceRoot, dir), { withFileTypes: true });
+      } catch {
+        continue; // Removed while listing
+      }
+      children.sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const child of children) {
+        if (resources.length >= this.limits.maxListEntries) break;
+
+        const childPath = dir ? `${dir}/${child.name}` : child.name;
+        let stats;
+        try {
+          stats = await fs.stat(path.join(this.workspaceRoot, childPath));
+        } catch {
+          continue; // Broken symlink
+        }
+
+        if (stats.isDirectory()) {
+          if (!child.isSymbolicLink() && depth < 10) {
+            queue.push({ dir: childPath, depth: depth + 1 });
+          }
+          continue;
+        }
+
+        resources.push({
+          uri: workspaceResourceUri(childPath),
+          name: childPath,
+          description: `Workspace file (${stats.size} bytes)`,
+          mimeType:
+            MIME_TYPES[path.extname(child.name).toLowerCase()] || 'application/octet-stream',
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  private async checkDestination(
+    destination: string,
+    destinationPath: string,
+    overwrite: boolean
+  ): Promise<MCPToolResult | undefined> {
+    if (overwrite) return undefined;
+
+    try {
+      await fs.access(destinationPath);
+    } catch {
+      return undefined;
+    }
+
+    return {
+      success: false,
+      error: `${destination} already exists; set overwrite to replace it`,
+    };
+  }
+
+  /**
+   * Current content of a file for the history, null without history or when absent
+   */
+  private async snapshot(fullPath: string): Promise<Buffer | null> {
+    if (!this.history) return null;
+
+    try {
+      const stats = await fs.stat(fullPath);
+      return stats.isFile() ? await fs.readFile(fullPath) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Record a change in the history; returns the version ID. A failure here
+   * is logged but never fails the operation that already happened.
+   */
+  private async recordChange(change: FileChange): Promise<string | undefined> {
+    if (!this.history) return undefined;
+
+    try {
+      const version = await this.history.record(change);
+      return version.id;
+    } catch (error: any) {
+      this.context?.logger.error('Failed to record file history', {
+        path: change.path,
+        error: error.message,
+      });
+      return undefined;
+    }
+  }
+
+  private relativePath(fullPath: string): string {
+    return path.relative(this.workspaceRoot, fullPath).split(path.sep).join('/');
+  }
+
+  private requireParams(params: any, ...names: string[]): MCPToolResult | undefined {
+    const missing = names.find(
+      (name) => params[name] === undefined || params[name] === null || params[name] === ''
+    );
+    if (!missing) return undefined;
+
+    return {
+      success: false,
+      error: `Missing required parameter: ${missing}`,
+    };
+  }
+
   /**
    * Resolve workspace-relative path to absolute path
    * Prevents directory traversal attacks
@@ -280,8 +1624,8 @@ export class FilesystemMCPServer implements MCPServerPlugin {
   private resolveWorkspacePath(relativePath: string): string {
     const fullPath = path.resolve(this.workspaceRoot, relativePath);
 
-    // Security check: ensure path is within workspace
-    if (!fullPath.startsWith(this.workspaceRoot)) {
+    // Security check: ensure path is within workspace (and not a sibling sharing its prefix)
+    if (fullPath !== this.workspaceRoot && !fullPath.startsWith(this.workspaceRoot + path.sep)) {
       throw new Error('Path outside workspace is not allowed');
     }
 
@@ -0,0 +1,343 @@
+/**
+ * Mosaic MCP Server - Lets external MCP clients drive Mosaic
+ *
+ * IDE assistants and other MCP clients can create and query tasks, start
+ * and stop agents, read agent memories and session timelines through
+ * tools, and read tasks, sessions and workspace files as resources. A new
+ * McpServer is built per connection over the shared services, so the
+ * stateless HTTP endpoint and the stdio bridge see the same live state.
+ */
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { LangGraphAgent } from '../agents/langgraph-agent';
+import { TaskManager } from '../services/task/task-manager.service';
+import { SessionManager } from '../services/session/session-manager.service';
+import { MemoryManager } from '../services/memory/memory-manager.service';
+import type { FilesystemMCPServer } from './filesystem-server';
+import { logger } from '../core/logger';
+
+const mosaicLogger = logger.child({ service: 'mosaic-mcp' });
+
+const TASK_STATUSES = ['open', 'in_progress', 'completed', 'failed', 'blocked'] as const;
+const TASK_PRIORITIES = ['critical', 'high', 'medium', 'low'] as const;
+const MEMORY_TYPES = [
+  'plan',
+  'thought',
+  'learning',
+  'context',
+  'checkpoint',
+  'observation',
+] as const;
+
+// Recorded as the creator of tasks made through MCP
+export const MCP_CLIENT_ID = 'mcp-client';
+
+// Most tasks listed as resources
+const MAX_LISTED_TASKS = 200;
+
+export interface MosaicMCPServerOptions {
+  taskManager: TaskManager;
+  sessionManager: SessionManager;
+  memoryManager: MemoryManager;
+  agents: Map<string, LangGraphAgent>; // Agents loaded by the API server, keyed by ID
+  workspace?: FilesystemMCPServer; // Files are exposed as resources when given
+}
+
+const json = (data: unknown): CallToolResult => ({
+  content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+});
+
+const failure = (message: string): CallToolResult => ({
+  isError: true,
+  content: [{ type: 'text', text: message }],
+});
+
+export class MosaicMCPServer {
+  private options: MosaicMCPServerOptions;
+
+  constructor(options: MosaicMCPServerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Build a server for one connection; connect it to a transport to serve it
+   */
+  createServer(): McpServer {
+    const server = new McpServer(
+      { name: 'mosaic', version: '2.0.0' },
+      {
+        instructions:
+          'Project Mosaic orchestrates AI agents working on hierarchical tasks. Create tasks, assign and start agents, then follow progress through task trees, session timelines and agent memories.',
+      }
+    );
+
+    this.registerAgentTools(server);
+    this.registerTaskTools(server);
+    this.registerHistoryTools(server);
+    this.registerResources(server);
+
+    return server;
+  }
+
+  private registerAgentTools(server: McpServer): void {
+    const { agents } = this.options;
+
+    server.registerTool(
+      'list_agents',
+      { description: 'List agents with their status, current task and session' },
+      async () =>
+        json(
+          Array.from(agents.values()).map((agent) => ({
+            id: agent.id,
+            name: agent.name,
+            status: agent.status,
+            rootTask: agent.metadata.rootTask,
+            currentTaskId: agent.metadata.currentTaskId,
+            sessionId: agent.getConfiguration().sessionId,
+          }))
+        )
+    );
+
+    server.registerTool(
+      'start_agent',
+      {
+        description: 'Start an agent; it works through its tasks in the background',
+        inputSchema: { agentId: z.string().describe('ID of the agent to start') },
+      },
+      async ({ agentId }) => {
+        const agent = agents.get(agentId);
+        if (!agent) return failure(`Agent ${agentId} not found`);
+
+        // Runs until the agent finishes or is stopped, like POST /api/agents/:id/start
+        agent.start().catch((error) => {
+          mosaicLogger.error('Agent failed', { agentId: agent.id, error: error.message });
+        });
+
+        return json({ id: agent.id, status: agent.status, message: 'Agent started' });
+      }
+    );
+
+    server.registerTool(
+      'stop_agent',
+      {
+        description: 'Stop a running agent',
+        inputSchema: { agentId: z.string().describe('ID of the agent to stop') },
+      },
+      async ({ agentId }) => {
+        const agent = agents.get(agentId);
+        if (!agent) return failure(`Agent ${agentId} not found`);
+
+        await agent.stop();
+        return json({ id: agent.id, status: agent.status, message: 'Agent stopped' });
+      }
+    );
+  }
+
+  private registerTaskTools(server: McpServer): void {
+    const { taskManager } = this.options;
+
+    server.registerTool(
+      'create_task',
+      {
+        description: 'Create a task, optionally as a sub-task or assigned to an agent',
+        inputSchema: {
+          title: z.string().min(1),
+          description: z.string(),
+          priority: z.enum(TASK_PRIORITIES).optional(),
+          parentTaskId: z.string().optional(),
+          assignedTo: z.string().optional().describe('Agent ID'),
+          tags: z.array(z.string()).optional(),
+        },
+      },
+      async (args) => {
+        if (args.parentTaskId && !taskManager.getTask(args.parentTaskId)) {
+          return failure(`Parent task ${args.parentTaskId} not found`);
+        }
+
+        const task = await taskManager.createTask({ ...args, createdBy: MCP_CLIENT_ID });
+        return json(task);
+      }
+    );
+
+    server.registerTool(
+      'query_tasks',
+      {
+        description: 'Find tasks by status, assignee, parent or tags',
+        inputSchema: {
+          status: z.array(z.enum(TASK_STATUSES)).optional(),
+          assignedTo: z.string().optional(),
+          parentTaskId: z.string().optional(),
+          tags: z.array(z.string()).optional(),
+          unassigned: z.boolean().optional(),
+          limit: z.number().int().positive().optional().describe('Default 50'),
+        },
+      },
+      async ({ limit, ...query }) => {
+        const tasks = taskManager.queryTasks(query);
+        return json(tasks.slice(0, limit || 50));
+      }
+    );
+
+    server.registerTool(
+      'get_task_tree',
+      {
+        description: 'Get a task with all of its sub-tasks',
+        inputSchema: { taskId: z.string() },
+      },
+      async ({ taskId }) => {
+        const tree = taskManager.getTaskTree(taskId);
+        return tree ? json(tree) : failure(`Task ${taskId} not found`);
+      }
+    );
+  }
+
+  private registerHistoryTools(server: McpServer): void {
+    const { memoryManager, sessionManager } = this.options;
+
+    server.registerTool(
+      'query_memories',
+      {
+        description: "Search agents' plans, thoughts, learnings and observations",
+        inputSchema: {
+          agentId: z.string().optional(),
+          type: z.enum(MEMORY_TYPES).optional(),
+          search: z.string().optional().describe('Text to find in titles and content'),
+          relatedTaskId: z.string().optional(),
+          limit: z.number().int().positive().optional().describe('Default 20'),
+        },
+      },
+      async (query) =>
+        json(await memoryManager.queryMemories({ ...query, limit: query.limit || 20 }))
+    );
+
+    server.registerTool(
+      'get_session_timeline',
+      {
+        description: 'Actions, tool calls and LLM requests of a session, newest first',
+        inputSchema: {
+          sessionId: z.string(),
+          limit: z.number().int().positive().optional().describe('Default 100'),
+        },
+      },
+      async ({ sessionId, limit }) => {
+        if (!sessionManager.getSession(sessionId)) {
+          return failure(`Session ${sessionId} not found`);
+        }
+        return json(sessionManager.getTimeline(sessionId, limit || 100));
+      }
+    );
+  }
+
+  private registerResources(server: McpServer): void {
+    const { taskManager, sessionManager, agents, workspace } = this.options;
+
+    server.registerResource(
+      'task',
+      new ResourceTemplate('mosaic://tasks/{taskId}', {
+        list: async () => ({
+          resources: taskManager
+            .queryTasks({})
+            .slice(0, MAX_LISTED_TASKS)
+            .map((task) => ({
+              uri: `mosaic://tasks/${task.id}`,
+              name: task.title,
+              description: `${task.status} · ${task.priority}`,
+              mimeType: 'application/json',
+            })),
+        }),
+      }),
+      { description: 'A task with its sub-task tree', mimeType: 'application/json' },
+      async (uri, { taskId }) => {
+        const tree = taskManager.getTaskTree(String(taskId));
+        if (!tree) throw new Error(`Task ${taskId} not found`);
+
+        return {
+          contents: [
+            { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(tree, null, 2) },
+          ],
+        };
+      }
+    );
+
+    server.registerResource(
+      'session',
+      new ResourceTemplate('mosaic://sessions/{sessionId}', {
+        // Sessions of the loaded agents
+        list: async () => ({
+          resources: Array.from(agents.values()).flatMap((agent) => {
+            const session = sessionManager.getSession(agent.getConfiguration().sessionId);
+            return session
+              ? [
+                  {
+                    uri: `mosaic://sessions/${session.id}`,
+                    name: session.name,
+                    description: `${session.status} · agent ${agent.name}`,
+                    mimeType: 'application/json',
+                  },
+                ]
+              : [];
+          }),
+        }),
+      }),
+      { description: 'A session with its latest timeline entries', mimeType: 'application/json' },
+      async (uri, { sessionId }) => {
+        const session = sessionManager.getSession(String(sessionId));
+        if (!session) throw new Error(`Session ${sessionId} not found`);
+
+        const data = { session, timeline: sessionManager.getTimeline(session.id, 50) };
+        return {
+          contents: [
+            { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) },
+          ],
+        };
+      }
+    );
+
+    if (!workspace) return;
+
+    server.registerResource(
+      'workspace-file',
+      new ResourceTemplate('mosaic://workspace/{+path}', {
+        list: async () => {
+          const result = await workspace.invokeTool('list_files', { recursive: true });
+          const files = result.success
+            ? (result.data.files as Array<{ path: string; name: string; type: string }>)
+            : [];
+
+          return {
+            resources: files
+              .filter((file) => file.type === 'file')
+              .map((file) => ({
+                uri: `mosaic://workspace/${file.path.split('/').map(encodeURIComponent).join('/')}`,
+                name: file.path,
+              })),
+          };
+        },
+      }),
+      { description: 'A file in the shared agent workspace' },
+      async (uri, { path }) => {
+        const filePath = decodeURIComponent(String(path));
+        const result = await workspace.invokeTool('read_file', { path: filePath });
+
+        // Binary files can't be returned as text; fall back to base64
+        if (!result.success && /binary/.test(result.error || '')) {
+          const binary = await workspace.invokeTool('read_file', {
+            path: filePath,
+            encoding: 'base64',
+          });
+          if (binary.success) {
+            return {
+              contents: [
+                { uri: uri.href, mimeType: 'application/octet-stream', blob: binary.data.content },
+              ],
+            };
+          }
+        }
+        if (!result.success) throw new Error(result.error);
+
+        return { contents: [{ uri: uri.href, mimeType: 'text/plain', text: result.data.content }] };
+      }
+    );
+  }
+}
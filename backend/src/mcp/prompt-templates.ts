@@ -0,0 +1,82 @@
+/**
+ * Prompt Templates - MCP prompts used to write task descriptions
+ *
+ * Any prompt of a connected MCP server (e.g. "review a pull request",
+ * "summarize a document") can be picked when creating a task; it is
+ * rendered with the given arguments and its messages become the task
+ * description.
+ */
+import { MCPPromptDefinition, MCPServerPlugin, TaskPromptTemplate } from '@mosaic/shared';
+
+export interface PromptTemplate extends MCPPromptDefinition {
+  server: string;
+}
+
+/**
+ * Prompts of all servers that can render them
+ */
+export function listPromptTemplates(servers: MCPServerPlugin[]): PromptTemplate[] {
+  return servers
+    .filter((server) => server.getPrompt)
+    .flatMap((server) =>
+      (server.getPrompts?.() ?? []).map((prompt) => ({ server: server.name, ...prompt }))
+    );
+}
+
+/**
+ * Problem with a template reference, or undefined when it can be rendered
+ */
+export function validatePromptTemplate(
+  servers: MCPServerPlugin[],
+  template: TaskPromptTemplate
+): string | undefined {
+  if (typeof template?.server !== 'string' || typeof template.prompt !== 'string') {
+    return 'template must name a server and a prompt';
+  }
+  if (
+    template.arguments !== undefined &&
+    (typeof template.arguments !== 'object' ||
+      template.arguments === null ||
+      !Object.values(template.arguments).every((value) => typeof value === 'string'))
+  ) {
+    return 'template arguments must map names to string values';
+  }
+
+  const prompt = listPromptTemplates(servers).find(
+    (candidate) => candidate.server === template.server && candidate.name === template.prompt
+  );
+  if (!prompt) {
+    return `Prompt ${template.prompt} not found on server ${template.server}`;
+  }
+
+  const missing = (prompt.arguments ?? []).filter(
+    (argument) => argument.required && !template.arguments?.[argument.name]
+  );
+  if (missing.length > 0) {
+    return `Missing prompt arguments: ${missing.map((argument) => argument.name).join(', ')}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Render a validated template; the title is the prompt's description or name
+ */
+export async function renderPromptTemplate(
+  servers: MCPServerPlugin[],
+  template: TaskPromptTemplate
+): Promise<{ title: string; description: string }> {
+  const server = servers.find((candidate) => candidate.name === template.server);
+  if (!server?.getPrompt) {
+    throw new Error(`Server ${template.server} has no prompts`);
+  }
+
+  const result = await server.getPrompt(template.prompt, template.arguments);
+  const description = result.messages
+    .map((message) =>
+      message.role === 'assistant' ? `(assistant) ${message.content}` : message.content
+    )
+    .join('\n\n');
+
+  return { title: result.description || template.prompt, description };
+}
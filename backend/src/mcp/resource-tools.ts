@@ -0,0 +1,191 @@
+/**
+ * Resource Tools - list_resources and read_resource for agents
+ *
+ * MCP resources (workspace files, documents served by external servers) are
+ * not tools, so agents reach them through these two meta-tools, which work
+ * across all of the agent's servers. Agents pass their ToolPolicy as
+ * `read` and `visible` so resources get the same permission checks and
+ * approvals as the tools of the server they belong to.
+ */
+import { MCPServerPlugin, MCPToolDefinition, MCPToolResult } from '@mosaic/shared';
+
+// Most resources returned by one list_resources call
+const MAX_LISTED_RESOURCES = 200;
+
+// Longest text returned by read_resource
+const MAX_RESOURCE_CHARS = 100_000;
+
+export const RESOURCE_TOOLS: MCPToolDefinition[] = [
+  {
+    name: 'list_resources',
+    description:
+      'List readable resources (workspace files, documents from connected servers) with their URIs',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        server: {
+          type: 'string',
+          description: 'Only list resources of this server',
+        },
+      },
+    },
+  },
+  {
+    name: 'read_resource',
+    description: 'Read a resource by the URI list_resources returned',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uri: {
+          type: 'string',
+          description: 'URI of the resource',
+        },
+        server: {
+          type: 'string',
+          description: 'Server the resource belongs to (found from the URI when omitted)',
+        },
+      },
+      required: ['uri'],
+    },
+  },
+];
+
+export interface ResourceToolOptions {
+  /** Performs the read, e.g. through a permission policy */
+  read?: (server: MCPServerPlugin, uri: string) => Promise<MCPToolResult>;
+  /** Whether a resource is listed for the agent */
+  visible?: (server: MCPServerPlugin, uri: string) => boolean;
+}
+
+export function isResourceTool(name: string): boolean {
+  return RESOURCE_TOOLS.some((tool) => tool.name === name);
+}
+
+/**
+ * Whether any of the servers serves resources
+ */
+export function hasResources(servers: MCPServerPlugin[]): boolean {
+  return servers.some((server) => server.getResources && server.readResource);
+}
+
+/**
+ * Server that serves a URI: the named one, the one listing it, or one
+ * listing resources with the same scheme (e.g. a file beyond the listing cap)
+ */
+export function findResourceServer(
+  servers: MCPServerPlugin[],
+  uri: string,
+  serverName?: string
+): MCPServerPlugin | undefined {
+  const readable = servers.filter((server) => server.readResource);
+  if (serverName) {
+    return readable.find((server) => server.name === serverName);
+  }
+
+  const listing = (server: MCPServerPlugin) => server.getResources?.() ?? [];
+  const scheme = uri.split(':')[0];
+
+  return (
+    readable.find((server) => listing(server).some((resource) => resource.uri === uri)) ||
+    readable.find((server) =>
+      listing(server).some((resource) => resource.uri.split(':')[0] === scheme)
+    )
+  );
+}
+
+export function listResources(
+  servers: MCPServerPlugin[],
+  serverName?: string,
+  visible?: ResourceToolOptions['visible']
+): MCPToolResult {
+  if (serverName && !servers.some((server) => server.name === serverName)) {
+    return { success: false, error: `Unknown server: ${serverName}` };
+  }
+
+  const resources = servers
+    .filter((server) => !serverName || server.name === serverName)
+    .flatMap((server) =>
+      (server.getResources?.() ?? [])
+        .filter((resource) => !visible || visible(server, resource.uri))
+        .map((resource) => ({ server: server.name, ...resource }))
+    );
+
+  return {
+    success: true,
+    data: {
+      resources: resources.slice(0, MAX_LISTED_RESOURCES),
+      count: Math.min(resources.length, MAX_LISTED_RESOURCES),
+      truncated: resources.length > MAX_LISTED_RESOURCES,
+    },
+  };
+}
+
+/**
+ * Read a resource as a tool result; binary content is returned as base64
+ */
+export async function readResource(server: MCPServerPlugin, uri: string): Promise<MCPToolResult> {
+  if (!server.readResource) {
+    return { success: false, error: `Server ${server.name} has no resources` };
+  }
+
+  try {
+    const resource = await server.readResource(uri);
+    const binary = Buffer.isBuffer(resource.content);
+    const content = binary
+      ? (resource.content as Buffer).toString('base64')
+      : (resource.content as string);
+    const truncated = !binary && content.length > MAX_RESOURCE_CHARS;
+
+    return {
+      success: true,
+      data: {
+        uri: resource.uri,
+        mimeType: resource.mimeType,
+        encoding: binary ? 'base64' : 'utf-8',
+        content: truncated ? content.slice(0, MAX_RESOURCE_CHARS) : content,
+        truncated,
+      },
+      metadata: { server: server.name },
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Run list_resources or read_resource over an agent's servers
+ */
+export async function invokeResourceTool(
+  servers: MCPServerPlugin[],
+  name: string,
+  params: any,
+  options: ResourceToolOptions = {}
+): Promise<MCPToolResult> {
+  params = params || {};
+
+  switch (name) {
+    case 'list_resources':
+      return listResources(servers, params.server, options.visible);
+
+    case 'read_resource': {
+      if (typeof params.uri !== 'string' || !params.uri) {
+        return { success: false, error: 'Missing required parameter: uri' };
+      }
+
+      const server = findResourceServer(servers, params.uri, params.server);
+      if (!server) {
+        return {
+          success: false,
+          error: params.server
+            ? `Server ${params.server} has no resources`
+            : `No server serves ${params.uri}; call list_resources for valid URIs`,
+        };
+      }
+
+      return (options.read || readResource)(server, params.uri);
+    }
+
+    default:
+      return { success: false, error: `Unknown tool: ${name}` };
+  }
+}
@@ -117,8 +117,6 @@ export class DatabaseService {
         screenshot_url TEXT,
         timestamp INTEGER NOT NULL,
         duration INTEGER,
-        cost_prompt_tokens INTEGER,
-        cost_completion_tokens INTEGER,
         FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
         FOREIGN KEY (agent_id) REFERENCES agents(id) ON DELETE CASCADE
       )
@@ -160,12 +158,109 @@ export class DatabaseService {
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL,
         expires_at INTEGER,
+        archived_at INTEGER,
+        consolidated_into TEXT,
+        scope TEXT NOT NULL DEFAULT 'private',
+        team_id TEXT,
         FOREIGN KEY (agent_id) REFERENCES agents(id) ON DELETE CASCADE,
         FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
         FOREIGN KEY (related_task_id) REFERENCES tasks(id) ON DELETE SET NULL
       )
     `);
 
+    // Databases created before memory consolidation lack the archive columns
+    this.addColumnIfMissing('memory_entries', 'archived_at', 'INTEGER');
+    this.addColumnIfMissing('memory_entries', 'consolidated_into', 'TEXT');
+
+    // ...and those created before shared memory lack the scope columns
+    this.addColumnIfMissing('memory_entries', 'scope', "TEXT NOT NULL DEFAULT 'private'");
+    this.addColumnIfMissing('memory_entries', 'team_id', 'TEXT');
+
+    // Create memory_embeddings table (one vector per memory entry, for semantic search)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memory_embeddings (
+        memory_id TEXT PRIMARY KEY,
+        model TEXT NOT NULL,
+        text_hash TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (memory_id) REFERENCES memory_entries(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create event_log table (durable, sequenced copy of published events)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS event_log (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        channel TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        source TEXT NOT NULL,
+        data TEXT,
+        metadata TEXT,
+        timestamp TEXT NOT NULL
+      )
+    `);
+
+    // Create approval_requests table (human-in-the-loop tool approvals)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS approval_requests (
+        id TEXT PRIMARY KEY,
+        agent_id TEXT NOT NULL,
+        session_id TEXT,
+        task_id TEXT,
+        tool TEXT NOT NULL,
+        params TEXT,
+        status TEXT NOT NULL,
+        default_action TEXT NOT NULL,
+        decision TEXT,
+        resolved_params TEXT,
+        resolved_by TEXT,
+        reason TEXT,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        resolved_at INTEGER
+      )
+    `);
+
+    // Create file_versions table (workspace history; contents live in the blob store)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS file_versions (
+        id TEXT PRIMARY KEY,
+        path TEXT NOT NULL,
+        previous_path TEXT,
+        operation TEXT NOT NULL,
+        before_hash TEXT,
+        after_hash TEXT,
+        size INTEGER,
+        agent_id TEXT NOT NULL,
+        session_id TEXT,
+        task_id TEXT,
+        action_id TEXT,
+        metadata TEXT,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create llm_usage table (token usage and estimated cost of each LLM call)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS llm_usage (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        agent_id TEXT NOT NULL,
+        task_id TEXT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        duration INTEGER,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+        FOREIGN KEY (agent_id) REFERENCES agents(id) ON DELETE CASCADE
+      )
+    `);
+
     // Create indices for better query performance
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_tasks_agent_id ON tasks(agent_id);
@@ -182,12 +277,36 @@ export class DatabaseService {
       CREATE INDEX IF NOT EXISTS idx_memory_type ON memory_entries(type);
       CREATE INDEX IF NOT EXISTS idx_memory_importance ON memory_entries(importance);
       CREATE INDEX IF NOT EXISTS idx_memory_task ON memory_entries(related_task_id);
+      CREATE INDEX IF NOT EXISTS idx_memory_scope ON memory_entries(scope, team_id);
+
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_session ON llm_usage(session_id);
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_agent ON llm_usage(agent_id);
+
+      CREATE INDEX IF NOT EXISTS idx_event_log_channel ON event_log(channel);
+
+      CREATE INDEX IF NOT EXISTS idx_approvals_status ON approval_requests(status);
+      CREATE INDEX IF NOT EXISTS idx_approvals_agent ON approval_requests(agent_id);
+
+      CREATE INDEX IF NOT EXISTS idx_file_versions_path ON file_versions(path, created_at);
+      CREATE INDEX IF NOT EXISTS idx_file_versions_previous_path ON file_versions(previous_path);
+      CREATE INDEX IF NOT EXISTS idx_file_versions_action ON file_versions(action_id);
     `);
 
     this.initialized = true;
     logger.info('Database schema initialized successfully');
   }
 
+  /**
+   * Add a column to an existing table (CREATE TABLE IF NOT EXISTS won't)
+   */
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      logger.info(`Added column ${table}.${column}`);
+    }
+  }
+
   getDb(): Database.Database {
     if (!this.initialized) {
       throw new Error('Database not initialized. Call initialize() first.');
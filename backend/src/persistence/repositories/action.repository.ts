@@ -21,8 +21,6 @@ interface ActionRow {
   screenshot_url: string | null;
   timestamp: number;
   duration: number | null;
-  cost_prompt_tokens: number | null;
-  cost_completion_tokens: number | null;
 }
 
 export interface CreateActionRequest {
@@ -36,7 +34,6 @@ export interface CreateActionRequest {
   screenshotId?: string;
   screenshotUrl?: string;
   duration?: number;
-  cost?: ActionRecord['cost'];
 }
 
 export class ActionRepository extends BaseRepository {
@@ -54,9 +51,8 @@ export class ActionRepository extends BaseRepository {
     const stmt = this.db.prepare(`
       INSERT INTO action_records (
         id, session_id, agent_id, task_id, type, status, action, details,
-        screenshot_id, screenshot_url, timestamp, duration,
-        cost_prompt_tokens, cost_completion_tokens
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        screenshot_id, screenshot_url, timestamp, duration
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -71,9 +67,7 @@ export class ActionRepository extends BaseRepository {
       request.screenshotId || null,
       request.screenshotUrl || null,
       this.toTimestamp(now),
-      request.duration || null,
-      request.cost?.promptTokens || null,
-      request.cost?.completionTokens || null
+      request.duration || null
     );
 
     return this.findById(id)!;
@@ -156,7 +150,12 @@ export class ActionRepository extends BaseRepository {
   /**
    * Update action status and details
    */
-  updateStatus(id: string, status: ActionStatus, duration?: number, details?: any): ActionRecord | null {
+  updateStatus(
+    id: string,
+    status: ActionStatus,
+    duration?: number,
+    details?: any
+  ): ActionRecord | null {
     const action = this.findById(id);
     if (!action) return null;
 
@@ -227,14 +226,11 @@ export class ActionRepository extends BaseRepository {
     totalActions: number;
     byType: Record<ActionType, number>;
     byStatus: Record<ActionStatus, number>;
-    totalCost: { promptTokens: number; completionTokens: number };
   } {
     const stmt = this.db.prepare(`
       SELECT 
         type,
         status,
-        SUM(cost_prompt_tokens) as prompt_tokens,
-        SUM(cost_completion_tokens) as completion_tokens,
         COUNT(*) as count
       FROM action_records 
       WHERE session_id = ? 
@@ -244,8 +240,6 @@ export class ActionRepository extends BaseRepository {
     const rows = stmt.all(sessionId) as Array<{
       type: ActionType;
       status: ActionStatus;
-      prompt_tokens: number | null;
-      completion_tokens: number | null;
       count: number;
     }>;
 
@@ -253,15 +247,12 @@ export class ActionRepository extends BaseRepository {
       totalActions: 0,
       byType: {} as Record<ActionType, number>,
       byStatus: {} as Record<ActionStatus, number>,
-      totalCost: { promptTokens: 0, completionTokens: 0 },
     };
 
     rows.forEach(row => {
       stats.totalActions += row.count;
       stats.byType[row.type] = (stats.byType[row.type] || 0) + row.count;
       stats.byStatus[row.status] = (stats.byStatus[row.status] || 0) + row.count;
-      stats.totalCost.promptTokens += row.prompt_tokens || 0;
-      stats.totalCost.completionTokens += row.completion_tokens || 0;
     });
 
     return stats;
@@ -286,10 +277,6 @@ export class ActionRepository extends BaseRepository {
       screenshotUrl: row.screenshot_url || undefined,
       timestamp: this.fromTimestamp(row.timestamp)!,
       duration: row.duration || undefined,
-      cost: (row.cost_prompt_tokens || row.cost_completion_tokens) ? {
-        promptTokens: row.cost_prompt_tokens || undefined,
-        completionTokens: row.cost_completion_tokens || undefined,
-      } : undefined,
     };
   }
 }
@@ -0,0 +1,170 @@
+/**
+ * Approval Repository
+ * Database operations for human-in-the-loop approval requests
+ */
+
+import Database from 'better-sqlite3';
+import { BaseRepository } from './base.repository';
+import { ApprovalDecision, ApprovalRequest, ApprovalStatus } from '@mosaic/shared';
+
+interface ApprovalRow {
+  id: string;
+  agent_id: string;
+  session_id: string | null;
+  task_id: string | null;
+  tool: string;
+  params: string | null;
+  status: string;
+  default_action: string;
+  decision: string | null;
+  resolved_params: string | null;
+  resolved_by: string | null;
+  reason: string | null;
+  created_at: number;
+  expires_at: number;
+  resolved_at: number | null;
+}
+
+export interface ApprovalQuery {
+  status?: ApprovalStatus;
+  agentId?: string;
+  limit?: number;
+}
+
+export class ApprovalRepository extends BaseRepository {
+  constructor(db: Database.Database) {
+    super(db);
+  }
+
+  /**
+   * Store a new approval request
+   */
+  create(request: ApprovalRequest): ApprovalRequest {
+    const stmt = this.db.prepare(`
+      INSERT INTO approval_requests (
+        id, agent_id, session_id, task_id, tool, params, status, default_action,
+        created_at, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      request.id,
+      request.agentId,
+      request.sessionId || null,
+      request.taskId || null,
+      request.tool,
+      this.serializeJson(request.params ?? null),
+      request.status,
+      request.defaultAction,
+      this.toTimestamp(request.createdAt),
+      this.toTimestamp(request.expiresAt)
+    );
+
+    return this.findById(request.id)!;
+  }
+
+  /**
+   * Find approval request by ID
+   */
+  findById(id: string): ApprovalRequest | null {
+    const stmt = this.db.prepare('SELECT * FROM approval_requests WHERE id = ?');
+    const row = stmt.get(id) as ApprovalRow | undefined;
+
+    if (!row) return null;
+    return this.mapRowToApproval(row);
+  }
+
+  /**
+   * List approval requests, newest first
+   */
+  find(query: ApprovalQuery = {}): ApprovalRequest[] {
+    let sql = 'SELECT * FROM approval_requests WHERE 1=1';
+    const params: (string | number)[] = [];
+
+    if (query.status) {
+      sql += ' AND status = ?';
+      params.push(query.status);
+    }
+
+    if (query.agentId) {
+      sql += ' AND agent_id = ?';
+      params.push(query.agentId);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+
+    if (query.limit) {
+      sql += ' LIMIT ?';
+      params.push(query.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as ApprovalRow[];
+    return rows.map(row => this.mapRowToApproval(row));
+  }
+
+  /**
+   * Resolve a pending request; returns null if it was already resolved
+   */
+  resolve(
+    id: string,
+    resolution: {
+      status: Exclude<ApprovalStatus, 'pending'>;
+      decision?: ApprovalDecision;
+      resolvedParams?: any;
+      resolvedBy?: string;
+      reason?: string;
+    }
+  ): ApprovalRequest | null {
+    const stmt = this.db.prepare(`
+      UPDATE approval_requests
+      SET status = ?, decision = ?, resolved_params = ?, resolved_by = ?, reason = ?, resolved_at = ?
+      WHERE id = ? AND status = 'pending'
+    `);
+
+    const result = stmt.run(
+      resolution.status,
+      resolution.decision || null,
+      resolution.resolvedParams !== undefined ? this.serializeJson(resolution.resolvedParams) : null,
+      resolution.resolvedBy || null,
+      resolution.reason || null,
+      Date.now(),
+      id
+    );
+
+    return result.changes > 0 ? this.findById(id) : null;
+  }
+
+  /**
+   * Expire requests left pending by a previous process
+   */
+  expirePending(reason: string): number {
+    const stmt = this.db.prepare(`
+      UPDATE approval_requests SET status = 'expired', reason = ?, resolved_at = ?
+      WHERE status = 'pending'
+    `);
+    return stmt.run(reason, Date.now()).changes;
+  }
+
+  /**
+   * Map database row to ApprovalRequest
+   */
+  private mapRowToApproval(row: ApprovalRow): ApprovalRequest {
+    return {
+      id: row.id,
+      agentId: row.agent_id,
+      sessionId: row.session_id || undefined,
+      taskId: row.task_id || undefined,
+      tool: row.tool,
+      params: this.deserializeJson(row.params),
+      status: row.status as ApprovalStatus,
+      defaultAction: row.default_action as ApprovalRequest['defaultAction'],
+      decision: (row.decision as ApprovalDecision) || undefined,
+      resolvedParams: row.resolved_params ? this.deserializeJson(row.resolved_params) : undefined,
+      resolvedBy: row.resolved_by || undefined,
+      reason: row.reason || undefined,
+      createdAt: this.fromTimestamp(row.created_at)!,
+      expiresAt: this.fromTimestamp(row.expires_at)!,
+      resolvedAt: this.fromTimestamp(row.resolved_at) || undefined,
+    };
+  }
+}
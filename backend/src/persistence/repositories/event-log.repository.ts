@@ -0,0 +1,96 @@
+/**
+ * Event Log Repository
+ * Persistence for the sequenced event log
+ */
+
+import Database from 'better-sqlite3';
+import { BaseRepository } from './base.repository';
+import { SystemEvent } from '@mosaic/shared';
+
+interface EventLogRow {
+  seq: number;
+  channel: string;
+  event_id: string;
+  type: string;
+  source: string;
+  data: string | null;
+  metadata: string | null;
+  timestamp: string;
+}
+
+export interface LoggedEvent {
+  channel: string;
+  event: SystemEvent;
+}
+
+export class EventLogRepository extends BaseRepository {
+  constructor(db: Database.Database) {
+    super(db);
+  }
+
+  /**
+   * Append an event and return its sequence number
+   */
+  append(channel: string, event: SystemEvent): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO event_log (channel, event_id, type, source, data, metadata, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const info = stmt.run(
+      channel,
+      event.id,
+      event.type,
+      event.source,
+      event.data !== undefined ? this.serializeJson(event.data) : null,
+      event.metadata ? this.serializeJson(event.metadata) : null,
+      event.timestamp
+    );
+
+    return Number(info.lastInsertRowid);
+  }
+
+  /**
+   * Events with a sequence number greater than `afterSeq`, oldest first
+   */
+  findAfter(afterSeq: number, limit: number): LoggedEvent[] {
+    const stmt = this.db.prepare(
+      'SELECT * FROM event_log WHERE seq > ? ORDER BY seq ASC LIMIT ?'
+    );
+    const rows = stmt.all(afterSeq, limit) as EventLogRow[];
+    return rows.map((row) => this.rowToLoggedEvent(row));
+  }
+
+  /**
+   * Highest sequence number assigned so far (0 if empty)
+   */
+  getLatestSeq(): number {
+    const row = this.db.prepare('SELECT MAX(seq) as seq FROM event_log').get() as {
+      seq: number | null;
+    };
+    return row.seq ?? 0;
+  }
+
+  /**
+   * Delete events at or below the given sequence number
+   */
+  deleteUpTo(seq: number): number {
+    const info = this.db.prepare('DELETE FROM event_log WHERE seq <= ?').run(seq);
+    return info.changes;
+  }
+
+  private rowToLoggedEvent(row: EventLogRow): LoggedEvent {
+    return {
+      channel: row.channel,
+      event: {
+        id: row.event_id,
+        type: row.type,
+        source: row.source,
+        data: this.deserializeJson(row.data),
+        metadata: this.deserializeJson<Record<string, any>>(row.metadata) ?? undefined,
+        timestamp: row.timestamp,
+        seq: row.seq,
+      },
+    };
+  }
+}
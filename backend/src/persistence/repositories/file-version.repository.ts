@@ -0,0 +1,126 @@
+/**
+ * File Version Repository
+ * Database operations for workspace file history
+ */
+
+import Database from 'better-sqlite3';
+import { BaseRepository } from './base.repository';
+import { FileOperation, FileVersion } from '@mosaic/shared';
+
+interface FileVersionRow {
+  id: string;
+  path: string;
+  previous_path: string | null;
+  operation: string;
+  before_hash: string | null;
+  after_hash: string | null;
+  size: number | null;
+  agent_id: string;
+  session_id: string | null;
+  task_id: string | null;
+  action_id: string | null;
+  metadata: string | null;
+  created_at: number;
+}
+
+export interface FileVersionQuery {
+  path?: string; // Also matches moves and copies out of the path
+  agentId?: string;
+  limit?: number;
+}
+
+export class FileVersionRepository extends BaseRepository {
+  constructor(db: Database.Database) {
+    super(db);
+  }
+
+  /**
+   * Store a new version
+   */
+  create(version: FileVersion): FileVersion {
+    const stmt = this.db.prepare(`
+      INSERT INTO file_versions (
+        id, path, previous_path, operation, before_hash, after_hash, size,
+        agent_id, session_id, task_id, action_id, metadata, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      version.id,
+      version.path,
+      version.previousPath || null,
+      version.operation,
+      version.beforeHash || null,
+      version.afterHash || null,
+      version.size ?? null,
+      version.agentId,
+      version.sessionId || null,
+      version.taskId || null,
+      version.actionId || null,
+      version.metadata ? this.serializeJson(version.metadata) : null,
+      this.toTimestamp(version.createdAt)
+    );
+
+    return version;
+  }
+
+  /**
+   * Find version by ID
+   */
+  findById(id: string): FileVersion | null {
+    const stmt = this.db.prepare('SELECT * FROM file_versions WHERE id = ?');
+    const row = stmt.get(id) as FileVersionRow | undefined;
+
+    if (!row) return null;
+    return this.mapRowToVersion(row);
+  }
+
+  /**
+   * List versions, newest first
+   */
+  find(query: FileVersionQuery = {}): FileVersion[] {
+    let sql = 'SELECT * FROM file_versions WHERE 1=1';
+    const params: (string | number)[] = [];
+
+    if (query.path) {
+      sql += ' AND (path = ? OR previous_path = ?)';
+      params.push(query.path, query.path);
+    }
+
+    if (query.agentId) {
+      sql += ' AND agent_id = ?';
+      params.push(query.agentId);
+    }
+
+    sql += ' ORDER BY created_at DESC, rowid DESC';
+
+    if (query.limit) {
+      sql += ' LIMIT ?';
+      params.push(query.limit);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as FileVersionRow[];
+    return rows.map((row) => this.mapRowToVersion(row));
+  }
+
+  /**
+   * Map database row to FileVersion
+   */
+  private mapRowToVersion(row: FileVersionRow): FileVersion {
+    return {
+      id: row.id,
+      path: row.path,
+      previousPath: row.previous_path || undefined,
+      operation: row.operation as FileOperation,
+      beforeHash: row.before_hash || undefined,
+      afterHash: row.after_hash || undefined,
+      size: row.size ?? undefined,
+      agentId: row.agent_id,
+      sessionId: row.session_id || undefined,
+      taskId: row.task_id || undefined,
+      actionId: row.action_id || undefined,
+      metadata: this.deserializeJson<Record<string, unknown>>(row.metadata) || undefined,
+      createdAt: this.fromTimestamp(row.created_at)!,
+    };
+  }
+}
@@ -7,4 +7,8 @@ export * from './agent.repository';
 export * from './task.repository';
 export * from './session.repository';
 export * from './action.repository';
+export * from './llm-usage.repository';
 export * from './memory.repository';
+export * from './event-log.repository';
+export * from './approval.repository';
+export * from './file-version.repository';
@@ -0,0 +1,156 @@
+/**
+ * LLM Usage Repository
+ * Database operations for per-call token usage and estimated cost
+ */
+
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseRepository } from './base.repository';
+
+export interface CreateLLMUsageRequest {
+  sessionId: string;
+  agentId: string;
+  taskId?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+  duration?: number;
+}
+
+/**
+ * LLM usage summed per agent, task, and model
+ */
+export interface CostBreakdownRow {
+  agentId: string;
+  taskId?: string;
+  provider?: string;
+  model?: string;
+  llmRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+}
+
+/**
+ * LLM usage summed over a session or an agent
+ */
+export interface UsageTotals {
+  llmRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+}
+
+interface TotalsRow {
+  llm_requests: number;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  cost_usd: number | null;
+}
+
+export class LLMUsageRepository extends BaseRepository {
+  constructor(db: Database.Database) {
+    super(db);
+  }
+
+  /**
+   * Store the usage of one call
+   */
+  create(request: CreateLLMUsageRequest): string {
+    const id = uuidv4();
+
+    const stmt = this.db.prepare(`
+      INSERT INTO llm_usage (
+        id, session_id, agent_id, task_id, provider, model,
+        prompt_tokens, completion_tokens, cost_usd, duration, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      id,
+      request.sessionId,
+      request.agentId,
+      request.taskId || null,
+      request.provider,
+      request.model,
+      request.promptTokens,
+      request.completionTokens,
+      request.estimatedCost,
+      request.duration ?? null,
+      this.toTimestamp(new Date())
+    );
+
+    return id;
+  }
+
+  /**
+   * Sum LLM usage for a session by agent, task, and model
+   */
+  getCostBreakdown(sessionId: string): CostBreakdownRow[] {
+    const stmt = this.db.prepare(`
+      SELECT
+        agent_id,
+        task_id,
+        provider,
+        model,
+        COUNT(*) as llm_requests,
+        SUM(prompt_tokens) as prompt_tokens,
+        SUM(completion_tokens) as completion_tokens,
+        SUM(cost_usd) as cost_usd
+      FROM llm_usage
+      WHERE session_id = ?
+      GROUP BY agent_id, task_id, provider, model
+    `);
+
+    const rows = stmt.all(sessionId) as Array<
+      TotalsRow & { agent_id: string; task_id: string | null; provider: string; model: string }
+    >;
+
+    return rows.map((row) => ({
+      agentId: row.agent_id,
+      taskId: row.task_id || undefined,
+      provider: row.provider || undefined,
+      model: row.model || undefined,
+      ...this.mapTotals(row),
+    }));
+  }
+
+  /**
+   * Total usage for a session
+   */
+  getSessionTotals(sessionId: string): UsageTotals {
+    return this.getTotals('session_id', sessionId);
+  }
+
+  /**
+   * Total usage for an agent across all sessions
+   */
+  getAgentTotals(agentId: string): UsageTotals {
+    return this.getTotals('agent_id', agentId);
+  }
+
+  private getTotals(column: 'session_id' | 'agent_id', value: string): UsageTotals {
+    const stmt = this.db.prepare(`
+      SELECT
+        COUNT(*) as llm_requests,
+        SUM(prompt_tokens) as prompt_tokens,
+        SUM(completion_tokens) as completion_tokens,
+        SUM(cost_usd) as cost_usd
+      FROM llm_usage
+      WHERE ${column} = ?
+    `);
+
+    return this.mapTotals(stmt.get(value) as TotalsRow);
+  }
+
+  private mapTotals(row: TotalsRow): UsageTotals {
+    return {
+      llmRequests: row.llm_requests,
+      promptTokens: row.prompt_tokens || 0,
+      completionTokens: row.completion_tokens || 0,
+      estimatedCost: row.cost_usd || 0,
+    };
+  }
+}
@@ -5,7 +5,15 @@
 
 import Database from 'better-sqlite3';
 import { BaseRepository } from './base.repository';
-import { MemoryEntry, MemoryQuery, MemoryType, MemoryImportance, CreateMemoryRequest } from '@mosaic/shared';
+import {
+  MemoryEntry,
+  MemoryQuery,
+  MemoryType,
+  MemoryImportance,
+  MemoryReader,
+  MemoryScope,
+  CreateMemoryRequest,
+} from '@mosaic/shared';
 import { v4 as uuidv4 } from 'uuid';
 
 interface MemoryRow {
@@ -22,6 +30,24 @@ interface MemoryRow {
   created_at: number;
   updated_at: number;
   expires_at: number | null;
+  archived_at: number | null;
+  consolidated_into: string | null;
+  scope: string;
+  team_id: string | null;
+}
+
+interface EmbeddingRow {
+  memory_id: string;
+  text_hash: string;
+  vector: Buffer;
+}
+
+/**
+ * Stored vector of a memory entry
+ */
+export interface MemoryEmbedding {
+  textHash: string; // Hash of the text it was computed from
+  vector: Float32Array;
 }
 
 export class MemoryRepository extends BaseRepository {
@@ -30,17 +56,23 @@ export class MemoryRepository extends BaseRepository {
   }
 
   /**
-   * Create a new memory entry
+   * Create a new memory entry; team entries need the team they're shared with
    */
-  create(agentId: string, sessionId: string, request: CreateMemoryRequest): MemoryEntry {
+  create(
+    agentId: string,
+    sessionId: string,
+    request: CreateMemoryRequest,
+    teamId?: string
+  ): MemoryEntry {
     const id = uuidv4();
     const now = new Date();
 
     const stmt = this.db.prepare(`
       INSERT INTO memory_entries (
         id, agent_id, session_id, type, importance, title, content,
-        metadata, tags, related_task_id, created_at, updated_at, expires_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        metadata, tags, related_task_id, created_at, updated_at, expires_at,
+        scope, team_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -56,7 +88,9 @@ export class MemoryRepository extends BaseRepository {
       request.relatedTaskId || null,
       this.toTimestamp(now),
       this.toTimestamp(now),
-      request.expiresAt ? this.toTimestamp(request.expiresAt) : null
+      request.expiresAt ? this.toTimestamp(request.expiresAt) : null,
+      request.scope || 'private',
+      teamId || null
     );
 
     return this.findById(id)!;
@@ -66,8 +100,9 @@ export class MemoryRepository extends BaseRepository {
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO memory_entries (
         id, agent_id, session_id, type, importance, title, content,
-        metadata, tags, related_task_id, created_at, updated_at, expires_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        metadata, tags, related_task_id, created_at, updated_at, expires_at,
+        archived_at, consolidated_into, scope, team_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -83,7 +118,11 @@ export class MemoryRepository extends BaseRepository {
       memory.relatedTaskId || null,
       this.toTimestamp(memory.createdAt),
       this.toTimestamp(memory.updatedAt),
-      memory.expiresAt ? this.toTimestamp(memory.expiresAt) : null
+      memory.expiresAt ? this.toTimestamp(memory.expiresAt) : null,
+      memory.archivedAt ? this.toTimestamp(memory.archivedAt) : null,
+      memory.consolidatedInto || null,
+      memory.scope || 'private',
+      memory.teamId || null
     );
   }
 
@@ -118,7 +157,8 @@ export class MemoryRepository extends BaseRepository {
    * Get memory count for agent
    */
   getCount(agentId: string, type?: MemoryType): number {
-    let sql = 'SELECT COUNT(*) as count FROM memory_entries WHERE agent_id = ?';
+    let sql =
+      'SELECT COUNT(*) as count FROM memory_entries WHERE agent_id = ? AND archived_at IS NULL';
     const params: string[] = [agentId];
 
     if (type) {
@@ -138,7 +178,7 @@ export class MemoryRepository extends BaseRepository {
     const stmt = this.db.prepare(`
       SELECT type, COUNT(*) as count 
       FROM memory_entries 
-      WHERE agent_id = ? 
+      WHERE agent_id = ? AND archived_at IS NULL
       GROUP BY type
     `);
 
@@ -189,6 +229,15 @@ export class MemoryRepository extends BaseRepository {
       params.push(query.relatedTaskId);
     }
 
+    if (query.scope) {
+      sql += ' AND scope = ?';
+      params.push(query.scope);
+    }
+
+    if (query.visibleTo) {
+      sql += ` AND ${this.visibility(query.visibleTo, params)}`;
+    }
+
     if (query.tags && query.tags.length > 0) {
       // Simple tag search - contains any of the tags
       const tagConditions = query.tags.map(() => 'tags LIKE ?').join(' OR ');
@@ -206,6 +255,11 @@ export class MemoryRepository extends BaseRepository {
     sql += ' AND (expires_at IS NULL OR expires_at > ?)';
     params.push(Date.now());
 
+    // Consolidated entries are reached through their summary
+    if (!query.includeArchived) {
+      sql += ' AND archived_at IS NULL';
+    }
+
     sql += ' ORDER BY importance DESC, updated_at DESC';
 
     if (query.limit) {
@@ -279,12 +333,126 @@ export class MemoryRepository extends BaseRepository {
     return result.changes > 0;
   }
 
+  /**
+   * Entries not updated since `before` that may decay or be consolidated:
+   * current, not critical, and not checkpoints; oldest first
+   */
+  findStale(before: Date, agentId?: string): MemoryEntry[] {
+    let sql = `
+      SELECT * FROM memory_entries
+      WHERE updated_at < ? AND archived_at IS NULL
+        AND importance != 'critical' AND type != 'checkpoint'
+        AND (expires_at IS NULL OR expires_at > ?)
+    `;
+    const params: (string | number)[] = [this.toTimestamp(before), Date.now()];
+
+    if (agentId) {
+      sql += ' AND agent_id = ?';
+      params.push(agentId);
+    }
+
+    const rows = this.db.prepare(`${sql} ORDER BY created_at`).all(...params) as MemoryRow[];
+    return rows.map((row) => this.rowToMemory(row));
+  }
+
+  /**
+   * Change an entry's importance without counting it as an update, so it
+   * keeps its age
+   */
+  setImportance(id: string, importance: MemoryImportance, metadata: Record<string, any>): void {
+    this.db
+      .prepare('UPDATE memory_entries SET importance = ?, metadata = ? WHERE id = ?')
+      .run(importance, this.serializeJson(metadata), id);
+  }
+
+  /**
+   * Archive entries summarized by another entry
+   */
+  archive(ids: string[], consolidatedInto: string): number {
+    if (ids.length === 0) return 0;
+
+    const result = this.db
+      .prepare(
+        `UPDATE memory_entries SET archived_at = ?, consolidated_into = ?
+         WHERE id IN (${ids.map(() => '?').join(', ')})`
+      )
+      .run(Date.now(), consolidatedInto, ...ids);
+    return result.changes;
+  }
+
   deleteExpired(): number {
     const stmt = this.db.prepare('DELETE FROM memory_entries WHERE expires_at IS NOT NULL AND expires_at <= ?');
     const result = stmt.run(Date.now());
     return result.changes;
   }
 
+  /**
+   * Store the vector of a memory entry (replacing any earlier one)
+   */
+  saveEmbedding(memoryId: string, model: string, textHash: string, vector: number[]): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO memory_embeddings (memory_id, model, text_hash, vector, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      memoryId,
+      model,
+      textHash,
+      Buffer.from(new Float32Array(vector).buffer),
+      this.toTimestamp(new Date())
+    );
+  }
+
+  /**
+   * Vectors of the given memory entries computed by a model
+   */
+  findEmbeddings(memoryIds: string[], model: string): Map<string, MemoryEmbedding> {
+    const embeddings = new Map<string, MemoryEmbedding>();
+
+    // Stay under SQLite's bound parameter limit
+    for (let i = 0; i < memoryIds.length; i += 500) {
+      const ids = memoryIds.slice(i, i + 500);
+      const stmt = this.db.prepare(`
+        SELECT memory_id, text_hash, vector FROM memory_embeddings
+        WHERE model = ? AND memory_id IN (${ids.map(() => '?').join(', ')})
+      `);
+
+      for (const row of stmt.all(model, ...ids) as EmbeddingRow[]) {
+        embeddings.set(row.memory_id, {
+          textHash: row.text_hash,
+          // Copied, as the blob's buffer may not be 4-byte aligned
+          vector: new Float32Array(Uint8Array.from(row.vector).buffer),
+        });
+      }
+    }
+
+    return embeddings;
+  }
+
+  /**
+   * Condition matching the entries a reader may see: its own, and those
+   * shared in the scopes it reads
+   */
+  private visibility(reader: MemoryReader, params: (string | number)[]): string {
+    const conditions = ['agent_id = ?'];
+    params.push(reader.agentId);
+
+    if (reader.scopes.includes('global')) {
+      conditions.push("scope = 'global'");
+    }
+    if (reader.scopes.includes('team') && reader.teamId) {
+      conditions.push("(scope = 'team' AND team_id = ?)");
+      params.push(reader.teamId);
+    }
+    if (reader.scopes.includes('session') && reader.sessionId) {
+      conditions.push("(scope = 'session' AND session_id = ?)");
+      params.push(reader.sessionId);
+    }
+
+    return `(${conditions.join(' OR ')})`;
+  }
+
   private rowToMemory(row: MemoryRow): MemoryEntry {
     return {
       id: row.id,
@@ -300,6 +468,10 @@ export class MemoryRepository extends BaseRepository {
       createdAt: this.fromTimestamp(row.created_at)!,
       updatedAt: this.fromTimestamp(row.updated_at)!,
       expiresAt: this.fromTimestamp(row.expires_at) || undefined,
+      archivedAt: this.fromTimestamp(row.archived_at) || undefined,
+      consolidatedInto: row.consolidated_into || undefined,
+      scope: (row.scope as MemoryScope) || 'private',
+      teamId: row.team_id || undefined,
     };
   }
 }
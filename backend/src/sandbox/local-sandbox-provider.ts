@@ -0,0 +1,570 @@
+/**
+ * Local Sandbox Provider - Code execution without a hosted sandbox service
+ *
+ * Runs agent code inside a throwaway Docker container (network disabled,
+ * CPU/memory capped). Process isolation runs code as a resource-limited child
+ * process that can read the host filesystem and reach the network, so it is
+ * only used when asked for explicitly; Docker mode never falls back to it.
+ * Each sandbox gets its own working directory on the host, which is
+ * bind-mounted into the container in Docker mode so file operations behave the
+ * same in both modes.
+ */
+import {
+  SandboxProviderPlugin,
+  PluginContext,
+  Sandbox,
+  SandboxConfig,
+  SandboxInfo,
+  SandboxStatus,
+  ExecutionOptions,
+  ExecutionResult,
+  FileInfo,
+} from '@mosaic/shared';
+import Docker from 'dockerode';
+import { spawn, ChildProcess } from 'child_process';
+import { PassThrough } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export type SandboxIsolation = 'docker' | 'process';
+
+export type SandboxLanguage = 'python' | 'node' | 'bash';
+
+interface RuntimeSpec {
+  command: string;
+  extension: string;
+  image: string;
+  // Interpreter flag that caps the heap (in MB) in process mode. V8 reserves far more
+  // virtual memory than it uses, so runtimes with this flag are not limited via `ulimit -v`
+  heapLimitFlag?: string;
+}
+
+const RUNTIMES: Record<SandboxLanguage, RuntimeSpec> = {
+  python: { command: 'python3', extension: '.py', image: 'python:3.11-slim' },
+  node: {
+    command: 'node',
+    extension: '.js',
+    image: 'node:20-slim',
+    heapLimitFlag: '--max-old-space-size',
+  },
+  bash: { command: 'bash', extension: '.sh', image: 'bash:5' },
+};
+
+// Matches the "sandbox" section of config/default.json
+const DEFAULT_TIMEOUT = 60000; // milliseconds
+const DEFAULT_MEMORY = 512; // megabytes
+const DEFAULT_CPU = 1;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+const TIMEOUT_EXIT_CODE = 124;
+
+export interface LocalSandboxProviderOptions {
+  isolation?: SandboxIsolation;
+  rootDir?: string;
+  maxMemory?: number; // megabytes
+  maxCpu?: number;
+  maxTimeout?: number; // milliseconds
+}
+
+interface ResolvedLimits {
+  timeout: number;
+  memory: number;
+  cpu: number;
+}
+
+export class LocalSandbox implements Sandbox {
+  id: string;
+  status: SandboxStatus = 'initializing';
+  config: SandboxConfig;
+  readonly createdAt = new Date();
+
+  private workDir: string;
+  private isolation: SandboxIsolation;
+  private limits: ResolvedLimits;
+  private language: SandboxLanguage;
+  private docker?: Docker;
+  private container?: Docker.Container;
+  private processes: Set<ChildProcess> = new Set();
+  private context?: PluginContext;
+
+  constructor(
+    id: string,
+    config: SandboxConfig,
+    workDir: string,
+    isolation: SandboxIsolation,
+    limits: ResolvedLimits,
+    docker?: Docker,
+    context?: PluginContext
+  ) {
+    this.id = id;
+    this.config = config;
+    this.workDir = workDir;
+    this.isolation = isolation;
+    this.limits = limits;
+    this.docker = docker;
+    this.context = context;
+
+    const language = config.metadata?.language as SandboxLanguage | undefined;
+    this.language = language && RUNTIMES[language] ? language : 'python';
+  }
+
+  /**
+   * Prepare the working directory and, in Docker mode, start the container
+   */
+  async start(): Promise<void> {
+    await fs.mkdir(this.workDir, { recursive: true });
+
+    try {
+      if (this.isolation === 'docker') {
+        await this.startContainer();
+      }
+      this.status = 'ready';
+    } catch (error) {
+      this.status = 'error';
+      throw error;
+    }
+  }
+
+  async execute(code: string, options: ExecutionOptions = {}): Promise<ExecutionResult> {
+    if (this.status === 'stopped' || this.status === 'error') {
+      throw new Error(`Sandbox ${this.id} is not available (status: ${this.status})`);
+    }
+
+    const runtime = RUNTIMES[this.language];
+    const scriptName = `.mosaic-exec-${uuidv4()}${runtime.extension}`;
+    const scriptPath = path.join(this.workDir, scriptName);
+    const timeout = Math.min(options.timeout ?? this.limits.timeout, this.limits.timeout);
+    const env = { ...this.config.env, ...options.env };
+
+    await fs.writeFile(scriptPath, code, 'utf-8');
+    this.status = 'running';
+
+    try {
+      if (this.isolation === 'docker') {
+        return await this.executeInContainer(runtime, scriptName, timeout, env, options.workingDir);
+      }
+      return await this.executeAsProcess(runtime, scriptPath, timeout, env, options.workingDir);
+    } finally {
+      this.status = 'ready';
+      await fs.rm(scriptPath, { force: true });
+    }
+  }
+
+  async uploadFile(filePath: string, content: Buffer): Promise<void> {
+    const fullPath = this.resolveSandboxPath(filePath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  }
+
+  async downloadFile(filePath: string): Promise<Buffer> {
+    return fs.readFile(this.resolveSandboxPath(filePath));
+  }
+
+  async listFiles(dirPath: string = ''): Promise<FileInfo[]> {
+    const fullPath = this.resolveSandboxPath(dirPath);
+    const entries = await fs.readdir(fullPath, { withFileTypes: true });
+
+    return Promise.all(
+      entries
+        .filter((entry) => !entry.name.startsWith('.mosaic-exec-'))
+        .map(async (entry) => {
+          const stats = await fs.stat(path.join(fullPath, entry.name));
+
+          return {
+            path: path.join(dirPath, entry.name),
+            name: entry.name,
+            size: stats.size,
+            type: entry.isDirectory() ? ('directory' as const) : ('file' as const),
+            modifiedAt: stats.mtime.toISOString(),
+          };
+        })
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.killProcesses();
+
+    if (this.container) {
+      try {
+        await this.container.remove({ force: true });
+      } catch (error: any) {
+        this.context?.logger.warn('Failed to remove sandbox container', {
+          sandboxId: this.id,
+          error: error.message,
+        });
+      }
+      this.container = undefined;
+    }
+
+    this.status = 'stopped';
+  }
+
+  async restart(): Promise<void> {
+    this.killProcesses();
+
+    if (this.isolation === 'docker') {
+      if (this.container) {
+        await this.container.restart({ t: 0 });
+      } else {
+        await this.startContainer();
+      }
+    }
+
+    this.status = 'ready';
+  }
+
+  private async startContainer(): Promise<void> {
+    if (!this.docker) {
+      throw new Error('Docker client not available');
+    }
+
+    const runtime = RUNTIMES[this.language];
+
+    this.container = await this.docker.createContainer({
+      Image: this.config.image || runtime.image,
+      Cmd: ['sleep', 'infinity'],
+      WorkingDir: '/workspace',
+      Env: this.toEnvList(this.config.env),
+      Labels: { 'mosaic.sandbox': this.id },
+      NetworkDisabled: true,
+      HostConfig: {
+        Binds: [`${this.workDir}:/workspace`],
+        Memory: this.limits.memory * 1024 * 1024,
+        MemorySwap: this.limits.memory * 1024 * 1024,
+        NanoCpus: Math.round(this.limits.cpu * 1e9),
+        PidsLimit: 256,
+        AutoRemove: false,
+      },
+    });
+
+    await this.container.start();
+  }
+
+  private async executeInContainer(
+    runtime: RuntimeSpec,
+    scriptName: string,
+    timeout: number,
+    env: Record<string, string>,
+    workingDir?: string
+  ): Promise<ExecutionResult> {
+    if (!this.container || !this.docker) {
+      throw new Error(`Sandbox ${this.id} has no running container`);
+    }
+
+    const exec = await this.container.exec({
+      Cmd: [runtime.command, `/workspace/${scriptName}`],
+      Env: this.toEnvList(env),
+      WorkingDir: workingDir ? path.posix.join('/workspace', workingDir) : '/workspace',
+      AttachStdout: true,
+      AttachStderr: true,
+    });
+
+    const stream = await exec.start({ hijack: true, stdin: false });
+    const stdout = new OutputCollector();
+    const stderr = new OutputCollector();
+    this.docker.modem.demuxStream(stream, stdout.stream, stderr.stream);
+
+    let timer: NodeJS.Timeout | undefined;
+    const finished = new Promise<'done'>((resolve) => {
+      stream.on('end', () => resolve('done'));
+      stream.on('close', () => resolve('done'));
+    });
+    const timedOut = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), timeout);
+    });
+
+    const outcome = await Promise.race([finished, timedOut]);
+    clearTimeout(timer);
+
+    if (outcome === 'timeout') {
+      // Exec instances cannot be killed individually, so restart the container
+      stream.destroy();
+      await this.container.restart({ t: 0 });
+
+      return {
+        stdout: stdout.text(),
+        stderr: stderr.text(),
+        exitCode: TIMEOUT_EXIT_CODE,
+        error: `Execution timed out after ${timeout}ms`,
+      };
+    }
+
+    const inspection = await exec.inspect();
+    const exitCode = inspection.ExitCode ?? 0;
+
+    return {
+      stdout: stdout.text(),
+      stderr: stderr.text(),
+      exitCode,
+      error: exitCode === 137 ? 'Process killed (memory limit exceeded?)' : undefined,
+    };
+  }
+
+  private executeAsProcess(
+    runtime: RuntimeSpec,
+    scriptPath: string,
+    timeout: number,
+    env: Record<string, string>,
+    workingDir?: string
+  ): Promise<ExecutionResult> {
+    const cwd = workingDir ? this.resolveSandboxPath(workingDir) : this.workDir;
+    const cpuSeconds = Math.max(1, Math.ceil((timeout / 1000) * this.limits.cpu));
+    const memoryKb = this.limits.memory * 1024;
+
+    // ulimit applies to the shell and is inherited by the exec'd interpreter
+    const limits = [`ulimit -t ${cpuSeconds}`];
+    const args = [scriptPath];
+    if (runtime.heapLimitFlag) {
+      args.unshift(`${runtime.heapLimitFlag}=${this.limits.memory}`);
+    } else {
+      limits.unshift(`ulimit -v ${memoryKb}`);
+    }
+    const wrapper = `${limits.join(' && ')} && exec "$0" "$@"`;
+
+    return new Promise((resolve) => {
+      const child = spawn('/bin/sh', ['-c', wrapper, runtime.command, ...args], {
+        cwd,
+        env: {
+          PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+          HOME: this.workDir,
+          ...env,
+        },
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+      this.processes.add(child);
+
+      const stdout = new OutputCollector();
+      const stderr = new OutputCollector();
+      child.stdout?.pipe(stdout.stream);
+      child.stderr?.pipe(stderr.stream);
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        this.killProcess(child);
+      }, timeout);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        this.processes.delete(child);
+        resolve({
+          stdout: stdout.text(),
+          stderr: stderr.text(),
+          exitCode: 1,
+          error: error.message,
+        });
+      });
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        this.processes.delete(child);
+
+        let error: string | undefined;
+        if (timedOut) {
+          error = `Execution timed out after ${timeout}ms`;
+        } else if (signal === 'SIGXCPU') {
+          error = 'CPU time limit exceeded';
+        } else if (runtime.heapLimitFlag && (signal === 'SIGABRT' || code === 134)) {
+          error = 'Process killed (memory limit exceeded?)';
+        } else if (signal) {
+          error = `Process terminated by ${signal}`;
+        }
+
+        resolve({
+          stdout: stdout.text(),
+          stderr: stderr.text(),
+          exitCode: timedOut ? TIMEOUT_EXIT_CODE : code ?? 1,
+          error,
+        });
+      });
+    });
+  }
+
+  private killProcesses(): void {
+    this.processes.forEach((child) => this.killProcess(child));
+    this.processes.clear();
+  }
+
+  private killProcess(child: ChildProcess): void {
+    if (child.pid === undefined || child.exitCode !== null) return;
+
+    try {
+      // Negative PID targets the whole process group created by `detached`
+      process.kill(-child.pid, 'SIGKILL');
+    } catch {
+      child.kill('SIGKILL');
+    }
+  }
+
+  private toEnvList(env?: Record<string, string>): string[] {
+    return Object.entries(env || {}).map(([key, value]) => `${key}=${value}`);
+  }
+
+  /**
+   * Resolve sandbox-relative path to absolute path
+   * Prevents directory traversal out of the sandbox
+   */
+  private resolveSandboxPath(relativePath: string): string {
+    const fullPath = path.resolve(this.workDir, relativePath);
+
+    if (fullPath !== this.workDir && !fullPath.startsWith(this.workDir + path.sep)) {
+      throw new Error('Path outside sandbox is not allowed');
+    }
+
+    return fullPath;
+  }
+}
+
+export class LocalSandboxProvider implements SandboxProviderPlugin {
+  name = 'local-sandbox';
+  version = '1.0.0';
+  type = 'sandbox' as const;
+
+  metadata = {
+    author: 'Project Mosaic',
+    description: 'Runs agent code locally in Docker containers or resource-limited processes',
+    license: 'MIT',
+  };
+
+  private sandboxes: Map<string, LocalSandbox> = new Map();
+  private context?: PluginContext;
+  private docker?: Docker;
+  private isolation: SandboxIsolation;
+  private rootDir: string;
+  private maxMemory: number;
+  private maxCpu: number;
+  private maxTimeout: number;
+
+  constructor(options: LocalSandboxProviderOptions = {}) {
+    this.isolation = options.isolation || 'docker';
+    this.rootDir = options.rootDir || path.join(os.tmpdir(), 'mosaic-sandboxes');
+    this.maxMemory = options.maxMemory || 2048;
+    this.maxCpu = options.maxCpu || 2;
+    this.maxTimeout = options.maxTimeout || 300000;
+  }
+
+  async initialize(context: PluginContext): Promise<void> {
+    this.context = context;
+    await fs.mkdir(this.rootDir, { recursive: true });
+
+    if (this.isolation === 'docker') {
+      this.docker = new Docker();
+      try {
+        await this.docker.ping();
+      } catch (error: any) {
+        this.docker = undefined;
+        throw new Error(`Docker is not reachable: ${error.message}`);
+      }
+    }
+
+    context.logger.info('Local sandbox provider initialized', {
+      isolation: this.isolation,
+      rootDir: this.rootDir,
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    this.context?.logger.info('Local sandbox provider shutting down');
+
+    for (const id of Array.from(this.sandboxes.keys())) {
+      await this.destroySandbox(id);
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (this.isolation === 'docker') {
+      if (!this.docker) return false;
+      try {
+        await this.docker.ping();
+      } catch {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  async createSandbox(config: SandboxConfig): Promise<Sandbox> {
+    const id = uuidv4();
+    const limits: ResolvedLimits = {
+      timeout: Math.min(config.timeout ?? DEFAULT_TIMEOUT, this.maxTimeout),
+      memory: Math.min(config.memory ?? DEFAULT_MEMORY, this.maxMemory),
+      cpu: Math.min(config.cpu ?? DEFAULT_CPU, this.maxCpu),
+    };
+
+    const sandbox = new LocalSandbox(
+      id,
+      config,
+      path.join(this.rootDir, id),
+      this.isolation,
+      limits,
+      this.docker,
+      this.context
+    );
+
+    await sandbox.start();
+    this.sandboxes.set(id, sandbox);
+
+    this.context?.logger.info('Sandbox created', {
+      sandboxId: id,
+      isolation: this.isolation,
+      ...limits,
+    });
+
+    return sandbox;
+  }
+
+  async listSandboxes(): Promise<SandboxInfo[]> {
+    return Array.from(this.sandboxes.values()).map((sandbox) => ({
+      id: sandbox.id,
+      status: sandbox.status,
+      uptime: Date.now() - sandbox.createdAt.getTime(),
+      agentId: sandbox.config.metadata?.agentId,
+    }));
+  }
+
+  async getSandbox(id: string): Promise<Sandbox | undefined> {
+    return this.sandboxes.get(id);
+  }
+
+  async destroySandbox(id: string): Promise<void> {
+    const sandbox = this.sandboxes.get(id);
+    if (!sandbox) return;
+
+    await sandbox.stop();
+    this.sandboxes.delete(id);
+    await fs.rm(path.join(this.rootDir, id), { recursive: true, force: true });
+
+    this.context?.logger.info('Sandbox destroyed', { sandboxId: id });
+  }
+}
+
+/**
+ * Collects a stream into memory, truncating after MAX_OUTPUT_BYTES
+ */
+class OutputCollector {
+  readonly stream = new PassThrough();
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private truncated = false;
+
+  constructor() {
+    this.stream.on('data', (chunk: Buffer) => {
+      if (this.size >= MAX_OUTPUT_BYTES) {
+        this.truncated = true;
+        return;
+      }
+      const remaining = MAX_OUTPUT_BYTES - this.size;
+      const slice = chunk.length > remaining ? chunk.subarray(0, remaining) : chunk;
+      this.truncated = this.truncated || slice.length < chunk.length;
+      this.chunks.push(slice);
+      this.size += slice.length;
+    });
+  }
+
+  text(): string {
+    const output = Buffer.concat(this.chunks).toString('utf-8');
+    return this.truncated ? `${output}\n[output truncated]` : output;
+  }
+}
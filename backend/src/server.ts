@@ -11,17 +11,30 @@
  */
 
 import dotenv from 'dotenv';
+import { LLMProviderPlugin, MCPServerPlugin } from '@mosaic/shared';
 import { logger } from './core/logger';
-import { EventBus } from './core/event-bus';
+import { createEventBus } from './core/event-bus';
+import { EventTransportType } from './core/event-transport';
+import { EventLog } from './core/event-log';
 import { PluginRegistry } from './core/plugin-registry';
 import { OpenAIProvider } from './llm/openai-provider';
 import { AnthropicProvider } from './llm/anthropic-provider';
+import { OpenAICompatibleProvider } from './llm/openai-compatible-provider';
 import { FilesystemMCPServer } from './mcp/filesystem-server';
 import { BrowserMCPServer } from './mcp/browser-server';
+import { ExternalMCPServer } from './mcp/external-server';
+import { loadExternalServerConfigs } from './mcp/external-server-config';
+import { LocalSandboxProvider } from './sandbox/local-sandbox-provider';
+import { TaskDispatcher } from './services/task/task-dispatcher';
+import { AgentMessageBus } from './core/agent-message-bus';
 import { TaskManager } from './services/task/task-manager.service';
 import { SessionManager } from './services/session/session-manager.service';
 import { MemoryManager } from './services/memory/memory-manager.service';
-import { MemoryRepository } from './persistence/repositories';
+import { MemoryConsolidator, createLLMSummarizer } from './services/memory/memory-consolidator';
+import { ApprovalManager } from './services/approval/approval-manager.service';
+import { WorkspaceHistory } from './services/workspace/workspace-history.service';
+import { FileLockManager } from './services/workspace/file-lock-manager';
+import { MemoryRepository, EventLogRepository } from './persistence/repositories';
 import { APIServer } from './api/server';
 import { getDatabase } from './persistence/database';
 
@@ -40,7 +53,12 @@ async function main() {
 
     // Initialize core services
     logger.info('Initializing event bus...');
-    const eventBus = new EventBus(process.env.REDIS_URL || 'redis://localhost:6379');
+    const eventLog = new EventLog(new EventLogRepository(database.getDb()));
+    const eventBus = createEventBus({
+      transport: (process.env.EVENT_BUS_TRANSPORT as EventTransportType) || 'redis',
+      redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+      eventLog,
+    });
     await eventBus.connect();
 
     logger.info('Initializing plugin registry...');
@@ -48,8 +66,13 @@ async function main() {
 
     // Initialize LLM providers
     logger.info('Registering LLM providers...');
-    const openAIProvider = new OpenAIProvider();
-    await pluginRegistry.register(openAIProvider);
+    // Register OpenAI provider if API key is available (air-gapped installs run without it)
+    if (process.env.OPENAI_API_KEY) {
+      const openAIProvider = new OpenAIProvider();
+      await pluginRegistry.register(openAIProvider);
+    } else {
+      logger.warn('OPENAI_API_KEY not found, OpenAI provider disabled');
+    }
 
     // Register Anthropic provider if API key is available
     if (process.env.ANTHROPIC_API_KEY) {
@@ -59,8 +82,11 @@ async function main() {
       logger.warn('ANTHROPIC_API_KEY not found, Anthropic provider disabled');
     }
 
-    // Use OpenAI as default for backward compatibility
-    const defaultProvider = openAIProvider;
+    // Register local OpenAI-compatible provider (Ollama, vLLM, llama.cpp) if configured
+    if (process.env.LOCAL_LLM_BASE_URL || process.env.OLLAMA_HOST) {
+      const localProvider = new OpenAICompatibleProvider();
+      await pluginRegistry.register(localProvider);
+    }
 
     // Initialize MCP servers
     logger.info('Registering MCP servers...');
@@ -70,9 +96,43 @@ async function main() {
     const filesystemServer = new FilesystemMCPServer(workspacePath);
     await pluginRegistry.register(filesystemServer);
 
-    const browserServer = new BrowserMCPServer();
+    const browserServer = new BrowserMCPServer(workspacePath);
     await pluginRegistry.register(browserServer);
 
+    // External MCP servers from mcp-servers.json; one that fails to start doesn't stop the server
+    const mcpServers: MCPServerPlugin[] = [filesystemServer, browserServer];
+    for (const config of loadExternalServerConfigs()) {
+      const externalServer = new ExternalMCPServer(config);
+      try {
+        await pluginRegistry.register(externalServer);
+        mcpServers.push(externalServer);
+      } catch (error: any) {
+        logger.error('Failed to connect external MCP server', {
+          name: config.name,
+          error: error.message,
+        });
+        await externalServer.shutdown().catch(() => undefined);
+      }
+    }
+
+    // Initialize local sandbox: Docker only, unless process isolation is allowed explicitly
+    logger.info('Registering sandbox provider...');
+    const allowProcessSandbox = process.env.SANDBOX_ALLOW_PROCESS === 'true';
+    if (process.env.SANDBOX_PROVIDER === 'process' && !allowProcessSandbox) {
+      logger.warn('SANDBOX_PROVIDER=process needs SANDBOX_ALLOW_PROCESS=true, using Docker');
+    }
+    const sandboxProvider = new LocalSandboxProvider({
+      isolation:
+        process.env.SANDBOX_PROVIDER === 'process' && allowProcessSandbox ? 'process' : 'docker',
+    });
+    try {
+      await pluginRegistry.register(sandboxProvider);
+    } catch (error: any) {
+      logger.warn('Local sandbox unavailable, agents run without code execution', {
+        error: error.message,
+      });
+    }
+
     // Initialize managers
     logger.info('Initializing managers...');
     const taskManager = new TaskManager(eventBus);
@@ -80,6 +140,36 @@ async function main() {
     const memoryRepo = new MemoryRepository(database.getDb());
     const memoryManager = new MemoryManager(memoryRepo);
 
+    // Summarize old memories into learnings, with the first LLM provider available
+    const [summaryProvider] = pluginRegistry.getByType('llm-provider') as LLMProviderPlugin[];
+    const memoryConsolidator = new MemoryConsolidator(
+      memoryRepo,
+      memoryManager,
+      summaryProvider ? createLLMSummarizer(summaryProvider) : undefined
+    );
+    memoryConsolidator.start();
+
+    // Hand unassigned tasks to idle agents that opted into delegation
+    const taskDispatcher = new TaskDispatcher(taskManager);
+    taskDispatcher.start();
+
+    // Agent-to-agent (A2A) messaging
+    const messageBus = new AgentMessageBus(eventBus);
+
+    // Operator approval for sensitive tool calls
+    const approvalManager = new ApprovalManager(eventBus);
+
+    // Version every file change agents make in the shared workspace
+    const workspaceHistory = new WorkspaceHistory(
+      filesystemServer.getWorkspaceRoot(),
+      sessionManager
+    );
+    filesystemServer.setHistory(workspaceHistory);
+
+    // Let agents lock workspace files they are working on
+    const fileLocks = new FileLockManager(eventBus);
+    filesystemServer.setLocks(fileLocks);
+
     // Initialize and start API server
     logger.info('Starting API server...');
     const apiServer = new APIServer(
@@ -88,7 +178,13 @@ async function main() {
       sessionManager,
       memoryManager,
       pluginRegistry,
-      [filesystemServer, browserServer],
+      mcpServers,
+      taskDispatcher,
+      messageBus,
+      approvalManager,
+      workspaceHistory,
+      fileLocks,
+      memoryConsolidator,
       {
         port: parseInt(process.env.PORT || '3001'),
         cors: {
@@ -125,6 +221,9 @@ async function main() {
       logger.info(`\n${signal} received, shutting down gracefully...`);
 
       try {
+        taskDispatcher.stop();
+        memoryConsolidator.stop();
+        messageBus.shutdown();
         await apiServer.stop();
         await eventBus.disconnect();
         await database.close();
@@ -5,6 +5,7 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../core/logger';
+import { coreMemoryError } from './memory/core-memory.service';
 import type { AgentRecord } from '../persistence/repositories/agent.repository';
 import type {
   AgentFile,
@@ -162,8 +163,9 @@ export class AgentFileService {
       }
 
       // Validate arrays
-      if (agentFile.core_memory && !Array.isArray(agentFile.core_memory)) {
-        throw new Error('core_memory must be an array');
+      const invalidCoreMemory = agentFile.core_memory && coreMemoryError(agentFile.core_memory);
+      if (invalidCoreMemory) {
+        throw new Error(invalidCoreMemory);
       }
 
       if (agentFile.messages && !Array.isArray(agentFile.messages)) {
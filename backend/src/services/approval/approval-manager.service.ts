@@ -0,0 +1,245 @@
+/**
+ * Approval Manager Service
+ *
+ * Holds sensitive tool calls until an operator approves, denies, or edits
+ * them. Requests are persisted and announced on the event bus so the
+ * dashboard can list them; the calling agent waits on the returned promise
+ * until the request is resolved or its timeout applies the default action.
+ */
+
+import { ApprovalDecision, ApprovalPolicy, ApprovalRequest, JSONSchema } from '@mosaic/shared';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { logger } from '../../core/logger';
+import { EventBus } from '../../core/event-bus';
+import { getDatabase } from '../../persistence/database';
+import {
+  ApprovalQuery,
+  ApprovalRepository,
+} from '../../persistence/repositories/approval.repository';
+import { toolInputSchemaToZod } from '../../agents/utils/json-schema-to-zod';
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * A tool call that needs approval
+ */
+export interface ApprovalCall {
+  agentId: string;
+  sessionId?: string;
+  taskId?: string;
+  tool: string;
+  params: any;
+  inputSchema?: JSONSchema; // Operator-edited params must satisfy it
+}
+
+export interface ApprovalOutcome {
+  approved: boolean;
+  // Params to run the call with (edited by the operator when decision is 'edit')
+  params: any;
+  request: ApprovalRequest;
+}
+
+/**
+ * Whether a policy lists the tool, either exactly or through "server.*" / "*"
+ */
+export function requiresApproval(policy: ApprovalPolicy | undefined, tool: string): boolean {
+  if (!policy || !Array.isArray(policy.tools)) return false;
+
+  return policy.tools.some(
+    (pattern) =>
+      pattern === '*' ||
+      pattern === tool ||
+      (pattern.endsWith('.*') && tool.startsWith(pattern.slice(0, -1)))
+  );
+}
+
+export class ApprovalManager {
+  private approvalRepo: ApprovalRepository;
+  private eventBus: EventBus;
+  private waiters: Map<
+    string,
+    { resolve: (request: ApprovalRequest) => void; timer: NodeJS.Timeout; schema?: z.AnyZodObject }
+  > = new Map();
+  private managerLogger = logger.child({ service: 'approval-manager' });
+
+  constructor(eventBus: EventBus) {
+    this.eventBus = eventBus;
+    this.approvalRepo = new ApprovalRepository(getDatabase().getDb());
+
+    // Nobody is waiting on requests from before a restart
+    const expired = this.approvalRepo.expirePending('Server restarted before a decision was made');
+    if (expired > 0) {
+      this.managerLogger.info('Expired stale approval requests', { count: expired });
+    }
+  }
+
+  /**
+   * Store a request and wait for the operator's decision or the timeout
+   */
+  async requestApproval(call: ApprovalCall, policy: ApprovalPolicy): Promise<ApprovalOutcome> {
+    const now = new Date();
+    const timeoutMs = policy.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    const request = this.approvalRepo.create({
+      id: uuidv4(),
+      agentId: call.agentId,
+      sessionId: call.sessionId,
+      taskId: call.taskId,
+      tool: call.tool,
+      params: call.params,
+      status: 'pending',
+      defaultAction: policy.defaultAction || 'deny',
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + timeoutMs),
+    });
+
+    const resolved = new Promise<ApprovalRequest>((resolve) => {
+      const timer = setTimeout(() => {
+        this.expire(request.id)
+          .catch((error) =>
+            this.managerLogger.error('Failed to expire approval request', {
+              id: request.id,
+              error: error.message,
+            })
+          )
+          .finally(() => {
+            // Still waiting means expiring failed; never leave the agent hanging
+            const waiter = this.waiters.get(request.id);
+            if (waiter) {
+              this.waiters.delete(request.id);
+              waiter.resolve({
+                ...request,
+                status: 'denied',
+                reason: 'Approval request could not be expired',
+              });
+            }
+          });
+      }, timeoutMs);
+      this.waiters.set(request.id, {
+        resolve,
+        timer,
+        schema: call.inputSchema ? toolInputSchemaToZod(call.inputSchema) : undefined,
+      });
+    });
+
+    this.managerLogger.info('Approval requested', {
+      id: request.id,
+      agentId: call.agentId,
+      tool: call.tool,
+    });
+
+    await this.eventBus.publish('approval.requested', {
+      id: uuidv4(),
+      type: 'approval.requested',
+      source: 'approval-manager',
+      timestamp: now.toISOString(),
+      data: { approval: request },
+    });
+
+    const final = await resolved;
+    const approved =
+      final.status === 'approved' ||
+      (final.status === 'expired' && final.defaultAction === 'approve');
+
+    return {
+      approved,
+      params: final.decision === 'edit' ? final.resolvedParams : final.params,
+      request: final,
+    };
+  }
+
+  /**
+   * Apply an operator's decision to a pending request
+   */
+  async resolve(
+    id: string,
+    decision: ApprovalDecision,
+    options: { params?: any; resolvedBy?: string; reason?: string } = {}
+  ): Promise<ApprovalRequest> {
+    const existing = this.approvalRepo.findById(id);
+    if (!existing) {
+      throw new Error(`Approval request ${id} not found`);
+    }
+
+    if (decision === 'edit') {
+      const invalid = this.validateParams(id, options.params);
+      if (invalid) {
+        throw new Error(`Edited params are invalid: ${invalid}`);
+      }
+    }
+
+    const updated = this.approvalRepo.resolve(id, {
+      status: decision === 'deny' ? 'denied' : 'approved',
+      decision,
+      resolvedParams: decision === 'edit' ? options.params : undefined,
+      resolvedBy: options.resolvedBy,
+      reason: options.reason,
+    });
+    if (!updated) {
+      throw new Error(`Approval request ${id} is already ${existing.status}`);
+    }
+
+    await this.settle(updated);
+    return updated;
+  }
+
+  /**
+   * Reason edited params don't match the tool's input schema, or undefined when they do
+   */
+  validateParams(id: string, params: any): string | undefined {
+    const schema = this.waiters.get(id)?.schema;
+    if (!schema) return undefined;
+
+    const result = schema.safeParse(params);
+    if (result.success) return undefined;
+
+    return result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'params'}: ${issue.message}`)
+      .join('; ');
+  }
+
+  getApproval(id: string): ApprovalRequest | undefined {
+    return this.approvalRepo.findById(id) || undefined;
+  }
+
+  listApprovals(query: ApprovalQuery = {}): ApprovalRequest[] {
+    return this.approvalRepo.find(query);
+  }
+
+  private async expire(id: string): Promise<void> {
+    const updated = this.approvalRepo.resolve(id, {
+      status: 'expired',
+      reason: 'No decision before the timeout',
+    });
+
+    if (updated) {
+      this.managerLogger.warn('Approval request timed out', {
+        id,
+        tool: updated.tool,
+        defaultAction: updated.defaultAction,
+      });
+      await this.settle(updated);
+    }
+  }
+
+  /**
+   * Wake the waiting agent and tell clients the request is resolved
+   */
+  private async settle(request: ApprovalRequest): Promise<void> {
+    const waiter = this.waiters.get(request.id);
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.waiters.delete(request.id);
+      waiter.resolve(request);
+    }
+
+    await this.eventBus.publish('approval.resolved', {
+      id: uuidv4(),
+      type: 'approval.resolved',
+      source: 'approval-manager',
+      timestamp: new Date().toISOString(),
+      data: { approval: request },
+    });
+  }
+}
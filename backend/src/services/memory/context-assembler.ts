@@ -0,0 +1,335 @@
+/**
+ * Context Assembler
+ * Builds the memory section of an agent's prompt before each task and step
+ *
+ * The section always holds the agent's core_memory blocks (their character
+ * limits bound their size). Within the rest of the token budget come the
+ * tasks above the current one with the results of its finished sibling
+ * tasks, then the agent's memories most relevant to the task, ranked by
+ * search similarity, shared tags, relation to the task tree, importance and
+ * recency; the budget cuts the least important part. Memories include those
+ * other agents shared with the agent, as its memory permissions allow.
+ */
+
+import type {
+  CoreMemoryBlock,
+  MemoryEntry,
+  MemoryReader,
+  MemoryScope,
+  ScoredMemoryEntry,
+  Task,
+} from '@mosaic/shared';
+import { canRead, MemoryManagerService } from './memory-manager.service';
+import type { TaskManager } from '../task/task-manager.service';
+import { getCoreMemoryService, renderCoreMemoryBlock } from './core-memory.service';
+import { logger } from '../../core/logger';
+
+const assemblerLogger = logger.child({ service: 'context-assembler' });
+
+/**
+ * Memory section of a prompt, and what went into it
+ */
+export interface MemoryContext {
+  text: string; // Empty when there is nothing to add
+  memoryIds: string[];
+  coreMemoryLabels: string[];
+  taskIds: string[]; // Ancestor and sibling tasks included
+  estimatedTokens: number;
+  omitted: number; // Items left out for the token budget (core memory never is)
+}
+
+export interface ContextAssemblerOptions {
+  tokenBudget?: number; // Default: MEMORY_CONTEXT_TOKENS or 1500
+  maxMemories?: number; // Default: 8
+  coreMemory?: (agentId: string) => CoreMemoryBlock[]; // Default: CoreMemoryService blocks
+  reader?: (agentId: string) => MemoryReader; // Default: MemoryManagerService.readerFor
+}
+
+// Ancestors of the task described
+const MAX_ANCESTORS = 3;
+
+// Longest text shown for one memory, task description or result
+const MAX_ITEM_CHARS = 600;
+
+// Least relevance for a memory to be included
+const MIN_RELEVANCE = 0.2;
+
+// Where a memory shared by another agent came from
+const SHARED_FROM: Record<MemoryScope, string> = {
+  private: 'from another agent',
+  session: 'from this session',
+  team: 'from your team',
+  global: 'from another agent',
+};
+
+const IMPORTANCE_WEIGHT: Record<MemoryEntry['importance'], number> = {
+  critical: 0.15,
+  high: 0.1,
+  medium: 0.05,
+  low: 0,
+};
+
+/**
+ * Rough token count (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function clip(text: string, max: number = MAX_ITEM_CHARS): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max)}...` : flat;
+}
+
+function taskOutcome(task: Task): string {
+  const result = task.result?.result;
+  if (result !== undefined && result !== null) {
+    return typeof result === 'string' ? result : JSON.stringify(result);
+  }
+  return task.agentNotes || 'completed';
+}
+
+function emptyContext(): MemoryContext {
+  return {
+    text: '',
+    memoryIds: [],
+    coreMemoryLabels: [],
+    taskIds: [],
+    estimatedTokens: 0,
+    omitted: 0,
+  };
+}
+
+export class ContextAssembler {
+  private tokenBudget: number;
+  private maxMemories: number;
+  private coreMemory: (agentId: string) => CoreMemoryBlock[];
+  private reader: (agentId: string) => MemoryReader;
+
+  constructor(
+    private memoryManager: MemoryManagerService,
+    private taskManager: TaskManager,
+    options: ContextAssemblerOptions = {}
+  ) {
+    this.tokenBudget =
+      options.tokenBudget ?? parseInt(process.env.MEMORY_CONTEXT_TOKENS || '1500', 10);
+    this.maxMemories = options.maxMemories ?? 8;
+    this.coreMemory =
+      options.coreMemory || ((agentId) => getCoreMemoryService().getBlocks(agentId));
+    this.reader = options.reader || ((agentId) => this.memoryManager.readerFor(agentId));
+  }
+
+  /**
+   * Memory section for an agent working on a task
+   */
+  async assemble(agentId: string, task: Task): Promise<MemoryContext> {
+    const context = emptyContext();
+    const sections: string[] = [];
+    let remaining = this.tokenBudget;
+
+    // Adds what fits in the budget; returns whether it did
+    const fit = (text: string): boolean => {
+      const tokens = estimateTokens(text) + 1;
+      if (tokens > remaining) {
+        context.omitted++;
+        return false;
+      }
+      remaining -= tokens;
+      return true;
+    };
+    const section = (title: string, lines: string[]) => {
+      if (lines.length > 0) sections.push(`## ${title}\n${lines.join('\n')}`);
+    };
+
+    const coreLines = this.coreMemoryLines(agentId, context);
+    remaining -= coreLines.reduce((tokens, text) => tokens + estimateTokens(text) + 1, 0);
+    section('Core memory', coreLines);
+
+    // Task tree: what the task is part of, and what was already done for it
+    const ancestors = this.ancestors(task);
+    const taskLines: string[] = [];
+    for (const ancestor of ancestors) {
+      const text = `Part of: "${ancestor.title}" - ${clip(ancestor.description)}`;
+      if (fit(text)) {
+        taskLines.push(text);
+        context.taskIds.push(ancestor.id);
+      }
+    }
+    for (const sibling of this.finishedSiblings(task)) {
+      const text = `Done: "${sibling.title}" - ${clip(taskOutcome(sibling))}`;
+      if (fit(text)) {
+        taskLines.push(text);
+        context.taskIds.push(sibling.id);
+      }
+    }
+    section('Task context', taskLines);
+
+    // Memories relevant to the task, the agent's own or shared with it
+    const reader = this.safely('memory access', () => this.reader(agentId), {
+      agentId,
+      scopes: [],
+    });
+    const memoryLines: string[] = [];
+    for (const memory of await this.relevantMemories(reader, task, ancestors)) {
+      const date = memory.updatedAt.toISOString().slice(0, 10);
+      const from = memory.agentId === agentId ? '' : `, ${SHARED_FROM[memory.scope || 'private']}`;
+      const text = `- [${memory.type}, ${memory.importance}, ${date}${from}] ${clip(
+        memory.title,
+        120
+      )}: ${clip(memory.content)}`;
+      if (fit(text)) {
+        memoryLines.push(text);
+        context.memoryIds.push(memory.id);
+      }
+    }
+    section('Relevant memories', memoryLines);
+
+    if (sections.length > 0) {
+      context.text = `\n\n# What you remember\n\n${sections.join('\n\n')}`;
+      context.estimatedTokens = estimateTokens(context.text);
+    }
+    return context;
+  }
+
+  /**
+   * Memory section with only the agent's core memory, for prompts without a
+   * task such as answering another agent's query
+   */
+  assembleCore(agentId: string): MemoryContext {
+    const context = emptyContext();
+    const coreLines = this.coreMemoryLines(agentId, context);
+
+    if (coreLines.length > 0) {
+      context.text = `\n\n# What you remember\n\n## Core memory\n${coreLines.join('\n')}`;
+      context.estimatedTokens = estimateTokens(context.text);
+    }
+    return context;
+  }
+
+  /**
+   * Core memory: the agent's standing knowledge (persona, user, ...), shown
+   * even when empty so the agent knows the blocks it can edit
+   */
+  private coreMemoryLines(agentId: string, context: MemoryContext): string[] {
+    return this.safely('core memory', () => this.coreMemory(agentId), []).map((block) => {
+      context.coreMemoryLabels.push(block.label);
+      return renderCoreMemoryBlock(block);
+    });
+  }
+
+  /**
+   * Parent, grandparent, ... of the task, nearest first
+   */
+  private ancestors(task: Task): Task[] {
+    const ancestors: Task[] = [];
+    let parentId = task.parentTaskId;
+
+    while (parentId && ancestors.length < MAX_ANCESTORS) {
+      const parent = this.taskManager.getTask(parentId);
+      if (!parent) break;
+      ancestors.push(parent);
+      parentId = parent.parentTaskId;
+    }
+    return ancestors;
+  }
+
+  private finishedSiblings(task: Task): Task[] {
+    const parent = task.parentTaskId ? this.taskManager.getTask(task.parentTaskId) : undefined;
+    if (!parent) return [];
+
+    return parent.childTaskIds
+      .filter((id) => id !== task.id)
+      .map((id) => this.taskManager.getTask(id))
+      .filter((sibling): sibling is Task => sibling?.status === 'completed');
+  }
+
+  /**
+   * Top memories by search score plus boosts for the task tree, shared
+   * tags, importance and recency
+   */
+  private async relevantMemories(
+    reader: MemoryReader,
+    task: Task,
+    ancestors: Task[]
+  ): Promise<MemoryEntry[]> {
+    const treeIds = new Set([task.id, ...ancestors.map((ancestor) => ancestor.id)]);
+    const candidates = new Map<string, MemoryEntry>();
+    const searchScores = new Map<string, number>();
+
+    const searched = (await this.safelyAsync(
+      'memory search',
+      () =>
+        this.memoryManager.queryMemories({
+          visibleTo: reader,
+          search: `${task.title}\n${task.description}`.slice(0, 1000),
+          searchMode: 'hybrid',
+          limit: this.maxMemories * 3,
+        }),
+      []
+    )) as ScoredMemoryEntry[];
+    for (const memory of searched) {
+      candidates.set(memory.id, memory);
+      searchScores.set(memory.id, memory.score ?? 0);
+    }
+
+    const recent = await this.safelyAsync(
+      'recent memories',
+      () => this.memoryManager.queryMemories({ visibleTo: reader, limit: this.maxMemories * 3 }),
+      []
+    );
+    for (const id of treeIds) {
+      const related = await this.safelyAsync(
+        'task memories',
+        () => this.memoryManager.getTaskMemories(id, this.maxMemories),
+        []
+      );
+      recent.push(...related.filter((memory) => canRead(reader, memory)));
+    }
+    for (const memory of recent) {
+      if (!candidates.has(memory.id)) candidates.set(memory.id, memory);
+    }
+
+    const taskTags = new Set(task.tags || []);
+    const now = Date.now();
+
+    return (
+      Array.from(candidates.values())
+        // Checkpoints are state for recovery, not knowledge
+        .filter((memory) => memory.type !== 'checkpoint')
+        .map((memory) => {
+          const sharedTags = (memory.tags || []).filter((tag) => taskTags.has(tag)).length;
+          const ageDays = (now - memory.updatedAt.getTime()) / (24 * 60 * 60 * 1000);
+          const relevance =
+            (searchScores.get(memory.id) || 0) +
+            (memory.relatedTaskId && treeIds.has(memory.relatedTaskId) ? 0.3 : 0) +
+            (taskTags.size > 0 ? (0.2 * sharedTags) / taskTags.size : 0) +
+            IMPORTANCE_WEIGHT[memory.importance] +
+            0.15 * Math.exp(-ageDays / 7);
+          return { memory, relevance };
+        })
+        .filter(({ relevance }) => relevance >= MIN_RELEVANCE)
+        .sort((a, b) => b.relevance - a.relevance)
+        .slice(0, this.maxMemories)
+        .map(({ memory }) => memory)
+    );
+  }
+
+  // A failing source leaves its part of the context empty
+  private safely<T>(source: string, read: () => T, fallback: T): T {
+    try {
+      return read();
+    } catch (error: any) {
+      assemblerLogger.warn(`Could not read ${source}`, { error: error.message });
+      return fallback;
+    }
+  }
+
+  private async safelyAsync<T>(source: string, read: () => Promise<T>, fallback: T): Promise<T> {
+    try {
+      return await read();
+    } catch (error: any) {
+      assemblerLogger.warn(`Could not read ${source}`, { error: error.message });
+      return fallback;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Core Memory Tools - core_memory_view, core_memory_append and
+ * core_memory_replace for agents
+ *
+ * Agents keep their own persona and what they learn about the user in
+ * their core memory blocks (see CoreMemoryService). Results show the edited
+ * block as the system prompt renders it, since the prompt of the running
+ * task still holds the previous value. Edits need AgentPermissions.memory
+ * write access; viewing is always allowed, as the blocks are the agent's own.
+ */
+import { AgentPermissions, MCPToolDefinition, MCPToolResult } from '@mosaic/shared';
+import { CoreMemoryEdit, CoreMemoryService, renderCoreMemoryBlock } from './core-memory.service';
+
+export const CORE_MEMORY_TOOLS: MCPToolDefinition[] = [
+  {
+    name: 'core_memory_view',
+    description:
+      'View your core memory blocks (always in your system prompt), with their character limits',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        label: {
+          type: 'string',
+          description: 'Only show this block (e.g. "persona" or "human")',
+        },
+      },
+    },
+  },
+  {
+    name: 'core_memory_append',
+    description:
+      'Add a line to a core memory block. Use it for lasting facts about yourself or the user ' +
+      'that should shape every future task; put task details in regular memory instead.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        label: {
+          type: 'string',
+          description: 'Block to edit (e.g. "persona" or "human")',
+        },
+        content: {
+          type: 'string',
+          description: 'Text to add at the end of the block',
+        },
+      },
+      required: ['label', 'content'],
+    },
+  },
+  {
+    name: 'core_memory_replace',
+    description:
+      'Replace text in a core memory block, e.g. to correct or condense it when the block is ' +
+      'near its limit. An empty new_content deletes the text.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        label: {
+          type: 'string',
+          description: 'Block to edit (e.g. "persona" or "human")',
+        },
+        old_content: {
+          type: 'string',
+          description: 'Exact text currently in the block',
+        },
+        new_content: {
+          type: 'string',
+          description: 'Text to put in its place',
+        },
+      },
+      required: ['label', 'old_content', 'new_content'],
+    },
+  },
+];
+
+export function isCoreMemoryTool(name: string): boolean {
+  return CORE_MEMORY_TOOLS.some((tool) => tool.name === name);
+}
+
+export interface CoreMemoryToolOptions {
+  permissions?: AgentPermissions;
+  onEdit?: (edit: CoreMemoryEdit) => Promise<void> | void;
+}
+
+/**
+ * Run a core memory tool for an agent; `onEdit` sees every change made
+ */
+export async function invokeCoreMemoryTool(
+  coreMemory: CoreMemoryService,
+  agentId: string,
+  name: string,
+  params: any,
+  { permissions, onEdit }: CoreMemoryToolOptions = {}
+): Promise<MCPToolResult> {
+  params = params || {};
+
+  try {
+    switch (name) {
+      case 'core_memory_view': {
+        const blocks = coreMemory
+          .getBlocks(agentId)
+          .filter((block) => !params.label || block.label === params.label);
+        if (params.label && blocks.length === 0) {
+          return { success: false, error: `No core memory block "${params.label}"` };
+        }
+        return { success: true, data: blocks.map(renderCoreMemoryBlock).join('\n') };
+      }
+
+      case 'core_memory_append':
+      case 'core_memory_replace': {
+        if (permissions?.memory?.write === false) {
+          return { success: false, error: 'Permission denied: memory write access is not allowed' };
+        }
+        if (typeof params.label !== 'string' || !params.label) {
+          return { success: false, error: 'Missing required parameter: label' };
+        }
+
+        const edit =
+          name === 'core_memory_append'
+            ? coreMemory.append(agentId, params.label, String(params.content ?? ''))
+            : coreMemory.replace(
+                agentId,
+                params.label,
+                String(params.old_content ?? ''),
+                String(params.new_content ?? '')
+              );
+        await onEdit?.(edit);
+
+        return { success: true, data: renderCoreMemoryBlock(edit.block) };
+      }
+
+      default:
+        return { success: false, error: `Unknown tool: ${name}` };
+    }
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
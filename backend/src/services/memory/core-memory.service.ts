@@ -0,0 +1,186 @@
+/**
+ * Core Memory Service
+ * The agent's always-in-context memory blocks (Letta-style `core_memory`)
+ *
+ * Blocks live on the agent record, so they are exported with the agent's
+ * `.af` file. Agents edit them with the core_memory_* tools; every block is
+ * rendered into the system prompt, and an edit may not take a block past
+ * its character `limit`. Agents without blocks start with empty `persona`
+ * and `human` blocks, which are stored on their first edit.
+ */
+
+import type { CoreMemoryBlock } from '@mosaic/shared';
+import { AgentRepository } from '../../persistence/repositories/agent.repository';
+import { getDatabase } from '../../persistence/database';
+import { logger } from '../../core/logger';
+
+const coreMemoryLogger = logger.child({ service: 'core-memory' });
+
+// Character limit of the default blocks
+export const CORE_MEMORY_BLOCK_LIMIT = 5000;
+
+const DEFAULT_BLOCKS: Array<Pick<CoreMemoryBlock, 'label' | 'description'>> = [
+  {
+    label: 'persona',
+    description: 'Who you are and how you work: your role, style, and standing decisions',
+  },
+  {
+    label: 'human',
+    description: 'What you know about the user you work for: preferences, context, goals',
+  },
+];
+
+/**
+ * A block changed by an edit
+ */
+export interface CoreMemoryEdit {
+  label: string;
+  before: string;
+  after: string;
+  block: CoreMemoryBlock;
+}
+
+/**
+ * A block for the system prompt; the character count tells the agent how
+ * much room is left
+ */
+export function renderCoreMemoryBlock(block: CoreMemoryBlock): string {
+  const description = block.description ? ` description=${JSON.stringify(block.description)}` : '';
+  return `<${block.label} chars="${block.value.length}/${block.limit}"${description}>\n${
+    block.value
+  }\n</${block.label}>`;
+}
+
+/**
+ * Why a set of blocks is invalid, or undefined when it is valid
+ */
+export function coreMemoryError(blocks: unknown): string | undefined {
+  if (!Array.isArray(blocks)) return 'core_memory must be an array';
+
+  const labels = new Set<string>();
+  for (const block of blocks as CoreMemoryBlock[]) {
+    if (!block || typeof block.label !== 'string' || !block.label) {
+      return 'Every core memory block needs a label';
+    }
+    if (labels.has(block.label)) return `Duplicate core memory block: ${block.label}`;
+    labels.add(block.label);
+
+    if (typeof block.value !== 'string') return `Block ${block.label} needs a string value`;
+    if (typeof block.limit !== 'number' || block.limit <= 0) {
+      return `Block ${block.label} needs a positive limit`;
+    }
+    if (block.value.length > block.limit) {
+      return `Block ${block.label} is ${block.value.length} characters, over its limit of ${block.limit}`;
+    }
+  }
+  return undefined;
+}
+
+export class CoreMemoryService {
+  private agentRepo?: AgentRepository;
+
+  constructor(agentRepo?: AgentRepository) {
+    this.agentRepo = agentRepo;
+  }
+
+  /**
+   * The agent's blocks, or the default blocks when it has none
+   */
+  getBlocks(agentId: string): CoreMemoryBlock[] {
+    const stored = this.repo().findById(agentId)?.core_memory;
+    return stored && stored.length > 0 ? stored : this.defaultBlocks();
+  }
+
+  getBlock(agentId: string, label: string): CoreMemoryBlock | undefined {
+    return this.getBlocks(agentId).find((block) => block.label === label);
+  }
+
+  /**
+   * Add content to the end of a block, on a new line
+   */
+  append(agentId: string, label: string, content: string): CoreMemoryEdit {
+    if (!content) throw new Error('Nothing to append');
+
+    return this.edit(agentId, label, (value) => (value ? `${value}\n${content}` : content));
+  }
+
+  /**
+   * Replace every occurrence of oldContent in a block; an empty newContent
+   * deletes it
+   */
+  replace(agentId: string, label: string, oldContent: string, newContent: string): CoreMemoryEdit {
+    if (!oldContent) throw new Error('old_content must not be empty');
+
+    return this.edit(agentId, label, (value) => {
+      if (!value.includes(oldContent)) {
+        throw new Error(`Block ${label} does not contain the text to replace`);
+      }
+      return value.split(oldContent).join(newContent).trim();
+    });
+  }
+
+  private edit(agentId: string, label: string, change: (value: string) => string): CoreMemoryEdit {
+    const record = this.repo().findById(agentId);
+    if (!record) throw new Error(`Agent ${agentId} not found`);
+
+    const blocks = record.core_memory.length > 0 ? record.core_memory : this.defaultBlocks();
+    const index = blocks.findIndex((block) => block.label === label);
+    if (index === -1) {
+      throw new Error(
+        `No core memory block "${label}"; blocks: ${blocks.map((b) => b.label).join(', ')}`
+      );
+    }
+
+    const before = blocks[index].value;
+    const after = change(before);
+    if (after.length > blocks[index].limit) {
+      throw new Error(
+        `Block ${label} would be ${after.length} characters, over its limit of ` +
+          `${blocks[index].limit}; replace or shorten existing content first`
+      );
+    }
+
+    const now = new Date().toISOString();
+    const block = { ...blocks[index], value: after, updated_at: now };
+    const updated = blocks.map((existing, i) => (i === index ? block : existing));
+    this.repo().update(agentId, { core_memory: updated });
+
+    coreMemoryLogger.info('Core memory block edited', {
+      agentId,
+      label,
+      chars: after.length,
+      limit: block.limit,
+    });
+
+    return { label, before, after, block };
+  }
+
+  private defaultBlocks(): CoreMemoryBlock[] {
+    const now = new Date().toISOString();
+    return DEFAULT_BLOCKS.map((block) => ({
+      ...block,
+      value: '',
+      limit: CORE_MEMORY_BLOCK_LIMIT,
+      is_template: false,
+      created_at: now,
+      updated_at: now,
+    }));
+  }
+
+  private repo(): AgentRepository {
+    if (!this.agentRepo) {
+      this.agentRepo = new AgentRepository(getDatabase().getDb());
+    }
+    return this.agentRepo;
+  }
+}
+
+// Singleton instance
+let coreMemoryInstance: CoreMemoryService | null = null;
+
+export function getCoreMemoryService(): CoreMemoryService {
+  if (!coreMemoryInstance) {
+    coreMemoryInstance = new CoreMemoryService();
+  }
+  return coreMemoryInstance;
+}
@@ -0,0 +1,217 @@
+/**
+ * Embedding Providers
+ * Turn memory entries and search text into vectors for semantic search
+ *
+ * Agents pick a provider through their `.af` embedding_config. An
+ * OpenAI-compatible endpoint (`embedding_endpoint_type: "openai"`) gives the
+ * best recall; without a config, or with `embedding_endpoint_type: "local"`,
+ * a feature-hashing embedder runs in-process, so search also works offline.
+ *
+ * OPENAI_API_KEY is only sent to the OpenAI API; other endpoints get
+ * EMBEDDING_API_KEY (or LOCAL_LLM_API_KEY), since an imported agent file can
+ * name any endpoint.
+ */
+
+import { createHash } from 'crypto';
+import OpenAI from 'openai';
+import { EmbeddingConfig } from '@mosaic/shared';
+import { logger } from '../../core/logger';
+
+const embeddingLogger = logger.child({ service: 'embeddings' });
+
+export interface EmbeddingProvider {
+  /** Identifies the vector space; vectors of different models aren't comparable */
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Longest text sent to a remote embedding model
+const MAX_EMBED_CHARS = 8000;
+
+// Memories are embedded while they are saved, so remote calls fail fast
+const EMBED_TIMEOUT_MS = 10000;
+const EMBED_MAX_RETRIES = 1;
+
+const OPENAI_ORIGIN = 'https://api.openai.com';
+
+// Vector size of the local embedder unless embedding_dim says otherwise
+const DEFAULT_LOCAL_DIMENSIONS = 512;
+
+// Words too common to say anything about a memory
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be been but by can did do does for from had has have how i if in into ' +
+    'is it its me my no not of on or our so than that the their them then there these they ' +
+    'this to was we were what when where which while who why will with you your'
+  ).split(' ')
+);
+
+/**
+ * Lowercased words of a text, without stopwords
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (token) => token.length > 1 && !STOPWORDS.has(token)
+  );
+}
+
+/**
+ * Cosine similarity; vectors of different length are unrelated
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Hash of the text a vector was computed from, to spot stale vectors
+ */
+export function textHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+// 32-bit FNV-1a
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Local embedder: words and their character trigrams are hashed into a
+ * fixed-size vector (the "hashing trick"), weighted by log term frequency.
+ * Trigrams let inflections match ("migration", "migrations"). It knows no
+ * synonyms, but needs no model, network, or corpus statistics.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(private dimensions: number = DEFAULT_LOCAL_DIMENSIONS) {
+    this.model = `local-hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // A second hash bit picks the sign, so collisions cancel out on average
+      const sign = fnv1a(`~${feature}`) & 1 ? 1 : -1;
+      vector[hash % this.dimensions] += sign * weight;
+    };
+
+    for (const [token, count] of counts) {
+      const weight = 1 + Math.log(count);
+      add(`w:${token}`, weight);
+
+      const padded = `^${token}$`;
+      const trigrams = padded.length - 2;
+      for (let i = 0; i < trigrams; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, weight / Math.sqrt(trigrams));
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+/**
+ * Key for an embedding endpoint; the OpenAI key never leaves for other hosts
+ */
+export function embeddingApiKey(endpoint?: string): string {
+  let origin = OPENAI_ORIGIN;
+  if (endpoint) {
+    try {
+      origin = new URL(endpoint).origin;
+    } catch {
+      origin = '';
+    }
+  }
+
+  const key =
+    origin === OPENAI_ORIGIN
+      ? process.env.OPENAI_API_KEY
+      : process.env.EMBEDDING_API_KEY || process.env.LOCAL_LLM_API_KEY;
+  return key || 'not-needed';
+}
+
+/**
+ * Embeddings from the OpenAI API or a compatible server (embedding_endpoint)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(private config: EmbeddingConfig) {
+    this.model = `openai:${config.embedding_model}${
+      config.embedding_dim ? `:${config.embedding_dim}` : ''
+    }`;
+    this.client = new OpenAI({
+      apiKey: embeddingApiKey(config.embedding_endpoint),
+      baseURL: config.embedding_endpoint || undefined,
+      timeout: EMBED_TIMEOUT_MS,
+      maxRetries: EMBED_MAX_RETRIES,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.config.embedding_model,
+      input: texts.map((text) => text.slice(0, MAX_EMBED_CHARS) || ' '),
+      ...(this.config.embedding_dim ? { dimensions: this.config.embedding_dim } : {}),
+    });
+
+    return response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+/**
+ * Provider for an agent's embedding_config
+ */
+export function createEmbeddingProvider(
+  config?: Partial<EmbeddingConfig> | null
+): EmbeddingProvider {
+  const type = (config?.embedding_endpoint_type || '').toLowerCase();
+  const dimensions = config?.embedding_dim;
+
+  if (!config?.embedding_model || type === 'local' || config.embedding_model === 'local') {
+    return new HashingEmbeddingProvider(dimensions || DEFAULT_LOCAL_DIMENSIONS);
+  }
+
+  if (type === '' || type === 'openai' || type === 'openai-compatible') {
+    if (!process.env.OPENAI_API_KEY && !config.embedding_endpoint) {
+      embeddingLogger.warn('No OPENAI_API_KEY or embedding_endpoint; using local embeddings', {
+        model: config.embedding_model,
+      });
+      return new HashingEmbeddingProvider();
+    }
+    return new OpenAIEmbeddingProvider(config as EmbeddingConfig);
+  }
+
+  embeddingLogger.warn('Unsupported embedding endpoint type; using local embeddings', { type });
+  return new HashingEmbeddingProvider();
+}
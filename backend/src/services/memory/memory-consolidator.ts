@@ -0,0 +1,353 @@
+/**
+ * Memory Consolidator
+ *
+ * Keeps memory_entries from growing without bound. Periodically (and on
+ * POST /api/memory/consolidate):
+ * - Importance decays: an entry not updated for `decayDays` drops a level
+ *   (high → medium → low); critical entries keep theirs.
+ * - Old low-importance observations and thoughts are grouped per agent and
+ *   task, and each group is summarized by the LLM into one learning. The
+ *   originals are archived with a link to the summary, not deleted.
+ */
+
+import {
+  ConsolidationGroup,
+  ConsolidationOptions,
+  ConsolidationResult,
+  ImportanceDecay,
+  LLMProviderPlugin,
+  MemoryEntry,
+  MemoryImportance,
+} from '@mosaic/shared';
+import { logger } from '../../core/logger';
+import type { MemoryRepository } from '../../persistence/repositories/memory.repository';
+import type { MemoryManagerService } from './memory-manager.service';
+
+/**
+ * Turns a group of entries into the title and content of one learning
+ */
+export type MemorySummarizer = (
+  memories: MemoryEntry[]
+) => Promise<{ title: string; content: string }>;
+
+export interface MemoryConsolidatorOptions {
+  /** How often to consolidate; 0 only consolidates on request */
+  intervalMs?: number;
+  /** Days without update before an entry is consolidated */
+  minAgeDays?: number;
+  /** Days without update per importance level lost */
+  decayDays?: number;
+  /** Fewest entries worth a summary */
+  minGroupSize?: number;
+  /** Most entries in one summary */
+  maxGroupSize?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Entry types that are consolidated; the rest are kept as written
+const CONSOLIDATED_TYPES = new Set<MemoryEntry['type']>(['observation', 'thought']);
+
+// The level an importance decays to
+const DECAYED: Partial<Record<MemoryImportance, MemoryImportance>> = {
+  high: 'medium',
+  medium: 'low',
+};
+
+// Longest entry text sent to the summarizer
+const MAX_ENTRY_CHARS = 1000;
+
+const SUMMARY_PROMPT = `You consolidate an AI agent's memory. Below are observations and thoughts \
+the agent recorded while working. Write one lasting learning from them: keep facts, decisions, \
+outcomes and lessons that could matter for future work, and drop step-by-step detail.
+
+Respond with JSON only: {"title": "short title", "content": "the learning, at most 200 words"}`;
+
+/**
+ * Summarizer asking an LLM provider; the model defaults to
+ * MEMORY_CONSOLIDATION_MODEL, then the provider's usual model
+ */
+export function createLLMSummarizer(provider: LLMProviderPlugin, model?: string): MemorySummarizer {
+  const summaryModel = model || process.env.MEMORY_CONSOLIDATION_MODEL || defaultModel(provider);
+
+  return async (memories) => {
+    const entries = memories.map((memory) => {
+      const content = memory.content.slice(0, MAX_ENTRY_CHARS);
+      return `- [${memory.type}, ${memory.createdAt.toISOString().slice(0, 10)}] ${memory.title}: ${content}`;
+    });
+
+    const response = await provider.complete({
+      model: summaryModel,
+      temperature: 0.2,
+      maxTokens: 800,
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: entries.join('\n') },
+      ],
+    });
+
+    return parseSummary(response.message.content, memories.length);
+  };
+}
+
+/**
+ * MEMORY_CONSOLIDATION_INTERVAL_MS, or the default when unset or not a
+ * non-negative number
+ */
+function intervalFromEnv(): number {
+  const value = process.env.MEMORY_CONSOLIDATION_INTERVAL_MS;
+  if (value === undefined || value.trim() === '') return DEFAULT_INTERVAL_MS;
+
+  const intervalMs = Number(value);
+  if (!Number.isFinite(intervalMs) || intervalMs < 0) {
+    logger.warn('Invalid MEMORY_CONSOLIDATION_INTERVAL_MS, using the default', {
+      value,
+      defaultMs: DEFAULT_INTERVAL_MS,
+    });
+    return DEFAULT_INTERVAL_MS;
+  }
+  return intervalMs;
+}
+
+function defaultModel(provider: LLMProviderPlugin): string {
+  if (provider.name === 'anthropic-provider') {
+    return process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5-20250929';
+  }
+  if (provider.name === 'openai-compatible-provider') {
+    return (provider as { defaultModel?: string }).defaultModel || '';
+  }
+  return process.env.OPENAI_MODEL || 'gpt-4';
+}
+
+/**
+ * Title and content from the LLM's JSON, or its whole reply as the content
+ */
+export function parseSummary(text: string, count: number): { title: string; content: string } {
+  const json = text.match(/\{[\s\S]*\}/);
+  if (json) {
+    try {
+      const parsed = JSON.parse(json[0]);
+      if (typeof parsed.content === 'string' && parsed.content.trim()) {
+        return {
+          title: String(parsed.title || '').trim() || `Summary of ${count} memories`,
+          content: parsed.content.trim(),
+        };
+      }
+    } catch {
+      // Not JSON after all; the reply is used as is
+    }
+  }
+
+  if (!text.trim()) throw new Error('The summary was empty');
+  return { title: `Summary of ${count} memories`, content: text.trim() };
+}
+
+export class MemoryConsolidator {
+  private intervalMs: number;
+  private minAgeDays: number;
+  private decayDays: number;
+  private minGroupSize: number;
+  private maxGroupSize: number;
+  private timer?: NodeJS.Timeout;
+  private consolidating = false;
+  private consolidatorLogger = logger.child({ service: 'memory-consolidator' });
+
+  constructor(
+    private memoryRepo: MemoryRepository,
+    private memoryManager: MemoryManagerService,
+    private summarize?: MemorySummarizer,
+    options: MemoryConsolidatorOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? intervalFromEnv();
+    this.minAgeDays = options.minAgeDays ?? 7;
+    this.decayDays = options.decayDays ?? 30;
+    this.minGroupSize = options.minGroupSize ?? 3;
+    this.maxGroupSize = options.maxGroupSize ?? 20;
+  }
+
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) return;
+
+    this.timer = setInterval(() => {
+      if (this.consolidating) return;
+      this.consolidate().catch((error) => {
+        this.consolidatorLogger.error('Consolidation failed', { error: error.message });
+      });
+    }, this.intervalMs);
+
+    this.consolidatorLogger.info('Memory consolidator started', {
+      intervalMs: this.intervalMs,
+      summaries: !!this.summarize,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Whether a (non dry run) consolidation is in progress
+   */
+  isRunning(): boolean {
+    return this.consolidating;
+  }
+
+  /**
+   * Decay importance and consolidate old entries; a dry run reports what
+   * would change without changing anything
+   */
+  async consolidate(options: ConsolidationOptions = {}): Promise<ConsolidationResult> {
+    const dryRun = options.dryRun ?? false;
+    if (!dryRun && this.consolidating) {
+      throw new Error('A consolidation is already running');
+    }
+
+    if (!dryRun) this.consolidating = true;
+    try {
+      const now = Date.now();
+      const stale = this.memoryRepo.findStale(
+        new Date(now - Math.min(this.minAgeDays, this.decayDays) * DAY_MS),
+        options.agentId
+      );
+
+      const decayed = this.decay(stale, now, dryRun);
+      const groups = this.group(stale, now);
+      const result: ConsolidationResult = { dryRun, decayed, groups, archived: 0 };
+
+      if (!dryRun) {
+        for (const group of groups) {
+          result.archived += await this.summarizeGroup(group, stale);
+        }
+      }
+
+      if (decayed.length > 0 || groups.length > 0) {
+        this.consolidatorLogger.info('Memory consolidated', {
+          dryRun,
+          agentId: options.agentId,
+          decayed: decayed.length,
+          groups: groups.length,
+          archived: result.archived,
+        });
+      }
+      return result;
+    } finally {
+      if (!dryRun) this.consolidating = false;
+    }
+  }
+
+  /**
+   * Lower the importance of entries idle for decayDays since their last
+   * update or decay, one level per run
+   */
+  private decay(memories: MemoryEntry[], now: number, dryRun: boolean): ImportanceDecay[] {
+    const decayed: ImportanceDecay[] = [];
+
+    for (const memory of memories) {
+      const to = DECAYED[memory.importance];
+      const lastDecay = memory.metadata?.importanceDecayedAt;
+      const since = Math.max(memory.updatedAt.getTime(), lastDecay ? Date.parse(lastDecay) : 0);
+      if (!to || now - since < this.decayDays * DAY_MS) continue;
+
+      decayed.push({ memoryId: memory.id, from: memory.importance, to });
+      memory.importance = to;
+      if (!dryRun) {
+        memory.metadata = { ...memory.metadata, importanceDecayedAt: new Date(now).toISOString() };
+        this.memoryRepo.setImportance(memory.id, to, memory.metadata);
+      }
+    }
+
+    return decayed;
+  }
+
+  /**
+   * Old low-importance observations and thoughts by agent, task and scope,
+   * in chunks of at most maxGroupSize
+   */
+  private group(memories: MemoryEntry[], now: number): ConsolidationGroup[] {
+    const byTask = new Map<string, MemoryEntry[]>();
+
+    for (const memory of memories) {
+      if (
+        !CONSOLIDATED_TYPES.has(memory.type) ||
+        memory.importance !== 'low' ||
+        now - memory.updatedAt.getTime() < this.minAgeDays * DAY_MS
+      ) {
+        continue;
+      }
+      const key = `${memory.agentId}\n${memory.relatedTaskId || ''}\n${memory.scope || 'private'}`;
+      byTask.set(key, [...(byTask.get(key) || []), memory]);
+    }
+
+    const groups: ConsolidationGroup[] = [];
+    for (const entries of byTask.values()) {
+      for (let i = 0; i < entries.length; i += this.maxGroupSize) {
+        const chunk = entries.slice(i, i + this.maxGroupSize);
+        if (chunk.length < this.minGroupSize) continue;
+
+        groups.push({
+          agentId: chunk[0].agentId,
+          relatedTaskId: chunk[0].relatedTaskId,
+          memoryIds: chunk.map((memory) => memory.id),
+        });
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Write a group's learning and archive its entries; returns how many
+   * entries were archived
+   */
+  private async summarizeGroup(
+    group: ConsolidationGroup,
+    memories: MemoryEntry[]
+  ): Promise<number> {
+    if (!this.summarize) {
+      group.error = 'No LLM provider to write summaries';
+      return 0;
+    }
+
+    const ids = new Set(group.memoryIds);
+    const entries = memories.filter((memory) => ids.has(memory.id));
+    const latest = entries[entries.length - 1];
+
+    try {
+      const summary = await this.summarize(entries);
+      const tags = Array.from(new Set(entries.flatMap((memory) => memory.tags || [])));
+
+      const learning = await this.memoryManager.createMemory(group.agentId, latest.sessionId, {
+        type: 'learning',
+        importance: 'medium',
+        title: summary.title,
+        content: summary.content,
+        tags: [...tags.slice(0, 10), 'consolidated'],
+        relatedTaskId: group.relatedTaskId,
+        // Shared entries stay shared through their summary
+        scope: latest.scope,
+        metadata: {
+          consolidatedFrom: group.memoryIds,
+          period: {
+            from: entries[0].createdAt.toISOString(),
+            to: latest.createdAt.toISOString(),
+          },
+        },
+      });
+
+      group.summaryId = learning.id;
+      return this.memoryRepo.archive(group.memoryIds, learning.id);
+    } catch (error: any) {
+      group.error = error.message;
+      this.consolidatorLogger.warn('Could not consolidate memory group', {
+        agentId: group.agentId,
+        relatedTaskId: group.relatedTaskId,
+        error: error.message,
+      });
+      return 0;
+    }
+  }
+}
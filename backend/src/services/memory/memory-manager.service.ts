@@ -1,35 +1,140 @@
 /**
  * Memory Manager Service
  * Manages agent memory operations with query capabilities
+ *
+ * Entries are embedded when written, with the provider of the agent's
+ * embedding_config, so searches can rank them by meaning as well as by
+ * keywords. Vectors that are missing or stale (the entry changed, or the
+ * agent switched models) are computed when a search needs them.
+ *
+ * Entries are private to the agent that wrote them unless shared in a wider
+ * scope (session, team or global). Readers see their own entries plus the
+ * shared ones their AgentPermissions.memory allows.
  */
 
 import { MemoryRepository } from '../../persistence/repositories/memory.repository';
+import { AgentRepository } from '../../persistence/repositories/agent.repository';
 import { 
+  AgentPermissions,
   MemoryEntry, 
   MemoryType, 
   MemoryImportance,
+  MemoryReader,
+  MemoryScope,
+  MemorySearchMode,
   CreateMemoryRequest,
   UpdateMemoryRequest,
   MemoryQuery,
+  ScoredMemoryEntry,
   AgentMemorySnapshot
 } from '@mosaic/shared';
 import { getDatabase } from '../../persistence/database';
 import { logger } from '../../core/logger';
+import {
+  EmbeddingProvider,
+  cosineSimilarity,
+  createEmbeddingProvider,
+  textHash,
+  tokenize,
+} from './embedding-provider';
+
+export const MEMORY_SEARCH_MODES: MemorySearchMode[] = ['keyword', 'semantic', 'hybrid'];
+
+export const MEMORY_SCOPES: MemoryScope[] = ['private', 'session', 'team', 'global'];
+
+// Scopes other agents can read entries in
+const SHARED_SCOPES: MemoryScope[] = ['session', 'team', 'global'];
+
+/**
+ * Embedding provider to use for an agent's memories
+ */
+export type EmbeddingResolver = (agentId: string) => EmbeddingProvider;
+
+// Most entries ranked by one semantic or hybrid search
+const MAX_SEARCH_CANDIDATES = 2000;
+
+// Least embedding similarity for an entry to count as a semantic match
+const MIN_SEMANTIC_SCORE = 0.2;
+
+// Share of the hybrid score that comes from keyword matching
+const KEYWORD_WEIGHT = 0.4;
+
+// Entries embedded per provider call
+const EMBED_BATCH_SIZE = 100;
+
+/**
+ * Text an entry's vector is computed from
+ */
+function embeddingText(memory: MemoryEntry): string {
+  return [memory.title, memory.content, ...(memory.tags || [])].join('\n');
+}
+
+/**
+ * Whether a reader may see an entry (what MemoryQuery.visibleTo matches)
+ */
+export function canRead(reader: MemoryReader, memory: MemoryEntry): boolean {
+  if (memory.agentId === reader.agentId) return true;
+
+  const scope = memory.scope || 'private';
+  if (!reader.scopes.includes(scope)) return false;
+  switch (scope) {
+    case 'global':
+      return true;
+    case 'team':
+      return !!reader.teamId && memory.teamId === reader.teamId;
+    case 'session':
+      return !!reader.sessionId && memory.sessionId === reader.sessionId;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Shared scopes an agent reads and publishes to
+ */
+function sharedScopes(permissions?: AgentPermissions['memory']): MemoryScope[] {
+  return SHARED_SCOPES.filter(
+    (scope) => !permissions?.scopes || permissions.scopes.includes(scope)
+  );
+}
+
+/**
+ * 1 when the entry contains the search text, otherwise the share of the
+ * search terms it contains
+ */
+function keywordScore(memory: MemoryEntry, search: string): number {
+  const text = embeddingText(memory).toLowerCase();
+  if (text.includes(search.trim().toLowerCase())) return 1;
+
+  const terms = Array.from(new Set(tokenize(search)));
+  if (terms.length === 0) return 0;
+  return terms.filter((term) => text.includes(term)).length / terms.length;
+}
 
 export class MemoryManagerService {
   private memoryRepo: MemoryRepository;
-
-  constructor(memoryRepo?: MemoryRepository) {
+  private resolveEmbeddings: EmbeddingResolver;
+  private agentRepo?: AgentRepository;
+  private providers = new Map<string, EmbeddingProvider>();
+
+  constructor(
+    memoryRepo?: MemoryRepository,
+    embeddings?: EmbeddingResolver,
+    agentRepo?: AgentRepository
+  ) {
+    this.agentRepo = agentRepo;
     if (memoryRepo) {
       this.memoryRepo = memoryRepo;
     } else {
       const db = getDatabase();
       this.memoryRepo = new MemoryRepository(db.getDb());
     }
+    this.resolveEmbeddings = embeddings || ((agentId) => this.agentEmbeddings(agentId));
   }
 
   /**
-   * Create a new memory entry
+   * Create a new memory entry; team entries are shared with the agent's
+   * multi-agent group
    */
   async createMemory(
     agentId: string,
@@ -38,7 +143,16 @@ export class MemoryManagerService {
   ): Promise<MemoryEntry> {
     logger.info(`Creating memory for agent ${agentId}: ${request.title}`);
 
-    const memory = this.memoryRepo.create(agentId, sessionId, request);
+    let teamId: string | undefined;
+    if (request.scope === 'team') {
+      teamId = this.teamOf(agentId);
+      if (!teamId) {
+        throw new Error(`Agent ${agentId} is not in a multi-agent group to share with`);
+      }
+    }
+
+    const memory = this.memoryRepo.create(agentId, sessionId, request, teamId);
+    await this.indexMemory(memory);
 
     // Clean up expired memories periodically
     this.cleanupExpiredMemories();
@@ -46,6 +160,54 @@ export class MemoryManagerService {
     return memory;
   }
 
+  /**
+   * Publish an entry for other agents, if the agent's permissions allow
+   * writing memory and sharing in the scope
+   */
+  async shareMemory(
+    agentId: string,
+    sessionId: string,
+    request: CreateMemoryRequest & { scope: MemoryScope },
+    permissions?: AgentPermissions
+  ): Promise<MemoryEntry> {
+    if (!SHARED_SCOPES.includes(request.scope)) {
+      throw new Error(`scope must be one of: ${SHARED_SCOPES.join(', ')}`);
+    }
+
+    const memory = permissions?.memory;
+    if (memory?.write === false) {
+      throw new Error('Permission denied: memory write access is not allowed');
+    }
+    if (!sharedScopes(memory).includes(request.scope)) {
+      throw new Error(
+        `Permission denied: sharing memory with ${request.scope} scope is not allowed`
+      );
+    }
+
+    const shared = await this.createMemory(agentId, sessionId, request);
+    logger.info(`Agent ${agentId} shared memory ${shared.id} (${request.scope})`);
+    return shared;
+  }
+
+  /**
+   * What an agent may read: the session and permissions default to those
+   * stored with the agent. Without memory read access, only its own entries.
+   */
+  readerFor(agentId: string, sessionId?: string, permissions?: AgentPermissions): MemoryReader {
+    const record = this.agents().findById(agentId);
+    const mosaic = record?.metadata_?.mosaic;
+    const memory = (
+      permissions || (mosaic?.config as { permissions?: AgentPermissions } | undefined)?.permissions
+    )?.memory;
+
+    return {
+      agentId,
+      sessionId: sessionId || mosaic?.sessionId,
+      teamId: record?.multi_agent_group?.group_id,
+      scopes: memory?.read === false ? [] : sharedScopes(memory),
+    };
+  }
+
   /**
    * Get memory by ID
    */
@@ -54,10 +216,14 @@ export class MemoryManagerService {
   }
 
   /**
-   * Query memories with filters
+   * Query memories with filters. Searches other than keyword searches
+   * return ScoredMemoryEntry results, best match first.
    */
   async queryMemories(query: MemoryQuery): Promise<MemoryEntry[]> {
-    return this.memoryRepo.query(query);
+    if (!query.search || query.searchMode === 'keyword') {
+      return this.memoryRepo.query(query);
+    }
+    return this.rankedSearch(query);
   }
 
   /**
@@ -92,6 +258,7 @@ export class MemoryManagerService {
 
     if (updated) {
       logger.info(`Updated memory ${memoryId}`);
+      await this.indexMemory(updated);
     } else {
       logger.warn(`Memory ${memoryId} not found for update`);
     }
@@ -323,9 +490,157 @@ export class MemoryManagerService {
   async searchMemories(
     agentId: string,
     searchTerm: string,
-    limit?: number
+    limit?: number,
+    mode: MemorySearchMode = 'hybrid'
   ): Promise<MemoryEntry[]> {
-    return this.memoryRepo.query({ agentId, search: searchTerm, limit });
+    return this.queryMemories({ agentId, search: searchTerm, searchMode: mode, limit });
+  }
+
+  /**
+   * Rank entries matching the query's filters by similarity to its search
+   * text, combined with keyword overlap in hybrid mode
+   */
+  private async rankedSearch(query: MemoryQuery): Promise<ScoredMemoryEntry[]> {
+    const { search = '', searchMode = 'hybrid', limit, offset = 0, ...filters } = query;
+
+    // Keyword matches are candidates even when the agent has more entries than the cap
+    const candidates = new Map<string, MemoryEntry>();
+    for (const memory of [
+      ...this.memoryRepo.query({ ...filters, search, limit: MAX_SEARCH_CANDIDATES }),
+      ...this.memoryRepo.query({ ...filters, limit: MAX_SEARCH_CANDIDATES }),
+    ]) {
+      candidates.set(memory.id, memory);
+    }
+
+    // Each agent's entries are compared in that agent's vector space
+    const byAgent = new Map<string, MemoryEntry[]>();
+    for (const memory of candidates.values()) {
+      byAgent.set(memory.agentId, [...(byAgent.get(memory.agentId) || []), memory]);
+    }
+
+    const results: ScoredMemoryEntry[] = [];
+
+    for (const [agentId, memories] of byAgent) {
+      let similarity: ((memory: MemoryEntry) => number) | undefined;
+      try {
+        const provider = this.resolveEmbeddings(agentId);
+        const vectors = await this.embedMemories(memories, provider);
+        const [queryVector] = await provider.embed([search]);
+        similarity = (memory) => {
+          const vector = vectors.get(memory.id);
+          return vector ? Math.max(0, cosineSimilarity(queryVector, vector)) : 0;
+        };
+      } catch (error: any) {
+        // Without embeddings, entries are ranked by keywords alone
+        logger.warn(`Semantic memory search failed for agent ${agentId}: ${error.message}`);
+      }
+
+      for (const memory of memories) {
+        const keyword = keywordScore(memory, search);
+        const semantic = similarity ? similarity(memory) : 0;
+
+        let score: number;
+        if (!similarity) {
+          score = keyword;
+        } else if (searchMode === 'semantic') {
+          score = semantic >= MIN_SEMANTIC_SCORE ? semantic : 0;
+        } else {
+          score =
+            keyword > 0 || semantic >= MIN_SEMANTIC_SCORE
+              ? KEYWORD_WEIGHT * keyword + (1 - KEYWORD_WEIGHT) * semantic
+              : 0;
+        }
+
+        if (score > 0) {
+          results.push({ ...memory, score, keywordScore: keyword, semanticScore: semantic });
+        }
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score || b.updatedAt.getTime() - a.updatedAt.getTime());
+    return results.slice(offset, limit ? offset + limit : undefined);
+  }
+
+  /**
+   * Vectors of the given entries, computing the missing and stale ones
+   */
+  private async embedMemories(
+    memories: MemoryEntry[],
+    provider: EmbeddingProvider
+  ): Promise<Map<string, ArrayLike<number>>> {
+    const stored = this.memoryRepo.findEmbeddings(
+      memories.map((memory) => memory.id),
+      provider.model
+    );
+    const vectors = new Map<string, ArrayLike<number>>();
+    const stale: MemoryEntry[] = [];
+
+    for (const memory of memories) {
+      const embedding = stored.get(memory.id);
+      if (embedding && embedding.textHash === textHash(embeddingText(memory))) {
+        vectors.set(memory.id, embedding.vector);
+      } else {
+        stale.push(memory);
+      }
+    }
+
+    for (let i = 0; i < stale.length; i += EMBED_BATCH_SIZE) {
+      const batch = stale.slice(i, i + EMBED_BATCH_SIZE);
+      const texts = batch.map(embeddingText);
+      const embedded = await provider.embed(texts);
+
+      batch.forEach((memory, index) => {
+        this.memoryRepo.saveEmbedding(
+          memory.id,
+          provider.model,
+          textHash(texts[index]),
+          embedded[index]
+        );
+        vectors.set(memory.id, embedded[index]);
+      });
+    }
+
+    return vectors;
+  }
+
+  /**
+   * Embed an entry as it is written; a failure only delays it to the next search
+   */
+  private async indexMemory(memory: MemoryEntry): Promise<void> {
+    try {
+      await this.embedMemories([memory], this.resolveEmbeddings(memory.agentId));
+    } catch (error: any) {
+      logger.warn(`Failed to embed memory ${memory.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Provider for the agent's embedding_config, shared by agents with the same config
+   */
+  private agentEmbeddings(agentId: string): EmbeddingProvider {
+    const config = this.agents().findById(agentId)?.embedding_config;
+    const key = JSON.stringify(config || {});
+
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = createEmbeddingProvider(config);
+      this.providers.set(key, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Multi-agent group an agent shares team entries with
+   */
+  private teamOf(agentId: string): string | undefined {
+    return this.agents().findById(agentId)?.multi_agent_group?.group_id;
+  }
+
+  private agents(): AgentRepository {
+    if (!this.agentRepo) {
+      this.agentRepo = new AgentRepository(getDatabase().getDb());
+    }
+    return this.agentRepo;
   }
 
   /**
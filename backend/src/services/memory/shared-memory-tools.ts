@@ -0,0 +1,113 @@
+/**
+ * Shared Memory Tools - share_memory for agents
+ *
+ * Agents publish what they learn so others don't rediscover it: a shared
+ * entry is a learning written to the agent's memory in the session, team
+ * (multi-agent group) or global scope. Other agents see it among their
+ * relevant memories, as their AgentPermissions.memory allows.
+ */
+import { AgentPermissions, MCPToolDefinition, MCPToolResult, MemoryEntry } from '@mosaic/shared';
+import type { MemoryManagerService } from './memory-manager.service';
+
+/**
+ * Agent sharing a memory, and where it learned it
+ */
+export interface MemoryAuthor {
+  agentId: string;
+  sessionId: string;
+  taskId?: string;
+  permissions?: AgentPermissions;
+}
+
+const IMPORTANCE = ['critical', 'high', 'medium', 'low'];
+
+export const SHARED_MEMORY_TOOLS: MCPToolDefinition[] = [
+  {
+    name: 'share_memory',
+    description:
+      'Publish a learning for other agents: a fact, decision or lesson they should not have to ' +
+      'rediscover. Shared learnings appear in their memories for related tasks.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        title: {
+          type: 'string',
+          description: 'Short title of the learning',
+        },
+        content: {
+          type: 'string',
+          description: 'The learning, with what others need to rely on it (e.g. sources)',
+        },
+        scope: {
+          type: 'string',
+          enum: ['session', 'team', 'global'],
+          description:
+            'Who sees it: agents in this session, your team (multi-agent group, the default) ' +
+            'or every agent',
+        },
+        importance: {
+          type: 'string',
+          enum: IMPORTANCE,
+          description: 'How much it matters (default: high)',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Topics, to match it with related tasks',
+        },
+      },
+      required: ['title', 'content'],
+    },
+  },
+];
+
+export function isSharedMemoryTool(name: string): boolean {
+  return SHARED_MEMORY_TOOLS.some((tool) => tool.name === name);
+}
+
+/**
+ * Run a shared memory tool for an agent; `onShare` sees every entry shared
+ */
+export async function invokeSharedMemoryTool(
+  memoryManager: MemoryManagerService,
+  author: MemoryAuthor,
+  name: string,
+  params: any,
+  onShare?: (memory: MemoryEntry) => Promise<void> | void
+): Promise<MCPToolResult> {
+  params = params || {};
+
+  if (name !== 'share_memory') {
+    return { success: false, error: `Unknown tool: ${name}` };
+  }
+  for (const key of ['title', 'content']) {
+    if (typeof params[key] !== 'string' || !params[key].trim()) {
+      return { success: false, error: `Missing required parameter: ${key}` };
+    }
+  }
+  if (params.importance !== undefined && !IMPORTANCE.includes(params.importance)) {
+    return { success: false, error: `importance must be one of: ${IMPORTANCE.join(', ')}` };
+  }
+
+  try {
+    const memory = await memoryManager.shareMemory(
+      author.agentId,
+      author.sessionId,
+      {
+        type: 'learning',
+        importance: params.importance || 'high',
+        title: params.title.trim(),
+        content: params.content.trim(),
+        tags: Array.isArray(params.tags) ? params.tags.map(String) : undefined,
+        relatedTaskId: author.taskId,
+        scope: params.scope || 'team',
+      },
+      author.permissions
+    );
+    await onShare?.(memory);
+
+    return { success: true, data: `Shared "${memory.title}" with ${memory.scope} scope` };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -13,6 +13,10 @@ import {
   ActionType,
   HistoryQuery,
   SessionExport,
+  SessionCostSummary,
+  CostTotals,
+  TokenUsage,
+  AgentMetrics,
 } from '@mosaic/shared';
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
@@ -20,12 +24,28 @@ import { logger } from '../../core/logger';
 import { EventBus } from '../../core/event-bus';
 import { SessionRepository } from '../../persistence/repositories/session.repository';
 import { ActionRepository } from '../../persistence/repositories/action.repository';
+import {
+  LLMUsageRepository,
+  CostBreakdownRow,
+} from '../../persistence/repositories/llm-usage.repository';
 import { getDatabase } from '../../persistence/database';
 import { TaskManager } from '../task/task-manager.service';
+import { estimateCost } from '../../llm/pricing';
+
+/**
+ * A single provider call to account for
+ */
+export interface LLMUsageRecord {
+  provider: string;
+  model: string;
+  usage: Pick<TokenUsage, 'promptTokens' | 'completionTokens'>;
+  duration?: number;
+}
 
 export class SessionManager extends EventEmitter {
   private sessionRepo: SessionRepository;
   private actionRepo: ActionRepository;
+  private usageRepo: LLMUsageRepository;
   private screenshots: Map<string, Screenshot> = new Map();
   private eventBus: EventBus;
   private taskManager: TaskManager;
@@ -39,6 +59,7 @@ export class SessionManager extends EventEmitter {
     const db = getDatabase();
     this.sessionRepo = new SessionRepository(db.getDb());
     this.actionRepo = new ActionRepository(db.getDb());
+    this.usageRepo = new LLMUsageRepository(db.getDb());
 
     // Subscribe to all events to record them
     this.subscribeToEvents();
@@ -88,8 +109,7 @@ export class SessionManager extends EventEmitter {
     type: ActionType,
     action: string,
     details: ActionRecord['details'],
-    taskId?: string,
-    _cost?: ActionRecord['cost']
+    taskId?: string
   ): Promise<ActionRecord> {
     const session = this.sessionRepo.findById(sessionId);
     if (!session) {
@@ -135,8 +155,7 @@ export class SessionManager extends EventEmitter {
     actionId: string,
     status: 'completed' | 'failed',
     result?: unknown,
-    error?: unknown,
-    cost?: ActionRecord['cost']
+    error?: unknown
   ): Promise<ActionRecord> {
     const action = this.actionRepo.findById(actionId);
     if (!action) {
@@ -179,6 +198,155 @@ export class SessionManager extends EventEmitter {
     return updated;
   }
 
+  /**
+   * Record the token usage and estimated cost of one LLM call
+   * Usage is kept out of the action timeline; listeners get an llm.usage event.
+   */
+  async recordLLMUsage(
+    sessionId: string,
+    agentId: string,
+    call: LLMUsageRecord,
+    taskId?: string
+  ): Promise<void> {
+    const session = this.sessionRepo.findById(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const { promptTokens, completionTokens } = call.usage;
+    const estimatedCost = estimateCost(call.model, call.usage);
+    this.usageRepo.create({
+      sessionId,
+      agentId,
+      taskId,
+      provider: call.provider,
+      model: call.model,
+      promptTokens,
+      completionTokens,
+      estimatedCost,
+      duration: call.duration,
+    });
+
+    if (!session.agentIds.includes(agentId)) {
+      this.sessionRepo.addAgent(sessionId, agentId);
+    }
+
+    await this.eventBus.publish('llm.usage', {
+      id: uuidv4(),
+      type: 'llm.usage',
+      source: 'session-manager',
+      timestamp: new Date().toISOString(),
+      data: {
+        sessionId,
+        agentId,
+        taskId,
+        provider: call.provider,
+        model: call.model,
+        promptTokens,
+        completionTokens,
+        estimatedCost,
+      },
+    });
+  }
+
+  /**
+   * Lifetime LLM calls and tokens of an agent
+   */
+  getAgentUsage(agentId: string): Pick<AgentMetrics, 'llmCalls' | 'totalTokens'> {
+    const totals = this.usageRepo.getAgentTotals(agentId);
+    return {
+      llmCalls: totals.llmRequests,
+      totalTokens: totals.promptTokens + totals.completionTokens,
+    };
+  }
+
+  /**
+   * LLM spend for a session, by agent, task (with sub-task rollup), and model
+   */
+  getCosts(sessionId: string): SessionCostSummary {
+    const rows = this.usageRepo.getCostBreakdown(sessionId);
+
+    const emptyTotals = (): CostTotals => ({
+      llmRequests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      estimatedCost: 0,
+    });
+    const add = (totals: CostTotals, row: CostBreakdownRow) => {
+      totals.llmRequests += row.llmRequests;
+      totals.promptTokens += row.promptTokens;
+      totals.completionTokens += row.completionTokens;
+      totals.totalTokens += row.promptTokens + row.completionTokens;
+      totals.estimatedCost += row.estimatedCost;
+    };
+
+    const totals = emptyTotals();
+    const byAgent = new Map<string, SessionCostSummary['byAgent'][number]>();
+    const byModel = new Map<string, SessionCostSummary['byModel'][number]>();
+    const byTask = new Map<string, SessionCostSummary['byTask'][number]>();
+
+    const taskEntry = (taskId: string) => {
+      let entry = byTask.get(taskId);
+      if (!entry) {
+        const task = this.taskManager.getTask(taskId);
+        entry = {
+          taskId,
+          taskTitle: task?.title,
+          parentTaskId: task?.parentTaskId,
+          ...emptyTotals(),
+          rollup: emptyTotals(),
+        };
+        byTask.set(taskId, entry);
+      }
+      return entry;
+    };
+
+    for (const row of rows) {
+      add(totals, row);
+
+      let agent = byAgent.get(row.agentId);
+      if (!agent) {
+        agent = { agentId: row.agentId, ...emptyTotals() };
+        byAgent.set(row.agentId, agent);
+      }
+      add(agent, row);
+
+      const modelKey = `${row.provider || ''}:${row.model || 'unknown'}`;
+      let model = byModel.get(modelKey);
+      if (!model) {
+        model = { provider: row.provider, model: row.model || 'unknown', ...emptyTotals() };
+        byModel.set(modelKey, model);
+      }
+      add(model, row);
+
+      if (row.taskId) {
+        add(taskEntry(row.taskId), row);
+
+        // Charge the call to every ancestor so parents show their subtree's spend
+        const visited = new Set<string>();
+        let taskId: string | undefined = row.taskId;
+        while (taskId && !visited.has(taskId)) {
+          visited.add(taskId);
+          const entry = taskEntry(taskId);
+          add(entry.rollup, row);
+          taskId = entry.parentTaskId;
+        }
+      }
+    }
+
+    const bySpend = <T extends CostTotals>(a: T, b: T) =>
+      b.estimatedCost - a.estimatedCost || b.totalTokens - a.totalTokens;
+
+    return {
+      sessionId,
+      totals,
+      byAgent: Array.from(byAgent.values()).sort(bySpend),
+      byTask: Array.from(byTask.values()).sort((a, b) => bySpend(a.rollup, b.rollup)),
+      byModel: Array.from(byModel.values()).sort(bySpend),
+    };
+  }
+
   /**
    * Capture a screenshot
    */
@@ -321,6 +489,23 @@ export class SessionManager extends EventEmitter {
         icon = '📁';
         color = '#9B59B6';
         break;
+      case 'memory_recall':
+        icon = '🧠';
+        color = '#8E44AD';
+        summary = `Recalled ${action.details.metadata?.memoryIds?.length || 0} memories`;
+        break;
+      case 'core_memory_edit':
+        icon = '✏️';
+        color = '#8E44AD';
+        summary = `Edited core memory: ${action.details.metadata?.label || 'block'}`;
+        break;
+      case 'memory_share':
+        icon = '📢';
+        color = '#8E44AD';
+        summary = `Shared with ${action.details.metadata?.scope || 'other agents'}: ${
+          action.details.metadata?.title || 'memory'
+        }`;
+        break;
       case 'agent_error':
         icon = '⚠️';
         color = '#E74C3C';
@@ -385,7 +570,14 @@ export class SessionManager extends EventEmitter {
    * Get session by ID
    */
   getSession(id: string): Session | undefined {
-    return this.sessionRepo.findById(id) || undefined;
+    const session = this.sessionRepo.findById(id);
+    if (!session) return undefined;
+
+    const usage = this.usageRepo.getSessionTotals(id);
+    session.stats.llmRequests = usage.llmRequests;
+    session.stats.totalCost = usage.estimatedCost;
+
+    return session;
   }
 
   /**
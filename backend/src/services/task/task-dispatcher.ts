@@ -0,0 +1,194 @@
+/**
+ * Task Dispatcher
+ *
+ * Matches unassigned open tasks to idle agents whose advertised capabilities
+ * (A2A AgentCard) cover the task's requirements, and releases tasks whose
+ * lease expired because the holding agent stopped heartbeating.
+ */
+
+import { AgentCard, AgentStatus, Task, TaskPriority } from '@mosaic/shared';
+import { logger } from '../../core/logger';
+import { TaskManager } from './task-manager.service';
+
+/**
+ * Minimal view of an agent the dispatcher can hand work to
+ */
+export interface DispatchableAgent {
+  id: string;
+  status: AgentStatus;
+  getCapabilities(): AgentCard;
+  start(): Promise<void>;
+}
+
+export interface TaskDispatcherOptions {
+  /** How often to look for claimable tasks */
+  intervalMs?: number;
+  /** Lease duration granted to agents on assignment */
+  leaseMs?: number;
+}
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+export class TaskDispatcher {
+  private taskManager: TaskManager;
+  private agents: Map<string, DispatchableAgent> = new Map();
+  private intervalMs: number;
+  private leaseMs?: number;
+  private timer?: NodeJS.Timeout;
+  private dispatching = false;
+  private dispatcherLogger = logger.child({ service: 'task-dispatcher' });
+
+  constructor(taskManager: TaskManager, options: TaskDispatcherOptions = {}) {
+    this.taskManager = taskManager;
+    this.intervalMs = options.intervalMs ?? 5000;
+    this.leaseMs = options.leaseMs;
+  }
+
+  /**
+   * Make an agent eligible for delegated tasks
+   */
+  registerAgent(agent: DispatchableAgent): void {
+    this.agents.set(agent.id, agent);
+    this.dispatcherLogger.info('Agent registered for delegation', {
+      agentId: agent.id,
+      capabilities: this.capabilityNames(agent),
+    });
+  }
+
+  unregisterAgent(agentId: string): void {
+    if (this.agents.delete(agentId)) {
+      this.dispatcherLogger.info('Agent unregistered from delegation', { agentId });
+    }
+  }
+
+  isRegistered(agentId: string): boolean {
+    return this.agents.has(agentId);
+  }
+
+  /**
+   * Agent cards of every agent accepting delegated work
+   */
+  listAgents(): Array<{ agentId: string; status: AgentStatus; card: AgentCard }> {
+    return Array.from(this.agents.values()).map((agent) => ({
+      agentId: agent.id,
+      status: agent.status,
+      card: agent.getCapabilities(),
+    }));
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.dispatch().catch((error) => {
+        this.dispatcherLogger.error('Dispatch cycle failed', { error: error.message });
+      });
+    }, this.intervalMs);
+
+    this.dispatcherLogger.info('Task dispatcher started', { intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run one dispatch cycle
+   * Returns the tasks that were assigned during this cycle.
+   */
+  async dispatch(): Promise<Task[]> {
+    // Skip if the previous cycle is still assigning
+    if (this.dispatching) return [];
+    this.dispatching = true;
+
+    try {
+      const released = await this.taskManager.releaseExpiredLeases();
+      if (released.length > 0) {
+        this.dispatcherLogger.warn('Released tasks with expired leases', {
+          taskIds: released.map((t) => t.id),
+        });
+      }
+
+      const openTasks = this.taskManager
+        .queryTasks({ status: 'open', unassigned: true })
+        .sort(
+          (a, b) =>
+            PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+            new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+
+      const assigned: Task[] = [];
+      const busy = new Set<string>();
+
+      for (const task of openTasks) {
+        const agent = this.findAgentFor(task, busy);
+        if (!agent) continue;
+
+        try {
+          const claimed = await this.taskManager.claimTask({
+            taskId: task.id,
+            agentId: agent.id,
+            leaseMs: this.leaseMs,
+          });
+          busy.add(agent.id);
+          assigned.push(claimed);
+
+          this.dispatcherLogger.info('Task delegated', {
+            taskId: task.id,
+            title: task.title,
+            agentId: agent.id,
+          });
+
+          if (agent.status !== 'running') {
+            await agent.start();
+          }
+        } catch (error: any) {
+          this.dispatcherLogger.warn('Failed to delegate task', {
+            taskId: task.id,
+            agentId: agent.id,
+            error: error.message,
+          });
+        }
+      }
+
+      return assigned;
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  /**
+   * Pick an idle agent whose capabilities cover the task requirements
+   */
+  private findAgentFor(task: Task, busy: Set<string>): DispatchableAgent | undefined {
+    const required = (task.metadata?.requiredCapabilities as string[]) || [];
+
+    return Array.from(this.agents.values()).find((agent) => {
+      if (busy.has(agent.id) || agent.status === 'error' || agent.status === 'paused') {
+        return false;
+      }
+
+      // Agents with queued or running work are not idle
+      const queued = this.taskManager.queryTasks({
+        status: ['open', 'in_progress'],
+        assignedTo: agent.id,
+      });
+      if (queued.length > 0) return false;
+
+      const capabilities = new Set(this.capabilityNames(agent));
+      return required.every((c) => capabilities.has(c));
+    });
+  }
+
+  private capabilityNames(agent: DispatchableAgent): string[] {
+    return agent.getCapabilities().capabilities.map((c) => c.name);
+  }
+}
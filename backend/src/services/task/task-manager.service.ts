@@ -13,6 +13,9 @@ import {
   TaskDecomposition,
   TaskQuery,
   TaskTree,
+  TaskLease,
+  TaskStatus,
+  ClaimTaskRequest,
 } from '@mosaic/shared';
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
@@ -21,6 +24,10 @@ import { EventBus } from '../../core/event-bus';
 import { TaskRepository } from '../../persistence/repositories/task.repository';
 import { getDatabase } from '../../persistence/database';
 
+export const DEFAULT_LEASE_MS = 60000;
+
+const LEASED_STATUSES: TaskStatus[] = ['open', 'in_progress'];
+
 export class TaskManager extends EventEmitter {
   private tasks: Map<string, Task> = new Map();
   private taskRepo: TaskRepository;
@@ -136,6 +143,11 @@ export class TaskManager extends EventEmitter {
       task.metadata = { ...task.metadata, ...request.metadata };
     }
 
+    // A lease holds a task while it is claimed or running; any other status ends it
+    if (!LEASED_STATUSES.includes(task.status)) {
+      delete task.metadata.lease;
+    }
+
     task.lastUpdatedAt = new Date();
 
     // Track timing
@@ -215,6 +227,13 @@ export class TaskManager extends EventEmitter {
       createdSubTasks.push(subTask);
     }
 
+    // Resolve dependency references now that all sibling IDs are known
+    createdSubTasks.forEach((subTask) => {
+      const references = (subTask.metadata.dependencies as string[]) || [];
+      subTask.metadata.dependencies = this.resolveDependencies(references, createdSubTasks);
+      this.taskRepo.save(subTask);
+    });
+
     // Update parent task strategy
     await this.updateTask({
       taskId: decomposition.taskId,
@@ -228,6 +247,33 @@ export class TaskManager extends EventEmitter {
     return createdSubTasks;
   }
 
+  /**
+   * Map dependency references to task IDs
+   * A reference may be a task ID, a sibling title, or a 1-based sibling index
+   * (planners don't know the generated IDs up front).
+   */
+  private resolveDependencies(references: string[], siblings: Task[]): string[] {
+    const resolved = new Set<string>();
+
+    for (const reference of references) {
+      const ref = String(reference).trim();
+      const index = /^\d+$/.test(ref) ? parseInt(ref, 10) - 1 : -1;
+
+      const match =
+        (this.tasks.has(ref) ? this.tasks.get(ref) : undefined) ||
+        siblings.find((t) => t.title.toLowerCase() === ref.toLowerCase()) ||
+        siblings[index];
+
+      if (match) {
+        resolved.add(match.id);
+      } else {
+        this.managerLogger.warn('Ignoring unknown task dependency', { reference: ref });
+      }
+    }
+
+    return Array.from(resolved);
+  }
+
   /**
    * Query tasks using in-memory Map
    */
@@ -250,9 +296,175 @@ export class TaskManager extends EventEmitter {
       results = results.filter((t: Task) => query.priority!.includes(t.priority));
     }
 
+    // Filter to unassigned tasks
+    if (query.unassigned) {
+      results = results.filter((t: Task) => !t.assignedTo);
+    }
+
+    // Filter by capabilities able to handle the task
+    if (query.capabilities) {
+      const capabilities = new Set(query.capabilities);
+      results = results.filter((t: Task) =>
+        ((t.metadata?.requiredCapabilities as string[]) || []).every((c) => capabilities.has(c))
+      );
+    }
+
     return results;
   }
 
+  /**
+   * Claim an open task for an agent with a time-limited lease
+   * Fails if another agent holds a live lease or the task is assigned elsewhere.
+   */
+  async claimTask(request: ClaimTaskRequest): Promise<Task> {
+    const task = this.tasks.get(request.taskId);
+    if (!task) {
+      throw new Error(`Task ${request.taskId} not found`);
+    }
+
+    if (task.status !== 'open') {
+      throw new Error(`Task ${task.id} is not open (status: ${task.status})`);
+    }
+
+    const lease = this.getLease(task);
+    if (lease && lease.agentId !== request.agentId && !this.isLeaseExpired(lease)) {
+      throw new Error(`Task ${task.id} is already claimed by ${lease.agentId}`);
+    }
+    if (!lease && task.assignedTo && task.assignedTo !== request.agentId) {
+      throw new Error(`Task ${task.id} is already assigned to ${task.assignedTo}`);
+    }
+
+    const durationMs = request.leaseMs ?? DEFAULT_LEASE_MS;
+    const now = new Date();
+    const newLease: TaskLease = {
+      agentId: request.agentId,
+      claimedAt: now.toISOString(),
+      heartbeatAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + durationMs).toISOString(),
+      durationMs,
+    };
+
+    const claimed = await this.updateTask({
+      taskId: task.id,
+      assignedTo: request.agentId,
+      metadata: { lease: newLease },
+    });
+
+    this.managerLogger.info('Task claimed', {
+      id: task.id,
+      agentId: request.agentId,
+      expiresAt: newLease.expiresAt,
+    });
+
+    await this.eventBus.publish('task.claimed', {
+      id: uuidv4(),
+      type: 'task.claimed',
+      source: 'task-manager',
+      timestamp: new Date().toISOString(),
+      data: { task: claimed, lease: newLease },
+    });
+
+    return claimed;
+  }
+
+  /**
+   * Extend the lease held by an agent
+   */
+  heartbeatTask(taskId: string, agentId: string): TaskLease {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+
+    const lease = this.getLease(task);
+    if (!lease || lease.agentId !== agentId) {
+      throw new Error(`Task ${taskId} is not claimed by ${agentId}`);
+    }
+
+    const now = new Date();
+    lease.heartbeatAt = now.toISOString();
+    lease.expiresAt = new Date(now.getTime() + lease.durationMs).toISOString();
+
+    // Heartbeats are frequent, so persist without publishing an update event
+    task.metadata.lease = lease;
+    this.taskRepo.save(task);
+
+    return lease;
+  }
+
+  /**
+   * Give a claimed task back to the open pool
+   */
+  async releaseTask(taskId: string, agentId: string, reason?: string): Promise<Task> {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+
+    const lease = this.getLease(task);
+    if (!lease || lease.agentId !== agentId) {
+      throw new Error(`Task ${taskId} is not claimed by ${agentId}`);
+    }
+
+    return this.returnToPool(task, reason || 'Released by agent');
+  }
+
+  /**
+   * Release every task whose lease expired (holder crashed or stopped heartbeating)
+   */
+  async releaseExpiredLeases(): Promise<Task[]> {
+    const expired = Array.from(this.tasks.values()).filter((task) => {
+      const lease = this.getLease(task);
+      return lease && this.isLeaseExpired(lease);
+    });
+
+    const released: Task[] = [];
+    for (const task of expired) {
+      const holder = this.getLease(task)!.agentId;
+      released.push(await this.returnToPool(task, `Lease held by ${holder} expired`));
+    }
+
+    return released;
+  }
+
+  private async returnToPool(task: Task, reason: string): Promise<Task> {
+    const lease = this.getLease(task);
+
+    // updateTask can't clear fields, so drop the assignment directly
+    task.assignedTo = undefined;
+    delete task.metadata.lease;
+
+    const released = await this.updateTask({
+      taskId: task.id,
+      status: task.status === 'in_progress' ? 'open' : task.status,
+      agentNotes: reason,
+    });
+
+    this.managerLogger.info('Task released', {
+      id: task.id,
+      agentId: lease?.agentId,
+      reason,
+    });
+
+    await this.eventBus.publish('task.released', {
+      id: uuidv4(),
+      type: 'task.released',
+      source: 'task-manager',
+      timestamp: new Date().toISOString(),
+      data: { task: released, agentId: lease?.agentId, reason },
+    });
+
+    return released;
+  }
+
+  private getLease(task: Task): TaskLease | undefined {
+    return task.metadata?.lease as TaskLease | undefined;
+  }
+
+  private isLeaseExpired(lease: TaskLease): boolean {
+    return new Date(lease.expiresAt).getTime() <= Date.now();
+  }
+
   /**
    * Get task by ID
    */
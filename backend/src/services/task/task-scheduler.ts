@@ -0,0 +1,175 @@
+/**
+ * Task Scheduler
+ *
+ * Executes a set of sibling sub-tasks as a dependency graph (DAG).
+ * Sub-tasks whose dependencies are satisfied run concurrently up to a
+ * configurable limit; dependents of a failed sub-task are marked as blocked.
+ */
+
+import { Task } from '@mosaic/shared';
+import { logger } from '../../core/logger';
+import { TaskManager } from './task-manager.service';
+
+export type TaskExecutor = (task: Task) => Promise<void>;
+
+export interface TaskSchedulerOptions {
+  /** Maximum number of sub-tasks executing at the same time */
+  concurrency?: number;
+}
+
+export interface ScheduleResult {
+  completed: string[];
+  failed: string[];
+  blocked: string[];
+}
+
+export const DEFAULT_SUBTASK_CONCURRENCY = 3;
+
+export class TaskScheduler {
+  private taskManager: TaskManager;
+  private concurrency: number;
+  private schedulerLogger = logger.child({ service: 'task-scheduler' });
+
+  constructor(taskManager: TaskManager, options: TaskSchedulerOptions = {}) {
+    this.taskManager = taskManager;
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_SUBTASK_CONCURRENCY);
+  }
+
+  /**
+   * Build the dependency graph for a set of tasks
+   * Maps each task ID to the IDs (within the set) it depends on.
+   * Dependencies on tasks outside the set are ignored.
+   */
+  buildGraph(tasks: Task[]): Map<string, Set<string>> {
+    const ids = new Set(tasks.map((t) => t.id));
+    const graph = new Map<string, Set<string>>();
+
+    for (const task of tasks) {
+      const dependencies = (task.metadata?.dependencies as string[] | undefined) || [];
+      graph.set(
+        task.id,
+        new Set(dependencies.filter((depId) => ids.has(depId) && depId !== task.id))
+      );
+    }
+
+    return graph;
+  }
+
+  /**
+   * Run tasks in dependency order
+   * Tasks already completed count as satisfied dependencies and are not re-run.
+   * The executor is expected to update the task's own status; the scheduler
+   * only marks tasks it never started (blocked dependents) itself.
+   */
+  async run(tasks: Task[], executor: TaskExecutor): Promise<ScheduleResult> {
+    const graph = this.buildGraph(tasks);
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+
+    const completed = new Set(tasks.filter((t) => t.status === 'completed').map((t) => t.id));
+    const failed = new Set<string>();
+    const blocked = new Set<string>();
+    const pending = new Set(tasks.filter((t) => t.status !== 'completed').map((t) => t.id));
+    const running = new Map<string, Promise<void>>();
+
+    this.schedulerLogger.info('Scheduling tasks', {
+      total: tasks.length,
+      pending: pending.size,
+      concurrency: this.concurrency,
+    });
+
+    while (pending.size > 0 || running.size > 0) {
+      // Start every ready task while there is capacity
+      for (const taskId of Array.from(pending)) {
+        if (running.size >= this.concurrency) break;
+
+        const dependencies = graph.get(taskId)!;
+        if (!Array.from(dependencies).every((depId) => completed.has(depId))) continue;
+
+        pending.delete(taskId);
+        const task = byId.get(taskId)!;
+
+        const execution = executor(task)
+          .then(() => {
+            completed.add(taskId);
+          })
+          .catch(async (error: any) => {
+            failed.add(taskId);
+            this.schedulerLogger.warn('Scheduled task failed', {
+              taskId,
+              title: task.title,
+              error: error?.message,
+            });
+            await this.blockDependents(task, graph, pending, blocked);
+          })
+          .finally(() => {
+            running.delete(taskId);
+          });
+
+        running.set(taskId, execution);
+      }
+
+      if (running.size === 0) {
+        // Nothing runnable remains: the leftover tasks form a dependency cycle
+        if (pending.size > 0) {
+          for (const taskId of Array.from(pending)) {
+            pending.delete(taskId);
+            await this.markBlocked(taskId, 'Dependency cycle detected between sub-tasks');
+            blocked.add(taskId);
+          }
+        }
+        break;
+      }
+
+      await Promise.race(running.values());
+    }
+
+    const result: ScheduleResult = {
+      completed: Array.from(completed),
+      failed: Array.from(failed),
+      blocked: Array.from(blocked),
+    };
+
+    this.schedulerLogger.info('Scheduling finished', {
+      completed: result.completed.length,
+      failed: result.failed.length,
+      blocked: result.blocked.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Mark every pending task that transitively depends on a failed task as blocked
+   */
+  private async blockDependents(
+    failedTask: Task,
+    graph: Map<string, Set<string>>,
+    pending: Set<string>,
+    blocked: Set<string>
+  ): Promise<void> {
+    const queue = [failedTask.id];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+
+      for (const [taskId, dependencies] of Array.from(graph.entries())) {
+        if (!dependencies.has(current) || !pending.has(taskId)) continue;
+
+        pending.delete(taskId);
+        blocked.add(taskId);
+        await this.markBlocked(taskId, `Blocked by failed dependency: "${failedTask.title}"`);
+        queue.push(taskId);
+      }
+    }
+  }
+
+  private async markBlocked(taskId: string, reason: string): Promise<void> {
+    this.schedulerLogger.info('Blocking task', { taskId, reason });
+
+    await this.taskManager.updateTask({
+      taskId,
+      status: 'blocked',
+      errorMessage: reason,
+    });
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * File Lock Manager
+ *
+ * Advisory, in-memory locks on workspace files so agents can claim a file
+ * for a sequence of edits. Locks expire after their TTL so a crashed or
+ * stuck agent never blocks a file for good; the holder can refresh a lock
+ * by acquiring it again. Changes are announced on the event bus for the
+ * dashboard.
+ */
+
+import { FileLock, MCPToolCaller } from '@mosaic/shared';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../core/logger';
+import { EventBus } from '../../core/event-bus';
+
+const DEFAULT_TTL_MS = 60 * 1000;
+const MAX_TTL_MS = 10 * 60 * 1000;
+
+export type UnlockReason = 'released' | 'expired' | 'broken';
+
+export type AcquireResult =
+  | { acquired: true; lock: FileLock }
+  | { acquired: false; heldBy: FileLock };
+
+export class FileLockManager {
+  private locks: Map<string, { lock: FileLock; timer: NodeJS.Timeout }> = new Map();
+  private eventBus?: EventBus;
+  private managerLogger = logger.child({ service: 'file-locks' });
+
+  constructor(eventBus?: EventBus) {
+    this.eventBus = eventBus;
+  }
+
+  /**
+   * Take the lock on a path, or extend it when the caller already holds it
+   */
+  async acquire(
+    path: string,
+    caller: MCPToolCaller,
+    ttlMs = DEFAULT_TTL_MS
+  ): Promise<AcquireResult> {
+    const existing = this.locks.get(path);
+    if (existing && existing.lock.agentId !== caller.agentId) {
+      return { acquired: false, heldBy: existing.lock };
+    }
+
+    const now = new Date();
+    const ttl = Math.min(Math.max(ttlMs, 1000), MAX_TTL_MS);
+    const lock: FileLock = {
+      path,
+      agentId: caller.agentId,
+      sessionId: caller.sessionId,
+      taskId: caller.taskId,
+      acquiredAt: existing?.lock.acquiredAt || now,
+      expiresAt: new Date(now.getTime() + ttl),
+    };
+
+    if (existing) clearTimeout(existing.timer);
+    const timer = setTimeout(() => {
+      this.unlock(path, 'expired').catch((error) =>
+        this.managerLogger.error('Failed to expire file lock', { path, error: error.message })
+      );
+    }, ttl);
+    timer.unref();
+    this.locks.set(path, { lock, timer });
+
+    this.managerLogger.debug(existing ? 'File lock refreshed' : 'File locked', {
+      path,
+      agentId: caller.agentId,
+      expiresAt: lock.expiresAt,
+    });
+
+    await this.publish('file.locked', { lock, refreshed: !!existing });
+    return { acquired: true, lock };
+  }
+
+  /**
+   * Release a lock held by the agent. Returns false when the agent doesn't hold it.
+   */
+  async release(path: string, agentId: string): Promise<boolean> {
+    const existing = this.locks.get(path);
+    if (!existing || existing.lock.agentId !== agentId) return false;
+
+    await this.unlock(path, 'released');
+    return true;
+  }
+
+  /**
+   * Remove a lock whoever holds it (operator action from the dashboard)
+   */
+  async breakLock(path: string): Promise<FileLock | undefined> {
+    return this.unlock(path, 'broken');
+  }
+
+  getLock(path: string): FileLock | undefined {
+    return this.locks.get(path)?.lock;
+  }
+
+  /**
+   * The lock on a path when it is held by another agent
+   */
+  heldByOther(path: string, agentId?: string): FileLock | undefined {
+    const lock = this.getLock(path);
+    return lock && lock.agentId !== agentId ? lock : undefined;
+  }
+
+  listLocks(agentId?: string): FileLock[] {
+    return Array.from(this.locks.values())
+      .map(({ lock }) => lock)
+      .filter((lock) => !agentId || lock.agentId === agentId)
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Drop every lock without announcing it (shutdown)
+   */
+  clear(): void {
+    for (const { timer } of this.locks.values()) {
+      clearTimeout(timer);
+    }
+    this.locks.clear();
+  }
+
+  private async unlock(path: string, reason: UnlockReason): Promise<FileLock | undefined> {
+    const existing = this.locks.get(path);
+    if (!existing) return undefined;
+
+    clearTimeout(existing.timer);
+    this.locks.delete(path);
+
+    this.managerLogger.debug('File unlocked', { path, agentId: existing.lock.agentId, reason });
+    await this.publish('file.unlocked', { lock: existing.lock, reason });
+    return existing.lock;
+  }
+
+  private async publish(type: string, data: Record<string, unknown>): Promise<void> {
+    if (!this.eventBus) return;
+
+    await this.eventBus.publish(type, {
+      id: uuidv4(),
+      type,
+      source: 'file-locks',
+      timestamp: new Date().toISOString(),
+      data,
+    });
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Unified Diff
+ *
+ * Line-based diff (Myers' O(ND) algorithm) rendered in the unified format
+ * used by git and patch. Very different inputs fall back to replacing every
+ * line rather than spending unbounded time searching for a minimal diff.
+ */
+
+type Op = { type: ' ' | '-' | '+'; line: string };
+
+// Edit distance beyond which inputs are treated as completely rewritten
+const MAX_EDIT_DISTANCE = 2000;
+
+export interface UnifiedDiffOptions {
+  oldLabel?: string;
+  newLabel?: string;
+  context?: number; // Unchanged lines around each change (default 3)
+}
+
+export interface UnifiedDiffResult {
+  diff: string;
+  additions: number;
+  deletions: number;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Shortest edit script between a and b, or undefined when it exceeds maxD
+ */
+function myers(a: string[], b: string[], maxD: number): Op[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxD);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    // Endpoints of the furthest d-1 paths, indexed by k + d
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Op[] {
+  const ops: Op[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: ' ', line: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: '+', line: b[prevY] });
+    } else {
+      ops.push({ type: '-', line: a[prevX] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push({ type: ' ', line: a[--x] });
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  // Common prefix and suffix don't need the full algorithm
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myers(middleA, middleB, MAX_EDIT_DISTANCE) || [
+    ...middleA.map((line): Op => ({ type: '-', line })),
+    ...middleB.map((line): Op => ({ type: '+', line })),
+  ];
+
+  return [
+    ...a.slice(0, start).map((line): Op => ({ type: ' ', line })),
+    ...middle,
+    ...a.slice(endA).map((line): Op => ({ type: ' ', line })),
+  ];
+}
+
+/**
+ * Render the differences between two texts as a unified diff
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {}
+): UnifiedDiffResult {
+  const context = options.context ?? 3;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Line counts before each op, for hunk headers
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  let additions = 0;
+  let deletions = 0;
+  for (const op of ops) {
+    oldBefore.push(oldLine);
+    newBefore.push(newLine);
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+    if (op.type === '+') additions++;
+    if (op.type === '-') deletions++;
+  }
+
+  const changes = ops.flatMap((op, i) => (op.type === ' ' ? [] : [i]));
+  if (changes.length === 0) {
+    return { diff: '', additions: 0, deletions: 0 };
+  }
+
+  // Group changes whose context would overlap into one hunk
+  const hunks: Array<[number, number]> = [];
+  for (const i of changes) {
+    const from = Math.max(0, i - context);
+    const to = Math.min(ops.length - 1, i + context);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last[1] + 1) {
+      last[1] = to;
+    } else {
+      hunks.push([from, to]);
+    }
+  }
+
+  const lines = [`--- ${options.oldLabel || 'a'}`, `+++ ${options.newLabel || 'b'}`];
+  for (const [from, to] of hunks) {
+    const slice = ops.slice(from, to + 1);
+    const oldCount = slice.filter((op) => op.type !== '+').length;
+    const newCount = slice.filter((op) => op.type !== '-').length;
+    const oldStart = oldCount > 0 ? oldBefore[from] + 1 : oldBefore[from];
+    const newStart = newCount > 0 ? newBefore[from] + 1 : newBefore[from];
+
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    lines.push(...slice.map((op) => `${op.type}${op.line}`));
+  }
+
+  return { diff: `${lines.join('\n')}\n`, additions, deletions };
+}
@@ -0,0 +1,290 @@
+/**
+ * Workspace History Service
+ *
+ * Records every change made through the filesystem MCP server. File contents
+ * are stored once per SHA-256 hash under the history directory; versions in
+ * the database reference those hashes and carry the agent, task and
+ * file_operation action that made the change, so any version can be diffed
+ * or restored.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { FileDiff, FileOperation, FileVersion, MCPToolCaller } from '@mosaic/shared';
+import { logger } from '../../core/logger';
+import { getDatabase } from '../../persistence/database';
+import {
+  FileVersionQuery,
+  FileVersionRepository,
+} from '../../persistence/repositories/file-version.repository';
+import { SessionManager } from '../session/session-manager.service';
+import { createUnifiedDiff } from './unified-diff';
+
+/**
+ * A change about to be recorded; contents are null when the file did not exist
+ */
+export interface FileChange {
+  path: string;
+  operation: FileOperation;
+  before: Buffer | null;
+  after: Buffer | null;
+  previousPath?: string;
+  caller?: MCPToolCaller;
+  metadata?: Record<string, unknown>;
+}
+
+const OPERATION_VERBS: Record<FileOperation, string> = {
+  write: 'Wrote',
+  edit: 'Edited',
+  delete: 'Deleted',
+  move: 'Moved',
+  copy: 'Copied',
+  restore: 'Restored',
+};
+
+// Agent ID recorded for changes made from the dashboard or API
+export const OPERATOR_ID = 'operator';
+
+export class WorkspaceHistory {
+  private versionRepo: FileVersionRepository;
+  private workspaceRoot: string;
+  private objectsDir: string;
+  private maxSnapshotBytes: number;
+  private sessionManager?: SessionManager;
+  private historyLogger = logger.child({ service: 'workspace-history' });
+
+  constructor(
+    workspaceRoot: string,
+    sessionManager?: SessionManager,
+    historyDir = process.env.WORKSPACE_HISTORY_DIR
+  ) {
+    this.workspaceRoot = path.resolve(workspaceRoot);
+    this.sessionManager = sessionManager;
+    // Kept outside the workspace so agents can't read or tamper with it
+    this.objectsDir = path.join(
+      historyDir || path.join(path.dirname(this.workspaceRoot), '.workspace-history'),
+      'objects'
+    );
+    this.maxSnapshotBytes =
+      parseInt(process.env.WORKSPACE_HISTORY_MAX_BYTES || '') || 10 * 1024 * 1024;
+    this.versionRepo = new FileVersionRepository(getDatabase().getDb());
+  }
+
+  /**
+   * Store the contents of a change and record who made it
+   */
+  async record(change: FileChange): Promise<FileVersion> {
+    const id = uuidv4();
+    const agentId = change.caller?.agentId || OPERATOR_ID;
+
+    const [beforeHash, afterHash] = await Promise.all([
+      this.storeBlob(change.before),
+      this.storeBlob(change.after),
+    ]);
+
+    const actionId = await this.recordAction(id, change);
+
+    const version = this.versionRepo.create({
+      id,
+      path: change.path,
+      previousPath: change.previousPath,
+      operation: change.operation,
+      beforeHash,
+      afterHash,
+      size: change.after?.length,
+      agentId,
+      sessionId: change.caller?.sessionId,
+      taskId: change.caller?.taskId,
+      actionId,
+      metadata: change.metadata,
+      createdAt: new Date(),
+    });
+
+    this.historyLogger.debug('Recorded file version', {
+      id,
+      path: change.path,
+      operation: change.operation,
+      agentId,
+    });
+
+    return version;
+  }
+
+  getHistory(query: FileVersionQuery = {}): FileVersion[] {
+    return this.versionRepo.find(query);
+  }
+
+  getVersion(id: string): FileVersion | undefined {
+    return this.versionRepo.findById(id) || undefined;
+  }
+
+  /**
+   * Read stored content by hash
+   */
+  async readContent(hash: string): Promise<Buffer> {
+    if (!/^[a-f0-9]{64}$/.test(hash)) {
+      throw new Error(`Invalid content hash: ${hash}`);
+    }
+    return fs.readFile(this.blobPath(hash));
+  }
+
+  /**
+   * Diff a version against the content before it, or against another version
+   */
+  async diff(versionId: string, againstVersionId?: string): Promise<FileDiff> {
+    const version = this.requireVersion(versionId);
+    const fromHash = againstVersionId
+      ? this.requireVersion(againstVersionId).afterHash
+      : version.beforeHash;
+    const toHash = version.afterHash;
+
+    const [from, to] = await Promise.all([
+      fromHash ? this.readContent(fromHash) : Buffer.alloc(0),
+      toHash ? this.readContent(toHash) : Buffer.alloc(0),
+    ]);
+
+    if (from.includes(0) || to.includes(0)) {
+      return {
+        path: version.path,
+        fromHash,
+        toHash,
+        binary: true,
+        diff: '',
+        additions: 0,
+        deletions: 0,
+      };
+    }
+
+    const result = createUnifiedDiff(from.toString('utf-8'), to.toString('utf-8'), {
+      oldLabel: fromHash ? `a/${version.previousPath || version.path}` : '/dev/null',
+      newLabel: toHash ? `b/${version.path}` : '/dev/null',
+    });
+
+    return { path: version.path, fromHash, toHash, binary: false, ...result };
+  }
+
+  /**
+   * Put a file back to the content a version wrote (or, for a delete, the
+   * content that was deleted). The restore is itself recorded as a version.
+   * Callers go through FilesystemMCPServer.restoreVersion, which respects locks.
+   */
+  async restore(
+    versionId: string,
+    caller?: MCPToolCaller,
+    metadata?: Record<string, unknown>
+  ): Promise<FileVersion> {
+    const version = this.requireVersion(versionId);
+    const hash = version.afterHash || version.beforeHash;
+    if (!hash) {
+      throw new Error(`Version ${versionId} has no stored content to restore`);
+    }
+
+    const content = await this.readContent(hash);
+    const fullPath = this.resolveWorkspacePath(version.path);
+
+    let before: Buffer | null = null;
+    try {
+      before = await fs.readFile(fullPath);
+    } catch {
+      // File no longer exists
+    }
+
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+
+    return this.record({
+      path: version.path,
+      operation: 'restore',
+      before,
+      after: content,
+      caller,
+      metadata,
+    });
+  }
+
+  private requireVersion(id: string): FileVersion {
+    const version = this.versionRepo.findById(id);
+    if (!version) {
+      throw new Error(`Version ${id} not found`);
+    }
+    return version;
+  }
+
+  /**
+   * Write content to the object store once; undefined when there is nothing to keep
+   */
+  private async storeBlob(content: Buffer | null): Promise<string | undefined> {
+    if (!content) return undefined;
+
+    if (content.length > this.maxSnapshotBytes) {
+      this.historyLogger.warn('File too large to snapshot', {
+        size: content.length,
+        maxSnapshotBytes: this.maxSnapshotBytes,
+      });
+      return undefined;
+    }
+
+    const hash = createHash('sha256').update(content).digest('hex');
+    const blobPath = this.blobPath(hash);
+
+    try {
+      await fs.access(blobPath);
+    } catch {
+      await fs.mkdir(path.dirname(blobPath), { recursive: true });
+      // Write then rename so a crash never leaves a truncated object behind
+      const tempPath = `${blobPath}.${uuidv4()}.tmp`;
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, blobPath);
+    }
+
+    return hash;
+  }
+
+  private blobPath(hash: string): string {
+    return path.join(this.objectsDir, hash.slice(0, 2), hash);
+  }
+
+  /**
+   * Record a file_operation action for agents working in a session
+   */
+  private async recordAction(versionId: string, change: FileChange): Promise<string | undefined> {
+    const caller = change.caller;
+    if (!this.sessionManager || !caller?.sessionId) return undefined;
+
+    try {
+      const action = await this.sessionManager.recordAction(
+        caller.sessionId,
+        caller.agentId,
+        'file_operation',
+        `${OPERATION_VERBS[change.operation]} ${change.path}`,
+        {
+          tool: 'filesystem',
+          metadata: {
+            path: change.path,
+            previousPath: change.previousPath,
+            operation: change.operation,
+            versionId,
+          },
+        },
+        caller.taskId
+      );
+      await this.sessionManager.completeAction(action.id, 'completed');
+      return action.id;
+    } catch (error: any) {
+      this.historyLogger.warn('Failed to record file operation', { error: error.message });
+      return undefined;
+    }
+  }
+
+  private resolveWorkspacePath(relativePath: string): string {
+    const fullPath = path.resolve(this.workspaceRoot, relativePath);
+
+    if (fullPath !== this.workspaceRoot && !fullPath.startsWith(this.workspaceRoot + path.sep)) {
+      throw new Error('Path outside workspace is not allowed');
+    }
+
+    return fullPath;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Minimal MCP server over stdio for the external server adapter tests
+ */
+const { McpServer } = require('@modelcontextprotocol/sdk/server/mcp.js');
+const { StdioServerTransport } = require('@modelcontextprotocol/sdk/server/stdio.js');
+const { z } = require('zod');
+
+const server = new McpServer({ name: 'echo', version: '1.2.3' });
+
+server.registerTool(
+  'echo',
+  { description: 'Echo text back', inputSchema: { text: z.string() } },
+  async ({ text }) => ({ content: [{ type: 'text', text }] })
+);
+
+server.registerTool('fail', { description: 'Always fails' }, async () => ({
+  isError: true,
+  content: [{ type: 'text', text: 'something went wrong' }],
+}));
+
+// Registering a tool after connecting announces tools/list_changed
+server.registerTool(
+  'add_tool',
+  { description: 'Register another tool', inputSchema: { name: z.string() } },
+  async ({ name }) => {
+    server.registerTool(name, { description: 'Added at runtime' }, async () => ({
+      content: [{ type: 'text', text: name }],
+    }));
+    return { content: [{ type: 'text', text: `added ${name}` }] };
+  }
+);
+
+server.registerResource(
+  'welcome',
+  'note://welcome',
+  { description: 'Welcome note', mimeType: 'text/markdown' },
+  async (uri) => ({ contents: [{ uri: uri.href, mimeType: 'text/markdown', text: '# Hello' }] })
+);
+
+server.registerPrompt(
+  'review',
+  { description: 'Review a file', argsSchema: { file: z.string() } },
+  ({ file }) => ({
+    messages: [{ role: 'user', content: { type: 'text', text: `Please review ${file}` } }],
+  })
+);
+
+server.connect(new StdioServerTransport());
@@ -0,0 +1,59 @@
+/**
+ * In-memory SQLite database with the real schema, for tests of repositories
+ * and the services built on them
+ */
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../../src/persistence/database';
+import { AgentRecord, AgentRepository } from '../../src/persistence/repositories/agent.repository';
+import { MemoryRepository } from '../../src/persistence/repositories/memory.repository';
+
+export interface TestDatabase {
+  db: Database.Database;
+  agents: AgentRepository;
+  memories: MemoryRepository;
+  close(): Promise<void>;
+}
+
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const service = new DatabaseService(':memory:');
+  await service.initialize();
+  const db = service.getDb();
+
+  // Tests add rows without the sessions and tasks they refer to
+  db.pragma('foreign_keys = OFF');
+
+  return {
+    db,
+    agents: new AgentRepository(db),
+    memories: new MemoryRepository(db),
+    close: () => service.close(),
+  };
+}
+
+/**
+ * Agent record with the required .af fields filled in
+ */
+export function agentRecord(id: string, overrides: Partial<AgentRecord> = {}): AgentRecord {
+  const now = new Date().toISOString();
+
+  return {
+    id,
+    name: id,
+    agent_type: 'langgraph-agent',
+    version: '1.0.0',
+    system: '',
+    llm_config: { model: 'test-model', model_endpoint_type: 'anthropic', context_window: 8192 },
+    embedding_config: {},
+    core_memory: [],
+    messages: [],
+    in_context_message_indices: [],
+    message_buffer_autoclear: false,
+    tools: [],
+    tool_rules: [],
+    tool_exec_environment_variables: [],
+    tags: [],
+    created_at: now,
+    updated_at: now,
+    ...overrides,
+  };
+}
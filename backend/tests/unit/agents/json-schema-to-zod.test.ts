@@ -0,0 +1,157 @@
+import { toJsonSchema } from '@langchain/core/utils/json_schema';
+import { MCPServerPlugin } from '@mosaic/shared';
+import {
+  jsonSchemaToZod,
+  toolInputSchemaToZod,
+} from '../../../src/agents/utils/json-schema-to-zod';
+import { convertMCPToLangChainTools } from '../../../src/agents/utils/mcp-to-langchain';
+
+// A tool schema using most of what MCP servers send
+const ISSUE_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1, maxLength: 80, description: 'Issue title' },
+    state: { type: 'string', enum: ['open', 'closed'], default: 'open' },
+    priority: { type: 'integer', minimum: 1, maximum: 5 },
+    labels: { type: 'array', items: { type: 'string' }, maxItems: 3, uniqueItems: true },
+    assignee: {
+      type: 'object',
+      properties: { login: { type: 'string', pattern: '^[a-z]+$' } },
+      required: ['login'],
+      additionalProperties: false,
+    },
+    due: { type: 'string', format: 'date' },
+    milestone: { oneOf: [{ type: 'integer' }, { type: 'string', format: 'uuid' }] },
+    note: { type: ['string', 'null'] },
+  },
+  required: ['title'],
+};
+
+describe('jsonSchemaToZod', () => {
+  const schema = toolInputSchemaToZod(ISSUE_SCHEMA);
+
+  it('should accept valid input and apply defaults', () => {
+    const result = schema.parse({
+      title: 'Crash on start',
+      priority: 2,
+      labels: ['bug'],
+      assignee: { login: 'ada' },
+      due: '2024-05-01',
+      milestone: 7,
+      note: null,
+    });
+
+    expect(result.state).toBe('open');
+  });
+
+  it.each([
+    [{}, 'title'],
+    [{ title: '' }, 'title'],
+    [{ title: 'x', state: 'stale' }, 'state'],
+    [{ title: 'x', priority: 1.5 }, 'priority'],
+    [{ title: 'x', priority: 9 }, 'priority'],
+    [{ title: 'x', labels: ['a', 'a'] }, 'labels'],
+    [{ title: 'x', assignee: { login: 'Ada' } }, 'assignee.login'],
+    [{ title: 'x', assignee: { login: 'ada', admin: true } }, 'assignee'],
+    [{ title: 'x', due: 'tomorrow' }, 'due'],
+    [{ title: 'x', milestone: 'v2' }, 'milestone'],
+    [{ title: 'x', note: 3 }, 'note'],
+  ])('should reject %j at %s', (input, path) => {
+    const result = schema.safeParse(input);
+
+    expect(result.success).toBe(false);
+    expect(result.error!.issues.map((issue) => issue.path.join('.'))).toContain(path);
+  });
+
+  it('should keep the constraints in the JSON Schema the LLM sees', () => {
+    const roundTrip = toJsonSchema(schema) as any;
+
+    expect(roundTrip.required).toEqual(['title']);
+    expect(roundTrip.properties).toMatchObject({
+      title: { type: 'string', minLength: 1, maxLength: 80, description: 'Issue title' },
+      state: { type: 'string', enum: ['open', 'closed'], default: 'open' },
+      priority: { type: 'integer', minimum: 1, maximum: 5 },
+      labels: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+      assignee: {
+        type: 'object',
+        properties: { login: { type: 'string', pattern: '^[a-z]+$' } },
+        required: ['login'],
+        additionalProperties: false,
+      },
+      due: { type: 'string', format: 'date' },
+      milestone: { anyOf: [{ type: 'integer' }, { type: 'string', format: 'uuid' }] },
+      note: { type: ['string', 'null'] },
+    });
+  });
+
+  it('should resolve recursive $refs', () => {
+    const tree = jsonSchemaToZod({
+      $ref: '#/$defs/node',
+      $defs: {
+        node: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/$defs/node' } },
+          },
+          required: ['name'],
+        },
+      },
+    });
+
+    expect(tree.safeParse({ name: 'a', children: [{ name: 'b', children: [] }] }).success).toBe(
+      true
+    );
+    expect(tree.safeParse({ name: 'a', children: [{ children: [] }] }).success).toBe(false);
+  });
+
+  it('should merge allOf objects and support tuples, consts and exclusive bounds', () => {
+    const merged = toolInputSchemaToZod({
+      allOf: [
+        { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+        { type: 'object', properties: { b: { const: 1 } } },
+      ],
+    });
+    const point = jsonSchemaToZod({
+      type: 'array',
+      prefixItems: [{ type: 'number', exclusiveMinimum: 0 }, { type: 'number' }],
+      items: false,
+    });
+
+    expect(merged.safeParse({ a: 'x', b: 1 }).success).toBe(true);
+    expect(merged.safeParse({ a: 'x', b: 2 }).success).toBe(false);
+    expect(point.safeParse([1, 2]).success).toBe(true);
+    expect(point.safeParse([0, 2]).success).toBe(false);
+    expect(point.safeParse([1, 2, 3]).success).toBe(false);
+  });
+
+  it('should fall back to any object for non-object tool schemas', () => {
+    expect(toolInputSchemaToZod(undefined).parse({ x: 1 })).toEqual({ x: 1 });
+  });
+});
+
+describe('convertMCPToLangChainTools', () => {
+  it('should return invalid arguments to the agent as a structured error', async () => {
+    const server = {
+      name: 'github',
+      getTools: () => [
+        { name: 'create_issue', description: 'Open an issue', inputSchema: ISSUE_SCHEMA },
+      ],
+      invokeTool: jest.fn(async () => ({ success: true, data: { number: 1 } })),
+    } as unknown as MCPServerPlugin & { invokeTool: jest.Mock };
+    const [tool] = convertMCPToLangChainTools([server]);
+
+    const invalid = JSON.parse(await tool.invoke({ title: 'x', priority: 'high' }));
+    const valid = JSON.parse(await tool.invoke({ title: 'x' }));
+
+    expect(invalid).toEqual({
+      success: false,
+      error: 'Invalid arguments for github_create_issue',
+      data: { issues: [{ path: 'priority', message: 'Expected number, received string' }] },
+    });
+    expect(server.invokeTool).toHaveBeenCalledTimes(1);
+    expect(server.invokeTool).toHaveBeenCalledWith('create_issue', { title: 'x', state: 'open' });
+    expect(valid.success).toBe(true);
+    expect(toJsonSchema(tool.schema)).toMatchObject({ type: 'object', required: ['title'] });
+  });
+});
@@ -0,0 +1,320 @@
+import path from 'path';
+import { MCPServerPlugin, Task } from '@mosaic/shared';
+import { TaskOrientedAgent } from '../../../src/agents/task-oriented-agent';
+import { createEventBus, EventBus } from '../../../src/core/event-bus';
+import { AgentMessageBus } from '../../../src/core/agent-message-bus';
+import { MockLLMFixture, MockLLMProvider } from '../../../src/llm/mock-provider';
+import { TaskManager } from '../../../src/services/task/task-manager.service';
+import { SessionManager } from '../../../src/services/session/session-manager.service';
+
+// Keep tasks in memory instead of SQLite
+jest.mock('../../../src/persistence/database', () => ({
+  getDatabase: () => ({ getDb: () => ({}) }),
+}));
+
+jest.mock('../../../src/persistence/repositories/task.repository', () => ({
+  TaskRepository: class {
+    private tasks = new Map<string, unknown>();
+    save(task: { id: string }) {
+      this.tasks.set(task.id, task);
+    }
+    findById(id: string) {
+      return this.tasks.get(id) || null;
+    }
+    list() {
+      return Array.from(this.tasks.values());
+    }
+    delete(id: string) {
+      return this.tasks.delete(id);
+    }
+  },
+}));
+
+jest.mock('../../../src/services/memory/memory-manager.service', () => ({
+  getMemoryManager: () => ({}),
+}));
+
+const FIXTURES = path.join(__dirname, '../../fixtures/llm');
+
+describe('TaskOrientedAgent', () => {
+  let eventBus: EventBus;
+  let taskManager: TaskManager;
+  let sessionManager: SessionManager;
+  let notesServer: MCPServerPlugin & { invokeTool: jest.Mock };
+
+  const createAgent = (provider: MockLLMProvider, maxDepth?: number) =>
+    new TaskOrientedAgent({
+      name: 'Test Agent',
+      llmProvider: provider,
+      mcpServers: [notesServer],
+      eventBus,
+      taskManager,
+      sessionManager,
+      sessionId: 'session-1',
+      maxDepth,
+    });
+
+  const createTask = (title: string): Promise<Task> =>
+    taskManager.createTask({ title, description: `Please ${title.toLowerCase()}`, createdBy: 'test' });
+
+  const inlineProvider = (fixture: MockLLMFixture) => new MockLLMProvider({ fixture });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    eventBus = createEventBus({ transport: 'memory' });
+    await eventBus.connect();
+    taskManager = new TaskManager(eventBus);
+
+    let actionCount = 0;
+    sessionManager = {
+      recordAction: jest.fn(async () => ({ id: `action-${++actionCount}` })),
+      completeAction: jest.fn(async () => undefined),
+      recordLLMUsage: jest.fn(async () => undefined),
+    } as unknown as SessionManager;
+
+    notesServer = {
+      name: 'notes',
+      version: '1.0.0',
+      type: 'mcp-server',
+      metadata: { author: 'test', description: 'Notes' },
+      initialize: async () => undefined,
+      shutdown: async () => undefined,
+      getTools: () => [
+        {
+          name: 'write',
+          description: 'Save a note',
+          inputSchema: {
+            type: 'object',
+            properties: { name: { type: 'string' }, text: { type: 'string' } },
+            required: ['name', 'text'],
+          },
+        },
+      ],
+      invokeTool: jest.fn(async (_name: string, params: { name: string }) => ({
+        success: true,
+        data: { message: `Saved ${params.name}` },
+      })),
+    } as unknown as MCPServerPlugin & { invokeTool: jest.Mock };
+  });
+
+  afterEach(async () => {
+    await eventBus.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  describe('Decomposition', () => {
+    it('should decompose, schedule and execute sub-tasks from a scripted run', async () => {
+      const provider = new MockLLMProvider({
+        fixturePath: path.join(FIXTURES, 'decompose-and-execute.json'),
+      });
+      const agent = createAgent(provider);
+      const root = await createTask('Launch the newsletter');
+      agent.metadata.rootTask = root;
+
+      await agent.start();
+
+      expect(provider.getUnexpectedPrompts()).toEqual([]);
+      expect(provider.getPendingResponses()).toEqual([]);
+
+      const updatedRoot = taskManager.getTask(root.id)!;
+      expect(updatedRoot.status).toBe('completed');
+      expect(updatedRoot.childTaskIds).toHaveLength(2);
+
+      const [write, publish] = updatedRoot.childTaskIds.map((id) => taskManager.getTask(id)!);
+      expect(write.id).not.toBe('llm-made-up-id');
+      expect(write.title).toBe('Write the first issue');
+      expect(publish.metadata.dependencies).toEqual([write.id]);
+      expect([write.status, publish.status]).toEqual(['completed', 'completed']);
+    });
+
+    it('should feed tool results back into the next planning step', async () => {
+      const provider = new MockLLMProvider({
+        fixturePath: path.join(FIXTURES, 'decompose-and-execute.json'),
+      });
+      const agent = createAgent(provider);
+      agent.metadata.rootTask = await createTask('Launch the newsletter');
+
+      await agent.start();
+
+      expect(notesServer.invokeTool).toHaveBeenCalledTimes(1);
+      expect(notesServer.invokeTool).toHaveBeenCalledWith(
+        'write',
+        { name: 'issue-1.md', text: 'Welcome to the newsletter' },
+        expect.objectContaining({ agentId: agent.id, sessionId: 'session-1' })
+      );
+
+      const secondStep = provider
+        .getCalls()
+        .find((call) =>
+          call.request.messages.some((m) => m.content?.includes('Current step: 2/100'))
+        )!;
+      const toolMessage = secondStep.request.messages.find((m) => m.role === 'tool');
+      expect(toolMessage?.content).toContain('Saved issue-1.md');
+    });
+
+    it('should fail the task when the decomposition is not valid JSON', async () => {
+      const provider = inlineProvider({
+        responses: [
+          { contains: 'Should this task be decomposed', content: 'decompose' },
+          { contains: 'expert strategic planner', content: 'Sorry, I cannot plan this.' },
+        ],
+      });
+      const agent = createAgent(provider);
+      const root = await createTask('Plan everything');
+      agent.metadata.rootTask = root;
+
+      await expect(agent.start()).rejects.toThrow(SyntaxError);
+      expect(taskManager.getTask(root.id)!.status).toBe('failed');
+    });
+  });
+
+  describe('shouldDecomposeTask', () => {
+    it('should not ask the LLM once the maximum depth is reached', async () => {
+      const provider = inlineProvider({ responses: [] });
+      const agent = createAgent(provider, 2);
+      const task = await createTask('Deep task');
+
+      const result = await (agent as any).shouldDecomposeTask(task, 2);
+
+      expect(result).toBe(false);
+      expect(provider.getCalls()).toHaveLength(0);
+    });
+
+    it.each([
+      ['decompose', true],
+      ['  Decompose.  ', true],
+      ['execute', false],
+      ['I would execute this directly', false],
+    ])('should treat "%s" as decompose=%s', async (content, expected) => {
+      const provider = inlineProvider({ responses: [{ content }] });
+      const agent = createAgent(provider);
+      const task = await createTask('Some task');
+
+      expect(await (agent as any).shouldDecomposeTask(task, 0)).toBe(expected);
+    });
+  });
+
+  describe('planNextAction', () => {
+    const planWith = async (content: string) => {
+      const provider = inlineProvider({ responses: [{ content }] });
+      const agent = createAgent(provider);
+      const task = await createTask('Plan a step');
+      return (agent as any).planNextAction(task, [], 1, []);
+    };
+
+    it('should parse JSON inside a fenced code block without a language tag', async () => {
+      const action = await planWith('```\n{"action": "Fenced", "reasoning": "r", "complete": true}\n```');
+
+      expect(action).toEqual({ action: 'Fenced', reasoning: 'r', complete: true });
+    });
+
+    it('should extract a JSON object surrounded by prose', async () => {
+      const action = await planWith(
+        'Next I will write.\n{"action": "Write", "reasoning": "r", "complete": false, "tool": "notes.write", "params": {"name": "a"}}\nDone.'
+      );
+
+      expect(action.tool).toBe('notes.write');
+      expect(action.params).toEqual({ name: 'a' });
+    });
+
+    it('should record the token usage of the call against the task', async () => {
+      const provider = inlineProvider({
+        responses: [
+          {
+            json: { action: 'Done', reasoning: 'r', complete: true },
+            usage: { promptTokens: 120, completionTokens: 30, totalTokens: 150 },
+          },
+        ],
+      });
+      const agent = createAgent(provider);
+      const task = await createTask('Plan a step');
+
+      await (agent as any).planNextAction(task, [], 1, []);
+
+      expect(sessionManager.recordLLMUsage).toHaveBeenCalledWith(
+        'session-1',
+        agent.id,
+        expect.objectContaining({
+          provider: 'mock-provider',
+          usage: { promptTokens: 120, completionTokens: 30, totalTokens: 150 },
+        }),
+        task.id
+      );
+    });
+
+    it('should fall back to a no-op action when the response is not JSON', async () => {
+      const action = await planWith('{ this is not json }');
+
+      expect(action).toEqual({
+        action: 'Unable to plan next action',
+        reasoning: 'LLM response was not valid JSON',
+        complete: false,
+      });
+    });
+  });
+
+  describe('send_message_to_agent', () => {
+    let messageBus: AgentMessageBus;
+
+    beforeEach(() => {
+      messageBus = new AgentMessageBus(eventBus);
+      messageBus.register('agent-b', (message) => ({ answer: `re: ${message.payload.content}` }));
+    });
+
+    afterEach(() => {
+      messageBus.shutdown();
+    });
+
+    const messagingAgent = (enabled?: boolean) =>
+      new TaskOrientedAgent({
+        name: 'Messenger',
+        llmProvider: inlineProvider({ responses: [] }),
+        mcpServers: [notesServer],
+        eventBus,
+        taskManager,
+        sessionManager,
+        sessionId: 'session-1',
+        messageBus,
+        permissions:
+          enabled === undefined ? undefined : ({ agentCommunication: { enabled } } as any),
+      });
+
+    it('should ask another agent and return its reply', async () => {
+      const agent = messagingAgent();
+      const task = await createTask('Ask a colleague');
+
+      const result = await (agent as any).executeTool(
+        'send_message_to_agent',
+        { to: 'agent-b', type: 'query', content: 'status?' },
+        task.id
+      );
+
+      expect(result).toEqual({
+        success: true,
+        data: { from: 'agent-b', reply: { answer: 're: status?' } },
+      });
+      expect(sessionManager.recordAction).toHaveBeenCalledWith(
+        'session-1',
+        agent.id,
+        'tool_invoked',
+        'Using send_message_to_agent',
+        expect.anything(),
+        task.id
+      );
+    });
+
+    it('should not offer the tool when agent communication is disabled', async () => {
+      const agent = messagingAgent(false);
+      const task = await createTask('Ask a colleague');
+
+      await expect(
+        (agent as any).executeTool(
+          'send_message_to_agent',
+          { to: 'agent-b', type: 'notification', content: 'hi' },
+          task.id
+        )
+      ).rejects.toThrow('not found');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import express from 'express';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { EventBus, createEvent } from '../../../src/core/event-bus';
+import { EventLog } from '../../../src/core/event-log';
+import { InMemoryEventTransport } from '../../../src/core/event-transport';
+import { createEventRoutes } from '../../../src/api/routes/event.routes';
+import {
+  EventLogRepository,
+  LoggedEvent,
+} from '../../../src/persistence/repositories/event-log.repository';
+import { TestDatabase, createTestDatabase } from '../../helpers/test-database';
+
+interface EventsResponse {
+  success: boolean;
+  data: LoggedEvent[];
+  latestSeq: number;
+  error?: string;
+}
+
+describe('GET /api/events', () => {
+  let database: TestDatabase;
+  let bus: EventBus;
+  let httpServer: http.Server;
+  let baseUrl: string;
+
+  const get = async (query = '') => {
+    const response = await fetch(`${baseUrl}/api/events${query}`);
+    return { status: response.status, body: (await response.json()) as EventsResponse };
+  };
+
+  const serve = async (eventBus: EventBus) => {
+    const app = express();
+    app.use('/api/events', createEventRoutes(eventBus));
+    httpServer = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => httpServer.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  };
+
+  beforeEach(async () => {
+    database = await createTestDatabase();
+    bus = new EventBus(
+      new InMemoryEventTransport(),
+      new EventLog(new EventLogRepository(database.db))
+    );
+    await bus.connect();
+    await serve(bus);
+
+    for (const channel of ['task.created', 'action.recorded', 'task.updated']) {
+      await bus.publish(channel, createEvent(channel, 'test', {}));
+    }
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+    await bus.disconnect();
+    await database.close();
+  });
+
+  it('should replay events after the given sequence number', async () => {
+    const { status, body } = await get('?since=1');
+
+    expect(status).toBe(200);
+    expect(body.latestSeq).toBe(3);
+    expect(body.data.map((logged) => [logged.channel, logged.event.seq])).toEqual([
+      ['action.recorded', 2],
+      ['task.updated', 3],
+    ]);
+  });
+
+  it('should filter by channel globs and limit the count', async () => {
+    const { body } = await get('?channels=task.*&limit=1');
+
+    expect(body.data.map((logged) => logged.event.seq)).toEqual([1]);
+  });
+
+  it('should answer 404 when the bus has no event log', async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+    await serve(new EventBus(new InMemoryEventTransport()));
+
+    const { status, body } = await get();
+
+    expect(status).toBe(404);
+    expect(body.error).toBe('Event log not enabled');
+  });
+});
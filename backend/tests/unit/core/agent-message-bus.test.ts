@@ -0,0 +1,40 @@
+import { EventBus } from '../../../src/core/event-bus';
+import { InMemoryEventTransport } from '../../../src/core/event-transport';
+import { AgentMessageBus, OPERATOR } from '../../../src/core/agent-message-bus';
+
+describe('AgentMessageBus', () => {
+  let eventBus: EventBus;
+  let messageBus: AgentMessageBus;
+
+  beforeEach(async () => {
+    eventBus = new EventBus(new InMemoryEventTransport());
+    await eventBus.connect();
+    messageBus = new AgentMessageBus(eventBus);
+    messageBus.register('agent-a', (message) => `re: ${message.payload.content}`, {
+      allowedAgents: ['agent-b'],
+    });
+  });
+
+  afterEach(async () => {
+    messageBus.shutdown();
+    await eventBus.disconnect();
+  });
+
+  it('should answer the operator regardless of allowedAgents', async () => {
+    const response = await messageBus.request(
+      { from: OPERATOR, to: 'agent-a', type: 'query', payload: { content: 'status?' } },
+      1000
+    );
+
+    expect(response.payload).toBe('re: status?');
+  });
+
+  it('should drop requests from agents outside allowedAgents', async () => {
+    await expect(
+      messageBus.request(
+        { from: 'agent-c', to: 'agent-a', type: 'query', payload: { content: 'status?' } },
+        100
+      )
+    ).rejects.toThrow('No response from agent-a within 100ms');
+  });
+});
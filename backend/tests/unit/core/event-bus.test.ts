@@ -0,0 +1,139 @@
+import { SystemEvent } from '@mosaic/shared';
+import { EventBus, createEvent } from '../../../src/core/event-bus';
+import { EventLog } from '../../../src/core/event-log';
+import { InMemoryEventTransport, globToRegExp } from '../../../src/core/event-transport';
+import { EventLogRepository } from '../../../src/persistence/repositories/event-log.repository';
+import { TestDatabase, createTestDatabase } from '../../helpers/test-database';
+
+// The in-memory transport delivers on setImmediate
+const delivered = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('EventBus', () => {
+  let database: TestDatabase;
+  let eventLog: EventLog;
+  let bus: EventBus;
+
+  const publish = (channel: string, type = channel) =>
+    bus.publish(channel, createEvent(type, 'test', { channel }));
+
+  beforeEach(async () => {
+    database = await createTestDatabase();
+    eventLog = new EventLog(new EventLogRepository(database.db));
+    bus = new EventBus(new InMemoryEventTransport(), eventLog);
+    await bus.connect();
+  });
+
+  afterEach(async () => {
+    await bus.disconnect();
+    await database.close();
+  });
+
+  describe('pattern subscriptions', () => {
+    it('should only deliver events on channels matching the pattern', async () => {
+      const tasks: string[] = [];
+      const agents: string[] = [];
+      bus.subscribePattern('task.*', (event) => {
+        tasks.push(event.type);
+      });
+      bus.subscribePattern('agent.*', (event) => {
+        agents.push(event.type);
+      });
+
+      await publish('task.updated');
+      await publish('agent.started');
+      await publish('session.created');
+      await delivered();
+
+      expect(tasks).toEqual(['task.updated']);
+      expect(agents).toEqual(['agent.started']);
+    });
+
+    it('should deliver once to channel and pattern subscribers alike', async () => {
+      const received: string[] = [];
+      bus.subscribe('task.updated', () => {
+        received.push('channel');
+      });
+      bus.subscribePattern('task.*', () => {
+        received.push('pattern');
+      });
+
+      await publish('task.updated');
+      await delivered();
+
+      expect(received.sort()).toEqual(['channel', 'pattern']);
+    });
+
+    it('should stop delivering after the last handler unsubscribes', async () => {
+      const received: SystemEvent[] = [];
+      const unsubscribe = bus.subscribePattern('task.*', (event) => {
+        received.push(event);
+      });
+
+      unsubscribe();
+      await publish('task.updated');
+      await delivered();
+
+      expect(received).toEqual([]);
+    });
+
+    it('should translate Redis globs', () => {
+      expect(globToRegExp('task.*').test('task.updated')).toBe(true);
+      expect(globToRegExp('task.*').test('taskXupdated')).toBe(false);
+      expect(globToRegExp('agent.?').test('agent.1')).toBe(true);
+      expect(globToRegExp('agent.[^m]*').test('agent.message.a')).toBe(false);
+      expect(globToRegExp('a\\*').test('a*')).toBe(true);
+    });
+  });
+
+  describe('event log', () => {
+    it('should stamp logged events with increasing sequence numbers', async () => {
+      const received: SystemEvent[] = [];
+      bus.subscribePattern('*', (event) => {
+        received.push(event);
+      });
+
+      await publish('task.created');
+      await publish('agent.token');
+      await publish('action.recorded');
+      await delivered();
+
+      expect(received.map((event) => [event.type, event.seq])).toEqual([
+        ['task.created', 1],
+        ['agent.token', undefined],
+        ['action.recorded', 2],
+      ]);
+      expect(eventLog.getLatestSeq()).toBe(2);
+    });
+
+    it('should replay events after a sequence number, filtered by channel', async () => {
+      await publish('task.created');
+      await publish('task.updated');
+      await publish('action.recorded');
+      await publish('task.updated');
+
+      const replayed = eventLog.replayFrom(1, { channels: ['task.*'] });
+
+      expect(replayed.map(({ channel, event }) => [channel, event.seq])).toEqual([
+        ['task.updated', 2],
+        ['task.updated', 4],
+      ]);
+      expect(replayed[0].event).toMatchObject({
+        source: 'test',
+        data: { channel: 'task.updated' },
+      });
+      expect(eventLog.replayFrom(0, { limit: 2 }).map(({ event }) => event.seq)).toEqual([1, 2]);
+    });
+
+    it('should keep only the most recent events', async () => {
+      const small = new EventLog(new EventLogRepository(database.db), { retention: 10 });
+
+      for (let i = 0; i < 500; i++) {
+        small.append('task.updated', createEvent('task.updated', 'test', { i }));
+      }
+
+      const kept = small.replayFrom(0);
+      expect(kept).toHaveLength(10);
+      expect(kept[0].event.seq).toBe(491);
+    });
+  });
+});
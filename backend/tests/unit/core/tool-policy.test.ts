@@ -0,0 +1,339 @@
+import { MCPServerPlugin } from '@mosaic/shared';
+import { ToolPolicy } from '../../../src/core/tool-policy';
+import { SessionManager } from '../../../src/services/session/session-manager.service';
+import { ApprovalManager } from '../../../src/services/approval/approval-manager.service';
+
+describe('ToolPolicy', () => {
+  const serverNamed = (name: string) =>
+    ({
+      name,
+      getTools: () => [],
+      invokeTool: jest.fn(async () => ({ success: true })),
+    }) as unknown as MCPServerPlugin & { invokeTool: jest.Mock };
+
+  describe('check', () => {
+    it('should allow everything when no permissions are set', () => {
+      const policy = new ToolPolicy();
+
+      expect(policy.check('filesystem', 'delete_file', { path: 'a.txt' })).toBeUndefined();
+      expect(
+        policy.check('browser', 'navigate_to', { url: 'https://example.com' })
+      ).toBeUndefined();
+    });
+
+    it.each([
+      ['read_file', { read: false }, 'filesystem read access is not allowed'],
+      ['list_files', { read: false }, 'filesystem read access is not allowed'],
+      ['write_file', { write: false }, 'filesystem write access is not allowed'],
+      ['create_directory', { write: false }, 'filesystem write access is not allowed'],
+      ['delete_file', { delete: false }, 'filesystem delete access is not allowed'],
+    ])('should deny %s when %j', (tool, filesystem, reason) => {
+      const policy = new ToolPolicy({ filesystem });
+
+      expect(policy.check('filesystem', tool, { path: 'notes.md' })).toBe(reason);
+    });
+
+    it('should require both write and delete access to move a file', () => {
+      const move = { source: 'notes.md', destination: 'archive/notes.md' };
+
+      expect(
+        new ToolPolicy({ filesystem: { delete: false } }).check('filesystem', 'move_file', move)
+      ).toBe('filesystem delete access is not allowed');
+      expect(
+        new ToolPolicy({ filesystem: { write: false } }).check('filesystem', 'move_file', move)
+      ).toBe('filesystem write access is not allowed');
+      expect(
+        new ToolPolicy({ filesystem: { delete: false } }).check('filesystem', 'copy_file', move)
+      ).toBeUndefined();
+    });
+
+    it('should restrict filesystem tools to the allowed paths', () => {
+      const policy = new ToolPolicy({ filesystem: { allowedPaths: ['reports', './drafts/'] } });
+
+      expect(policy.check('filesystem', 'write_file', { path: 'reports/q1.md' })).toBeUndefined();
+      expect(policy.check('filesystem', 'read_file', { path: './drafts' })).toBeUndefined();
+      expect(policy.check('filesystem', 'read_file', { path: 'reports-old/q1.md' })).toContain(
+        'outside the allowed paths'
+      );
+      expect(policy.check('filesystem', 'read_file', { path: 'reports/../secrets.txt' })).toContain(
+        'outside the allowed paths'
+      );
+      expect(policy.check('filesystem', 'list_files', {})).toContain('outside the allowed paths');
+    });
+
+    it('should check every path a tool touches', () => {
+      const policy = new ToolPolicy({ filesystem: { allowedPaths: ['reports'] } });
+
+      expect(
+        policy.check('filesystem', 'move_file', { source: 'reports/a.md', destination: 'b.md' })
+      ).toBe('path "b.md" is outside the allowed paths');
+    });
+
+    it('should restrict navigation to allowed domains and their subdomains', () => {
+      const policy = new ToolPolicy({ browser: { allowedDomains: ['example.com'] } });
+
+      expect(
+        policy.check('browser', 'navigate_to', { url: 'https://docs.example.com/a' })
+      ).toBeUndefined();
+      expect(policy.check('browser', 'navigate_to', { url: 'https://notexample.com' })).toBe(
+        'https://notexample.com is not in the allowed domains'
+      );
+      expect(policy.check('browser', 'capture_screenshot', { sessionId: 's1' })).toBeUndefined();
+    });
+
+    it('should deny every browser tool when the browser is disabled', () => {
+      const policy = new ToolPolicy({ browser: { enabled: false } });
+
+      expect(policy.check('browser', 'get_page_content', { sessionId: 's1' })).toBe(
+        'browser access is not allowed'
+      );
+    });
+
+    it('should enforce memory read and write separately', () => {
+      const policy = new ToolPolicy({ memory: { read: true, write: false } });
+
+      expect(policy.check('memory', 'search_memory', {})).toBeUndefined();
+      expect(policy.check('memory', 'save_memory', {})).toBe('memory write access is not allowed');
+    });
+
+    it('should only allow local code execution when it is granted', () => {
+      expect(new ToolPolicy().checkCodeExecution(false)).toBe('code execution is not allowed');
+      expect(new ToolPolicy().checkCodeExecution(true)).toBeUndefined();
+
+      const granted = new ToolPolicy({ codeExecution: { enabled: true } });
+      expect(granted.checkCodeExecution(false)).toBeUndefined();
+
+      const revoked = new ToolPolicy({ codeExecution: { enabled: false } });
+      expect(revoked.checkCodeExecution(true)).toBe('code execution is not allowed');
+    });
+  });
+
+  describe('invoke', () => {
+    it('should pass the caller through to allowed tools', async () => {
+      const server = serverNamed('filesystem');
+      const policy = new ToolPolicy({ filesystem: { read: true } });
+      const caller = { agentId: 'agent-1', sessionId: 'session-1' };
+
+      await policy.invoke(server, 'read_file', { path: 'a.md' }, caller);
+
+      expect(server.invokeTool).toHaveBeenCalledWith('read_file', { path: 'a.md' }, caller);
+    });
+
+    it('should record denials as agent errors without invoking the tool', async () => {
+      const server = serverNamed('filesystem');
+      const sessionManager = {
+        recordAction: jest.fn(async () => ({ id: 'action-1' })),
+        completeAction: jest.fn(async () => undefined),
+      };
+      const policy = new ToolPolicy(
+        { filesystem: { delete: false } },
+        sessionManager as unknown as SessionManager
+      );
+
+      const result = await policy.invoke(
+        server,
+        'delete_file',
+        { path: 'shared/plan.md' },
+        { agentId: 'agent-1', sessionId: 'session-1', taskId: 'task-1' }
+      );
+
+      expect(server.invokeTool).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        success: false,
+        error: 'Permission denied: filesystem delete access is not allowed',
+        metadata: { permissionDenied: true },
+      });
+      expect(sessionManager.recordAction).toHaveBeenCalledWith(
+        'session-1',
+        'agent-1',
+        'agent_error',
+        'Blocked filesystem.delete_file',
+        expect.objectContaining({ tool: 'filesystem.delete_file' }),
+        'task-1'
+      );
+      expect(sessionManager.completeAction).toHaveBeenCalledWith('action-1', 'failed', undefined, {
+        message: result.error,
+      });
+    });
+  });
+
+  describe('browser pages', () => {
+    const policy = new ToolPolicy({ browser: { allowedDomains: ['example.com'] } });
+
+    const browserOn = (url: string, after = url) => {
+      let current = url;
+      return {
+        name: 'browser',
+        getTools: () => [],
+        getPageUrl: () => current,
+        invokeTool: jest.fn(async () => {
+          current = after;
+          return { success: true, data: { content: 'page text' } };
+        }),
+      } as unknown as MCPServerPlugin & { invokeTool: jest.Mock };
+    };
+    const caller = { agentId: 'agent-1' };
+
+    it('should deny tools on a page outside the allowed domains', async () => {
+      const server = browserOn('https://evil.test/');
+
+      const result = await policy.invoke(server, 'get_page_content', { sessionId: 's1' }, caller);
+
+      expect(server.invokeTool).not.toHaveBeenCalled();
+      expect(result.error).toBe(
+        'Permission denied: page https://evil.test/ is not in the allowed domains'
+      );
+    });
+
+    it('should withhold results of calls that navigate outside the allowed domains', async () => {
+      const server = browserOn('https://example.com/', 'https://evil.test/');
+
+      const result = await policy.invoke(
+        server,
+        'evaluate_js',
+        { sessionId: 's1', script: 'location.href = "https://evil.test/"' },
+        caller
+      );
+
+      expect(server.invokeTool).toHaveBeenCalled();
+      expect(result).toEqual({
+        success: false,
+        error: 'Permission denied: page https://evil.test/ is not in the allowed domains',
+        metadata: { permissionDenied: true },
+      });
+    });
+
+    it('should let the agent navigate away from a page outside the allowed domains', async () => {
+      const server = browserOn('https://evil.test/', 'https://example.com/');
+
+      const result = await policy.invoke(
+        server,
+        'navigate_to',
+        { sessionId: 's1', url: 'https://example.com/' },
+        caller
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should only allow downloads to agents that may write to the downloads directory', async () => {
+      const server = serverNamed('browser');
+      const params = { sessionId: 's1', selector: '#download' };
+
+      await new ToolPolicy({ filesystem: { allowedPaths: ['downloads'] } }).invoke(
+        server,
+        'click_element',
+        params,
+        caller
+      );
+      await new ToolPolicy({ filesystem: { write: false } }).invoke(
+        server,
+        'click_element',
+        params,
+        caller
+      );
+
+      expect(server.invokeTool.mock.calls.map((call) => call[2])).toEqual([
+        { agentId: 'agent-1', allowDownloads: true },
+        { agentId: 'agent-1', allowDownloads: false },
+      ]);
+    });
+  });
+
+  describe('approvals', () => {
+    const approvalManagerReturning = (outcome: object) =>
+      ({ requestApproval: jest.fn(async () => outcome) }) as unknown as ApprovalManager & {
+        requestApproval: jest.Mock;
+      };
+
+    it('should only ask for approval on tools in the policy', async () => {
+      const server = serverNamed('filesystem');
+      const approvalManager = approvalManagerReturning({ approved: true });
+      const policy = new ToolPolicy({}, undefined, approvalManager, {
+        tools: ['filesystem.delete_file'],
+      });
+
+      await policy.invoke(server, 'read_file', { path: 'a.md' }, { agentId: 'agent-1' });
+
+      expect(approvalManager.requestApproval).not.toHaveBeenCalled();
+      expect(server.invokeTool).toHaveBeenCalled();
+    });
+
+    it('should not run calls the operator denied', async () => {
+      const server = serverNamed('filesystem');
+      const approvalManager = approvalManagerReturning({
+        approved: false,
+        request: { status: 'denied', reason: 'keep the plan' },
+      });
+      const policy = new ToolPolicy({}, undefined, approvalManager, { tools: ['filesystem.*'] });
+
+      const result = await policy.invoke(
+        server,
+        'delete_file',
+        { path: 'plan.md' },
+        { agentId: 'agent-1' }
+      );
+
+      expect(approvalManager.requestApproval).toHaveBeenCalledWith(
+        { agentId: 'agent-1', tool: 'filesystem.delete_file', params: { path: 'plan.md' } },
+        { tools: ['filesystem.*'] }
+      );
+      expect(server.invokeTool).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        success: false,
+        error: 'Operator denied filesystem.delete_file: keep the plan',
+        metadata: { approvalDenied: true },
+      });
+    });
+
+    it('should check edited params against permissions', async () => {
+      const server = serverNamed('filesystem');
+      const approvalManager = approvalManagerReturning({
+        approved: true,
+        params: { path: 'secrets/keys.txt' },
+      });
+      const policy = new ToolPolicy(
+        { filesystem: { allowedPaths: ['reports'] } },
+        undefined,
+        approvalManager,
+        { tools: ['*'] }
+      );
+
+      const result = await policy.invoke(
+        server,
+        'write_file',
+        { path: 'reports/q1.md' },
+        { agentId: 'agent-1' }
+      );
+
+      expect(server.invokeTool).not.toHaveBeenCalled();
+      expect(result.metadata).toEqual({ permissionDenied: true });
+    });
+  });
+
+  describe('resources', () => {
+    it('should check workspace file resources like read_file of their path', async () => {
+      const server = {
+        name: 'filesystem',
+        readResource: jest.fn(async (uri: string) => ({
+          uri,
+          mimeType: 'text/plain',
+          content: 'x',
+        })),
+      } as unknown as MCPServerPlugin & { readResource: jest.Mock };
+      const policy = new ToolPolicy({ filesystem: { allowedPaths: ['reports'] } });
+      const caller = { agentId: 'agent-1' };
+
+      const allowed = await policy.readResource(server, 'workspace:///reports/q1.md', caller);
+      const denied = await policy.readResource(server, 'workspace:///secrets.txt', caller);
+
+      expect(allowed).toMatchObject({ success: true, data: { content: 'x', encoding: 'utf-8' } });
+      expect(denied).toMatchObject({
+        success: false,
+        error: 'Permission denied: path "secrets.txt" is outside the allowed paths',
+      });
+      expect(server.readResource).toHaveBeenCalledTimes(1);
+      expect(policy.checkResource('filesystem', 'file:///etc/passwd')).toContain('outside');
+    });
+  });
+});
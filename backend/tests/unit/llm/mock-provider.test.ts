@@ -0,0 +1,208 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CompletionChunk, CompletionRequest } from '@mosaic/shared';
+import { MockLLMProvider } from '../../../src/llm/mock-provider';
+
+const request = (content: string): CompletionRequest => ({
+  model: 'mock-model',
+  messages: [
+    { role: 'system', content: 'You are a test agent.' },
+    { role: 'user', content },
+  ],
+});
+
+const collect = async (stream: AsyncIterable<CompletionChunk>): Promise<CompletionChunk[]> => {
+  const chunks: CompletionChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+describe('MockLLMProvider', () => {
+  describe('Matching', () => {
+    it('should serve unmatched-free responses in order', async () => {
+      const provider = new MockLLMProvider({
+        fixture: { responses: [{ content: 'first' }, { content: 'second' }] },
+      });
+
+      expect((await provider.complete(request('a'))).message.content).toBe('first');
+      expect((await provider.complete(request('b'))).message.content).toBe('second');
+    });
+
+    it('should match on prompt content, including system messages', async () => {
+      const provider = new MockLLMProvider({
+        fixture: {
+          responses: [
+            { contains: 'weather', content: 'sunny' },
+            { contains: ['test agent', 'time'], content: 'noon' },
+          ],
+        },
+      });
+
+      expect((await provider.complete(request('what time is it'))).message.content).toBe('noon');
+      expect((await provider.complete(request('the weather?'))).message.content).toBe('sunny');
+    });
+
+    it('should match on regex pattern and step index', async () => {
+      const provider = new MockLLMProvider({
+        fixture: {
+          responses: [
+            { step: 2, content: 'second call' },
+            { pattern: '^You are .*\\n.*\\d+$', content: 'numbered' },
+          ],
+        },
+      });
+
+      expect((await provider.complete(request('item 42'))).message.content).toBe('numbered');
+      expect((await provider.complete(request('anything'))).message.content).toBe('second call');
+    });
+
+    it('should keep serving repeat responses', async () => {
+      const provider = new MockLLMProvider({
+        fixture: { responses: [{ contains: 'ping', content: 'pong', repeat: true }] },
+      });
+
+      await provider.complete(request('ping'));
+      const response = await provider.complete(request('ping'));
+
+      expect(response.message.content).toBe('pong');
+      expect(provider.getPendingResponses()).toHaveLength(0);
+    });
+
+    it('should serialize json responses into content', async () => {
+      const provider = new MockLLMProvider({
+        fixture: { responses: [{ json: { action: 'done', complete: true } }] },
+      });
+
+      const response = await provider.complete(request('plan'));
+
+      expect(JSON.parse(response.message.content)).toEqual({ action: 'done', complete: true });
+    });
+  });
+
+  describe('Tool calls', () => {
+    it('should return tool calls with serialized arguments', async () => {
+      const provider = new MockLLMProvider({
+        fixture: {
+          responses: [
+            {
+              toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'notes.md' } }],
+            },
+          ],
+        },
+      });
+
+      const response = await provider.complete(request('read my notes'));
+
+      expect(response.finishReason).toBe('tool_calls');
+      expect(response.message.toolCalls).toEqual([
+        {
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'read_file', arguments: '{"path":"notes.md"}' },
+        },
+      ]);
+    });
+  });
+
+  describe('Streaming', () => {
+    it('should stream content word by word by default', async () => {
+      const provider = new MockLLMProvider({
+        fixture: { responses: [{ content: 'Hello there world' }] },
+      });
+
+      const chunks = await collect(provider.streamComplete(request('hi')));
+
+      expect(chunks.map((c) => c.delta.content).join('')).toBe('Hello there world');
+      expect(chunks).toHaveLength(4);
+      expect(chunks[chunks.length - 1].finishReason).toBe('stop');
+    });
+
+    it('should stream scripted chunks and finish with tool calls', async () => {
+      const provider = new MockLLMProvider({
+        fixture: {
+          responses: [
+            {
+              content: 'Looking it up',
+              chunks: ['Look', 'ing it up'],
+              toolCalls: [{ name: 'search', arguments: '{"q":"mosaic"}' }],
+            },
+          ],
+        },
+      });
+
+      const chunks = await collect(provider.streamComplete(request('search')));
+
+      expect(chunks.slice(0, 2).map((c) => c.delta.content)).toEqual(['Look', 'ing it up']);
+      expect(chunks[2].finishReason).toBe('tool_calls');
+      expect(chunks[2].delta.toolCalls?.[0].function).toEqual({
+        name: 'search',
+        arguments: '{"q":"mosaic"}',
+      });
+    });
+  });
+
+  describe('Unexpected prompts', () => {
+    it('should throw and record prompts nothing matches', async () => {
+      const provider = new MockLLMProvider({
+        fixture: { responses: [{ contains: 'expected', content: 'ok' }] },
+      });
+
+      await expect(provider.complete(request('surprise'))).rejects.toThrow(
+        'Mock LLM has no response for step 1: "surprise"'
+      );
+
+      const unexpected = provider.getUnexpectedPrompts();
+      expect(unexpected).toHaveLength(1);
+      expect(unexpected[0].request.messages[1].content).toBe('surprise');
+      expect(provider.getPendingResponses()).toHaveLength(1);
+    });
+
+    it('should answer with the fallback and still record the prompt', async () => {
+      const provider = new MockLLMProvider({
+        fixture: { responses: [], fallback: { content: 'fallback' } },
+      });
+
+      const response = await provider.complete(request('surprise'));
+
+      expect(response.message.content).toBe('fallback');
+      expect(provider.getCalls()[0].matched).toBe('fallback');
+      expect(provider.getUnexpectedPrompts()).toHaveLength(1);
+    });
+
+    it('should append unexpected prompts to the record file', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-llm-'));
+      const recordPath = path.join(dir, 'unexpected.jsonl');
+
+      try {
+        const provider = new MockLLMProvider({
+          fixture: { responses: [], fallback: { content: '' } },
+          recordPath,
+        });
+
+        await provider.complete(request('first'));
+        await provider.complete(request('second'));
+
+        const lines = fs.readFileSync(recordPath, 'utf-8').trim().split('\n').map((l) => JSON.parse(l));
+        expect(lines.map((l) => l.step)).toEqual([1, 2]);
+        expect(lines[1].messages[1].content).toBe('second');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Fixture files', () => {
+    it('should load a fixture from disk', async () => {
+      const provider = new MockLLMProvider({
+        fixturePath: path.join(__dirname, '../../fixtures/llm/decompose-and-execute.json'),
+      });
+
+      const models = await provider.getModels();
+
+      expect(models[0].name).toBe('Mock (decompose-and-execute)');
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import {
+  OpenAICompatibleProvider,
+  normalizeBaseURL,
+} from '../../../src/llm/openai-compatible-provider';
+
+describe('OpenAICompatibleProvider', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should add /v1 to endpoints that name only the server', () => {
+    expect(normalizeBaseURL('http://localhost:11434')).toBe('http://localhost:11434/v1');
+    expect(normalizeBaseURL('http://localhost:11434/')).toBe('http://localhost:11434/v1');
+  });
+
+  it('should keep endpoints that already have a path', () => {
+    expect(normalizeBaseURL('http://localhost:11434/v1/')).toBe('http://localhost:11434/v1');
+    expect(normalizeBaseURL('https://gpu.example.com/llm/v1')).toBe(
+      'https://gpu.example.com/llm/v1'
+    );
+  });
+
+  it('should build a provider from an agent endpoint without local settings', () => {
+    delete process.env.LOCAL_LLM_BASE_URL;
+    delete process.env.OLLAMA_HOST;
+
+    const provider = new OpenAICompatibleProvider({
+      baseURL: 'http://ollama.internal:11434',
+      defaultModel: 'llama3.2',
+    });
+
+    expect(provider.baseURL).toBe('http://ollama.internal:11434/v1');
+    expect(provider.defaultModel).toBe('llama3.2');
+  });
+});
@@ -0,0 +1,24 @@
+import { estimateCost, getModelPrice } from '../../../src/llm/pricing';
+
+describe('LLM pricing', () => {
+  it('should resolve dated model snapshots to their family price', () => {
+    expect(getModelPrice('claude-sonnet-4-20250514')).toEqual({ input: 3, output: 15 });
+    expect(getModelPrice('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+  });
+
+  it('should prefer the longest matching prefix', () => {
+    expect(getModelPrice('gpt-4-turbo-preview')).toEqual({ input: 10, output: 30 });
+    expect(getModelPrice('gpt-4-0613')).toEqual({ input: 30, output: 60 });
+  });
+
+  it('should estimate USD from prompt and completion tokens', () => {
+    const cost = estimateCost('gpt-4o', { promptTokens: 1_000_000, completionTokens: 500_000 });
+
+    expect(cost).toBeCloseTo(7.5);
+  });
+
+  it('should treat unknown and local models as free', () => {
+    expect(getModelPrice('llama3.1:8b')).toBeUndefined();
+    expect(estimateCost('llama3.1:8b', { promptTokens: 5000, completionTokens: 5000 })).toBe(0);
+  });
+});
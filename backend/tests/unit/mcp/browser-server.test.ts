@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import puppeteer from 'puppeteer';
+import { BrowserMCPServer } from '../../../src/mcp/browser-server';
+
+const FIXTURES = path.join(__dirname, '../../fixtures/browser');
+
+// These tests drive a real headless Chrome; skip them where none is installed
+const describeWithChrome = fs.existsSync(puppeteer.executablePath()) ? describe : describe.skip;
+
+/**
+ * Serves the HTML fixtures from disk, plus a file download
+ */
+function serveFixtures(): http.Server {
+  return http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname.startsWith('/download/')) {
+      res.writeHead(200, {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${path.basename(url.pathname)}"`,
+      });
+      res.end('id,total\n1,42\n');
+      return;
+    }
+
+    fs.readFile(path.join(FIXTURES, path.basename(url.pathname)), (error, content) => {
+      if (error) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end(content);
+    });
+  });
+}
+
+describeWithChrome('BrowserMCPServer', () => {
+  let httpServer: http.Server;
+  let baseUrl: string;
+  let workspace: string;
+  let server: BrowserMCPServer;
+  let sessionId: string;
+
+  const open = async (page: string) => {
+    const result = await server.invokeTool('navigate_to', {
+      url: `${baseUrl}/${page}`,
+      sessionId,
+      waitFor: 0,
+    });
+    expect(result.success).toBe(true);
+    sessionId = result.data.sessionId;
+  };
+  const evaluate = async (script: string) =>
+    (await server.invokeTool('evaluate_js', { sessionId, script })).data.result;
+
+  beforeAll(async () => {
+    httpServer = serveFixtures();
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  beforeEach(async () => {
+    workspace = await fsp.mkdtemp(path.join(os.tmpdir(), 'mosaic-browser-'));
+    server = new BrowserMCPServer(workspace);
+    sessionId = '';
+  });
+
+  afterEach(async () => {
+    await server.shutdown();
+    await fsp.rm(workspace, { recursive: true, force: true });
+  }, 30000);
+
+  it('should give interactive elements refs that click and type accept', async () => {
+    await open('form.html');
+
+    const first = await server.invokeTool('snapshot', { sessionId });
+    expect(first.data.snapshot).toContain('- heading "Sign up" [level=1]');
+    const ref = first.data.snapshot.match(/textbox "Name" \[ref=(e\d+)\]/)[1];
+
+    // Refs stay the same across snapshots of the same page
+    const second = await server.invokeTool('snapshot', { sessionId });
+    expect(second.data.snapshot).toContain(`textbox "Name" [ref=${ref}]`);
+
+    const typed = await server.invokeTool('type_text', { sessionId, ref, text: 'Ada' });
+    expect(typed.success).toBe(true);
+    expect(await evaluate('document.getElementById("name").value')).toBe('Ada');
+  }, 60000);
+
+  it('should select options by label and fill a whole form', async () => {
+    await open('form.html');
+
+    const selected = await server.invokeTool('select_option', {
+      sessionId,
+      selector: '#plan',
+      values: ['Professional'],
+    });
+    expect(selected.data.selected).toEqual(['pro']);
+    expect(await evaluate('document.getElementById("changes").textContent')).toBe('1');
+
+    const filled = await server.invokeTool('fill_form', {
+      sessionId,
+      fields: [
+        { selector: '#name', value: 'Ada' },
+        { selector: '#bio', value: 'Mathematician' },
+        { selector: '#plan', value: 'free' },
+        { selector: '#terms', value: true },
+      ],
+      submit: { selector: '#submit' },
+    });
+    expect(filled.success).toBe(true);
+
+    await server.invokeTool('wait_for_selector', { sessionId, selector: '#query' });
+    expect(await evaluate('location.search')).toBe(
+      '?name=Ada&bio=Mathematician&plan=free&terms=on'
+    );
+  }, 60000);
+
+  it('should go back and forward through history', async () => {
+    await open('form.html');
+    await open('result.html');
+
+    const back = await server.invokeTool('go_back', { sessionId });
+    expect(back.data.title).toBe('Sign up');
+
+    const forward = await server.invokeTool('go_forward', { sessionId });
+    expect(forward.data.title).toBe('Welcome');
+  }, 60000);
+
+  it('should scroll and wait for elements to appear', async () => {
+    await open('links.html');
+
+    const scrolled = await server.invokeTool('scroll', { sessionId, direction: 'bottom' });
+    expect(scrolled.data.position.y).toBeGreaterThan(0);
+
+    await server.invokeTool('click_element', { sessionId, selector: '#reveal', waitAfter: 0 });
+    const waited = await server.invokeTool('wait_for_selector', {
+      sessionId,
+      selector: '#late',
+      timeout: 5000,
+    });
+    expect(waited.success).toBe(true);
+
+    const missing = await server.invokeTool('wait_for_selector', {
+      sessionId,
+      selector: '#nothing',
+      timeout: 200,
+    });
+    expect(missing.success).toBe(false);
+  }, 60000);
+
+  it('should track tabs the site opens and switch between them', async () => {
+    await open('links.html');
+
+    await server.invokeTool('click_element', { sessionId, selector: '#popup' });
+
+    // The new tab is registered once Chrome reports its target
+    let listed = await server.invokeTool('list_tabs', { sessionId });
+    for (let i = 0; i < 50 && listed.data.count < 2; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      listed = await server.invokeTool('list_tabs', { sessionId });
+    }
+    expect(listed.data.count).toBe(2);
+    const popup = listed.data.tabs.find((tab: any) => !tab.active);
+
+    const switched = await server.invokeTool('switch_tab', { sessionId, tabId: popup.tabId });
+    expect(switched.data.title).toBe('Welcome');
+
+    const closed = await server.invokeTool('close_tab', { sessionId });
+    expect(closed.success).toBe(true);
+    const last = await server.invokeTool('close_tab', { sessionId });
+    expect(last.success).toBe(false);
+
+    const opened = await server.invokeTool('open_tab', {
+      sessionId,
+      url: `${baseUrl}/form.html`,
+    });
+    expect(opened.data.title).toBe('Sign up');
+    expect((await server.invokeTool('list_tabs', { sessionId })).data.count).toBe(2);
+  }, 60000);
+
+  it('should save downloads to the workspace', async () => {
+    const caller = { agentId: 'agent-1', allowDownloads: true };
+    await open('links.html');
+
+    await server.invokeTool('click_element', { sessionId, selector: '#download' }, caller);
+    const download = await server.invokeTool(
+      'wait_for_download',
+      { sessionId, timeout: 10000 },
+      caller
+    );
+
+    expect(download.data).toMatchObject({ filename: 'report.csv', path: 'downloads/report.csv' });
+    expect(await fsp.readFile(path.join(workspace, 'downloads/report.csv'), 'utf-8')).toBe(
+      'id,total\n1,42\n'
+    );
+
+    // Each download is reported once
+    const again = await server.invokeTool('wait_for_download', { sessionId, timeout: 300 }, caller);
+    expect(again.success).toBe(false);
+  }, 60000);
+
+  it('should not download for callers without write access to downloads', async () => {
+    await open('links.html');
+
+    await server.invokeTool('click_element', { sessionId, selector: '#download' });
+    const download = await server.invokeTool('wait_for_download', { sessionId, timeout: 3000 });
+
+    expect(download.success).toBe(false);
+    expect(fs.existsSync(path.join(workspace, 'downloads/report.csv'))).toBe(false);
+  }, 60000);
+
+  it('should cancel downloads over the size limit', async () => {
+    await server.shutdown();
+    server = new BrowserMCPServer(workspace, 4);
+    const caller = { agentId: 'agent-1', allowDownloads: true };
+    await open('links.html');
+
+    await server.invokeTool('click_element', { sessionId, selector: '#download' }, caller);
+    const download = await server.invokeTool(
+      'wait_for_download',
+      { sessionId, timeout: 10000 },
+      caller
+    );
+
+    expect(download.error).toContain('exceeds the 4 byte limit');
+    expect(fs.existsSync(path.join(workspace, 'downloads/report.csv'))).toBe(false);
+  }, 60000);
+});
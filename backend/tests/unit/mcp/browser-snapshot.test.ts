@@ -0,0 +1,66 @@
+import type { SerializedAXNode } from 'puppeteer';
+import {
+  formatAccessibilityTree,
+  isInteractiveRole,
+  refSelector,
+} from '../../../src/mcp/browser-snapshot';
+
+const node = (fields: Partial<SerializedAXNode>): SerializedAXNode =>
+  ({ role: 'generic', ...fields }) as SerializedAXNode;
+
+describe('browser snapshot', () => {
+  it('should render the tree as an indented outline with refs and states', () => {
+    const email = node({ role: 'textbox', name: 'Email', required: true, value: 'a@b.c' });
+    const terms = node({ role: 'checkbox', name: 'Accept terms', checked: 'mixed' });
+    const submit = node({ role: 'button', name: 'Continue', disabled: true });
+    const root = node({
+      role: 'RootWebArea',
+      name: 'Sign in',
+      children: [
+        node({ role: 'heading', name: 'Sign in', level: 1 }),
+        node({ role: 'form', children: [email, terms, submit] }),
+      ],
+    });
+
+    const text = formatAccessibilityTree(
+      root,
+      new Map([
+        [email, 'e1'],
+        [terms, 'e2'],
+        [submit, 'e3'],
+      ])
+    );
+
+    expect(text).toBe(
+      [
+        '- RootWebArea "Sign in"',
+        '  - heading "Sign in" [level=1]',
+        '  - form',
+        '    - textbox "Email" [ref=e1] [required] [value="a@b.c"]',
+        '    - checkbox "Accept terms" [ref=e2] [checked=mixed]',
+        '    - button "Continue" [ref=e3] [disabled]',
+      ].join('\n')
+    );
+  });
+
+  it('should collapse whitespace and clip long names', () => {
+    const text = formatAccessibilityTree(
+      node({ role: 'paragraph', name: `  line one\n\n line two ${'x'.repeat(200)}` })
+    );
+
+    expect(text).toMatch(/^- paragraph "line one line two x+\.\.\."$/);
+    expect(text.length).toBeLessThan(130);
+  });
+
+  it('should only treat actionable roles as interactive', () => {
+    expect(isInteractiveRole('button')).toBe(true);
+    expect(isInteractiveRole('combobox')).toBe(true);
+    expect(isInteractiveRole('heading')).toBe(false);
+    expect(isInteractiveRole('StaticText')).toBe(false);
+  });
+
+  it('should build an attribute selector for a ref, escaping quotes', () => {
+    expect(refSelector('e12')).toBe('[data-mosaic-ref="e12"]');
+    expect(refSelector('a"b')).toBe('[data-mosaic-ref="a\\"b"]');
+  });
+});
@@ -0,0 +1,211 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import { PluginContext } from '@mosaic/shared';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ExternalMCPServer } from '../../../src/mcp/external-server';
+import {
+  checkRuntimeRegistration,
+  normalizeExternalServerConfig,
+  validateExternalServerConfig,
+} from '../../../src/mcp/external-server-config';
+
+const ECHO_SERVER = path.join(__dirname, '../../fixtures/mcp/echo-server.js');
+
+const createContext = () =>
+  ({
+    config: {},
+    logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+    eventBus: {},
+    plugins: {},
+  }) as unknown as PluginContext;
+
+describe('ExternalMCPServer', () => {
+  describe('over stdio', () => {
+    let server: ExternalMCPServer;
+
+    beforeAll(async () => {
+      server = new ExternalMCPServer({
+        name: 'echo',
+        transport: 'stdio',
+        command: process.execPath,
+        args: [ECHO_SERVER],
+      });
+      await server.initialize(createContext());
+    });
+
+    afterAll(async () => {
+      await server.shutdown();
+    });
+
+    it('should list the server tools, resources and prompts', () => {
+      expect(server.version).toBe('1.2.3');
+      expect(server.getTools().map((tool) => tool.name)).toEqual(['echo', 'fail', 'add_tool']);
+      expect(server.getTools()[0]).toMatchObject({
+        description: 'Echo text back',
+        inputSchema: { type: 'object', properties: { text: { type: 'string' } } },
+      });
+      expect(server.getResources()).toEqual([
+        {
+          uri: 'note://welcome',
+          name: 'welcome',
+          description: 'Welcome note',
+          mimeType: 'text/markdown',
+        },
+      ]);
+      expect(server.getPrompts()).toEqual([
+        {
+          name: 'review',
+          description: 'Review a file',
+          arguments: [{ name: 'file', description: '', required: true }],
+        },
+      ]);
+    });
+
+    it('should call tools and map tool errors', async () => {
+      const echoed = await server.invokeTool('echo', { text: 'hi' });
+      const failed = await server.invokeTool('fail', {});
+
+      expect(echoed).toEqual({ success: true, data: 'hi', metadata: { server: 'echo' } });
+      expect(failed).toEqual({ success: false, error: 'something went wrong' });
+    });
+
+    it('should read resources and render prompts', async () => {
+      const resource = await server.readResource('note://welcome');
+      const prompt = await server.getPrompt('review', { file: 'plan.md' });
+
+      expect(resource).toEqual({
+        uri: 'note://welcome',
+        mimeType: 'text/markdown',
+        content: '# Hello',
+      });
+      expect(prompt.messages).toEqual([{ role: 'user', content: 'Please review plan.md' }]);
+    });
+
+    it('should refresh tools when the server announces a change', async () => {
+      await server.invokeTool('add_tool', { name: 'late' });
+
+      for (let i = 0; i < 50 && !server.getTools().some((t) => t.name === 'late'); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+
+      expect(server.getTools().map((tool) => tool.name)).toContain('late');
+    });
+  });
+
+  describe('over streamable HTTP', () => {
+    let httpServer: Server;
+    let server: ExternalMCPServer;
+    const headers: Array<string | undefined> = [];
+
+    beforeAll(async () => {
+      // Stateless: a fresh server and transport per request
+      httpServer = createServer(async (req, res) => {
+        headers.push(req.headers.authorization);
+        const mcp = new McpServer({ name: 'http-echo', version: '0.1.0' });
+        mcp.registerTool('ping', { description: 'Reply with pong' }, async () => ({
+          content: [{ type: 'text', text: 'pong' }],
+          structuredContent: { reply: 'pong' },
+        }));
+        const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+        res.on('close', () => {
+          transport.close();
+          mcp.close();
+        });
+        await mcp.connect(transport);
+        await transport.handleRequest(req, res);
+      });
+      await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+
+      const { port } = httpServer.address() as AddressInfo;
+      server = new ExternalMCPServer({
+        name: 'remote',
+        transport: 'http',
+        url: `http://127.0.0.1:${port}/mcp`,
+        headers: { Authorization: 'Bearer secret' },
+      });
+      await server.initialize(createContext());
+    });
+
+    afterAll(async () => {
+      await server.shutdown();
+      await new Promise((resolve) => httpServer.close(resolve));
+    });
+
+    it('should call tools and prefer structured content', async () => {
+      const result = await server.invokeTool('ping', {});
+
+      expect(server.getTools().map((tool) => tool.name)).toEqual(['ping']);
+      expect(result).toMatchObject({ success: true, data: { reply: 'pong' } });
+      expect(headers).toContain('Bearer secret');
+    });
+  });
+
+  it('should fail to initialize when the command does not start', async () => {
+    const server = new ExternalMCPServer({
+      name: 'missing',
+      transport: 'stdio',
+      command: path.join(__dirname, 'no-such-command'),
+      timeoutMs: 2000,
+    });
+
+    await expect(server.initialize(createContext())).rejects.toThrow();
+    expect(server.isConnected()).toBe(false);
+  });
+});
+
+describe('external server config', () => {
+  it('should infer the transport and expand environment variables', () => {
+    process.env.TEST_MCP_TOKEN = 'abc';
+
+    const config = normalizeExternalServerConfig('docs', {
+      url: 'https://docs.example.com/mcp',
+      headers: { Authorization: 'Bearer ${TEST_MCP_TOKEN}' },
+    });
+
+    expect(config).toMatchObject({
+      name: 'docs',
+      transport: 'http',
+      headers: { Authorization: 'Bearer abc' },
+    });
+    expect(validateExternalServerConfig(config)).toBeUndefined();
+    delete process.env.TEST_MCP_TOKEN;
+  });
+
+  it.each([
+    [{ name: 'a.b', transport: 'stdio', command: 'x' }, 'name must contain only'],
+    [{ name: 'a', transport: 'stdio' }, 'command is required'],
+    [{ name: 'a', transport: 'stdio', command: 'x', args: [1] }, 'args must be an array'],
+    [{ name: 'a', transport: 'http', url: 'ftp://x' }, 'url must use http or https'],
+    [{ name: 'a', transport: 'ws', url: 'ws://x' }, 'transport must be'],
+  ])('should reject %j', (config, message) => {
+    expect(validateExternalServerConfig(config)).toContain(message);
+  });
+
+  it('should not expand environment variables in configs from requests', () => {
+    process.env.TEST_MCP_TOKEN = 'abc';
+
+    const config = normalizeExternalServerConfig(
+      'docs',
+      { url: 'https://docs.example.com/mcp?token=${TEST_MCP_TOKEN}' },
+      false
+    );
+
+    expect(config.url).toBe('https://docs.example.com/mcp?token=${TEST_MCP_TOKEN}');
+    delete process.env.TEST_MCP_TOKEN;
+  });
+
+  it('should only allow http servers and listed commands at runtime', () => {
+    const http = normalizeExternalServerConfig('docs', { url: 'https://docs.example.com/mcp' });
+    const stdio = normalizeExternalServerConfig('fetch', { command: 'uvx', args: ['x'] });
+    const policy = { enabled: true, allowedCommands: ['uvx'] };
+
+    expect(checkRuntimeRegistration(http, { ...policy, enabled: false })).toContain('disabled');
+    expect(checkRuntimeRegistration(http, { enabled: true, allowedCommands: [] })).toBeUndefined();
+    expect(checkRuntimeRegistration(stdio, policy)).toBeUndefined();
+    expect(checkRuntimeRegistration({ ...stdio, command: 'bash' }, policy)).toContain(
+      'not allowed at runtime'
+    );
+  });
+});
@@ -0,0 +1,482 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FilesystemMCPServer } from '../../../src/mcp/filesystem-server';
+import { WorkspaceHistory } from '../../../src/services/workspace/workspace-history.service';
+import { FileLockManager } from '../../../src/services/workspace/file-lock-manager';
+
+describe('FilesystemMCPServer', () => {
+  let workspace: string;
+  let server: FilesystemMCPServer;
+
+  const write = async (file: string, content: string | Buffer) => {
+    await fs.mkdir(path.dirname(path.join(workspace, file)), { recursive: true });
+    await fs.writeFile(path.join(workspace, file), content);
+  };
+  const read = (file: string) => fs.readFile(path.join(workspace, file), 'utf-8');
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'mosaic-fs-'));
+    server = new FilesystemMCPServer(workspace, { maxReadBytes: 64 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  describe('read_file', () => {
+    it('should read a line range and report the total line count', async () => {
+      await write('notes.md', 'one\ntwo\nthree\nfour\n');
+
+      const result = await server.invokeTool('read_file', {
+        path: 'notes.md',
+        startLine: 2,
+        endLine: 3,
+      });
+
+      expect(result.data).toMatchObject({
+        content: 'two\nthree',
+        startLine: 2,
+        endLine: 3,
+        totalLines: 4,
+        truncated: false,
+      });
+    });
+
+    it('should truncate large files at a line boundary', async () => {
+      await write('big.txt', 'abcdefghij\n'.repeat(10));
+
+      const result = await server.invokeTool('read_file', { path: 'big.txt' });
+
+      expect(result.data.truncated).toBe(true);
+      expect(result.data.content).toBe('abcdefghij\n'.repeat(5));
+    });
+
+    it('should round-trip binary files as base64', async () => {
+      const bytes = Buffer.from([0, 1, 2, 255]);
+      await server.invokeTool('write_file', {
+        path: 'image.bin',
+        content: bytes.toString('base64'),
+        encoding: 'base64',
+      });
+
+      const text = await server.invokeTool('read_file', { path: 'image.bin' });
+      const binary = await server.invokeTool('read_file', {
+        path: 'image.bin',
+        encoding: 'base64',
+      });
+
+      expect(text.success).toBe(false);
+      expect(Buffer.from(binary.data.content, 'base64')).toEqual(bytes);
+    });
+  });
+
+  describe('edit_file', () => {
+    it('should apply search/replace and line-range edits in order', async () => {
+      await write('plan.md', '# Plan\n- draft\n- review\n- ship\n');
+
+      const result = await server.invokeTool('edit_file', {
+        path: 'plan.md',
+        edits: [
+          { oldText: '- draft', newText: '- outline' },
+          { startLine: 3, endLine: 4, newText: '- publish' },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(await read('plan.md')).toBe('# Plan\n- outline\n- publish\n');
+    });
+
+    it('should leave the file untouched when any edit fails', async () => {
+      await write('plan.md', 'todo\ntodo\n');
+
+      const ambiguous = await server.invokeTool('edit_file', {
+        path: 'plan.md',
+        edits: [{ oldText: 'todo', newText: 'done' }],
+      });
+      const missing = await server.invokeTool('edit_file', {
+        path: 'plan.md',
+        edits: [
+          { startLine: 1, newText: 'done' },
+          { oldText: 'later', newText: 'now' },
+        ],
+      });
+
+      expect(ambiguous.error).toBe(
+        'Edit 1: oldText matches 2 times; include more context or set replaceAll'
+      );
+      expect(missing.error).toBe('Edit 2: oldText not found in plan.md');
+      expect(await read('plan.md')).toBe('todo\ntodo\n');
+    });
+  });
+
+  describe('search_files', () => {
+    beforeEach(async () => {
+      await write('README.md', 'Mosaic workspace\n');
+      await write('docs/guide.md', 'Intro\nSee the TODO list\n');
+      await write('docs/api/spec.json', '{"todo": true}\n');
+    });
+
+    it('should match file names at any depth when the glob has no slash', async () => {
+      const result = await server.invokeTool('search_files', { pattern: '*.md' });
+
+      expect(result.data.files).toEqual(['README.md', path.join('docs', 'guide.md')]);
+    });
+
+    it('should grep contents of files matching the glob', async () => {
+      const result = await server.invokeTool('search_files', {
+        pattern: 'docs/**/*.{md,json}',
+        query: 'todo',
+      });
+
+      expect(result.data.matches).toEqual([
+        { path: path.join('docs', 'guide.md'), line: 2, text: 'See the TODO list' },
+        { path: path.join('docs', 'api', 'spec.json'), line: 1, text: '{"todo": true}' },
+      ]);
+    });
+  });
+
+  describe('list_files', () => {
+    it('should only descend into subdirectories when recursive', async () => {
+      await write('a/b/c.txt', 'c');
+
+      const flat = await server.invokeTool('list_files', {});
+      const deep = await server.invokeTool('list_files', { recursive: true, maxDepth: 2 });
+
+      expect(flat.data.files.map((f: { path: string }) => f.path)).toEqual(['a']);
+      expect(deep.data.files.map((f: { path: string }) => f.path)).toEqual([
+        'a',
+        path.join('a', 'b'),
+      ]);
+    });
+  });
+
+  describe('move_file and copy_file', () => {
+    it('should refuse to overwrite unless asked to', async () => {
+      await write('a.txt', 'a');
+      await write('b.txt', 'b');
+
+      const refused = await server.invokeTool('move_file', {
+        source: 'a.txt',
+        destination: 'b.txt',
+      });
+      await server.invokeTool('copy_file', {
+        source: 'a.txt',
+        destination: 'b.txt',
+        overwrite: true,
+      });
+      await server.invokeTool('move_file', { source: 'a.txt', destination: 'archive/a.txt' });
+
+      expect(refused.error).toBe('b.txt already exists; set overwrite to replace it');
+      expect(await read('b.txt')).toBe('a');
+      expect(await read('archive/a.txt')).toBe('a');
+    });
+  });
+
+  describe('history', () => {
+    let history: { record: jest.Mock };
+    const caller = { agentId: 'agent-1', sessionId: 'session-1', taskId: 'task-1' };
+
+    beforeEach(() => {
+      history = { record: jest.fn(async () => ({ id: 'version-1' })) };
+      server.setHistory(history as unknown as WorkspaceHistory);
+    });
+
+    it('should record the previous content of overwritten files', async () => {
+      await write('notes/plan.md', 'v1');
+
+      const result = await server.invokeTool(
+        'write_file',
+        { path: './notes/plan.md', content: 'v2' },
+        caller
+      );
+
+      expect(result.data.versionId).toBe('version-1');
+      expect(history.record).toHaveBeenCalledWith({
+        path: 'notes/plan.md',
+        operation: 'write',
+        before: Buffer.from('v1'),
+        after: Buffer.from('v2'),
+        caller,
+      });
+    });
+
+    it('should record moves against the destination with the source path', async () => {
+      await write('draft.md', 'text');
+
+      await server.invokeTool('move_file', { source: 'draft.md', destination: 'final.md' }, caller);
+      await server.invokeTool('delete_file', { path: 'final.md' }, caller);
+
+      expect(history.record.mock.calls.map(([change]) => change)).toEqual([
+        expect.objectContaining({
+          path: 'final.md',
+          previousPath: 'draft.md',
+          operation: 'move',
+          before: null,
+        }),
+        expect.objectContaining({ path: 'final.md', operation: 'delete', after: null }),
+      ]);
+    });
+
+    it('should not fail the write when recording fails', async () => {
+      history.record.mockRejectedValue(new Error('disk full'));
+
+      const result = await server.invokeTool('write_file', { path: 'a.md', content: 'a' }, caller);
+
+      expect(result.success).toBe(true);
+      expect(await read('a.md')).toBe('a');
+    });
+  });
+
+  describe('concurrent writers', () => {
+    const agent1 = { agentId: 'agent-1' };
+    const agent2 = { agentId: 'agent-2' };
+    let locks: FileLockManager;
+
+    beforeEach(() => {
+      locks = new FileLockManager();
+      server.setLocks(locks);
+    });
+
+    afterEach(() => {
+      locks.clear();
+    });
+
+    it('should refuse changes to a file another agent has locked', async () => {
+      await write('plan.md', 'v1');
+      const acquired = await server.invokeTool('acquire_lock', { path: './plan.md' }, agent1);
+
+      const writeResult = await server.invokeTool(
+        'write_file',
+        { path: 'plan.md', content: 'v2' },
+        agent2
+      );
+      const moveResult = await server.invokeTool(
+        'move_file',
+        { source: 'plan.md', destination: 'old.md' },
+        agent2
+      );
+      const ownWrite = await server.invokeTool(
+        'write_file',
+        { path: 'plan.md', content: 'v3' },
+        agent1
+      );
+
+      expect(acquired).toMatchObject({ success: true, data: { lock: { path: 'plan.md' } } });
+      expect(writeResult).toMatchObject({
+        success: false,
+        error: expect.stringContaining('locked by agent agent-1'),
+        data: { locked: true },
+      });
+      expect(moveResult.success).toBe(false);
+      expect(ownWrite.success).toBe(true);
+      expect(await read('plan.md')).toBe('v3');
+    });
+
+    it('should allow writes again once the lock is released', async () => {
+      await server.invokeTool('acquire_lock', { path: 'plan.md' }, agent1);
+
+      const notHolder = await server.invokeTool('release_lock', { path: 'plan.md' }, agent2);
+      await server.invokeTool('release_lock', { path: 'plan.md' }, agent1);
+      const listed = await server.invokeTool('list_locks', {});
+      const result = await server.invokeTool(
+        'write_file',
+        { path: 'plan.md', content: 'v2' },
+        agent2
+      );
+
+      expect(notHolder.success).toBe(false);
+      expect(listed.data).toEqual({ locks: [], count: 0 });
+      expect(result.success).toBe(true);
+    });
+
+    it('should only restore versions of files no other agent has locked', async () => {
+      const operator = { agentId: 'operator' };
+      const history = {
+        getVersion: jest.fn(() => ({ id: 'version-1', path: 'plan.md' })),
+        restore: jest.fn(async () => ({ id: 'version-2', path: 'plan.md' })),
+      };
+      server.setHistory(history as unknown as WorkspaceHistory);
+      await server.invokeTool('acquire_lock', { path: 'plan.md' }, agent1);
+
+      const locked = await server.restoreVersion('version-1', operator);
+      await server.invokeTool('release_lock', { path: 'plan.md' }, agent1);
+      const restored = await server.restoreVersion('version-1', operator, {
+        restoredBy: 'dashboard-user',
+      });
+
+      expect(locked).toMatchObject({ success: false, data: { locked: true } });
+      expect(restored).toMatchObject({ success: true, data: { id: 'version-2' } });
+      expect(history.restore).toHaveBeenCalledTimes(1);
+      expect(history.restore).toHaveBeenCalledWith('version-1', operator, {
+        restoredBy: 'dashboard-user',
+      });
+    });
+
+    it('should write when the expected hash matches what was read', async () => {
+      await write('plan.md', 'v1');
+      const { data } = await server.invokeTool('read_file', { path: 'plan.md' });
+
+      const result = await server.invokeTool(
+        'write_file',
+        { path: 'plan.md', content: 'v2', expectedHash: data.hash },
+        agent1
+      );
+      const stat = await server.invokeTool('stat', { path: 'plan.md' });
+
+      expect(result.success).toBe(true);
+      expect(stat.data.hash).toBe(result.data.hash);
+      expect(stat.data.hash).not.toBe(data.hash);
+    });
+
+    it('should return the current content when the file changed since it was read', async () => {
+      await write('plan.md', 'v1');
+      const { data } = await server.invokeTool('read_file', { path: 'plan.md' });
+      await server.invokeTool('write_file', { path: 'plan.md', content: 'v2' }, agent2);
+
+      const result = await server.invokeTool(
+        'write_file',
+        { path: 'plan.md', content: 'v3', expectedHash: data.hash },
+        agent1
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        error: 'Conflict: plan.md has changed since it was read',
+        data: { conflict: true, expectedHash: data.hash, content: 'v2', encoding: 'utf-8' },
+      });
+      expect(await read('plan.md')).toBe('v2');
+    });
+
+    it('should treat an empty expected hash as "must not exist"', async () => {
+      const created = await server.invokeTool(
+        'write_file',
+        { path: 'new.md', content: 'a', expectedHash: '' },
+        agent1
+      );
+      const again = await server.invokeTool(
+        'write_file',
+        { path: 'new.md', content: 'b', expectedHash: '' },
+        agent2
+      );
+
+      expect(created.success).toBe(true);
+      expect(again).toMatchObject({ success: false, data: { conflict: true, content: 'a' } });
+    });
+
+    it('should let only one of two racing writers with the same hash succeed', async () => {
+      await write('plan.md', 'v1');
+      const { data } = await server.invokeTool('read_file', { path: 'plan.md' });
+
+      const results = await Promise.all(
+        [agent1, agent2].map((caller) =>
+          server.invokeTool(
+            'write_file',
+            { path: 'plan.md', content: caller.agentId, expectedHash: data.hash },
+            caller
+          )
+        )
+      );
+
+      expect(results.map((result) => result.success)).toEqual([true, false]);
+      expect(await read('plan.md')).toBe('agent-1');
+    });
+
+    it('should not let a write interleave with a move of the same file', async () => {
+      await write('plan.md', 'v1');
+
+      const [written, moved] = await Promise.all([
+        server.invokeTool('write_file', { path: 'plan.md', content: 'v2' }, agent1),
+        server.invokeTool('move_file', { source: 'plan.md', destination: 'done.md' }, agent2),
+      ]);
+
+      expect(written.success).toBe(true);
+      expect(moved.success).toBe(true);
+      expect(await read('done.md')).toBe('v2');
+      await expect(read('plan.md')).rejects.toThrow();
+    });
+
+    it('should not deadlock on two opposite moves', async () => {
+      await write('a.md', 'a');
+      await write('b.md', 'b');
+
+      const results = await Promise.all([
+        server.invokeTool('move_file', { source: 'a.md', destination: 'b.md', overwrite: true }),
+        server.invokeTool('move_file', { source: 'b.md', destination: 'a.md', overwrite: true }),
+      ]);
+
+      // The second move runs after the first, moving the content straight back
+      expect(results.map((result) => result.success)).toEqual([true, true]);
+      expect(await read('a.md')).toBe('a');
+      await expect(read('b.md')).rejects.toThrow();
+    });
+  });
+
+  it('should reject paths that escape the workspace', async () => {
+    const result = await server.invokeTool('stat', { path: `../${path.basename(workspace)}-x` });
+
+    expect(result).toEqual({ success: false, error: 'Path outside workspace is not allowed' });
+  });
+
+  describe('resources', () => {
+    it('should list workspace files with their URIs and types', async () => {
+      await write('notes.md', '# Notes');
+      await write('data/my report.csv', 'a,b');
+      await server.refreshResources();
+
+      expect(server.getResources()).toEqual([
+        {
+          uri: 'workspace:///notes.md',
+          name: 'notes.md',
+          description: 'Workspace file (7 bytes)',
+          mimeType: 'text/markdown',
+        },
+        {
+          uri: 'workspace:///data/my%20report.csv',
+          name: 'data/my report.csv',
+          description: 'Workspace file (3 bytes)',
+          mimeType: 'text/csv',
+        },
+      ]);
+    });
+
+    it('should relist resources after changes made through the server', async () => {
+      await server.refreshResources();
+      expect(server.getResources()).toEqual([]);
+      const refresh = jest.spyOn(server, 'refreshResources');
+
+      await server.invokeTool('write_file', { path: 'notes.md', content: '# Notes' });
+      await refresh.mock.results[0].value;
+
+      expect(server.getResources().map((resource) => resource.name)).toEqual(['notes.md']);
+    });
+
+    it('should read text and binary files', async () => {
+      await write('data/my report.csv', 'a,b');
+      await write('blob.bin', Buffer.from([1, 0, 2]));
+
+      const text = await server.readResource('workspace:///data/my%20report.csv');
+      const binary = await server.readResource('workspace:///blob.bin');
+
+      expect(text).toEqual({
+        uri: 'workspace:///data/my%20report.csv',
+        mimeType: 'text/csv',
+        content: 'a,b',
+      });
+      expect(binary.mimeType).toBe('application/octet-stream');
+      expect(binary.content).toEqual(Buffer.from([1, 0, 2]));
+    });
+
+    it('should refuse URIs outside the workspace and files over the read limit', async () => {
+      await write('big.txt', 'x'.repeat(100));
+
+      await expect(server.readResource('workspace:///../secret.txt')).rejects.toThrow(
+        'Path outside workspace is not allowed'
+      );
+      await expect(server.readResource('file:///etc/passwd')).rejects.toThrow(
+        'Not a workspace resource'
+      );
+      await expect(server.readResource('workspace:///big.txt')).rejects.toThrow('read limit');
+    });
+  });
+});
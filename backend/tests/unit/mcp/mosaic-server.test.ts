@@ -0,0 +1,108 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { MCP_CLIENT_ID, MosaicMCPServer } from '../../../src/mcp/mosaic-server';
+import { FilesystemMCPServer } from '../../../src/mcp/filesystem-server';
+
+const task = { id: 'task-1', title: 'Write docs', status: 'open', priority: 'high' };
+
+describe('MosaicMCPServer', () => {
+  let workspace: string;
+  let client: Client;
+  let taskManager: any;
+  let agent: any;
+
+  const text = (result: any) => result.content[0].text as string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'mosaic-mcp-'));
+    await fs.writeFile(path.join(workspace, 'plan.md'), '# Plan');
+
+    taskManager = {
+      createTask: jest.fn(async (input) => ({ id: 'task-2', ...input })),
+      getTask: jest.fn((id) => (id === task.id ? task : undefined)),
+      queryTasks: jest.fn(() => [task]),
+      getTaskTree: jest.fn((id) => (id === task.id ? { task, subtasks: [] } : null)),
+    };
+    agent = {
+      id: 'agent-1',
+      name: 'Writer',
+      status: 'idle',
+      metadata: { rootTask: 'Write docs' },
+      getConfiguration: () => ({ sessionId: 'session-1' }),
+      start: jest.fn(async () => undefined),
+      stop: jest.fn(async () => undefined),
+    };
+    const sessionManager = {
+      getSession: jest.fn((id) =>
+        id === 'session-1' ? { id, name: 'Docs session', status: 'active' } : undefined
+      ),
+      getTimeline: jest.fn(() => [{ type: 'action', data: { message: 'started' } }]),
+    };
+
+    const mosaic = new MosaicMCPServer({
+      taskManager,
+      sessionManager,
+      memoryManager: { queryMemories: jest.fn(async () => []) },
+      agents: new Map([[agent.id, agent]]),
+      workspace: new FilesystemMCPServer(workspace),
+    } as any);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mosaic.createServer().connect(serverTransport);
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(workspace, { recursive: true, force: true });
+  });
+
+  it('should create tasks on behalf of the MCP client', async () => {
+    const result = await client.callTool({
+      name: 'create_task',
+      arguments: { title: 'Review', description: 'Review the docs', parentTaskId: 'task-1' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(taskManager.createTask).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Review', createdBy: MCP_CLIENT_ID })
+    );
+  });
+
+  it('should report unknown tasks and agents as tool errors', async () => {
+    const tree = await client.callTool({ name: 'get_task_tree', arguments: { taskId: 'nope' } });
+    const started = await client.callTool({ name: 'start_agent', arguments: { agentId: 'nope' } });
+
+    expect(tree.isError).toBe(true);
+    expect(text(tree)).toBe('Task nope not found');
+    expect(started.isError).toBe(true);
+  });
+
+  it('should start agents and list them with their session', async () => {
+    await client.callTool({ name: 'start_agent', arguments: { agentId: 'agent-1' } });
+    const listed = await client.callTool({ name: 'list_agents', arguments: {} });
+
+    expect(agent.start).toHaveBeenCalled();
+    expect(JSON.parse(text(listed))).toEqual([
+      expect.objectContaining({ id: 'agent-1', sessionId: 'session-1' }),
+    ]);
+  });
+
+  it('should list and read tasks, sessions and workspace files as resources', async () => {
+    const { resources } = await client.listResources();
+    const file = await client.readResource({ uri: 'mosaic://workspace/plan.md' });
+    const tree = await client.readResource({ uri: 'mosaic://tasks/task-1' });
+
+    expect(resources.map((resource) => resource.uri)).toEqual([
+      'mosaic://tasks/task-1',
+      'mosaic://sessions/session-1',
+      'mosaic://workspace/plan.md',
+    ]);
+    expect(file.contents[0]).toMatchObject({ text: '# Plan' });
+    expect(JSON.parse((tree.contents[0] as { text: string }).text)).toEqual({ task, subtasks: [] });
+  });
+});
@@ -0,0 +1,53 @@
+import { MCPServerPlugin } from '@mosaic/shared';
+import {
+  listPromptTemplates,
+  renderPromptTemplate,
+  validatePromptTemplate,
+} from '../../../src/mcp/prompt-templates';
+
+describe('prompt templates', () => {
+  const server = {
+    name: 'github',
+    getTools: () => [],
+    getPrompts: () => [
+      {
+        name: 'review_pr',
+        description: 'Review a pull request',
+        arguments: [{ name: 'number', description: 'PR number', required: true }],
+      },
+    ],
+    getPrompt: jest.fn(async (_name: string, args: Record<string, string>) => ({
+      description: 'Review PR',
+      messages: [
+        { role: 'user', content: `Review pull request #${args.number}` },
+        { role: 'assistant', content: 'Focus on tests' },
+      ],
+    })),
+  } as unknown as MCPServerPlugin;
+  const servers = [server, { name: 'filesystem', getTools: () => [] } as any];
+
+  it('should list prompts of servers that render them', () => {
+    expect(listPromptTemplates(servers)).toEqual([
+      expect.objectContaining({ server: 'github', name: 'review_pr' }),
+    ]);
+  });
+
+  it.each([
+    [{ server: 'github' }, 'template must name a server and a prompt'],
+    [{ server: 'github', prompt: 'nope' }, 'Prompt nope not found on server github'],
+    [{ server: 'github', prompt: 'review_pr' }, 'Missing prompt arguments: number'],
+    [{ server: 'github', prompt: 'review_pr', arguments: { number: 7 } }, 'string values'],
+  ])('should reject %j', (template, message) => {
+    expect(validatePromptTemplate(servers, template as any)).toContain(message);
+  });
+
+  it('should render the prompt messages into a task description', async () => {
+    const template = { server: 'github', prompt: 'review_pr', arguments: { number: '42' } };
+
+    expect(validatePromptTemplate(servers, template)).toBeUndefined();
+    expect(await renderPromptTemplate(servers, template)).toEqual({
+      title: 'Review PR',
+      description: 'Review pull request #42\n\n(assistant) Focus on tests',
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { MCPServerPlugin } from '@mosaic/shared';
+import { findResourceServer, invokeResourceTool } from '../../../src/mcp/resource-tools';
+
+const serverWith = (name: string, uris: string[]) =>
+  ({
+    name,
+    getTools: () => [],
+    getResources: () =>
+      uris.map((uri) => ({ uri, name: uri, description: '', mimeType: 'text/plain' })),
+    readResource: jest.fn(async (uri: string) => ({
+      uri,
+      mimeType: 'text/plain',
+      content: uri.endsWith('.bin') ? Buffer.from('hi') : `content of ${uri}`,
+    })),
+  }) as unknown as MCPServerPlugin & { readResource: jest.Mock };
+
+describe('resource tools', () => {
+  const filesystem = serverWith('filesystem', ['workspace:///a.md', 'workspace:///b.bin']);
+  const docs = serverWith('docs', ['note://welcome']);
+  const servers = [filesystem, docs, { name: 'browser', getTools: () => [] } as any];
+
+  it('should list the resources of every server, or of one', async () => {
+    const all = await invokeResourceTool(servers, 'list_resources', {});
+    const one = await invokeResourceTool(servers, 'list_resources', { server: 'docs' });
+
+    expect(all.data.resources.map((r: any) => `${r.server} ${r.uri}`)).toEqual([
+      'filesystem workspace:///a.md',
+      'filesystem workspace:///b.bin',
+      'docs note://welcome',
+    ]);
+    expect(one.data).toMatchObject({ count: 1, truncated: false });
+  });
+
+  it('should hide resources the agent may not read', async () => {
+    const result = await invokeResourceTool(
+      servers,
+      'list_resources',
+      {},
+      {
+        visible: (server) => server.name !== 'filesystem',
+      }
+    );
+
+    expect(result.data.resources).toHaveLength(1);
+  });
+
+  it('should find the server by listed URI or scheme', () => {
+    expect(findResourceServer(servers, 'note://welcome')).toBe(docs);
+    expect(findResourceServer(servers, 'workspace:///not-listed.md')).toBe(filesystem);
+    expect(findResourceServer(servers, 'https://example.com')).toBeUndefined();
+    expect(findResourceServer(servers, 'anything', 'browser')).toBeUndefined();
+  });
+
+  it('should read text, and binary as base64', async () => {
+    const text = await invokeResourceTool(servers, 'read_resource', { uri: 'note://welcome' });
+    const binary = await invokeResourceTool(servers, 'read_resource', {
+      uri: 'workspace:///b.bin',
+    });
+
+    expect(text).toMatchObject({
+      success: true,
+      data: { content: 'content of note://welcome', encoding: 'utf-8' },
+      metadata: { server: 'docs' },
+    });
+    expect(binary.data).toMatchObject({ content: 'aGk=', encoding: 'base64' });
+  });
+
+  it('should explain unknown URIs', async () => {
+    const result = await invokeResourceTool(servers, 'read_resource', { uri: 'x://y' });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'No server serves x://y; call list_resources for valid URIs',
+    });
+  });
+});
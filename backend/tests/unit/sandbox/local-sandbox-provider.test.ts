@@ -0,0 +1,89 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalSandboxProvider } from '../../../src/sandbox/local-sandbox-provider';
+
+describe('LocalSandboxProvider (process isolation)', () => {
+  let rootDir: string;
+  let provider: LocalSandboxProvider;
+
+  const create = (language: string, limits: { timeout?: number; memory?: number } = {}) =>
+    provider.createSandbox({ ...limits, metadata: { language } });
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mosaic-sandbox-'));
+    provider = new LocalSandboxProvider({ isolation: 'process', rootDir });
+  });
+
+  afterEach(async () => {
+    await provider.shutdown();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should run a python script', async () => {
+    const sandbox = await create('python');
+
+    const result = await sandbox.execute('print(6 * 7)');
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe('42');
+  });
+
+  it('should run a node script under the default memory limit', async () => {
+    const sandbox = await create('node');
+
+    const result = await sandbox.execute('console.log(process.version.startsWith("v"))');
+
+    expect(result.error).toBeUndefined();
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe('true');
+  });
+
+  it('should kill a script that runs past the timeout', async () => {
+    const sandbox = await create('python', { timeout: 500 });
+
+    const result = await sandbox.execute('import time\ntime.sleep(10)');
+
+    expect(result.exitCode).toBe(124);
+    expect(result.error).toBe('Execution timed out after 500ms');
+  });
+
+  it('should stop a python script that allocates past the memory limit', async () => {
+    const sandbox = await create('python', { memory: 64 });
+
+    const result = await sandbox.execute('data = bytearray(256 * 1024 * 1024)\nprint("allocated")');
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout).not.toContain('allocated');
+    expect(result.stderr).toContain('MemoryError');
+  });
+
+  it('should stop a node script that grows its heap past the memory limit', async () => {
+    const sandbox = await create('node', { memory: 64, timeout: 30000 });
+
+    const result = await sandbox.execute(
+      'const keep = [];\nwhile (true) keep.push(new Array(100000).fill({}));'
+    );
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.error).toBe('Process killed (memory limit exceeded?)');
+  }, 35000);
+});
+
+describe('LocalSandboxProvider (docker isolation)', () => {
+  const dockerHost = process.env.DOCKER_HOST;
+
+  afterEach(() => {
+    if (dockerHost === undefined) delete process.env.DOCKER_HOST;
+    else process.env.DOCKER_HOST = dockerHost;
+  });
+
+  it('should refuse to start instead of falling back to processes without Docker', async () => {
+    process.env.DOCKER_HOST = 'unix:///nonexistent/docker.sock';
+    const provider = new LocalSandboxProvider({ rootDir: os.tmpdir() });
+    const context = { logger: { info: jest.fn(), warn: jest.fn() } } as any;
+
+    await expect(provider.initialize(context)).rejects.toThrow('Docker is not reachable');
+    expect(await provider.healthCheck()).toBe(false);
+  });
+});
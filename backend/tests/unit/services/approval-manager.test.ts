@@ -0,0 +1,155 @@
+import { ApprovalRequest } from '@mosaic/shared';
+import { EventBus } from '../../../src/core/event-bus';
+import {
+  ApprovalManager,
+  requiresApproval,
+} from '../../../src/services/approval/approval-manager.service';
+
+jest.mock('../../../src/persistence/database', () => ({
+  getDatabase: () => ({ getDb: () => ({}) }),
+}));
+
+jest.mock('../../../src/persistence/repositories/approval.repository', () => ({
+  ApprovalRepository: class {
+    private requests = new Map<string, ApprovalRequest>();
+    create(request: ApprovalRequest) {
+      this.requests.set(request.id, { ...request });
+      return { ...request };
+    }
+    findById(id: string) {
+      return this.requests.get(id) || null;
+    }
+    find() {
+      return Array.from(this.requests.values());
+    }
+    resolve(id: string, resolution: Partial<ApprovalRequest>) {
+      const request = this.requests.get(id);
+      if (!request || request.status !== 'pending') return null;
+      Object.assign(request, resolution, { resolvedAt: new Date() });
+      return { ...request };
+    }
+    expirePending() {
+      return 0;
+    }
+  },
+}));
+
+describe('ApprovalManager', () => {
+  const call = { agentId: 'agent-1', tool: 'filesystem.delete_file', params: { path: 'a.md' } };
+  let eventBus: { publish: jest.Mock };
+  let manager: ApprovalManager;
+
+  beforeEach(() => {
+    eventBus = { publish: jest.fn(async () => undefined) };
+    manager = new ApprovalManager(eventBus as unknown as EventBus);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Resolves once the request has been announced
+  const pendingRequest = async (): Promise<ApprovalRequest> => {
+    await new Promise((resolve) => setImmediate(resolve));
+    return eventBus.publish.mock.calls[0][1].data.approval;
+  };
+
+  it('should match exact tools, server wildcards and "*"', () => {
+    const policy = { tools: ['filesystem.delete_file', 'browser.*', 'execute_python'] };
+
+    expect(requiresApproval(policy, 'filesystem.delete_file')).toBe(true);
+    expect(requiresApproval(policy, 'browser.evaluate_js')).toBe(true);
+    expect(requiresApproval(policy, 'execute_python')).toBe(true);
+    expect(requiresApproval(policy, 'filesystem.read_file')).toBe(false);
+    expect(requiresApproval({ tools: ['*'] }, 'memory.save_memory')).toBe(true);
+    expect(requiresApproval(undefined, 'execute_python')).toBe(false);
+  });
+
+  it('should wait for the operator and run with edited params', async () => {
+    const outcome = manager.requestApproval(call, { tools: ['filesystem.*'] });
+    const request = await pendingRequest();
+
+    expect(eventBus.publish).toHaveBeenCalledWith(
+      'approval.requested',
+      expect.objectContaining({
+        data: { approval: expect.objectContaining({ status: 'pending' }) },
+      })
+    );
+
+    await manager.resolve(request.id, 'edit', { params: { path: 'tmp/a.md' } });
+
+    await expect(outcome).resolves.toMatchObject({
+      approved: true,
+      params: { path: 'tmp/a.md' },
+    });
+    expect(eventBus.publish).toHaveBeenLastCalledWith('approval.resolved', expect.anything());
+  });
+
+  it('should reject decisions on requests that are no longer pending', async () => {
+    const outcome = manager.requestApproval(call, { tools: ['*'] });
+    const request = await pendingRequest();
+
+    await manager.resolve(request.id, 'deny', { reason: 'not today' });
+
+    await expect(outcome).resolves.toMatchObject({ approved: false });
+    await expect(manager.resolve(request.id, 'approve')).rejects.toThrow('already denied');
+  });
+
+  it.each([
+    ['deny', false],
+    ['approve', true],
+  ] as const)('should apply the %s default action on timeout', async (defaultAction, approved) => {
+    jest.useFakeTimers();
+    const outcome = manager.requestApproval(call, { tools: ['*'], timeoutMs: 1000, defaultAction });
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(outcome).resolves.toMatchObject({
+      approved,
+      params: call.params,
+      request: { status: 'expired' },
+    });
+  });
+
+  it('should reject edits that do not match the tool input schema', async () => {
+    const inputSchema = {
+      type: 'object',
+      properties: { code: { type: 'string' } },
+      required: ['code'],
+    };
+    const outcome = manager.requestApproval(
+      { agentId: 'agent-1', tool: 'execute_python', params: { code: 'print(1)' }, inputSchema },
+      { tools: ['execute_python'] }
+    );
+    const request = await pendingRequest();
+
+    expect(manager.validateParams(request.id, { path: 'a.py' })).toBe('code: Required');
+    await expect(manager.resolve(request.id, 'edit', { params: {} })).rejects.toThrow(
+      'Edited params are invalid'
+    );
+    expect(manager.getApproval(request.id)?.status).toBe('pending');
+
+    await manager.resolve(request.id, 'edit', { params: { code: 'print(2)' } });
+
+    await expect(outcome).resolves.toMatchObject({ approved: true, params: { code: 'print(2)' } });
+  });
+
+  it('should deny the call when expiring the request fails', async () => {
+    jest.useFakeTimers();
+    jest.spyOn((manager as any).approvalRepo, 'resolve').mockImplementation(() => {
+      throw new Error('database is locked');
+    });
+    const outcome = manager.requestApproval(call, {
+      tools: ['*'],
+      timeoutMs: 1000,
+      defaultAction: 'approve',
+    });
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(outcome).resolves.toMatchObject({
+      approved: false,
+      request: { status: 'denied' },
+    });
+  });
+});
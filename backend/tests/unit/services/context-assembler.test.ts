@@ -0,0 +1,191 @@
+import { CoreMemoryBlock, MemoryEntry, MemoryQuery, Task } from '@mosaic/shared';
+import {
+  ContextAssembler,
+  ContextAssemblerOptions,
+  estimateTokens,
+} from '../../../src/services/memory/context-assembler';
+import { MemoryManagerService, canRead } from '../../../src/services/memory/memory-manager.service';
+import type { TaskManager } from '../../../src/services/task/task-manager.service';
+
+jest.mock('../../../src/persistence/database', () => ({
+  getDatabase: () => ({ getDb: () => ({}) }),
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function memory(id: string, overrides: Partial<MemoryEntry> = {}): MemoryEntry {
+  return {
+    id,
+    agentId: 'agent-1',
+    sessionId: 'session-1',
+    type: 'learning',
+    importance: 'medium',
+    title: `Memory ${id}`,
+    content: `Content of ${id}`,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  } as MemoryEntry;
+}
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    description: `Description of ${id}`,
+    status: 'pending',
+    childTaskIds: [],
+    tags: [],
+    ...overrides,
+  } as Task;
+}
+
+/**
+ * Memory manager whose search matches titles by keyword, scoring 1
+ */
+function fakeMemoryManager(memories: MemoryEntry[]): MemoryManagerService {
+  return {
+    queryMemories: async (query: MemoryQuery) => {
+      const visible = memories.filter((entry) => canRead(query.visibleTo!, entry));
+      if (!query.search) return visible.slice(0, query.limit);
+      return visible
+        .filter((entry) => query.search?.includes(entry.title))
+        .map((entry) => ({ ...entry, score: 1, keywordScore: 1, semanticScore: 1 }));
+    },
+    getTaskMemories: async (taskId: string) =>
+      memories.filter((entry) => entry.relatedTaskId === taskId),
+  } as unknown as MemoryManagerService;
+}
+
+function fakeTaskManager(tasks: Task[]): TaskManager {
+  const byId = new Map(tasks.map((entry) => [entry.id, entry]));
+  return { getTask: (id: string) => byId.get(id) } as unknown as TaskManager;
+}
+
+describe('ContextAssembler', () => {
+  const block = (label: string, value: string): CoreMemoryBlock => ({
+    label,
+    value,
+    limit: 2000,
+    is_template: false,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  });
+  const coreMemory = [block('persona', 'A careful release engineer'), block('empty', '')];
+
+  const assembler = (
+    memories: MemoryEntry[],
+    tasks: Task[],
+    options: ContextAssemblerOptions = {}
+  ) =>
+    new ContextAssembler(fakeMemoryManager(memories), fakeTaskManager(tasks), {
+      coreMemory: () => coreMemory,
+      reader: (agentId) => ({ agentId, teamId: 'team-1', scopes: ['team', 'global'] }),
+      ...options,
+    });
+
+  it('should include core memory, task context and relevant memories', async () => {
+    const parent = task('parent', { title: 'Ship release', childTaskIds: ['child', 'sibling'] });
+    const sibling = task('sibling', {
+      title: 'Write changelog',
+      status: 'completed',
+      parentTaskId: 'parent',
+      result: { success: true, result: 'Changelog is in CHANGES.md' },
+    } as Partial<Task>);
+    const child = task('child', { title: 'Deploy', parentTaskId: 'parent' });
+
+    const context = await assembler(
+      [memory('m1', { title: 'Deploy', content: 'Run migrations before deploying' })],
+      [parent, sibling, child]
+    ).assemble('agent-1', child);
+
+    expect(context.coreMemoryLabels).toEqual(['persona', 'empty']);
+    expect(context.taskIds).toEqual(['parent', 'sibling']);
+    expect(context.memoryIds).toEqual(['m1']);
+    expect(context.text).toContain('<persona chars="26/2000">\nA careful release engineer\n</persona>');
+    expect(context.text).toContain('<empty chars="0/2000">');
+    expect(context.text).toContain('Part of: "Ship release"');
+    expect(context.text).toContain('Done: "Write changelog" - Changelog is in CHANGES.md');
+    expect(context.text).toContain('Run migrations before deploying');
+    expect(context.estimatedTokens).toBe(estimateTokens(context.text));
+  });
+
+  it('should rank memories of the task tree and shared tags above unrelated ones', async () => {
+    const old = new Date(Date.now() - 90 * DAY);
+    const context = await assembler(
+      [
+        memory('unrelated', { updatedAt: old, importance: 'low' }),
+        memory('tagged', { updatedAt: old, importance: 'low', tags: ['deploy'] }),
+        memory('related', { updatedAt: old, importance: 'low', relatedTaskId: 'parent' }),
+        memory('other-agent', { agentId: 'agent-2', relatedTaskId: 'task' }),
+      ],
+      [task('parent')]
+    ).assemble('agent-1', task('task', { parentTaskId: 'parent', tags: ['deploy'] }));
+
+    expect(context.memoryIds).toEqual(['related', 'tagged']);
+  });
+
+  it('should include memories other agents shared with the agent', async () => {
+    const context = await assembler(
+      [
+        memory('team', { agentId: 'agent-2', scope: 'team', teamId: 'team-1' }),
+        memory('other-team', { agentId: 'agent-3', scope: 'team', teamId: 'team-2' }),
+        memory('session', { agentId: 'agent-2', scope: 'session' }),
+        memory('private', { agentId: 'agent-2' }),
+      ],
+      []
+    ).assemble('agent-1', task('task'));
+
+    expect(context.memoryIds).toEqual(['team']);
+    expect(context.text).toContain(', from your team] Memory team');
+  });
+
+  it('should leave out checkpoints and keep to maxMemories', async () => {
+    const context = await assembler(
+      [
+        memory('checkpoint', { type: 'checkpoint', importance: 'critical' }),
+        memory('m1', { importance: 'critical' }),
+        memory('m2', { importance: 'high' }),
+        memory('m3', { importance: 'medium' }),
+      ],
+      [],
+      { maxMemories: 2 }
+    ).assemble('agent-1', task('task'));
+
+    expect(context.memoryIds).toEqual(['m1', 'm2']);
+  });
+
+  it('should stay within the token budget', async () => {
+    const long = 'x'.repeat(400);
+    const context = await assembler([memory('m1', { importance: 'critical', content: long })], [], {
+      tokenBudget: 50,
+    }).assemble('agent-1', task('task'));
+
+    expect(context.coreMemoryLabels).toEqual(['persona', 'empty']);
+    expect(context.memoryIds).toEqual([]);
+    expect(context.omitted).toBe(1);
+  });
+
+  it('should assemble core memory alone for prompts without a task', () => {
+    const context = assembler([memory('m1')], []).assembleCore('agent-1');
+
+    expect(context.coreMemoryLabels).toEqual(['persona', 'empty']);
+    expect(context.memoryIds).toEqual([]);
+    expect(context.text).toBe(
+      '\n\n# What you remember\n\n## Core memory\n' +
+        '<persona chars="26/2000">\nA careful release engineer\n</persona>\n' +
+        '<empty chars="0/2000">\n\n</empty>'
+    );
+  });
+
+  it('should return an empty context when its sources fail', async () => {
+    const context = await new ContextAssembler({} as MemoryManagerService, fakeTaskManager([]), {
+      coreMemory: () => {
+        throw new Error('no database');
+      },
+    }).assemble('agent-1', task('task'));
+
+    expect(context.text).toBe('');
+    expect(context.memoryIds).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { CoreMemoryBlock } from '@mosaic/shared';
+import {
+  CoreMemoryEdit,
+  CoreMemoryService,
+  coreMemoryError,
+} from '../../../src/services/memory/core-memory.service';
+import { invokeCoreMemoryTool } from '../../../src/services/memory/core-memory-tools';
+import { TestDatabase, agentRecord, createTestDatabase } from '../../helpers/test-database';
+
+function block(label: string, value: string, limit = 100): CoreMemoryBlock {
+  return {
+    label,
+    value,
+    limit,
+    is_template: false,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+}
+
+describe('core memory', () => {
+  let database: TestDatabase;
+  let service: CoreMemoryService;
+
+  const addAgent = (id: string, coreMemory: CoreMemoryBlock[]) =>
+    database.agents.save(agentRecord(id, { core_memory: coreMemory }));
+
+  beforeEach(async () => {
+    database = await createTestDatabase();
+    service = new CoreMemoryService(database.agents);
+    addAgent('agent-1', [block('persona', 'I review pull requests.'), block('human', '')]);
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  it('should append lines to a block and store them', () => {
+    service.append('agent-1', 'human', 'Prefers short answers.');
+    const edit = service.append('agent-1', 'human', 'Works in UTC.');
+
+    expect(edit.before).toBe('Prefers short answers.');
+    expect(edit.after).toBe('Prefers short answers.\nWorks in UTC.');
+    expect(database.agents.findById('agent-1')?.core_memory[1].value).toBe(edit.after);
+  });
+
+  it('should replace text in a block', () => {
+    const edit = service.replace('agent-1', 'persona', 'pull requests', 'and merge pull requests');
+
+    expect(edit.after).toBe('I review and merge pull requests.');
+    expect(() => service.replace('agent-1', 'persona', 'missing', 'x')).toThrow('does not contain');
+  });
+
+  it('should refuse edits past the block limit', () => {
+    expect(() => service.append('agent-1', 'persona', 'x'.repeat(100))).toThrow(
+      'over its limit of 100'
+    );
+    expect(database.agents.findById('agent-1')?.core_memory[0].value).toBe(
+      'I review pull requests.'
+    );
+  });
+
+  it('should start agents without blocks with persona and human blocks', () => {
+    addAgent('agent-2', []);
+
+    expect(service.getBlocks('agent-2').map((entry) => entry.label)).toEqual(['persona', 'human']);
+
+    service.append('agent-2', 'human', 'Name: Sam');
+    expect(database.agents.findById('agent-2')?.core_memory.map((entry) => entry.value)).toEqual([
+      '',
+      'Name: Sam',
+    ]);
+  });
+
+  it('should validate blocks', () => {
+    expect(coreMemoryError([block('persona', 'ok')])).toBeUndefined();
+    expect(coreMemoryError({})).toBe('core_memory must be an array');
+    expect(coreMemoryError([block('a', ''), block('a', '')])).toContain('Duplicate');
+    expect(coreMemoryError([block('a', 'xx', 1)])).toContain('over its limit');
+  });
+
+  it('should report edits made through the tools', async () => {
+    const edits: CoreMemoryEdit[] = [];
+    const result = await invokeCoreMemoryTool(
+      service,
+      'agent-1',
+      'core_memory_append',
+      { label: 'human', content: 'Likes tests.' },
+      {
+        onEdit: (edit) => {
+          edits.push(edit);
+        },
+      }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data).toContain('<human chars="12/100">\nLikes tests.\n</human>');
+    expect(edits.map((edit) => edit.after)).toEqual(['Likes tests.']);
+
+    const failed = await invokeCoreMemoryTool(service, 'agent-1', 'core_memory_replace', {
+      label: 'nope',
+      old_content: 'a',
+      new_content: 'b',
+    });
+    expect(failed).toEqual({ success: false, error: expect.stringContaining('No core memory') });
+
+    const view = await invokeCoreMemoryTool(service, 'agent-1', 'core_memory_view', {
+      label: 'persona',
+    });
+    expect(view.data).toBe('<persona chars="23/100">\nI review pull requests.\n</persona>');
+  });
+
+  it('should not edit blocks without memory write access', async () => {
+    const permissions = { memory: { read: true, write: false } };
+
+    const appended = await invokeCoreMemoryTool(
+      service,
+      'agent-1',
+      'core_memory_append',
+      { label: 'persona', content: 'I approve everything.' },
+      { permissions }
+    );
+    const replaced = await invokeCoreMemoryTool(
+      service,
+      'agent-1',
+      'core_memory_replace',
+      { label: 'persona', old_content: 'review', new_content: 'approve' },
+      { permissions }
+    );
+    const view = await invokeCoreMemoryTool(
+      service,
+      'agent-1',
+      'core_memory_view',
+      { label: 'persona' },
+      { permissions }
+    );
+
+    const denied = {
+      success: false,
+      error: 'Permission denied: memory write access is not allowed',
+    };
+    expect(appended).toEqual(denied);
+    expect(replaced).toEqual(denied);
+    expect(view.success).toBe(true);
+    expect(service.getBlocks('agent-1')[0].value).toBe('I review pull requests.');
+  });
+});
@@ -0,0 +1,77 @@
+import { EventBus } from '../../../src/core/event-bus';
+import { FileLockManager } from '../../../src/services/workspace/file-lock-manager';
+
+describe('FileLockManager', () => {
+  const agent1 = { agentId: 'agent-1', taskId: 'task-1' };
+  const agent2 = { agentId: 'agent-2' };
+  let eventBus: { publish: jest.Mock };
+  let locks: FileLockManager;
+
+  beforeEach(() => {
+    eventBus = { publish: jest.fn(async () => undefined) };
+    locks = new FileLockManager(eventBus as unknown as EventBus);
+  });
+
+  afterEach(() => {
+    locks.clear();
+    jest.useRealTimers();
+  });
+
+  it('should refuse a lock held by another agent', async () => {
+    await locks.acquire('notes.md', agent1);
+
+    const result = await locks.acquire('notes.md', agent2);
+
+    expect(result).toMatchObject({ acquired: false, heldBy: { agentId: 'agent-1' } });
+    expect(locks.heldByOther('notes.md', 'agent-2')).toMatchObject({ taskId: 'task-1' });
+    expect(locks.heldByOther('notes.md', 'agent-1')).toBeUndefined();
+  });
+
+  it('should let the holder refresh its lock', async () => {
+    jest.useFakeTimers();
+    await locks.acquire('notes.md', agent1, 10_000);
+    await jest.advanceTimersByTimeAsync(8_000);
+
+    const result = await locks.acquire('notes.md', agent1, 10_000);
+    await jest.advanceTimersByTimeAsync(8_000);
+
+    expect(result.acquired).toBe(true);
+    expect(locks.getLock('notes.md')).toBeDefined();
+    expect(eventBus.publish).toHaveBeenLastCalledWith(
+      'file.locked',
+      expect.objectContaining({ data: expect.objectContaining({ refreshed: true }) })
+    );
+  });
+
+  it('should expire locks after their TTL', async () => {
+    jest.useFakeTimers();
+    await locks.acquire('notes.md', agent1, 5_000);
+
+    await jest.advanceTimersByTimeAsync(5_000);
+
+    expect(locks.listLocks()).toEqual([]);
+    expect(eventBus.publish).toHaveBeenLastCalledWith(
+      'file.unlocked',
+      expect.objectContaining({ data: expect.objectContaining({ reason: 'expired' }) })
+    );
+  });
+
+  it('should only release locks the agent holds', async () => {
+    await locks.acquire('notes.md', agent1);
+
+    expect(await locks.release('notes.md', 'agent-2')).toBe(false);
+    expect(await locks.release('notes.md', 'agent-1')).toBe(true);
+    expect(locks.getLock('notes.md')).toBeUndefined();
+  });
+
+  it('should let an operator break any lock', async () => {
+    await locks.acquire('a.md', agent1);
+    await locks.acquire('b.md', agent2);
+
+    const broken = await locks.breakLock('a.md');
+
+    expect(broken).toMatchObject({ path: 'a.md', agentId: 'agent-1' });
+    expect(locks.listLocks().map((lock) => lock.path)).toEqual(['b.md']);
+    expect(await locks.breakLock('a.md')).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+import { CreateMemoryRequest, MemoryEntry } from '@mosaic/shared';
+import {
+  MemoryConsolidator,
+  MemorySummarizer,
+  parseSummary,
+} from '../../../src/services/memory/memory-consolidator';
+import type { MemoryManagerService } from '../../../src/services/memory/memory-manager.service';
+import { TestDatabase, createTestDatabase } from '../../helpers/test-database';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('MemoryConsolidator', () => {
+  let database: TestDatabase;
+  let created: Array<CreateMemoryRequest & { agentId: string; sessionId: string }>;
+  let summarize: jest.MockedFunction<MemorySummarizer>;
+  let consolidator: MemoryConsolidator;
+
+  const memoryManager = {
+    createMemory: async (agentId: string, sessionId: string, request: CreateMemoryRequest) => {
+      created.push({ agentId, sessionId, ...request });
+      return { id: `summary-${created.length}` } as MemoryEntry;
+    },
+  } as unknown as MemoryManagerService;
+
+  // Entries added in a row are a millisecond apart, so they keep their order
+  let added = 0;
+  const add = (id: string, ageDays: number, overrides: Partial<MemoryEntry> = {}) => {
+    const date = new Date(Date.now() - ageDays * DAY + added++);
+    database.memories.save({
+      id,
+      agentId: 'agent-1',
+      sessionId: 'session-1',
+      type: 'observation',
+      importance: 'low',
+      title: `Memory ${id}`,
+      content: `Content of ${id}`,
+      metadata: {},
+      tags: [],
+      createdAt: date,
+      updatedAt: date,
+      ...overrides,
+    });
+  };
+  const stored = (id: string) => database.memories.findById(id);
+
+  beforeEach(async () => {
+    database = await createTestDatabase();
+    created = [];
+    summarize = jest.fn(async (memories: MemoryEntry[]) => ({
+      title: 'Learned',
+      content: `From ${memories.length} entries`,
+    }));
+    consolidator = new MemoryConsolidator(database.memories, memoryManager, summarize, {
+      intervalMs: 0,
+      minAgeDays: 7,
+      decayDays: 30,
+      minGroupSize: 3,
+      maxGroupSize: 20,
+    });
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  it('should summarize old low-importance entries per agent and task', async () => {
+    ['a', 'b', 'c'].forEach((id) => add(id, 10, { relatedTaskId: 'task-1', tags: ['db'] }));
+    ['d', 'e'].forEach((id) => add(id, 10, { relatedTaskId: 'task-2' }));
+    add('recent', 1, { relatedTaskId: 'task-1' });
+    add('learning', 10, { type: 'learning', relatedTaskId: 'task-1' });
+
+    const result = await consolidator.consolidate();
+
+    expect(result.groups).toEqual([
+      {
+        agentId: 'agent-1',
+        relatedTaskId: 'task-1',
+        memoryIds: ['a', 'b', 'c'],
+        summaryId: 'summary-1',
+      },
+    ]);
+    expect(result.archived).toBe(3);
+    expect(created[0]).toMatchObject({
+      type: 'learning',
+      title: 'Learned',
+      content: 'From 3 entries',
+      relatedTaskId: 'task-1',
+      tags: ['db', 'consolidated'],
+      metadata: { consolidatedFrom: ['a', 'b', 'c'] },
+    });
+    expect(stored('a')?.consolidatedInto).toBe('summary-1');
+    expect(stored('d')?.archivedAt).toBeUndefined();
+  });
+
+  it('should decay the importance of entries not updated for a while', async () => {
+    add('high', 40, { importance: 'high', type: 'learning' });
+    add('critical', 400, { importance: 'critical' });
+    add('fresh', 10, { importance: 'medium' });
+
+    const result = await consolidator.consolidate();
+
+    expect(result.decayed).toEqual([{ memoryId: 'high', from: 'high', to: 'medium' }]);
+    expect(stored('high')?.importance).toBe('medium');
+    expect(stored('high')?.updatedAt.getTime()).toBeLessThan(Date.now() - 39 * DAY);
+
+    // The next level takes another decayDays
+    expect((await consolidator.consolidate()).decayed).toEqual([]);
+  });
+
+  it('should change nothing in a dry run', async () => {
+    ['a', 'b', 'c'].forEach((id) => add(id, 40, { importance: 'medium' }));
+
+    const result = await consolidator.consolidate({ dryRun: true });
+
+    expect(result.decayed).toHaveLength(3);
+    expect(result.groups[0].memoryIds).toEqual(['a', 'b', 'c']);
+    expect(result.archived).toBe(0);
+    expect(summarize).not.toHaveBeenCalled();
+    expect(stored('a')?.importance).toBe('medium');
+    expect(stored('a')?.archivedAt).toBeUndefined();
+  });
+
+  it('should keep the entries of groups that could not be summarized', async () => {
+    ['a', 'b', 'c'].forEach((id) => add(id, 10));
+    summarize.mockRejectedValueOnce(new Error('rate limited'));
+
+    const result = await consolidator.consolidate();
+
+    expect(result.groups[0].error).toBe('rate limited');
+    expect(result.archived).toBe(0);
+    expect(stored('a')?.archivedAt).toBeUndefined();
+  });
+
+  it('should read summaries as JSON or plain text', () => {
+    expect(parseSummary('```json\n{"title": "T", "content": "C"}\n```', 3)).toEqual({
+      title: 'T',
+      content: 'C',
+    });
+    expect(parseSummary('Deploys need migrations first.', 3)).toEqual({
+      title: 'Summary of 3 memories',
+      content: 'Deploys need migrations first.',
+    });
+    expect(() => parseSummary('  ', 3)).toThrow('empty');
+  });
+
+  it('should report a running consolidation and refuse a second one', async () => {
+    ['a', 'b', 'c'].forEach((id) => add(id, 10));
+    let finish!: () => void;
+    summarize.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finish = () => resolve({ title: 'Learned', content: 'Later' });
+        })
+    );
+
+    const first = consolidator.consolidate();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(consolidator.isRunning()).toBe(true);
+    await expect(consolidator.consolidate()).rejects.toThrow('already running');
+    await expect(consolidator.consolidate({ dryRun: true })).resolves.toBeDefined();
+
+    finish();
+    await first;
+    expect(consolidator.isRunning()).toBe(false);
+  });
+
+  it.each(['soon', '-5', 'NaN'])(
+    'should fall back to the default interval for MEMORY_CONSOLIDATION_INTERVAL_MS=%s',
+    (value) => {
+      const previous = process.env.MEMORY_CONSOLIDATION_INTERVAL_MS;
+      process.env.MEMORY_CONSOLIDATION_INTERVAL_MS = value;
+      try {
+        const fromEnv = new MemoryConsolidator(database.memories, memoryManager, summarize);
+        expect((fromEnv as any).intervalMs).toBe(6 * 60 * 60 * 1000);
+      } finally {
+        if (previous === undefined) delete process.env.MEMORY_CONSOLIDATION_INTERVAL_MS;
+        else process.env.MEMORY_CONSOLIDATION_INTERVAL_MS = previous;
+      }
+    }
+  );
+});
@@ -0,0 +1,163 @@
+import { ScoredMemoryEntry } from '@mosaic/shared';
+import { MemoryManagerService } from '../../../src/services/memory/memory-manager.service';
+import {
+  EmbeddingProvider,
+  HashingEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  cosineSimilarity,
+  createEmbeddingProvider,
+  embeddingApiKey,
+} from '../../../src/services/memory/embedding-provider';
+import { TestDatabase, createTestDatabase } from '../../helpers/test-database';
+
+describe('memory search', () => {
+  let database: TestDatabase;
+  let provider: EmbeddingProvider;
+  let manager: MemoryManagerService;
+  let ids: Record<string, string>;
+
+  const remember = async (title: string, content: string) => {
+    const memory = await manager.createMemory('agent-1', 'session-1', {
+      type: 'learning',
+      importance: 'high',
+      title,
+      content,
+    });
+    ids[title] = memory.id;
+  };
+  const embeddingOf = (title: string, model = provider.model) =>
+    database.memories.findEmbeddings([ids[title]], model).get(ids[title]);
+
+  beforeEach(async () => {
+    database = await createTestDatabase();
+    provider = new HashingEmbeddingProvider();
+    manager = new MemoryManagerService(database.memories, () => provider);
+    ids = {};
+
+    await remember(
+      'Deploy failure',
+      'The deploy failed because the database migration timed out; run migrations first'
+    );
+    await remember('Styling', 'Buttons use the brand colors from the design tokens');
+    await remember('Flaky tests', 'Integration tests time out when the mock server is slow');
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  it('should embed entries when they are written', () => {
+    const embeddings = database.memories.findEmbeddings(Object.values(ids), 'local-hashing-512');
+
+    expect(embeddings.size).toBe(3);
+  });
+
+  it('should find entries by meaning in semantic mode', async () => {
+    const results = (await manager.searchMemories(
+      'agent-1',
+      'database migrations timing out',
+      10,
+      'semantic'
+    )) as ScoredMemoryEntry[];
+
+    expect(results[0].title).toBe('Deploy failure');
+    expect(results.map((memory) => memory.title)).not.toContain('Styling');
+    expect(results[0].semanticScore).toBeGreaterThan(0.2);
+  });
+
+  it('should rank keyword matches first in hybrid mode', async () => {
+    const results = (await manager.searchMemories('agent-1', 'mock server')) as ScoredMemoryEntry[];
+
+    expect(results[0]).toMatchObject({ title: 'Flaky tests', keywordScore: 1 });
+    expect(results[0].score).toBeGreaterThan(results[1]?.score ?? 0);
+  });
+
+  it('should keep substring matching in keyword mode', async () => {
+    const results = await manager.searchMemories('agent-1', 'migrations timing', 10, 'keyword');
+
+    expect(results).toEqual([]);
+    expect(await manager.searchMemories('agent-1', 'brand colors', 10, 'keyword')).toHaveLength(1);
+  });
+
+  it('should re-embed entries whose text changed', async () => {
+    const before = embeddingOf('Styling')!.vector;
+
+    await manager.updateMemory({ memoryId: ids['Styling'], content: 'Use the primary palette' });
+
+    expect(cosineSimilarity(before, embeddingOf('Styling')!.vector)).toBeLessThan(0.9);
+  });
+
+  it('should embed entries missing vectors, e.g. after a model change, at search time', async () => {
+    provider = new HashingEmbeddingProvider(256);
+
+    const results = await manager.searchMemories('agent-1', 'design tokens', 10, 'semantic');
+
+    expect(results[0].title).toBe('Styling');
+    expect(embeddingOf('Deploy failure', 'local-hashing-256')).toBeDefined();
+  });
+
+  it('should fall back to keyword ranking when the embedding provider fails', async () => {
+    provider = {
+      model: 'broken',
+      embed: async () => {
+        throw new Error('offline');
+      },
+    };
+
+    const results = await manager.searchMemories('agent-1', 'brand colors', 10, 'semantic');
+
+    expect(results.map((memory) => memory.title)).toEqual(['Styling']);
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should use local embeddings without a config', () => {
+    expect(createEmbeddingProvider({})).toBeInstanceOf(HashingEmbeddingProvider);
+    expect(
+      createEmbeddingProvider({
+        embedding_model: 'hash',
+        embedding_endpoint_type: 'local',
+        embedding_dim: 128,
+      }).model
+    ).toBe('local-hashing-128');
+  });
+
+  it('should use an OpenAI-compatible endpoint when configured', () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+
+    const provider = createEmbeddingProvider({
+      embedding_model: 'text-embedding-3-small',
+      embedding_endpoint_type: 'openai',
+    });
+
+    expect(provider).toBeInstanceOf(OpenAIEmbeddingProvider);
+    expect(provider.model).toBe('openai:text-embedding-3-small');
+  });
+
+  it('should fall back to local embeddings without credentials', () => {
+    delete process.env.OPENAI_API_KEY;
+
+    const provider = createEmbeddingProvider({ embedding_model: 'text-embedding-3-small' });
+
+    expect(provider).toBeInstanceOf(HashingEmbeddingProvider);
+  });
+
+  it('should only send the OpenAI key to the OpenAI API', () => {
+    process.env.OPENAI_API_KEY = 'openai-key';
+    process.env.EMBEDDING_API_KEY = 'embedding-key';
+
+    expect(embeddingApiKey()).toBe('openai-key');
+    expect(embeddingApiKey('https://api.openai.com/v1')).toBe('openai-key');
+    expect(embeddingApiKey('https://embeddings.example.com/v1')).toBe('embedding-key');
+
+    delete process.env.EMBEDDING_API_KEY;
+    delete process.env.LOCAL_LLM_API_KEY;
+    expect(embeddingApiKey('http://localhost:11434/v1')).toBe('not-needed');
+  });
+});
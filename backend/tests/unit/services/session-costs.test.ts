@@ -0,0 +1,86 @@
+import * as databaseModule from '../../../src/persistence/database';
+import { EventBus } from '../../../src/core/event-bus';
+import { SessionManager } from '../../../src/services/session/session-manager.service';
+import { TaskManager } from '../../../src/services/task/task-manager.service';
+import { TestDatabase, createTestDatabase } from '../../helpers/test-database';
+
+describe('SessionManager LLM usage', () => {
+  let database: TestDatabase;
+  let eventBus: EventBus;
+  let sessions: SessionManager;
+
+  const call = (model: string, promptTokens: number, completionTokens: number) => ({
+    provider: 'openai',
+    model,
+    usage: { promptTokens, completionTokens },
+  });
+
+  beforeEach(async () => {
+    database = await createTestDatabase();
+    jest
+      .spyOn(databaseModule, 'getDatabase')
+      .mockReturnValue({ getDb: () => database.db } as unknown as databaseModule.DatabaseService);
+
+    eventBus = {
+      publish: jest.fn(async () => undefined),
+      subscribe: jest.fn(() => () => undefined),
+    } as unknown as EventBus;
+    const taskManager = { getTask: jest.fn(() => undefined) } as unknown as TaskManager;
+    sessions = new SessionManager(eventBus, taskManager);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await database.close();
+  });
+
+  it('should keep LLM calls out of the action timeline', async () => {
+    const session = await sessions.createSession('costs');
+
+    await sessions.recordLLMUsage(session.id, 'agent-a', call('gpt-4o', 1000, 200), 'task-1');
+
+    expect(sessions.getTimeline(session.id)).toHaveLength(0);
+    expect(eventBus.publish).not.toHaveBeenCalledWith('action.recorded', expect.anything());
+    expect(eventBus.publish).toHaveBeenCalledWith(
+      'llm.usage',
+      expect.objectContaining({
+        data: expect.objectContaining({
+          sessionId: session.id,
+          agentId: 'agent-a',
+          taskId: 'task-1',
+          promptTokens: 1000,
+          completionTokens: 200,
+        }),
+      })
+    );
+  });
+
+  it('should total tokens per agent across sessions', async () => {
+    const first = await sessions.createSession('first');
+    const second = await sessions.createSession('second');
+
+    await sessions.recordLLMUsage(first.id, 'agent-a', call('gpt-4o', 1000, 200));
+    await sessions.recordLLMUsage(second.id, 'agent-a', call('gpt-4o-mini', 300, 50));
+    await sessions.recordLLMUsage(second.id, 'agent-b', call('gpt-4o', 10, 10));
+
+    expect(sessions.getAgentUsage('agent-a')).toEqual({ llmCalls: 2, totalTokens: 1550 });
+    expect(sessions.getAgentUsage('agent-c')).toEqual({ llmCalls: 0, totalTokens: 0 });
+  });
+
+  it('should roll usage up into session stats and costs', async () => {
+    const session = await sessions.createSession('costs');
+
+    await sessions.recordLLMUsage(session.id, 'agent-a', call('gpt-4o', 1_000_000, 0));
+    await sessions.recordLLMUsage(session.id, 'agent-b', call('gpt-4o', 0, 100_000));
+
+    const stats = sessions.getSession(session.id)!.stats;
+    expect(stats.llmRequests).toBe(2);
+    expect(stats.totalCost).toBeCloseTo(3.5);
+
+    const costs = sessions.getCosts(session.id);
+    expect(costs.totals).toMatchObject({ llmRequests: 2, totalTokens: 1_100_000 });
+    expect(costs.byAgent.map((a) => a.agentId)).toEqual(['agent-a', 'agent-b']);
+    expect(costs.byModel).toEqual([expect.objectContaining({ provider: 'openai', model: 'gpt-4o' })]);
+    expect(sessions.getSession(session.id)!.agentIds.sort()).toEqual(['agent-a', 'agent-b']);
+  });
+});
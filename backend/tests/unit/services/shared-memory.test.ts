@@ -0,0 +1,177 @@
+import {
+  AgentPermissions,
+  CreateMemoryRequest,
+  MemoryEntry,
+  MemoryReader,
+  MemoryScope,
+} from '@mosaic/shared';
+import { MemoryManagerService, canRead } from '../../../src/services/memory/memory-manager.service';
+import { HashingEmbeddingProvider } from '../../../src/services/memory/embedding-provider';
+import { invokeSharedMemoryTool } from '../../../src/services/memory/shared-memory-tools';
+import { TestDatabase, agentRecord, createTestDatabase } from '../../helpers/test-database';
+
+function agent(id: string, groupId?: string, permissions?: AgentPermissions) {
+  return agentRecord(id, {
+    metadata_: { mosaic: { sessionId: `session-${id}`, config: { permissions } } },
+    multi_agent_group: groupId ? { group_id: groupId } : undefined,
+  });
+}
+
+describe('shared memory', () => {
+  let database: TestDatabase;
+  let manager: MemoryManagerService;
+
+  const learning = { type: 'learning', importance: 'high', title: 'API', content: 'v2 is live' };
+
+  beforeEach(async () => {
+    database = await createTestDatabase();
+    [
+      agent('researcher', 'research'),
+      agent('writer', 'research', { memory: { scopes: ['global'] } }),
+      agent('loner'),
+    ].forEach((record) => database.agents.save(record));
+    manager = new MemoryManagerService(
+      database.memories,
+      () => new HashingEmbeddingProvider(),
+      database.agents
+    );
+  });
+
+  afterEach(async () => {
+    await database.close();
+  });
+
+  it('should build readers from the agent team, session and permissions', () => {
+    expect(manager.readerFor('researcher')).toEqual({
+      agentId: 'researcher',
+      sessionId: 'session-researcher',
+      teamId: 'research',
+      scopes: ['session', 'team', 'global'],
+    });
+    expect(manager.readerFor('writer').scopes).toEqual(['global']);
+    expect(manager.readerFor('researcher', 's2', { memory: { read: false } })).toMatchObject({
+      sessionId: 's2',
+      scopes: [],
+    });
+  });
+
+  it('should share team entries with the agent group only', async () => {
+    const shared = await manager.shareMemory('researcher', 's1', {
+      ...learning,
+      scope: 'team',
+    } as CreateMemoryRequest & { scope: 'team' });
+
+    expect(shared).toMatchObject({ scope: 'team', teamId: 'research' });
+    expect(canRead({ agentId: 'x', teamId: 'research', scopes: ['team'] }, shared)).toBe(true);
+    expect(canRead({ agentId: 'x', teamId: 'other', scopes: ['team'] }, shared)).toBe(false);
+    expect(canRead({ agentId: 'x', teamId: 'research', scopes: ['global'] }, shared)).toBe(false);
+    expect(canRead({ agentId: 'researcher', scopes: [] }, { ...shared, scope: 'private' })).toBe(
+      true
+    );
+  });
+
+  it('should refuse shares the permissions or team do not allow', async () => {
+    const share = (agentId: string, scope: any, permissions?: AgentPermissions) =>
+      manager.shareMemory(agentId, 's1', { ...learning, scope } as any, permissions);
+
+    await expect(share('writer', 'team', { memory: { scopes: ['global'] } })).rejects.toThrow(
+      'sharing memory with team scope is not allowed'
+    );
+    await expect(share('researcher', 'global', { memory: { write: false } })).rejects.toThrow(
+      'memory write access is not allowed'
+    );
+    await expect(share('loner', 'team')).rejects.toThrow('not in a multi-agent group');
+    await expect(share('researcher', 'private')).rejects.toThrow('scope must be one of');
+    expect(database.memories.query({})).toHaveLength(0);
+  });
+
+  it('should publish learnings through share_memory', async () => {
+    const shared: MemoryEntry[] = [];
+    const result = await invokeSharedMemoryTool(
+      manager,
+      { agentId: 'researcher', sessionId: 's1', taskId: 'task-1' },
+      'share_memory',
+      { title: ' Rate limits ', content: 'The API allows 10 requests a second', tags: ['api'] },
+      (memory) => {
+        shared.push(memory);
+      }
+    );
+
+    expect(result).toEqual({ success: true, data: 'Shared "Rate limits" with team scope' });
+    expect(shared[0]).toMatchObject({
+      type: 'learning',
+      importance: 'high',
+      relatedTaskId: 'task-1',
+      tags: ['api'],
+      teamId: 'research',
+    });
+
+    const failed = await invokeSharedMemoryTool(
+      manager,
+      { agentId: 'researcher', sessionId: 's1' },
+      'share_memory',
+      { title: 'No content' }
+    );
+    expect(failed).toEqual({ success: false, error: 'Missing required parameter: content' });
+  });
+
+  describe('visibility queries', () => {
+    const entries: Array<[string, string, MemoryScope, string?]> = [
+      ['researcher', 's1', 'private'],
+      ['researcher', 's1', 'team', 'research'],
+      ['x', 's2', 'team', 'other'],
+      ['x', 's2', 'global'],
+      ['x', 's1', 'session'],
+      ['x', 's2', 'session'],
+      ['x', 's1', 'private'],
+    ];
+    const readers: MemoryReader[] = [
+      {
+        agentId: 'writer',
+        sessionId: 's1',
+        teamId: 'research',
+        scopes: ['session', 'team', 'global'],
+      },
+      { agentId: 'writer', teamId: 'research', scopes: ['team'] },
+      { agentId: 'writer', sessionId: 's1', scopes: [] },
+      { agentId: 'researcher', scopes: [] },
+    ];
+
+    beforeEach(() => {
+      entries.forEach(([agentId, sessionId, scope, teamId], i) =>
+        database.memories.create(
+          agentId,
+          sessionId,
+          { ...learning, title: `${i}`, scope } as CreateMemoryRequest,
+          teamId
+        )
+      );
+    });
+
+    const visibleTitles = (reader: MemoryReader) =>
+      database.memories
+        .query({ visibleTo: reader })
+        .map((memory) => memory.title)
+        .sort();
+
+    it('should return own entries and those shared in the scopes read', () => {
+      expect(visibleTitles(readers[0])).toEqual(['1', '3', '4']);
+      expect(visibleTitles(readers[1])).toEqual(['1']);
+      expect(visibleTitles(readers[2])).toEqual([]);
+      expect(visibleTitles(readers[3])).toEqual(['0', '1']);
+    });
+
+    it('should match canRead for every reader and entry', () => {
+      const all = database.memories.query({});
+
+      for (const reader of readers) {
+        expect(visibleTitles(reader)).toEqual(
+          all
+            .filter((memory) => canRead(reader, memory))
+            .map((memory) => memory.title)
+            .sort()
+        );
+      }
+    });
+  });
+});
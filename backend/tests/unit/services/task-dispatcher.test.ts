@@ -0,0 +1,126 @@
+import { AgentCard, AgentStatus } from '@mosaic/shared';
+import * as databaseModule from '../../../src/persistence/database';
+import { EventBus } from '../../../src/core/event-bus';
+import { TaskManager } from '../../../src/services/task/task-manager.service';
+import { DispatchableAgent, TaskDispatcher } from '../../../src/services/task/task-dispatcher';
+import { TestDatabase, createTestDatabase } from '../../helpers/test-database';
+
+describe('TaskDispatcher', () => {
+  let database: TestDatabase;
+  let tasks: TaskManager;
+  let dispatcher: TaskDispatcher;
+
+  const agent = (
+    id: string,
+    capabilities: string[] = [],
+    status: AgentStatus = 'idle'
+  ): DispatchableAgent & { start: jest.Mock } => ({
+    id,
+    status,
+    getCapabilities: () => ({ capabilities: capabilities.map((name) => ({ name })) }) as AgentCard,
+    start: jest.fn(async () => undefined),
+  });
+
+  const create = (
+    title: string,
+    requiredCapabilities: string[] = [],
+    priority?: 'critical' | 'low'
+  ) =>
+    tasks.createTask({
+      title,
+      description: title,
+      createdBy: 'user',
+      priority,
+      metadata: { requiredCapabilities },
+    });
+
+  beforeEach(async () => {
+    database = await createTestDatabase();
+    jest
+      .spyOn(databaseModule, 'getDatabase')
+      .mockReturnValue({ getDb: () => database.db } as unknown as databaseModule.DatabaseService);
+
+    const eventBus = { publish: jest.fn(async () => undefined) } as unknown as EventBus;
+    tasks = new TaskManager(eventBus);
+    dispatcher = new TaskDispatcher(tasks, { leaseMs: 1000 });
+  });
+
+  afterEach(async () => {
+    dispatcher.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    await database.close();
+  });
+
+  it('should assign open tasks to idle agents with the required capabilities and start them', async () => {
+    const browser = agent('browser-agent', ['browser']);
+    const writer = agent('writer-agent', ['filesystem']);
+    dispatcher.registerAgent(browser);
+    dispatcher.registerAgent(writer);
+    const task = await create('scrape', ['browser']);
+
+    const assigned = await dispatcher.dispatch();
+
+    expect(assigned.map((t) => t.id)).toEqual([task.id]);
+    expect(tasks.getTask(task.id)!.assignedTo).toBe('browser-agent');
+    expect(browser.start).toHaveBeenCalled();
+    expect(writer.start).not.toHaveBeenCalled();
+  });
+
+  it('should give each agent one task per cycle, most urgent first', async () => {
+    dispatcher.registerAgent(agent('agent-a'));
+    await create('later', [], 'low');
+    const urgent = await create('urgent', [], 'critical');
+
+    const assigned = await dispatcher.dispatch();
+
+    expect(assigned.map((t) => t.id)).toEqual([urgent.id]);
+  });
+
+  it('should skip agents that already have work or are paused', async () => {
+    dispatcher.registerAgent(agent('paused-agent', [], 'paused'));
+    dispatcher.registerAgent(agent('busy-agent'));
+    await tasks.createTask({
+      title: 'existing',
+      description: 'existing',
+      createdBy: 'user',
+      assignedTo: 'busy-agent',
+    });
+    await create('new');
+
+    expect(await dispatcher.dispatch()).toEqual([]);
+  });
+
+  it('should not start agents that are already running', async () => {
+    const running = agent('agent-a', [], 'running');
+    dispatcher.registerAgent(running);
+    await create('task');
+
+    await dispatcher.dispatch();
+
+    expect(running.start).not.toHaveBeenCalled();
+  });
+
+  it('should hand tasks with expired leases to another agent', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const task = await create('task');
+    await tasks.claimTask({ taskId: task.id, agentId: 'crashed-agent', leaseMs: 1000 });
+    dispatcher.registerAgent(agent('agent-b'));
+
+    expect(await dispatcher.dispatch()).toEqual([]);
+
+    jest.setSystemTime(new Date('2026-01-01T00:00:02Z'));
+    const assigned = await dispatcher.dispatch();
+
+    expect(assigned.map((t) => t.assignedTo)).toEqual(['agent-b']);
+  });
+
+  it('should stop delegating to unregistered agents', async () => {
+    dispatcher.registerAgent(agent('agent-a'));
+    dispatcher.unregisterAgent('agent-a');
+    await create('task');
+
+    expect(dispatcher.isRegistered('agent-a')).toBe(false);
+    expect(await dispatcher.dispatch()).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import { TaskLease } from '@mosaic/shared';
+import * as databaseModule from '../../../src/persistence/database';
+import { EventBus } from '../../../src/core/event-bus';
+import { TaskManager } from '../../../src/services/task/task-manager.service';
+import { TestDatabase, createTestDatabase } from '../../helpers/test-database';
+
+describe('TaskManager leases', () => {
+  let database: TestDatabase;
+  let eventBus: EventBus;
+  let tasks: TaskManager;
+
+  const create = (title = 'task') =>
+    tasks.createTask({ title, description: title, createdBy: 'user' });
+  const leaseOf = (taskId: string) =>
+    tasks.getTask(taskId)!.metadata.lease as TaskLease | undefined;
+
+  beforeEach(async () => {
+    database = await createTestDatabase();
+    jest
+      .spyOn(databaseModule, 'getDatabase')
+      .mockReturnValue({ getDb: () => database.db } as unknown as databaseModule.DatabaseService);
+
+    eventBus = { publish: jest.fn(async () => undefined) } as unknown as EventBus;
+    tasks = new TaskManager(eventBus);
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    await database.close();
+  });
+
+  it('should assign a claimed task and lease it to the agent', async () => {
+    const task = await create();
+
+    const claimed = await tasks.claimTask({ taskId: task.id, agentId: 'agent-a', leaseMs: 1000 });
+
+    expect(claimed.assignedTo).toBe('agent-a');
+    expect(leaseOf(task.id)).toMatchObject({ agentId: 'agent-a', durationMs: 1000 });
+    expect(eventBus.publish).toHaveBeenCalledWith('task.claimed', expect.anything());
+  });
+
+  it('should refuse a claim while another agent holds a live lease', async () => {
+    const task = await create();
+    await tasks.claimTask({ taskId: task.id, agentId: 'agent-a' });
+
+    await expect(tasks.claimTask({ taskId: task.id, agentId: 'agent-b' })).rejects.toThrow(
+      'already claimed by agent-a'
+    );
+  });
+
+  it('should refuse to claim tasks that are not open', async () => {
+    const task = await create();
+    await tasks.updateTask({ taskId: task.id, status: 'blocked' });
+
+    await expect(tasks.claimTask({ taskId: task.id, agentId: 'agent-a' })).rejects.toThrow(
+      'is not open'
+    );
+  });
+
+  it('should extend the lease on a heartbeat from its holder only', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const task = await create();
+    await tasks.claimTask({ taskId: task.id, agentId: 'agent-a', leaseMs: 1000 });
+
+    jest.setSystemTime(new Date('2026-01-01T00:00:00.800Z'));
+    const lease = tasks.heartbeatTask(task.id, 'agent-a');
+
+    expect(lease.expiresAt).toBe('2026-01-01T00:00:01.800Z');
+    expect(() => tasks.heartbeatTask(task.id, 'agent-b')).toThrow('not claimed by agent-b');
+  });
+
+  it('should return a released task to the open pool', async () => {
+    const task = await create();
+    await tasks.claimTask({ taskId: task.id, agentId: 'agent-a' });
+    await tasks.updateTask({ taskId: task.id, status: 'in_progress' });
+
+    await expect(tasks.releaseTask(task.id, 'agent-b')).rejects.toThrow('not claimed by agent-b');
+    const released = await tasks.releaseTask(task.id, 'agent-a', 'Shutting down');
+
+    expect(released).toMatchObject({
+      status: 'open',
+      assignedTo: undefined,
+      agentNotes: 'Shutting down',
+    });
+    expect(leaseOf(task.id)).toBeUndefined();
+    expect(eventBus.publish).toHaveBeenCalledWith(
+      'task.released',
+      expect.objectContaining({ data: expect.objectContaining({ agentId: 'agent-a' }) })
+    );
+  });
+
+  it('should release only tasks whose lease expired', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const stale = await create('stale');
+    const live = await create('live');
+    await tasks.claimTask({ taskId: stale.id, agentId: 'agent-a', leaseMs: 1000 });
+    await tasks.claimTask({ taskId: live.id, agentId: 'agent-b', leaseMs: 5000 });
+
+    jest.setSystemTime(new Date('2026-01-01T00:00:02Z'));
+    const released = await tasks.releaseExpiredLeases();
+
+    expect(released.map((t) => t.id)).toEqual([stale.id]);
+    expect(released[0].agentNotes).toBe('Lease held by agent-a expired');
+    expect(leaseOf(live.id)?.agentId).toBe('agent-b');
+  });
+
+  it.each(['completed', 'failed', 'blocked'] as const)(
+    'should clear the lease when the task becomes %s',
+    async (status) => {
+      const task = await create();
+      await tasks.claimTask({ taskId: task.id, agentId: 'agent-a' });
+
+      await tasks.updateTask({ taskId: task.id, status });
+
+      expect(leaseOf(task.id)).toBeUndefined();
+    }
+  );
+
+  it('should keep the lease while the task runs', async () => {
+    const task = await create();
+    await tasks.claimTask({ taskId: task.id, agentId: 'agent-a' });
+
+    await tasks.updateTask({ taskId: task.id, status: 'in_progress' });
+
+    expect(leaseOf(task.id)?.agentId).toBe('agent-a');
+  });
+});
@@ -0,0 +1,112 @@
+import { Task, TaskStatus } from '@mosaic/shared';
+import { TaskScheduler } from '../../../src/services/task/task-scheduler';
+import { TaskManager } from '../../../src/services/task/task-manager.service';
+
+const task = (id: string, dependencies: string[] = [], status: TaskStatus = 'open'): Task => ({
+  id,
+  title: id,
+  description: id,
+  status,
+  priority: 'medium',
+  childTaskIds: [],
+  createdBy: 'user',
+  tags: [],
+  metadata: { dependencies },
+  createdAt: new Date(),
+  lastUpdatedAt: new Date(),
+});
+
+describe('TaskScheduler', () => {
+  let taskManager: TaskManager;
+
+  beforeEach(() => {
+    taskManager = { updateTask: jest.fn(async () => undefined) } as unknown as TaskManager;
+  });
+
+  it('should start a task only after its dependencies complete', async () => {
+    const scheduler = new TaskScheduler(taskManager, { concurrency: 3 });
+    const events: string[] = [];
+
+    const result = await scheduler.run(
+      [task('deploy', ['build', 'test']), task('test', ['build']), task('build')],
+      async (t) => {
+        events.push(`start:${t.id}`);
+        await new Promise((resolve) => setImmediate(resolve));
+        events.push(`end:${t.id}`);
+      }
+    );
+
+    expect(events).toEqual([
+      'start:build',
+      'end:build',
+      'start:test',
+      'end:test',
+      'start:deploy',
+      'end:deploy',
+    ]);
+    expect(result).toEqual({ completed: ['build', 'test', 'deploy'], failed: [], blocked: [] });
+  });
+
+  it('should not re-run completed tasks and treat them as satisfied', async () => {
+    const scheduler = new TaskScheduler(taskManager);
+    const executor = jest.fn(async (_task: Task) => undefined);
+
+    await scheduler.run([task('a', [], 'completed'), task('b', ['a'])], executor);
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(executor).toHaveBeenCalledWith(expect.objectContaining({ id: 'b' }));
+  });
+
+  it('should block tasks in a dependency cycle without running them', async () => {
+    const scheduler = new TaskScheduler(taskManager);
+    const executor = jest.fn(async (_task: Task) => undefined);
+
+    const result = await scheduler.run(
+      [task('free'), task('a', ['b']), task('b', ['c']), task('c', ['a'])],
+      executor
+    );
+
+    expect(executor.mock.calls.map(([t]) => t.id)).toEqual(['free']);
+    expect(result.completed).toEqual(['free']);
+    expect(result.blocked.sort()).toEqual(['a', 'b', 'c']);
+    expect(taskManager.updateTask).toHaveBeenCalledWith({
+      taskId: 'a',
+      status: 'blocked',
+      errorMessage: 'Dependency cycle detected between sub-tasks',
+    });
+  });
+
+  it('should block transitive dependents of a failed task', async () => {
+    const scheduler = new TaskScheduler(taskManager);
+
+    const result = await scheduler.run(
+      [task('a'), task('b', ['a']), task('c', ['b']), task('d')],
+      async (t) => {
+        if (t.id === 'a') throw new Error('boom');
+      }
+    );
+
+    expect(result.failed).toEqual(['a']);
+    expect(result.blocked).toEqual(['b', 'c']);
+    expect(result.completed).toEqual(['d']);
+  });
+
+  it('should never run more tasks at once than the concurrency limit', async () => {
+    const scheduler = new TaskScheduler(taskManager, { concurrency: 2 });
+    let running = 0;
+    let peak = 0;
+
+    const result = await scheduler.run(
+      ['a', 'b', 'c', 'd', 'e'].map((id) => task(id)),
+      async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+      }
+    );
+
+    expect(peak).toBe(2);
+    expect(result.completed).toHaveLength(5);
+  });
+});
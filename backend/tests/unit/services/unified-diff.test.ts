@@ -0,0 +1,52 @@
+import { createUnifiedDiff } from '../../../src/services/workspace/unified-diff';
+
+describe('createUnifiedDiff', () => {
+  const lines = (count: number) =>
+    Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+  it('should return an empty diff for identical content', () => {
+    expect(createUnifiedDiff('same\n', 'same\n')).toEqual({ diff: '', additions: 0, deletions: 0 });
+  });
+
+  it('should split distant changes into separate hunks with context', () => {
+    const before = lines(12);
+    const after = before.replace('line 2\n', 'line two\n') + 'line 13\n';
+
+    const result = createUnifiedDiff(before, after, {
+      oldLabel: 'a/notes.md',
+      newLabel: 'b/notes.md',
+    });
+
+    expect(result.diff).toBe(
+      [
+        '--- a/notes.md',
+        '+++ b/notes.md',
+        '@@ -1,5 +1,5 @@',
+        ' line 1',
+        '-line 2',
+        '+line two',
+        ' line 3',
+        ' line 4',
+        ' line 5',
+        '@@ -10,3 +10,4 @@',
+        ' line 10',
+        ' line 11',
+        ' line 12',
+        '+line 13',
+        '',
+      ].join('\n')
+    );
+    expect(result).toMatchObject({ additions: 2, deletions: 1 });
+  });
+
+  it('should describe created and deleted files', () => {
+    expect(createUnifiedDiff('', 'new\n').diff).toContain('@@ -0,0 +1,1 @@\n+new\n');
+    expect(createUnifiedDiff('old\n', '').diff).toContain('@@ -1,1 +0,0 @@\n-old\n');
+  });
+
+  it('should find a minimal diff when lines move', () => {
+    const result = createUnifiedDiff('a\nb\nc\nd\n', 'b\nc\nd\na\n', { context: 0 });
+
+    expect(result).toMatchObject({ additions: 1, deletions: 1 });
+  });
+});
@@ -9,6 +9,8 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { AgentManager } from '@/components/AgentManager';
 import { TaskBoard } from '@/components/TaskBoard';
 import { MultiAgentActivity } from '@/components/MultiAgentActivity';
+import { ApprovalsPanel } from '@/components/ApprovalsPanel';
+import { FileLocksPanel } from '@/components/FileLocksPanel';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { Users, CheckSquare, Activity, Sparkles } from 'lucide-react';
 
@@ -18,7 +20,7 @@ export default function Dashboard() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [activeTab, setActiveTab] = useState<Tab>('agents');
-  const { isConnected, events } = useWebSocket();
+  const { isConnected, events, socket } = useWebSocket();
 
   // Sync activeTab with URL
   useEffect(() => {
@@ -102,11 +104,16 @@ export default function Dashboard() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Tool calls waiting for an operator, shown on every tab */}
+        <ApprovalsPanel realtimeEvents={events} />
+        <FileLocksPanel realtimeEvents={events} />
+
         <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
           {activeTab === 'agents' && (
             <AgentManager
               onSessionSelect={(agentId) => navigateToTab('activity', { agentId })}
               realtimeEvents={events}
+              socket={socket}
             />
           )}
           {activeTab === 'tasks' && (
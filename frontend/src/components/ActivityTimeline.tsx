@@ -9,6 +9,7 @@ import { formatDistanceToNow } from 'date-fns';
 import axios from 'axios';
 import { RealtimeEvent } from '@/hooks/useWebSocket';
 import { getApiUrl } from '@/config/api';
+import { FileDiffView } from '@/components/FileDiffView';
 import {
   Filter,
   Image as ImageIcon,
@@ -21,7 +22,10 @@ import {
   Zap,
   Code,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  FileText,
+  GitCompare,
+  Brain
 } from 'lucide-react';
 
 interface TimelineEntry {
@@ -46,6 +50,9 @@ interface TimelineEntry {
     error?: any;
     metadata?: any;
   };
+  technicalDetails?: {
+    metadata?: { versionId?: string };
+  };
 }
 
 interface ActivityTimelineProps {
@@ -58,6 +65,7 @@ export function ActivityTimeline({ sessionId, realtimeEvents }: ActivityTimeline
   const [filter, setFilter] = useState<'all' | 'tasks' | 'tools' | 'errors'>('all');
   const [loading, setLoading] = useState(true);
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
+  const [openDiffs, setOpenDiffs] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     fetchTimeline();
@@ -101,6 +109,16 @@ export function ActivityTimeline({ sessionId, realtimeEvents }: ActivityTimeline
     setExpandedItems(newExpanded);
   };
 
+  const toggleDiff = (versionId: string) => {
+    const next = new Set(openDiffs);
+    if (next.has(versionId)) {
+      next.delete(versionId);
+    } else {
+      next.add(versionId);
+    }
+    setOpenDiffs(next);
+  };
+
   const filteredTimeline = timeline.filter((entry) => {
     if (filter === 'all') return true;
     if (filter === 'tasks') return entry.type.startsWith('task_');
@@ -111,6 +129,14 @@ export function ActivityTimeline({ sessionId, realtimeEvents }: ActivityTimeline
 
   const getEntryIcon = (entry: TimelineEntry) => {
     if (entry.type === 'tool_invoked') return <Wrench className="w-5 h-5" />;
+    if (entry.type === 'file_operation') return <FileText className="w-5 h-5" />;
+    if (
+      entry.type === 'memory_recall' ||
+      entry.type === 'core_memory_edit' ||
+      entry.type === 'memory_share'
+    ) {
+      return <Brain className="w-5 h-5" />;
+    }
     if (entry.type.startsWith('task_')) return <Target className="w-5 h-5" />;
     if (entry.status === 'failed') return <AlertCircle className="w-5 h-5" />;
     return <MessageSquare className="w-5 h-5" />;
@@ -297,6 +323,22 @@ export function ActivityTimeline({ sessionId, realtimeEvents }: ActivityTimeline
                     </>
                   )}
 
+                  {/* File change recorded in the workspace history */}
+                  {entry.technicalDetails?.metadata?.versionId && (
+                    <>
+                      <button
+                        onClick={() => toggleDiff(entry.technicalDetails!.metadata!.versionId!)}
+                        className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 font-medium transition-colors"
+                      >
+                        <GitCompare className="w-4 h-4" />
+                        {openDiffs.has(entry.technicalDetails.metadata.versionId) ? 'Hide Diff' : 'View Diff'}
+                      </button>
+                      {openDiffs.has(entry.technicalDetails.metadata.versionId) && (
+                        <FileDiffView versionId={entry.technicalDetails.metadata.versionId} />
+                      )}
+                    </>
+                  )}
+
                   {/* Screenshot */}
                   {entry.screenshotUrl && (
                     <div className="mt-4 pt-4 border-t border-white/40">
@@ -6,7 +6,9 @@
 import { useState, useRef, useEffect } from 'react';
 import { Send, Play, Square, Trash2, Bot, Monitor, Loader2, Download, Settings } from 'lucide-react';
 import axios from 'axios';
+import type { Socket } from 'socket.io-client';
 import { getApiUrl } from '@/config/api';
+import { useAgentTokenStream } from '@/hooks/useAgentTokenStream';
 
 interface Message {
   id: string;
@@ -32,6 +34,7 @@ interface Agent {
 
 interface AgentChatCardProps {
   agent: Agent;
+  socket: Socket | null;
   onStart: (id: string) => void;
   onStop: (id: string) => void;
   onDelete: (id: string) => void;
@@ -43,6 +46,7 @@ interface AgentChatCardProps {
 
 export function AgentChatCard({
   agent,
+  socket,
   onStart,
   onStop,
   onDelete,
@@ -56,6 +60,7 @@ export function AgentChatCard({
   const [sending, setSending] = useState(false);
   const [loading, setLoading] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { partial, reset: resetPartial } = useAgentTokenStream(socket, agent.id);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -63,7 +68,12 @@ export function AgentChatCard({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, partial]);
+
+  // A new task starts a new stream
+  useEffect(() => {
+    resetPartial();
+  }, [currentTask?.id, resetPartial]);
 
   // Load conversation history on mount
   useEffect(() => {
@@ -243,6 +253,8 @@ export function AgentChatCard({
       };
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
+      // The complete response replaces the streamed partial
+      resetPartial();
       setSending(false);
     }
   };
@@ -299,34 +311,46 @@ export function AgentChatCard({
                 <Loader2 className="w-5 h-5 animate-spin mr-2" />
                 Loading conversation history...
               </div>
-            ) : messages.length === 0 ? (
+            ) : messages.length === 0 && !partial ? (
               <div className="h-full flex items-center justify-center text-gray-400 text-sm">
                 No messages yet. Start a conversation!
               </div>
             ) : (
-              messages.map((message) => (
-                <div
-                  key={message.id}
-                  className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                >
+              <>
+                {messages.map((message) => (
                   <div
-                    className={`max-w-[80%] rounded-lg px-3 py-2 ${
-                      message.role === 'user'
-                        ? 'bg-blue-500 text-white'
-                        : 'bg-gray-100 text-gray-900'
-                    }`}
+                    key={message.id}
+                    className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
                   >
-                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                    <p
-                      className={`text-xs mt-1 ${
-                        message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
+                    <div
+                      className={`max-w-[80%] rounded-lg px-3 py-2 ${
+                        message.role === 'user'
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-gray-100 text-gray-900'
                       }`}
                     >
-                      {new Date(message.timestamp).toLocaleTimeString()}
-                    </p>
+                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      <p
+                        className={`text-xs mt-1 ${
+                          message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
+                        }`}
+                      >
+                        {new Date(message.timestamp).toLocaleTimeString()}
+                      </p>
+                    </div>
                   </div>
-                </div>
-              ))
+                ))}
+                {partial && (
+                  <div className="flex justify-start">
+                    <div className="max-w-[80%] rounded-lg px-3 py-2 bg-gray-100 text-gray-900">
+                      <p className="text-sm whitespace-pre-wrap">
+                        {partial}
+                        <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </>
             )}
             <div ref={messagesEndRef} />
           </div>
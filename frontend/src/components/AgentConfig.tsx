@@ -8,6 +8,7 @@ import axios from 'axios';
 import { getApiUrl } from '@/config/api';
 import { X, Cpu, Settings, Code, Save, Wrench, Key, Database, Plus, Trash2 } from 'lucide-react';
 import { AgentFile, CoreMemoryBlock, LLMConfig } from '@mosaic/shared';
+import { MemoryPanel } from './MemoryPanel';
 
 interface AvailableTool {
   name: string;
@@ -331,6 +332,9 @@ export function AgentConfig({ agentId, onClose }: AgentConfigProps) {
             </div>
           </div>
 
+          {/* Memories, with what other agents shared */}
+          <MemoryPanel agentId={agentId} />
+
           {/* Available Tools from MCP Servers */}
           {config.availableTools && config.availableTools.length > 0 && (
             <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl p-4">
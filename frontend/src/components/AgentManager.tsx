@@ -20,6 +20,7 @@ import {
 } from 'lucide-react';
 import axios from 'axios';
 import toast from 'react-hot-toast';
+import type { Socket } from 'socket.io-client';
 import { RealtimeEvent } from '@/hooks/useWebSocket';
 import { getApiUrl } from '@/config/api';
 import { AgentConfig } from './AgentConfig';
@@ -55,6 +56,7 @@ interface Task {
 interface AgentManagerProps {
   onSessionSelect: (agentId: string) => void;
   realtimeEvents: RealtimeEvent[];
+  socket: Socket | null; // Dashboard socket, reused for token streams
 }
 
 interface MCPServer {
@@ -76,7 +78,7 @@ interface ModelProvider {
   }>;
 }
 
-export function AgentManager({ onSessionSelect, realtimeEvents }: AgentManagerProps) {
+export function AgentManager({ onSessionSelect, realtimeEvents, socket }: AgentManagerProps) {
   const [agents, setAgents] = useState<Agent[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -555,6 +557,7 @@ export function AgentManager({ onSessionSelect, realtimeEvents }: AgentManagerPr
             <AgentChatCard
               key={agent.id}
               agent={agent}
+              socket={socket}
               onStart={startAgent}
               onStop={pauseAgent}
               onDelete={deleteAgent}
@@ -0,0 +1,163 @@
+/**
+ * Approvals Panel - Tool calls waiting for an operator to approve, deny, or edit
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { ApprovalDecision, ApprovalRequest } from '@mosaic/shared';
+import { RealtimeEvent } from '@/hooks/useWebSocket';
+import { getApiUrl } from '@/config/api';
+import { Check, Clock, Pencil, ShieldAlert, X } from 'lucide-react';
+
+interface ApprovalsPanelProps {
+  realtimeEvents: RealtimeEvent[];
+}
+
+const timeLeft = (expiresAt: Date | string): string => {
+  const seconds = Math.max(0, Math.round((new Date(expiresAt).getTime() - Date.now()) / 1000));
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+export function ApprovalsPanel({ realtimeEvents }: ApprovalsPanelProps) {
+  const [approvals, setApprovals] = useState<ApprovalRequest[]>([]);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editedParams, setEditedParams] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchApprovals();
+  }, []);
+
+  useEffect(() => {
+    const latestEvent = realtimeEvents[0];
+    if (latestEvent?.type === 'approval:requested' || latestEvent?.type === 'approval:resolved') {
+      fetchApprovals();
+    }
+  }, [realtimeEvents]);
+
+  const fetchApprovals = async () => {
+    try {
+      const response = await axios.get(getApiUrl('/api/approvals?status=pending'));
+      setApprovals(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch approvals:', error);
+    }
+  };
+
+  const resolve = async (approval: ApprovalRequest, decision: ApprovalDecision) => {
+    let params: any;
+    if (decision === 'edit') {
+      try {
+        params = JSON.parse(editedParams);
+      } catch {
+        setError('Params must be valid JSON');
+        return;
+      }
+    }
+
+    try {
+      await axios.post(getApiUrl(`/api/approvals/${approval.id}`), {
+        decision,
+        params,
+        resolvedBy: 'dashboard',
+      });
+      setEditing(null);
+      setError(null);
+      fetchApprovals();
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to resolve approval');
+    }
+  };
+
+  const startEditing = (approval: ApprovalRequest) => {
+    setEditing(approval.id);
+    setEditedParams(JSON.stringify(approval.params, null, 2));
+    setError(null);
+  };
+
+  if (approvals.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-white rounded-xl border border-amber-200 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <ShieldAlert className="w-5 h-5 text-amber-500" />
+        <h3 className="text-lg font-bold text-gray-900">
+          {approvals.length} tool call{approvals.length === 1 ? '' : 's'} awaiting approval
+        </h3>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      <div className="space-y-3">
+        {approvals.map((approval) => (
+          <div key={approval.id} className="rounded-lg bg-amber-50 p-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-mono text-sm font-semibold text-gray-900">{approval.tool}</p>
+                <p className="text-xs text-gray-500">
+                  Agent {approval.agentId.slice(0, 8)} ·{' '}
+                  <Clock size={12} className="inline -mt-0.5" /> {timeLeft(approval.expiresAt)}{' '}
+                  left, then {approval.defaultAction === 'approve' ? 'approved' : 'denied'}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => resolve(approval, 'approve')}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium bg-green-100 text-green-800 hover:bg-green-200"
+                >
+                  <Check size={14} />
+                  Approve
+                </button>
+                <button
+                  onClick={() => resolve(approval, 'deny')}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium bg-red-100 text-red-800 hover:bg-red-200"
+                >
+                  <X size={14} />
+                  Deny
+                </button>
+                <button
+                  onClick={() => startEditing(approval)}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-gray-700 hover:bg-white"
+                >
+                  <Pencil size={14} />
+                  Edit
+                </button>
+              </div>
+            </div>
+
+            {editing === approval.id ? (
+              <div className="mt-2">
+                <textarea
+                  value={editedParams}
+                  onChange={(e) => setEditedParams(e.target.value)}
+                  rows={6}
+                  className="w-full font-mono text-xs rounded-lg border border-gray-200 p-2"
+                />
+                <div className="flex justify-end gap-1 mt-1">
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="px-3 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-white"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => resolve(approval, 'edit')}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium bg-blue-100 text-blue-800 hover:bg-blue-200"
+                  >
+                    Approve with edits
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <pre className="mt-2 text-xs text-gray-700 whitespace-pre-wrap break-all max-h-32 overflow-auto">
+                {JSON.stringify(approval.params, null, 2)}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
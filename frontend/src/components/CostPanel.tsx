@@ -0,0 +1,157 @@
+/**
+ * Cost Panel - LLM token usage and estimated spend for a session
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { CostTotals, SessionCostSummary } from '@mosaic/shared';
+import { RealtimeEvent } from '@/hooks/useWebSocket';
+import { getApiUrl } from '@/config/api';
+import { Bot, Cpu, DollarSign, Target } from 'lucide-react';
+
+interface CostPanelProps {
+  sessionId: string;
+  realtimeEvents: RealtimeEvent[];
+  agentNames?: Map<string, string>;
+}
+
+type View = 'agents' | 'tasks' | 'models';
+
+const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+};
+
+const formatTokens = (tokens: number): string => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+};
+
+export function CostPanel({ sessionId, realtimeEvents, agentNames }: CostPanelProps) {
+  const [costs, setCosts] = useState<SessionCostSummary | null>(null);
+  const [view, setView] = useState<View>('agents');
+
+  useEffect(() => {
+    fetchCosts();
+  }, [sessionId]);
+
+  // Each LLM call publishes its usage
+  useEffect(() => {
+    const latestEvent = realtimeEvents[0];
+    if (latestEvent?.type === 'llm:usage' && latestEvent.data?.sessionId === sessionId) {
+      fetchCosts();
+    }
+  }, [realtimeEvents]);
+
+  const fetchCosts = async () => {
+    try {
+      const response = await axios.get(getApiUrl(`/api/sessions/${sessionId}/costs`));
+      setCosts(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch session costs:', error);
+    }
+  };
+
+  if (!costs) return null;
+
+  const rows: Array<{ key: string; label: string; totals: CostTotals; indent?: boolean }> =
+    view === 'agents'
+      ? costs.byAgent.map((a) => ({
+          key: a.agentId,
+          label: agentNames?.get(a.agentId) || a.agentId,
+          totals: a,
+        }))
+      : view === 'tasks'
+        ? costs.byTask.map((t) => ({
+            key: t.taskId,
+            label: t.taskTitle || t.taskId,
+            // Tasks show their whole subtree so parents reflect sub-task spend
+            totals: t.rollup,
+            indent: !!t.parentTaskId,
+          }))
+        : costs.byModel.map((m) => ({
+            key: `${m.provider}:${m.model}`,
+            label: m.provider ? `${m.model} (${m.provider})` : m.model,
+            totals: m,
+          }));
+
+  const views: Array<{ id: View; label: string; icon: React.ReactNode }> = [
+    { id: 'agents', label: 'Agents', icon: <Bot size={14} /> },
+    { id: 'tasks', label: 'Tasks', icon: <Target size={14} /> },
+    { id: 'models', label: 'Models', icon: <Cpu size={14} /> },
+  ];
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4">
+      {/* Totals */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-green-400 to-blue-400 flex items-center justify-center">
+            <DollarSign className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">
+              {formatCost(costs.totals.estimatedCost)}
+            </h3>
+            <p className="text-xs text-gray-500">
+              {costs.totals.llmRequests} LLM calls · {formatTokens(costs.totals.promptTokens)} in ·{' '}
+              {formatTokens(costs.totals.completionTokens)} out
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {views.map((v) => (
+            <button
+              key={v.id}
+              onClick={() => setView(v.id)}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                view === v.id ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {v.icon}
+              {v.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Breakdown */}
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 mt-4">No LLM usage recorded yet.</p>
+      ) : (
+        <table className="w-full mt-4 text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 text-left">
+              <th className="font-semibold pb-2">
+                {views.find((v) => v.id === view)?.label.slice(0, -1)}
+              </th>
+              <th className="font-semibold pb-2 text-right">Calls</th>
+              <th className="font-semibold pb-2 text-right">Tokens</th>
+              <th className="font-semibold pb-2 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-gray-100">
+                <td className={`py-1.5 text-gray-800 truncate max-w-xs ${row.indent ? 'pl-4' : ''}`}>
+                  {row.label}
+                </td>
+                <td className="py-1.5 text-right text-gray-600">{row.totals.llmRequests}</td>
+                <td className="py-1.5 text-right text-gray-600">
+                  {formatTokens(row.totals.totalTokens)}
+                </td>
+                <td className="py-1.5 text-right font-medium text-gray-900">
+                  {formatCost(row.totals.estimatedCost)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
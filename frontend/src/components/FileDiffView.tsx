@@ -0,0 +1,91 @@
+/**
+ * File Diff View - Shows the change a workspace file version made
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { FileDiff } from '@mosaic/shared';
+import { getApiUrl } from '@/config/api';
+import { RotateCcw } from 'lucide-react';
+
+interface FileDiffViewProps {
+  versionId: string;
+}
+
+const lineClass = (line: string): string => {
+  if (line.startsWith('@@')) return 'text-purple-600';
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-gray-500';
+  if (line.startsWith('+')) return 'bg-green-50 text-green-800';
+  if (line.startsWith('-')) return 'bg-red-50 text-red-800';
+  return 'text-gray-700';
+};
+
+export function FileDiffView({ versionId }: FileDiffViewProps) {
+  const [diff, setDiff] = useState<FileDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restored, setRestored] = useState(false);
+
+  useEffect(() => {
+    fetchDiff();
+  }, [versionId]);
+
+  const fetchDiff = async () => {
+    try {
+      const response = await axios.get(getApiUrl(`/api/workspace/versions/${versionId}/diff`));
+      setDiff(response.data.data);
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to load diff');
+    }
+  };
+
+  const restore = async () => {
+    if (!diff || !confirm(`Restore ${diff.path} to this version?`)) return;
+
+    try {
+      await axios.post(getApiUrl(`/api/workspace/versions/${versionId}/restore`));
+      setRestored(true);
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to restore file');
+    }
+  };
+
+  if (error) return <p className="mt-3 text-sm text-red-600">{error}</p>;
+  if (!diff) return <p className="mt-3 text-sm text-gray-500">Loading diff...</p>;
+
+  return (
+    <div className="mt-3 rounded-xl bg-white/80 border border-white/60 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100 text-xs">
+        <span className="font-mono text-gray-700">
+          {diff.path} <span className="text-green-700">+{diff.additions}</span>{' '}
+          <span className="text-red-700">-{diff.deletions}</span>
+        </span>
+        <button
+          onClick={restore}
+          disabled={restored}
+          className="flex items-center gap-1 px-2 py-1 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+        >
+          <RotateCcw size={12} />
+          {restored ? 'Restored' : 'Restore this version'}
+        </button>
+      </div>
+
+      {diff.binary ? (
+        <p className="px-3 py-2 text-sm text-gray-500">Binary file changed</p>
+      ) : diff.diff === '' ? (
+        <p className="px-3 py-2 text-sm text-gray-500">No content changes</p>
+      ) : (
+        <pre className="text-xs font-mono max-h-80 overflow-auto py-1">
+          {diff.diff
+            .split('\n')
+            .filter((line, i, lines) => i < lines.length - 1 || line !== '')
+            .map((line, i) => (
+              <div key={i} className={`px-3 whitespace-pre-wrap break-all ${lineClass(line)}`}>
+                {line || ' '}
+              </div>
+            ))}
+        </pre>
+      )}
+    </div>
+  );
+}
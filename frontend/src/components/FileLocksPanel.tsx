@@ -0,0 +1,97 @@
+/**
+ * File Locks Panel - Workspace files agents currently hold locks on
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { FileLock } from '@mosaic/shared';
+import { RealtimeEvent } from '@/hooks/useWebSocket';
+import { getApiUrl } from '@/config/api';
+import { Clock, Lock, X } from 'lucide-react';
+
+interface FileLocksPanelProps {
+  realtimeEvents: RealtimeEvent[];
+}
+
+const timeLeft = (expiresAt: Date | string): string => {
+  const seconds = Math.max(0, Math.round((new Date(expiresAt).getTime() - Date.now()) / 1000));
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+export function FileLocksPanel({ realtimeEvents }: FileLocksPanelProps) {
+  const [locks, setLocks] = useState<FileLock[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLocks();
+  }, []);
+
+  useEffect(() => {
+    const latestEvent = realtimeEvents[0];
+    if (latestEvent?.type === 'file:locked' || latestEvent?.type === 'file:unlocked') {
+      fetchLocks();
+    }
+  }, [realtimeEvents]);
+
+  const fetchLocks = async () => {
+    try {
+      const response = await axios.get(getApiUrl('/api/workspace/locks'));
+      setLocks(response.data.data);
+    } catch (error) {
+      console.error('Failed to fetch file locks:', error);
+    }
+  };
+
+  const breakLock = async (lock: FileLock) => {
+    if (!confirm(`Break agent ${lock.agentId.slice(0, 8)}'s lock on ${lock.path}?`)) return;
+
+    try {
+      await axios.delete(getApiUrl(`/api/workspace/locks?path=${encodeURIComponent(lock.path)}`));
+      setError(null);
+      fetchLocks();
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to break lock');
+    }
+  };
+
+  if (locks.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-white rounded-xl border border-blue-200 p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Lock className="w-5 h-5 text-blue-500" />
+        <h3 className="text-lg font-bold text-gray-900">
+          {locks.length} locked file{locks.length === 1 ? '' : 's'}
+        </h3>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      <div className="space-y-2">
+        {locks.map((lock) => (
+          <div
+            key={lock.path}
+            className="flex items-center justify-between gap-3 rounded-lg bg-blue-50 px-3 py-2"
+          >
+            <div className="min-w-0">
+              <p className="font-mono text-sm font-semibold text-gray-900 truncate">{lock.path}</p>
+              <p className="text-xs text-gray-500">
+                Agent {lock.agentId.slice(0, 8)} · <Clock size={12} className="inline -mt-0.5" />{' '}
+                expires in {timeLeft(lock.expiresAt)}
+              </p>
+            </div>
+
+            <button
+              onClick={() => breakLock(lock)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-gray-700 hover:bg-white shrink-0"
+            >
+              <X size={14} />
+              Break lock
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * Memory Panel - An agent's memories and those other agents shared with it,
+ * with where each came from
+ */
+'use client';
+
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { MemoryEntry, MemoryScope } from '@mosaic/shared';
+import { getApiUrl } from '@/config/api';
+import { Brain, Globe, Layers, Lock, Users } from 'lucide-react';
+
+interface MemoryPanelProps {
+  agentId: string;
+}
+
+type View = 'all' | 'own' | 'shared';
+
+const SCOPES: Record<MemoryScope, { label: string; icon: React.ReactNode; className: string }> = {
+  private: { label: 'Private', icon: <Lock size={12} />, className: 'bg-gray-100 text-gray-600' },
+  session: { label: 'Session', icon: <Layers size={12} />, className: 'bg-blue-100 text-blue-700' },
+  team: { label: 'Team', icon: <Users size={12} />, className: 'bg-purple-100 text-purple-700' },
+  global: { label: 'Global', icon: <Globe size={12} />, className: 'bg-green-100 text-green-700' },
+};
+
+export function MemoryPanel({ agentId }: MemoryPanelProps) {
+  const [memories, setMemories] = useState<MemoryEntry[]>([]);
+  const [agentNames, setAgentNames] = useState<Map<string, string>>(new Map());
+  const [view, setView] = useState<View>('all');
+
+  useEffect(() => {
+    fetchMemories();
+  }, [agentId]);
+
+  const fetchMemories = async () => {
+    try {
+      const [memoriesRes, agentsRes] = await Promise.all([
+        axios.get(getApiUrl(`/api/agents/${agentId}/memory/search?visible=true&limit=50`)),
+        axios.get(getApiUrl('/api/agents')),
+      ]);
+      setMemories(memoriesRes.data.data);
+      setAgentNames(
+        new Map(
+          agentsRes.data.data.map((agent: { id: string; name: string }) => [agent.id, agent.name])
+        )
+      );
+    } catch (error) {
+      console.error('Failed to fetch memories:', error);
+    }
+  };
+
+  const shown = memories.filter((memory) =>
+    view === 'all' ? true : view === 'own' ? memory.agentId === agentId : memory.agentId !== agentId
+  );
+
+  const views: Array<{ id: View; label: string }> = [
+    { id: 'all', label: 'All' },
+    { id: 'own', label: 'Own' },
+    { id: 'shared', label: 'Shared with it' },
+  ];
+
+  return (
+    <div className="bg-gradient-to-br from-purple-50 to-blue-50 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Brain size={18} className="text-purple-600" />
+          Memories ({shown.length})
+        </h3>
+        <div className="flex items-center gap-1">
+          {views.map((v) => (
+            <button
+              key={v.id}
+              onClick={() => setView(v.id)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                view === v.id
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-600 hover:bg-white/60'
+              }`}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No memories yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {shown.map((memory) => {
+            const scope = SCOPES[memory.scope || 'private'];
+            const author =
+              memory.agentId === agentId
+                ? 'this agent'
+                : agentNames.get(memory.agentId) || memory.agentId.slice(0, 8);
+
+            return (
+              <div key={memory.id} className="bg-white rounded-lg p-3 border border-gray-200">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-semibold text-gray-900 truncate">{memory.title}</p>
+                  <span
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${scope.className}`}
+                  >
+                    {scope.icon}
+                    {scope.label}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-700 mt-1 line-clamp-3 whitespace-pre-wrap">
+                  {memory.content}
+                </p>
+                {/* Provenance: who wrote it, where, and when */}
+                <p className="text-xs text-gray-500 mt-2">
+                  {memory.type} · {memory.importance} · by {author} · session{' '}
+                  {memory.sessionId.slice(0, 8)}
+                  {memory.relatedTaskId && ` · task ${memory.relatedTaskId.slice(0, 8)}`}
+                  {memory.metadata?.consolidatedFrom &&
+                    ` · summary of ${memory.metadata.consolidatedFrom.length} memories`}{' '}
+                  · {new Date(memory.createdAt).toLocaleString()}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
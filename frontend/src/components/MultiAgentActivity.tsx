@@ -9,6 +9,7 @@ import { formatDistanceToNow, format, isSameDay, addDays, subDays } from 'date-f
 import axios from 'axios';
 import { RealtimeEvent } from '@/hooks/useWebSocket';
 import { getApiUrl } from '@/config/api';
+import { CostPanel } from './CostPanel';
 import {
   Activity,
   Bot,
@@ -46,6 +47,7 @@ interface AgentInfo {
   id: string;
   name: string;
   status: string;
+  sessionId?: string;
 }
 
 interface MultiAgentActivityProps {
@@ -110,6 +112,7 @@ export function MultiAgentActivity({ realtimeEvents, initialAgentId, initialTask
           id: agent.id,
           name: agent.name,
           status: agent.status,
+          sessionId: agent.sessionId,
         });
       });
       setAgents(agentMap);
@@ -249,6 +252,7 @@ export function MultiAgentActivity({ realtimeEvents, initialAgentId, initialTask
   };
 
   const isToday = isSameDay(selectedDate, new Date());
+  const selectedSessionId = selectedAgentId ? agents.get(selectedAgentId)?.sessionId : undefined;
 
   return (
     <div className="space-y-4">
@@ -420,6 +424,15 @@ export function MultiAgentActivity({ realtimeEvents, initialAgentId, initialTask
         </div>
       </div>
 
+      {/* Spend for the selected agent's session */}
+      {selectedSessionId && (
+        <CostPanel
+          sessionId={selectedSessionId}
+          realtimeEvents={realtimeEvents}
+          agentNames={new Map(Array.from(agents.values()).map((a) => [a.id, a.name]))}
+        />
+      )}
+
       {/* Activity Feed - Chat Style */}
       {loading ? (
         <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
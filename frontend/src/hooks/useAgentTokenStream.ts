@@ -0,0 +1,70 @@
+/**
+ * Agent Token Stream Hook - Live partial output from a running agent
+ */
+import { useCallback, useEffect, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+import type { EventMeta } from './useWebSocket';
+
+export interface AgentTokenEvent {
+  agentId: string;
+  taskId?: string;
+  runId: string;
+  token: string;
+}
+
+// Events after which the agent's partial output is stale
+const RUN_END_EVENTS = ['agent:completed', 'agent:error', 'agent:stopped'];
+
+/**
+ * Subscribe to `agent:token` events for one agent (optionally one task) on
+ * the dashboard's socket from useWebSocket
+ * Tokens are accumulated per LLM run; a new run starts a fresh partial
+ * message, so the returned text always reflects the step in progress. The
+ * text is cleared when the agent completes, fails, or stops.
+ */
+export function useAgentTokenStream(socket: Socket | null, agentId: string, taskId?: string) {
+  const [partial, setPartial] = useState('');
+
+  useEffect(() => {
+    if (!socket) return;
+    let currentRunId: string | null = null;
+
+    const subscribe = () => socket.emit('agent:subscribe', { agentId, taskId });
+
+    const onToken = (event: AgentTokenEvent) => {
+      if (event.agentId !== agentId) return;
+      if (taskId && event.taskId !== taskId) return;
+
+      if (event.runId !== currentRunId) {
+        currentRunId = event.runId;
+        setPartial(event.token);
+      } else {
+        setPartial((prev) => prev + event.token);
+      }
+    };
+
+    const onRunEnd = (_data: unknown, meta?: EventMeta) => {
+      if (meta?.source !== agentId) return;
+      currentRunId = null;
+      setPartial('');
+    };
+
+    // Rooms are per connection, so join again after a reconnect
+    if (socket.connected) subscribe();
+    socket.on('connect', subscribe);
+    socket.on('agent:token', onToken);
+    RUN_END_EVENTS.forEach((event) => socket.on(event, onRunEnd));
+
+    return () => {
+      socket.emit('agent:unsubscribe', { agentId, taskId });
+      socket.off('connect', subscribe);
+      socket.off('agent:token', onToken);
+      RUN_END_EVENTS.forEach((event) => socket.off(event, onRunEnd));
+      setPartial('');
+    };
+  }, [socket, agentId, taskId]);
+
+  const reset = useCallback(() => setPartial(''), []);
+
+  return { partial, reset };
+}
@@ -9,21 +9,39 @@ export interface RealtimeEvent {
   type: string;
   timestamp: string;
   data: any;
+  seq?: number;
+  source?: string;
 }
 
+export interface EventMeta {
+  seq?: number;
+  source?: string; // Publisher of the event, e.g. the agent ID for agent events
+  replayed?: boolean;
+}
+
+// Sequence numbers remembered for dropping events received twice (live and replayed)
+const MAX_SEEN_SEQS = 1000;
+
 export function useWebSocket(url: string = API_CONFIG.wsURL) {
   const [isConnected, setIsConnected] = useState(false);
   const [events, setEvents] = useState<RealtimeEvent[]>([]);
-  const socketRef = useRef<Socket | null>(null);
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const lastSeqRef = useRef(0);
+  const seenSeqsRef = useRef(new Set<number>());
 
   useEffect(() => {
     // Connect to WebSocket
     const socket = io(url);
-    socketRef.current = socket;
+    setSocket(socket);
 
     socket.on('connect', () => {
       console.log('WebSocket connected');
       setIsConnected(true);
+
+      // Catch up on events missed while disconnected
+      if (lastSeqRef.current > 0) {
+        socket.emit('events:replay', { since: lastSeqRef.current });
+      }
     });
 
     socket.on('disconnect', () => {
@@ -36,55 +54,90 @@ export function useWebSocket(url: string = API_CONFIG.wsURL) {
     });
 
     // Task events
-    socket.on('task:created', (data) => {
-      addEvent('task:created', data);
+    socket.on('task:created', (data, meta) => {
+      addEvent('task:created', data, meta);
     });
 
-    socket.on('task:updated', (data) => {
-      addEvent('task:updated', data);
+    socket.on('task:updated', (data, meta) => {
+      addEvent('task:updated', data, meta);
     });
 
     // Agent events
-    socket.on('agent:started', (data) => {
-      addEvent('agent:started', data);
+    socket.on('agent:started', (data, meta) => {
+      addEvent('agent:started', data, meta);
     });
 
-    socket.on('agent:stopped', (data) => {
-      addEvent('agent:stopped', data);
+    socket.on('agent:stopped', (data, meta) => {
+      addEvent('agent:stopped', data, meta);
     });
 
-    socket.on('agent:progress', (data) => {
-      addEvent('agent:progress', data);
+    socket.on('agent:progress', (data, meta) => {
+      addEvent('agent:progress', data, meta);
     });
 
-    socket.on('agent:error', (data) => {
-      addEvent('agent:error', data);
+    socket.on('agent:error', (data, meta) => {
+      addEvent('agent:error', data, meta);
     });
 
-    socket.on('agent:completed', (data) => {
-      addEvent('agent:completed', data);
+    socket.on('agent:completed', (data, meta) => {
+      addEvent('agent:completed', data, meta);
     });
 
     // Action events
-    socket.on('action:recorded', (data) => {
-      addEvent('action:recorded', data);
+    socket.on('action:recorded', (data, meta) => {
+      addEvent('action:recorded', data, meta);
     });
 
-    socket.on('action:completed', (data) => {
-      addEvent('action:completed', data);
+    socket.on('action:completed', (data, meta) => {
+      addEvent('action:completed', data, meta);
+    });
+
+    // LLM usage events (token and cost accounting, not shown in the timeline)
+    socket.on('llm:usage', (data, meta) => {
+      addEvent('llm:usage', data, meta);
     });
 
     // Screenshot events
-    socket.on('screenshot:captured', (data) => {
-      addEvent('screenshot:captured', data);
+    socket.on('screenshot:captured', (data, meta) => {
+      addEvent('screenshot:captured', data, meta);
+    });
+
+    // Approval events
+    socket.on('approval:requested', (data, meta) => {
+      addEvent('approval:requested', data, meta);
     });
 
-    function addEvent(type: string, data: any) {
+    socket.on('approval:resolved', (data, meta) => {
+      addEvent('approval:resolved', data, meta);
+    });
+
+    socket.on('file:locked', (data, meta) => {
+      addEvent('file:locked', data, meta);
+    });
+
+    socket.on('file:unlocked', (data, meta) => {
+      addEvent('file:unlocked', data, meta);
+    });
+
+    function addEvent(type: string, data: any, meta?: EventMeta) {
+      if (meta?.seq) {
+        const seen = seenSeqsRef.current;
+        if (seen.has(meta.seq)) return;
+
+        seen.add(meta.seq);
+        if (seen.size > MAX_SEEN_SEQS) {
+          seen.delete(seen.values().next().value!);
+        }
+        lastSeqRef.current = Math.max(lastSeqRef.current, meta.seq);
+      }
+
       setEvents((prev) => [
         {
           type,
           timestamp: new Date().toISOString(),
           data,
+          seq: meta?.seq,
+          source: meta?.source,
         },
         ...prev.slice(0, 99), // Keep last 100 events
       ]);
@@ -93,12 +146,14 @@ export function useWebSocket(url: string = API_CONFIG.wsURL) {
     // Cleanup
     return () => {
       socket.disconnect();
+      setSocket(null);
     };
   }, [url]);
 
+  // Shared with hooks that listen for more events (e.g. useAgentTokenStream)
   return {
     isConnected,
     events,
-    socket: socketRef.current,
+    socket,
   };
 }
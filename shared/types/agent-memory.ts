@@ -22,6 +22,15 @@ export type MemoryType =
  */
 export type MemoryImportance = 'critical' | 'high' | 'medium' | 'low';
 
+/**
+ * Who can read a memory entry besides the agent that wrote it:
+ * - private: no one
+ * - session: agents working in the same session
+ * - team: agents in the same multi-agent group
+ * - global: every agent
+ */
+export type MemoryScope = 'private' | 'session' | 'team' | 'global';
+
 /**
  * A single memory entry
  */
@@ -39,6 +48,10 @@ export interface MemoryEntry {
   createdAt: Date;
   updatedAt: Date;
   expiresAt?: Date; // For temporary memories
+  archivedAt?: Date; // Set when consolidated into a summary; left out of queries
+  consolidatedInto?: string; // ID of the learning that summarizes this entry
+  scope?: MemoryScope; // Default: private
+  teamId?: string; // Group the entry is shared with (team scope)
 }
 
 /**
@@ -53,6 +66,7 @@ export interface CreateMemoryRequest {
   tags?: string[];
   relatedTaskId?: string;
   expiresAt?: Date;
+  scope?: MemoryScope; // Default: private; team uses the agent's multi-agent group
 }
 
 /**
@@ -79,10 +93,77 @@ export interface MemoryQuery {
   tags?: string[];
   relatedTaskId?: string;
   search?: string; // Text search in title/content
+  searchMode?: MemorySearchMode; // How search matches (default: hybrid)
+  includeArchived?: boolean; // Include consolidated entries (default: false)
+  scope?: MemoryScope;
+  visibleTo?: MemoryReader; // Entries of the reader plus those shared with it
   limit?: number;
   offset?: number;
 }
 
+/**
+ * Agent reading memories: its own entries, and the entries of others shared
+ * in a scope it may read
+ */
+export interface MemoryReader {
+  agentId: string;
+  sessionId?: string; // For session entries
+  teamId?: string; // For team entries
+  scopes: MemoryScope[]; // Shared scopes it reads
+}
+
+/**
+ * How a memory search matches entries:
+ * - keyword: title/content contain the search text
+ * - semantic: ranked by embedding similarity to the search text
+ * - hybrid: ranked by keyword overlap and embedding similarity combined
+ */
+export type MemorySearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+/**
+ * Memory entry returned by a ranked search
+ */
+export interface ScoredMemoryEntry extends MemoryEntry {
+  score: number; // 0-1, what results are ordered by
+  keywordScore: number; // Share of search terms the entry contains
+  semanticScore: number; // Cosine similarity of the embeddings
+}
+
+/**
+ * Options for a memory consolidation run
+ */
+export interface ConsolidationOptions {
+  agentId?: string; // Default: all agents
+  dryRun?: boolean; // Report what would change without changing anything
+}
+
+/**
+ * Old entries of one agent and task, summarized into one learning
+ */
+export interface ConsolidationGroup {
+  agentId: string;
+  relatedTaskId?: string;
+  memoryIds: string[];
+  summaryId?: string; // The learning created (not set in dry runs)
+  error?: string; // Why the group was left as it is
+}
+
+/**
+ * Importance lowered because an entry wasn't updated for a while
+ */
+export interface ImportanceDecay {
+  memoryId: string;
+  from: MemoryImportance;
+  to: MemoryImportance;
+}
+
+export interface ConsolidationResult {
+  dryRun: boolean;
+  decayed: ImportanceDecay[];
+  groups: ConsolidationGroup[];
+  archived: number; // Entries archived into summaries
+}
+
 /**
  * Agent's working memory snapshot
  */
@@ -0,0 +1,43 @@
+/**
+ * Human-in-the-Loop Approvals
+ *
+ * Sensitive tool calls listed in an agent's approval policy pause until an
+ * operator approves, denies, or edits them, or the request times out.
+ */
+
+/**
+ * Per-agent list of tool calls that need operator approval
+ */
+export interface ApprovalPolicy {
+  // "server.tool" names, "server.*", or agent built-ins such as "execute_python"
+  tools: string[];
+  timeoutMs?: number; // default 5 minutes
+  defaultAction?: 'approve' | 'deny'; // applied on timeout, default deny
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+export type ApprovalDecision = 'approve' | 'deny' | 'edit';
+
+export interface ApprovalRequest {
+  id: string;
+  agentId: string;
+  sessionId?: string;
+  taskId?: string;
+
+  // The call awaiting approval
+  tool: string;
+  params: any;
+
+  status: ApprovalStatus;
+  createdAt: Date;
+  expiresAt: Date;
+  defaultAction: 'approve' | 'deny';
+
+  // Resolution
+  decision?: ApprovalDecision;
+  resolvedParams?: any; // Params the call runs with after an edit
+  resolvedBy?: string;
+  reason?: string;
+  resolvedAt?: Date;
+}
@@ -4,6 +4,8 @@
  */
 
 import { Task, TaskResult } from './task-hierarchy';
+import { ApprovalPolicy } from './approvals';
+import { MemoryScope } from './agent-memory';
 
 // ============================================================================
 // Core Plugin System
@@ -121,6 +123,7 @@ export interface AgentConfig {
   systemPrompt?: string;
   tools?: string[]; // MCP server names
   permissions?: AgentPermissions;
+  approvalPolicy?: ApprovalPolicy;
   metadata?: Record<string, any>;
 }
 
@@ -129,20 +132,24 @@ export interface AgentPermissions {
     read?: boolean;
     write?: boolean;
     delete?: boolean;
-    allowedPaths?: string[];
+    allowedPaths?: string[]; // Workspace-relative prefixes; omitted means the whole workspace
   };
   browser?: {
     enabled?: boolean;
-    allowedDomains?: string[];
+    allowedDomains?: string[]; // Also matches subdomains; omitted means any domain
   };
   memory?: {
     read?: boolean;
     write?: boolean;
+    scopes?: MemoryScope[]; // Shared scopes read and published to; omitted means all
   };
   agentCommunication?: {
     enabled?: boolean;
     allowedAgents?: string[];
   };
+  codeExecution?: {
+    enabled?: boolean; // Required for the local sandbox; false also turns off E2B
+  };
 }
 
 export interface AgentState {
@@ -219,11 +226,14 @@ export interface MCPServerPlugin extends Plugin {
   /** Get available prompts */
   getPrompts?(): MCPPromptDefinition[];
 
-  /** Handle tool invocation */
-  invokeTool(name: string, params: any): Promise<MCPToolResult>;
+  /** Handle tool invocation; `caller` identifies the invoking agent when known */
+  invokeTool(name: string, params: any, caller?: MCPToolCaller): Promise<MCPToolResult>;
 
   /** Handle resource read */
   readResource?(uri: string): Promise<MCPResourceContent>;
+
+  /** Render a prompt with its arguments */
+  getPrompt?(name: string, args?: Record<string, string>): Promise<MCPPromptResult>;
 }
 
 export interface MCPToolDefinition {
@@ -259,6 +269,45 @@ export interface PromptArgument {
   required: boolean;
 }
 
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+/**
+ * An external MCP server reached over stdio (a spawned command) or streamable HTTP
+ */
+export interface ExternalMCPServerConfig {
+  name: string;
+  transport: 'stdio' | 'http';
+
+  // stdio
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+
+  // http
+  url?: string;
+  headers?: Record<string, string>;
+
+  timeoutMs?: number; // Per-request timeout (default 60s)
+}
+
+/**
+ * Who is invoking a tool, passed through the permission policy to servers
+ */
+export interface MCPToolCaller {
+  agentId: string;
+  sessionId?: string;
+  taskId?: string;
+}
+
 export interface MCPToolResult {
   success: boolean;
   data?: any;
@@ -495,6 +544,8 @@ export interface SystemEvent {
   data: any;
   timestamp: string;
   metadata?: Record<string, any>;
+  /** Position in the durable event log (set for logged channels) */
+  seq?: number;
 }
 
 export type EventHandler = (event: SystemEvent) => void | Promise<void>;
@@ -594,3 +645,15 @@ export * from './agent-messages';
 // ============================================================================
 
 export * from './agent-file';
+
+// ============================================================================
+// Human-in-the-Loop Approvals
+// ============================================================================
+
+export * from './approvals';
+
+// ============================================================================
+// Workspace File History
+// ============================================================================
+
+export * from './workspace';
@@ -21,6 +21,9 @@ export type ActionType =
   | 'browser_navigation'
   | 'browser_interaction'
   | 'file_operation'
+  | 'memory_recall'
+  | 'core_memory_edit'
+  | 'memory_share'
   | 'custom';
 
 export type ActionStatus = 'started' | 'completed' | 'failed';
@@ -56,14 +59,6 @@ export interface ActionRecord {
   // Timing
   timestamp: Date;
   duration?: number; // milliseconds
-
-  // Cost tracking (for LLM calls)
-  cost?: {
-    promptTokens?: number;
-    completionTokens?: number;
-    totalTokens?: number;
-    estimatedCost?: number; // USD
-  };
 }
 
 /**
@@ -198,3 +193,33 @@ export interface SessionExport {
   exportedAt: Date;
   version: string;
 }
+
+/**
+ * Token and spend totals for a group of LLM calls
+ */
+export interface CostTotals {
+  llmRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number; // USD
+}
+
+/**
+ * LLM spend for a session, rolled up by agent, task, and model
+ */
+export interface SessionCostSummary {
+  sessionId: string;
+  totals: CostTotals;
+  byAgent: Array<CostTotals & { agentId: string }>;
+  byTask: Array<
+    CostTotals & {
+      taskId: string;
+      taskTitle?: string;
+      parentTaskId?: string;
+      // This task's own calls plus those of all its sub-tasks
+      rollup: CostTotals;
+    }
+  >;
+  byModel: Array<CostTotals & { provider?: string; model: string }>;
+}
@@ -71,6 +71,15 @@ export interface CreateTaskRequest {
   metadata?: Record<string, any>;
 }
 
+/**
+ * MCP prompt used as a template for a new task's description
+ */
+export interface TaskPromptTemplate {
+  server: string; // MCP server providing the prompt
+  prompt: string; // Prompt name
+  arguments?: Record<string, string>;
+}
+
 /**
  * Update task status and progress
  */
@@ -101,7 +110,7 @@ export interface TaskDecomposition {
     description: string;
     priority: TaskPriority;
     estimatedSteps?: number;
-    dependencies?: string[]; // IDs of tasks that must complete first
+    dependencies?: string[]; // IDs, titles, or 1-based indices of sibling tasks that must complete first
   }>;
 }
 
@@ -116,6 +125,8 @@ export interface TaskQuery {
   tags?: string[];
   priority?: TaskPriority[];
   includeChildren?: boolean;
+  unassigned?: boolean; // Only tasks with no assignee
+  capabilities?: string[]; // Only tasks whose metadata.requiredCapabilities are all covered
 }
 
 /**
@@ -126,3 +137,25 @@ export interface TaskTree {
   children: TaskTree[];
   depth: number;
 }
+
+/**
+ * Time-limited claim on a task
+ * Stored in task.metadata.lease; the holder must heartbeat before expiresAt
+ * or the task is released back to the open pool.
+ */
+export interface TaskLease {
+  agentId: string;
+  claimedAt: string;
+  heartbeatAt: string;
+  expiresAt: string;
+  durationMs: number;
+}
+
+/**
+ * Request to claim an open task
+ */
+export interface ClaimTaskRequest {
+  taskId: string;
+  agentId: string;
+  leaseMs?: number;
+}
@@ -0,0 +1,53 @@
+/**
+ * Workspace File History
+ *
+ * Every change agents make through the filesystem MCP server is recorded as
+ * a FileVersion. File contents live in a content-addressed store keyed by
+ * SHA-256, so versions only reference hashes.
+ */
+
+export type FileOperation = 'write' | 'edit' | 'delete' | 'move' | 'copy' | 'restore';
+
+export interface FileVersion {
+  id: string;
+  path: string; // Workspace-relative path the change applies to
+  previousPath?: string; // Source of a move or copy
+  operation: FileOperation;
+
+  // Content before and after the change; undefined when the file did not exist
+  beforeHash?: string;
+  afterHash?: string;
+  size?: number; // Bytes after the change
+
+  // Attribution
+  agentId: string;
+  sessionId?: string;
+  taskId?: string;
+  actionId?: string; // The file_operation action recorded for the change
+  metadata?: Record<string, unknown>; // e.g. who an operator restore was made for
+
+  createdAt: Date;
+}
+
+export interface FileDiff {
+  path: string;
+  fromHash?: string;
+  toHash?: string;
+  binary: boolean;
+  diff: string; // Unified diff, empty for binary files
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Advisory lock an agent holds on a workspace file. While it is held, other
+ * agents' writes, edits, deletes, moves and copies of the file are refused.
+ */
+export interface FileLock {
+  path: string; // Workspace-relative path
+  agentId: string;
+  sessionId?: string;
+  taskId?: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+}